@@ -0,0 +1,65 @@
+/**
+ * Service worker for Web Push notifications
+ * Shows pushed notifications while the app is closed and opens their actionUrl when clicked.
+ *
+ * Expected push payload (JSON):
+ * { "title": string, "message": string, "priority"?: string, "actionUrl"?: string, "id"?: string }
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'AlphaOptimize', message: event.data.text() };
+  }
+
+  const urgent = payload.priority === 'urgent' || payload.priority === 'high';
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'AlphaOptimize', {
+      body: payload.message || '',
+      // Notifications with the same tag replace each other instead of stacking
+      tag: payload.id || undefined,
+      requireInteraction: urgent,
+      data: {
+        actionUrl: payload.actionUrl || '/dashboard',
+      },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const targetUrl = new URL(event.notification.data?.actionUrl || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    // Only tabs this worker controls can be navigated, so uncontrolled ones are left out
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      const appClients = clients.filter((client) => new URL(client.url).origin === self.location.origin);
+
+      // Focus a tab already showing the target, otherwise reuse an open tab of the app
+      const existing = appClients.find((client) => client.url === targetUrl);
+      if (existing) {
+        return existing.focus();
+      }
+      const client = appClients[0];
+      if (client) {
+        return client.navigate(targetUrl)
+          .then((navigated) => (navigated || client).focus())
+          .catch(() => self.clients.openWindow(targetUrl));
+      }
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
@@ -0,0 +1,13 @@
+import React from 'react';
+import { Metadata } from 'next';
+import AlertHistoryPage from '../../../../components/alerts/AlertHistoryPage';
+
+export const metadata: Metadata = {
+  title: 'Alert History - AlphaOptimize',
+  description: 'Review when your alerts triggered and how they were resolved',
+};
+
+export default async function AlertHistory({ searchParams }: { searchParams: Promise<{ rule?: string }> }) {
+  const { rule } = await searchParams;
+  return <AlertHistoryPage initialRuleId={rule} />;
+}
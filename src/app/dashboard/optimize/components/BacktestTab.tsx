@@ -0,0 +1,349 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { OptimizationResults } from '@/store/optimizationSlice';
+import {
+  fetchAssetClasses,
+  selectHoldingWeights,
+  selectTargetHoldingWeights,
+} from '@/store/portfolioSlice';
+import { riskApi, HistoricalPrices } from '@/services/api';
+import {
+  runBacktest,
+  normalizeSeries,
+  calculateBacktestMetrics,
+  BacktestMetrics,
+  RebalanceRule,
+} from '@/utils/backtest';
+import { parseRatePreference } from '@/utils/calculations';
+import { formatCurrency } from '@/utils/formatters';
+import { AlertTriangle } from 'lucide-react';
+
+const INITIAL_VALUE = 10000;
+
+const WINDOW_OPTIONS: Record<string, { label: string; years: number }> = {
+  '1Y': { label: '1 Year', years: 1 },
+  '3Y': { label: '3 Years', years: 3 },
+  '5Y': { label: '5 Years', years: 5 },
+  '10Y': { label: '10 Years', years: 10 },
+};
+
+type RebalanceOption = 'none' | 'monthly' | 'quarterly' | 'annually' | 'threshold';
+
+const SERIES_COLORS = {
+  optimized: '#0088FE',
+  target: '#00C49F',
+  benchmark: '#888888',
+};
+
+interface BacktestTabProps {
+  results: OptimizationResults;
+}
+
+interface StrategyRun {
+  key: keyof typeof SERIES_COLORS;
+  name: string;
+  values: number[];
+  metrics: BacktestMetrics;
+  rebalanceCount?: number;
+}
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Backtest mode: replays the optimized allocation and the current target allocation
+ * over a historical window and compares them with the preferred benchmark.
+ */
+export function BacktestTab({ results }: BacktestTabProps) {
+  const dispatch = useAppDispatch();
+  const holdingWeights = useAppSelector(selectHoldingWeights);
+  const targetWeights = useAppSelector(selectTargetHoldingWeights);
+  const activePortfolioId = useAppSelector((state) => state.portfolio.activePortfolioId);
+  const marketRegion = useAppSelector((state) => state.preferences.marketRegion);
+
+  const [windowKey, setWindowKey] = useState('5Y');
+  const [rebalanceOption, setRebalanceOption] = useState<RebalanceOption>('quarterly');
+  const [thresholdPercent, setThresholdPercent] = useState(5);
+  const [history, setHistory] = useState<HistoricalPrices | null>(null);
+  // Symbols the loaded history was fetched for, as a sorted comma-separated key
+  const [historySymbolsKey, setHistorySymbolsKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Asset class targets are needed to express the target allocation as symbol weights
+  useEffect(() => {
+    dispatch(fetchAssetClasses());
+  }, [dispatch, activePortfolioId]);
+
+  const optimizedWeights = useMemo(() => {
+    const weights: Record<string, number> = {};
+    results.scenarios[0]?.allocation.forEach(({ name, value }) => {
+      weights[name] = value / 100;
+    });
+    return weights;
+  }, [results]);
+
+  // Without saved targets the current holdings weights are the baseline
+  const baselineWeights = targetWeights ?? holdingWeights;
+  const baselineName = targetWeights ? 'Current Target' : 'Current Holdings';
+
+  const rule: RebalanceRule = rebalanceOption === 'none'
+    ? { type: 'none' }
+    : rebalanceOption === 'threshold'
+      ? { type: 'threshold', thresholdPercent }
+      : { type: 'periodic', frequency: rebalanceOption };
+
+  const symbols = useMemo(
+    () => Array.from(new Set([...Object.keys(optimizedWeights), ...Object.keys(baselineWeights)])).sort(),
+    [optimizedWeights, baselineWeights]
+  );
+  const symbolsKey = symbols.join(',');
+
+  const runHistory = useCallback(async () => {
+    if (symbols.length === 0) return;
+
+    const end = new Date();
+    const start = new Date(end);
+    start.setFullYear(end.getFullYear() - WINDOW_OPTIONS[windowKey].years);
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await riskApi.getHistoricalPrices({
+        symbols,
+        start_date: toIsoDate(start),
+        end_date: toIsoDate(end),
+        benchmark: marketRegion.default_benchmark,
+        risk_free_rate_series: parseRatePreference(marketRegion.riskFreeRate) === null ? marketRegion.riskFreeRate : undefined,
+      });
+      setHistory(response);
+      setHistorySymbolsKey(symbols.join(','));
+    } catch (err) {
+      console.error('Backtest history fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load historical prices');
+    } finally {
+      setLoading(false);
+    }
+  }, [symbols, windowKey, marketRegion.default_benchmark, marketRegion.riskFreeRate]);
+
+  // A new optimization can bring in symbols the loaded history doesn't cover; reload it
+  // rather than dropping them as missing and comparing a different portfolio
+  const historyIsStale = history !== null && historySymbolsKey !== symbolsKey;
+  useEffect(() => {
+    if (historyIsStale && !loading && !error) {
+      runHistory();
+    }
+  }, [historyIsStale, loading, error, runHistory]);
+
+  // Replaying is cheap, so rules are re-applied locally without refetching prices
+  const runs = useMemo<{ strategies: StrategyRun[]; missingSymbols: string[]; chartData: Record<string, number | string>[] } | null>(() => {
+    if (!history || historyIsStale || history.dates.length < 2) return null;
+
+    const riskFreeRate = parseRatePreference(marketRegion.riskFreeRate) ?? history.riskFreeRate ?? 0;
+    const optimized = runBacktest(history.dates, history.prices, optimizedWeights, rule, INITIAL_VALUE);
+    const baseline = runBacktest(history.dates, history.prices, baselineWeights, rule, INITIAL_VALUE);
+
+    const strategies: StrategyRun[] = [
+      {
+        key: 'optimized',
+        name: results.scenarios[0]?.name ?? 'Optimized',
+        values: optimized.values,
+        metrics: calculateBacktestMetrics(history.dates, optimized.values, riskFreeRate),
+        rebalanceCount: optimized.rebalanceDates.length,
+      },
+      {
+        key: 'target',
+        name: baselineName,
+        values: baseline.values,
+        metrics: calculateBacktestMetrics(history.dates, baseline.values, riskFreeRate),
+        rebalanceCount: baseline.rebalanceDates.length,
+      },
+    ];
+
+    const benchmarkValues = history.benchmark ? normalizeSeries(history.benchmark.prices, INITIAL_VALUE) : [];
+    if (benchmarkValues.length === history.dates.length) {
+      strategies.push({
+        key: 'benchmark',
+        name: history.benchmark?.name || marketRegion.default_benchmark,
+        values: benchmarkValues,
+        metrics: calculateBacktestMetrics(history.dates, benchmarkValues, riskFreeRate),
+      });
+    }
+
+    const chartData = history.dates.map((date, i) => {
+      const point: Record<string, number | string> = { date };
+      strategies.forEach(strategy => {
+        point[strategy.key] = strategy.values[i];
+      });
+      return point;
+    });
+
+    return {
+      strategies,
+      missingSymbols: Array.from(new Set([...optimized.missingSymbols, ...baseline.missingSymbols])),
+      chartData,
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history, historyIsStale, optimizedWeights, baselineWeights, rebalanceOption, thresholdPercent, marketRegion.riskFreeRate]);
+
+  const optimizedRun = runs?.strategies.find(s => s.key === 'optimized');
+  const baselineRun = runs?.strategies.find(s => s.key === 'target');
+  const cagrEdge = optimizedRun && baselineRun ? optimizedRun.metrics.cagr - baselineRun.metrics.cagr : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backtest</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Window</Label>
+            <Select value={windowKey} onValueChange={setWindowKey}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(WINDOW_OPTIONS).map(([key, option]) => (
+                  <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Rebalancing</Label>
+            <Select value={rebalanceOption} onValueChange={(value) => setRebalanceOption(value as RebalanceOption)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Buy and hold</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+                <SelectItem value="quarterly">Quarterly</SelectItem>
+                <SelectItem value="annually">Annually</SelectItem>
+                <SelectItem value="threshold">Drift threshold</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {rebalanceOption === 'threshold' && (
+            <div className="space-y-2">
+              <Label htmlFor="backtest-threshold">Threshold (%)</Label>
+              <Input
+                id="backtest-threshold"
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={thresholdPercent}
+                onChange={(e) => {
+                  const parsed = parseFloat(e.target.value);
+                  setThresholdPercent(Number.isNaN(parsed) ? 5 : Math.max(0.5, parsed));
+                }}
+              />
+            </div>
+          )}
+          <Button onClick={runHistory} disabled={loading}>
+            {loading ? 'Loading history...' : history ? 'Reload History' : 'Run Backtest'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {runs && (
+          <>
+            {runs.missingSymbols.length > 0 && (
+              <p className="text-sm text-amber-600 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                No price history for {runs.missingSymbols.join(', ')} - weights were rescaled across the remaining symbols.
+              </p>
+            )}
+
+            <ResponsiveContainer width="100%" height={320}>
+              <LineChart data={runs.chartData} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                <XAxis dataKey="date" tickFormatter={(date) => new Date(date).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })} minTickGap={40} />
+                <YAxis tickFormatter={(value) => formatCurrency(value).replace(/\.\d+$/, '')} width={80} />
+                <Tooltip
+                  labelFormatter={(date) => new Date(date).toLocaleDateString()}
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                />
+                <Legend />
+                {runs.strategies.map((strategy) => (
+                  <Line
+                    key={strategy.key}
+                    dataKey={strategy.key}
+                    name={strategy.name}
+                    stroke={SERIES_COLORS[strategy.key]}
+                    strokeDasharray={strategy.key === 'benchmark' ? '4 4' : undefined}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead className="text-right">Total Return</TableHead>
+                  <TableHead className="text-right">CAGR</TableHead>
+                  <TableHead className="text-right">Volatility</TableHead>
+                  <TableHead className="text-right">Sharpe</TableHead>
+                  <TableHead className="text-right">Max Drawdown</TableHead>
+                  <TableHead className="text-right">Rebalances</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.strategies.map((strategy) => (
+                  <TableRow key={strategy.key}>
+                    <TableCell className="font-medium">{strategy.name}</TableCell>
+                    <TableCell className="text-right">{formatPct(strategy.metrics.totalReturn)}</TableCell>
+                    <TableCell className="text-right">{formatPct(strategy.metrics.cagr)}</TableCell>
+                    <TableCell className="text-right">{formatPct(strategy.metrics.volatility)}</TableCell>
+                    <TableCell className="text-right">{strategy.metrics.sharpeRatio.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{formatPct(-strategy.metrics.maxDrawdown)}</TableCell>
+                    <TableCell className="text-right">{strategy.rebalanceCount ?? '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {cagrEdge !== null && optimizedRun && baselineRun && (
+              <p className="text-sm">
+                {cagrEdge >= 0 ? (
+                  <>The optimized allocation <span className="font-semibold text-green-600">beat</span></>
+                ) : (
+                  <>The optimized allocation <span className="font-semibold text-red-600">trailed</span></>
+                )}{' '}
+                the {baselineName.toLowerCase()} by {formatPct(Math.abs(cagrEdge))} per year
+                {optimizedRun.metrics.sharpeRatio >= baselineRun.metrics.sharpeRatio
+                  ? ' with a higher Sharpe ratio.'
+                  : ' with a lower Sharpe ratio.'}
+              </p>
+            )}
+          </>
+        )}
+
+        {!runs && !loading && !error && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Run a backtest to compare the optimized allocation with your current target over a historical window.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
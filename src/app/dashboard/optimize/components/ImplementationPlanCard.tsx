@@ -0,0 +1,410 @@
+import React, { Fragment, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  selectStrategy,
+  clearSelectedStrategy,
+  updateTradeOptions,
+  setLotSelectionMethod,
+  setSpecificLots,
+  Trade,
+} from '@/store/optimizationSlice';
+import { getHoldingMarketValue, selectHoldings, selectActivePortfolio } from '@/store/portfolioSlice';
+import { portfolioApi } from '@/services/api';
+import { useMarketData } from '@/services/marketData';
+import { RebalancePosition } from '@/utils/rebalancing';
+import { LOT_SELECTION_LABELS, LotSelectionMethod } from '@/utils/taxLots';
+import { PortfolioType } from '@/types/portfolio';
+import { TaxLot } from '@/types/tax';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { ArrowRightLeft, AlertTriangle } from 'lucide-react';
+
+// Sales inside these accounts do not realize taxable gains
+const TAX_ADVANTAGED_TYPES: PortfolioType[] = ['ira', 'roth_ira', '401k'];
+
+interface ImplementationPlanCardProps {
+  scenarioName: string;
+}
+
+const NumberOption = ({
+  id,
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        onChange(Number.isNaN(parsed) ? 0 : Math.max(0, parsed));
+      }}
+    />
+  </div>
+);
+
+/**
+ * Lots sold for a sell trade. With specific-ID selection every open lot is listed
+ * with a checkbox; checked lots are sold first.
+ */
+const LotBreakdown = ({
+  symbol,
+  trade,
+  lots,
+  selectable,
+  selectedLotIds,
+  onToggle,
+}: {
+  symbol: string;
+  trade: Trade;
+  lots: TaxLot[];
+  selectable: boolean;
+  selectedLotIds: string[];
+  onToggle: (symbol: string, lotId: string, checked: boolean) => void;
+}) => {
+  const soldByLot = new Map((trade.lotSales ?? []).map(sale => [sale.lotId, sale]));
+  const rows = selectable ? lots : lots.filter(lot => soldByLot.has(lot.lotId));
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">No lot data available for {symbol}</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {rows.map((lot) => {
+        const sale = soldByLot.get(lot.lotId);
+        return (
+          <div key={lot.lotId} className="flex items-center gap-4">
+            {selectable && (
+              <input
+                type="checkbox"
+                checked={selectedLotIds.includes(lot.lotId)}
+                onChange={(e) => onToggle(symbol, lot.lotId, e.target.checked)}
+                aria-label={`Sell lot ${lot.lotId}`}
+              />
+            )}
+            <span className="w-24">{formatDate(lot.purchaseDate)}</span>
+            <span className="w-32">{lot.quantity} @ {formatCurrency(lot.costBasisPerShare)}</span>
+            {sale ? (
+              <span>
+                Sell {sale.shares} ({sale.isLongTerm ? 'long-term' : 'short-term'}):
+                gain {formatCurrency(sale.realizedGain)}, tax {formatCurrency(sale.estimatedTax)}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Not sold</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Implementation plan for an optimized scenario: the share trades needed to move
+ * the active portfolio's holdings to the scenario weights.
+ */
+export function ImplementationPlanCard({ scenarioName }: ImplementationPlanCardProps) {
+  const dispatch = useAppDispatch();
+  const {
+    selectedStrategy,
+    tradeOptions,
+    results,
+    candidateSymbols,
+    lotSelectionMethod,
+    specificLotIds,
+  } = useAppSelector((state) => state.optimization);
+  const holdings = useAppSelector(selectHoldings);
+  const activePortfolio = useAppSelector(selectActivePortfolio);
+  const taxSettings = useAppSelector((state) => state.preferences.tax);
+  const [lots, setLots] = useState<TaxLot[]>([]);
+
+  const taxAdvantaged = Boolean(activePortfolio?.portfolioType && TAX_ADVANTAGED_TYPES.includes(activePortfolio.portfolioType));
+
+  // Lot data drives lot selection and the realized gain estimate for sells
+  useEffect(() => {
+    let cancelled = false;
+    portfolioApi.getTaxLots(activePortfolio?.id)
+      .then(response => {
+        if (!cancelled) setLots(response);
+      })
+      .catch(error => {
+        console.error('Tax lots fetch error:', error);
+        if (!cancelled) setLots([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activePortfolio?.id]);
+
+  // Candidates are not held, so their prices come from the live quote stream
+  const { getSymbolData } = useMarketData(candidateSymbols);
+
+  const { positions, cash } = useMemo(() => {
+    const securityPositions: RebalancePosition[] = [];
+    let cashBalance = 0;
+    holdings.forEach(holding => {
+      const value = getHoldingMarketValue(holding);
+      if (holding.symbol === 'CASH') {
+        cashBalance += value;
+        return;
+      }
+      const shares = parseFloat(holding.shares || '0');
+      securityPositions.push({
+        symbol: holding.symbol,
+        shares,
+        price: shares > 0 ? value / shares : 0,
+      });
+    });
+    return { positions: securityPositions, cash: cashBalance };
+  }, [holdings]);
+
+  const generateTrades = () => {
+    const prices: Record<string, number> = {};
+    candidateSymbols.forEach(symbol => {
+      const quote = getSymbolData(symbol);
+      if (quote?.price) prices[symbol] = quote.price;
+    });
+    dispatch(selectStrategy({
+      scenarioName,
+      positions,
+      cash,
+      prices,
+      lots,
+      taxRates: {
+        shortTerm: taxSettings.shortTermCapitalGainsTax / 100,
+        longTerm: taxSettings.longTermCapitalGainsTax / 100,
+      },
+      taxAdvantaged,
+    }));
+  };
+
+  // Keep an existing plan in sync with new results, holdings, lots and trade options
+  useEffect(() => {
+    if (selectedStrategy?.scenarioName === scenarioName) {
+      generateTrades();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tradeOptions, results, positions, cash, lots, lotSelectionMethod, specificLotIds, taxSettings, taxAdvantaged]);
+
+  const toggleSpecificLot = (symbol: string, lotId: string, checked: boolean) => {
+    const current = specificLotIds[symbol] ?? [];
+    dispatch(setSpecificLots({
+      symbol,
+      lotIds: checked ? [...current, lotId] : current.filter(id => id !== lotId),
+    }));
+  };
+
+  const plan = selectedStrategy?.scenarioName === scenarioName ? selectedStrategy.implementationPlan : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Implementation Plan
+        </CardTitle>
+        <div className="flex gap-2">
+          {plan && (
+            <Button variant="outline" size="sm" onClick={() => dispatch(clearSelectedStrategy())}>
+              Clear
+            </Button>
+          )}
+          <Button size="sm" onClick={generateTrades} disabled={holdings.length === 0}>
+            {plan ? 'Regenerate Trades' : 'Generate Trades'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <NumberOption
+            id="min-trade-value"
+            label="Min Trade ($)"
+            value={tradeOptions.minTradeValue}
+            step={10}
+            onChange={(value) => dispatch(updateTradeOptions({ minTradeValue: value }))}
+          />
+          <NumberOption
+            id="cash-buffer"
+            label="Cash Buffer (%)"
+            value={tradeOptions.cashBufferPercent}
+            step={0.5}
+            onChange={(value) => dispatch(updateTradeOptions({ cashBufferPercent: Math.min(100, value) }))}
+          />
+          <NumberOption
+            id="commission-per-trade"
+            label="Commission / Trade ($)"
+            value={tradeOptions.commissionPerTrade}
+            step={0.5}
+            onChange={(value) => dispatch(updateTradeOptions({ commissionPerTrade: value }))}
+          />
+          <NumberOption
+            id="commission-per-share"
+            label="Commission / Share ($)"
+            value={tradeOptions.commissionPerShare}
+            step={0.005}
+            onChange={(value) => dispatch(updateTradeOptions({ commissionPerShare: value }))}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="fractional-shares"
+            checked={tradeOptions.fractionalShares}
+            onCheckedChange={(checked) => dispatch(updateTradeOptions({ fractionalShares: checked }))}
+          />
+          <Label htmlFor="fractional-shares">Allow fractional shares</Label>
+        </div>
+        <div className="space-y-2 max-w-xs">
+          <Label>Lot Selection</Label>
+          <Select
+            value={lotSelectionMethod}
+            onValueChange={(value) => dispatch(setLotSelectionMethod(value as LotSelectionMethod))}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select method" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOT_SELECTION_LABELS) as LotSelectionMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>
+                  {LOT_SELECTION_LABELS[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {plan && (
+          <>
+            {plan.unpricedSymbols.length > 0 && (
+              <p className="text-sm text-amber-600 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                No price available for {plan.unpricedSymbols.join(', ')} - these positions were skipped.
+              </p>
+            )}
+
+            {plan.trades.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                The portfolio is already within the minimum trade size of this allocation.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Weight Change</TableHead>
+                    <TableHead className="text-right">Commission</TableHead>
+                    <TableHead className="text-right">Realized Gain</TableHead>
+                    <TableHead className="text-right">Est. Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.trades.map((trade) => (
+                    <Fragment key={`${trade.action}-${trade.symbol}`}>
+                      <TableRow>
+                        <TableCell className="font-medium">{trade.symbol}</TableCell>
+                        <TableCell>
+                          <Badge variant={trade.action === 'buy' ? 'default' : 'destructive'}>
+                            {trade.action.toUpperCase()}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {trade.shares.toLocaleString(undefined, { maximumFractionDigits: tradeOptions.fractionalPrecision })}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(trade.price)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(trade.estimatedValue)}</TableCell>
+                        <TableCell className="text-right">{trade.percentage.toFixed(2)}%</TableCell>
+                        <TableCell className="text-right">{formatCurrency(trade.commission)}</TableCell>
+                        <TableCell className="text-right">
+                          {trade.realizedGain !== undefined ? formatCurrency(trade.realizedGain) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {trade.estimatedTax !== undefined ? formatCurrency(trade.estimatedTax) : '-'}
+                        </TableCell>
+                      </TableRow>
+                      {trade.action === 'sell' && (Boolean(trade.lotSales?.length) || lotSelectionMethod === 'SPECIFIC_ID') && (
+                        <TableRow>
+                          <TableCell colSpan={9} className="bg-muted/40">
+                            <LotBreakdown
+                              symbol={trade.symbol}
+                              trade={trade}
+                              lots={lots.filter(lot => lot.symbol.toUpperCase() === trade.symbol)}
+                              selectable={lotSelectionMethod === 'SPECIFIC_ID'}
+                              selectedLotIds={specificLotIds[trade.symbol] ?? []}
+                              onToggle={toggleSpecificLot}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Portfolio Value</p>
+                <p className="font-semibold">{formatCurrency(plan.portfolioValue)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Est. Commissions</p>
+                <p className="font-semibold">{formatCurrency(plan.totalCommissions)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Ending Cash</p>
+                <p className="font-semibold">{formatCurrency(plan.endingCash)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Est. Tax Cost</p>
+                <p className="font-semibold">{formatCurrency(plan.taxAnalysis.estimatedTaxCost)}</p>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {plan.taxAnalysis.expectedTaxImpact}
+              {plan.taxAnalysis.realizedGain !== 0 && (
+                <> (short-term {formatCurrency(plan.taxAnalysis.shortTermGain)}, long-term {formatCurrency(plan.taxAnalysis.longTermGain)})</>
+              )}
+            </p>
+            {plan.taxAnalysis.unmatchedShares > 0 && (
+              <p className="text-sm text-amber-600 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {plan.taxAnalysis.unmatchedShares.toLocaleString(undefined, { maximumFractionDigits: tradeOptions.fractionalPrecision })} shares
+                sold without lot data - the tax estimate is incomplete.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { OptimizationResults, ProjectionPoint, updateSimulationSettings } from '@/store/optimizationSlice';
+import { useMonteCarloSimulation } from '@/hooks/useMonteCarloSimulation';
+import { formatCurrency } from '@/utils/formatters';
+
+const ITERATION_OPTIONS = [1000, 5000, 10000, 25000];
+
+interface MonteCarloCardProps {
+  results: OptimizationResults;
+}
+
+const compactCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-semibold">{value}</p>
+  </div>
+);
+
+/**
+ * Monte Carlo projection of the optimized scenario: simulation settings,
+ * a percentile fan chart and the summary statistics.
+ */
+export function MonteCarloCard({ results }: MonteCarloCardProps) {
+  const dispatch = useAppDispatch();
+  const scenario = results.scenarios[0];
+  const settings = useAppSelector((state) => state.optimization.simulationSettings);
+  const timeHorizon = useAppSelector((state) => state.optimization.parameters.timeHorizon);
+  const { running, error, inflationRate } = useMonteCarloSimulation(results);
+
+  const monteCarlo = scenario?.monteCarlo;
+  // Fan bands are drawn as [low, high] ranges
+  const chartData = results.projectedData.map((point: ProjectionPoint) => ({
+    year: point.year,
+    outer: [point.conservative, point.growth],
+    inner: [point.percentile25 ?? point.balanced, point.percentile75 ?? point.balanced],
+    median: point.balanced,
+    invested: point.current,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Monte Carlo Projection</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="annual-contribution">Annual Contribution ($)</Label>
+            <Input
+              id="annual-contribution"
+              type="number"
+              step={500}
+              value={settings.annualContribution}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                dispatch(updateSimulationSettings({ annualContribution: Number.isNaN(parsed) ? 0 : parsed }));
+              }}
+            />
+            <p className="text-xs text-muted-foreground">Use a negative amount for withdrawals</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target-value">Goal in Today&apos;s Dollars ($)</Label>
+            <Input
+              id="target-value"
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.targetValue ?? ''}
+              placeholder="Current value"
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                dispatch(updateSimulationSettings({ targetValue: Number.isNaN(parsed) ? null : parsed }));
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Iterations</Label>
+            <Select
+              value={String(settings.iterations)}
+              onValueChange={(value) => dispatch(updateSimulationSettings({ iterations: Number(value) }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ITERATION_OPTIONS.map((iterations) => (
+                  <SelectItem key={iterations} value={String(iterations)}>
+                    {iterations.toLocaleString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : chartData.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {running ? 'Running simulation...' : 'Add holdings to project portfolio value.'}
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+              <XAxis dataKey="year" tickFormatter={(year) => `Y${year}`} />
+              <YAxis tickFormatter={compactCurrency} width={70} />
+              <Tooltip
+                labelFormatter={(year) => `Year ${year}`}
+                formatter={(value: number | number[], name: string) =>
+                  Array.isArray(value)
+                    ? [`${formatCurrency(value[0])} - ${formatCurrency(value[1])}`, name]
+                    : [formatCurrency(value), name]
+                }
+              />
+              <Legend />
+              <Area dataKey="outer" name="10th-90th percentile" stroke="none" fill="#0088FE" fillOpacity={0.15} />
+              <Area dataKey="inner" name="25th-75th percentile" stroke="none" fill="#0088FE" fillOpacity={0.3} />
+              <Line dataKey="median" name="Median" stroke="#0088FE" strokeWidth={2} dot={false} />
+              <Line dataKey="invested" name="Amount invested" stroke="#888888" strokeDasharray="4 4" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+
+        {monteCarlo && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <Stat label={`Median after ${timeHorizon}y`} value={formatCurrency(monteCarlo.median)} />
+            <Stat label="Probability of reaching goal" value={`${monteCarlo.successProbability.toFixed(1)}%`} />
+            <Stat label="Risk of loss" value={`${monteCarlo.riskOfLoss.toFixed(1)}%`} />
+            <Stat label="Inflation-adjusted goal" value={formatCurrency(monteCarlo.inflationAdjustedTarget)} />
+            <Stat label="10th percentile" value={formatCurrency(monteCarlo.percentile10)} />
+            <Stat label="90th percentile" value={formatCurrency(monteCarlo.percentile90)} />
+            <Stat label="Iterations" value={monteCarlo.iterations.toLocaleString()} />
+            <Stat label="Inflation" value={inflationRate !== null ? `${(inflationRate * 100).toFixed(2)}%` : '-'} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  updateConstraints,
+  setSymbolBound,
+  setGroupCap,
+  getConstraintErrors,
+  getConstraintWarnings,
+} from '@/store/optimizationSlice';
+import { fetchAssetClasses, fetchSectors, selectHoldings, selectHoldingWeights } from '@/store/portfolioSlice';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+
+/**
+ * Parse a percent input; blank or invalid input clears the limit
+ */
+const parsePercent = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) return null;
+  return Math.min(100, Math.max(0, parsed));
+};
+
+/**
+ * Whole number input for a count limit; blank or invalid input clears the limit
+ */
+const parseCount = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Number input that keeps what is typed locally and reports it on blur or Enter
+ * Every constraint change re-runs the optimizer, so it shouldn't fire per keystroke.
+ */
+const CommittedNumberInput = ({
+  value,
+  parse,
+  onChange,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange' | 'onBlur' | 'onKeyDown' | 'type'> & {
+  value: number | null | undefined;
+  parse: (value: string) => number | null;
+  onChange: (value: number | null) => void;
+}) => {
+  const [text, setText] = useState(String(value ?? ''));
+
+  // Follow changes made elsewhere, e.g. a clamped value or a portfolio switch
+  useEffect(() => {
+    setText(String(value ?? ''));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parse(text);
+    if (parsed !== (value ?? null)) {
+      onChange(parsed);
+    } else {
+      setText(String(value ?? ''));
+    }
+  };
+
+  return (
+    <Input
+      {...props}
+      type="number"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit();
+        }
+      }}
+    />
+  );
+};
+
+const PercentInput = ({
+  value,
+  onChange,
+  placeholder,
+  ariaLabel,
+}: {
+  value: number | null | undefined;
+  onChange: (value: number | null) => void;
+  placeholder: string;
+  ariaLabel: string;
+}) => (
+  <CommittedNumberInput
+    min={0}
+    max={100}
+    step={1}
+    className="h-8 w-20"
+    value={value}
+    parse={parsePercent}
+    onChange={onChange}
+    placeholder={placeholder}
+    aria-label={ariaLabel}
+  />
+);
+
+const GroupCaps = ({
+  title,
+  names,
+  caps,
+  onChange,
+}: {
+  title: string;
+  names: string[];
+  caps: Record<string, number>;
+  onChange: (name: string, cap: number | null) => void;
+}) => (
+  <div className="space-y-2">
+    <Label>{title}</Label>
+    {names.length === 0 ? (
+      <p className="text-sm text-muted-foreground">None defined for this portfolio</p>
+    ) : (
+      names.map((name) => (
+        <div key={name} className="flex items-center justify-between gap-2">
+          <span className="text-sm truncate">{name}</span>
+          <PercentInput
+            value={caps[name]}
+            onChange={(cap) => onChange(name, cap)}
+            placeholder="Max %"
+            ariaLabel={`${name} maximum weight`}
+          />
+        </div>
+      ))
+    )}
+  </div>
+);
+
+/**
+ * Constraints editor for the optimizer: per-symbol weight bounds, asset class
+ * and sector caps, a cardinality limit and a turnover limit. Values are percentages.
+ */
+export function OptimizationConstraintsSection() {
+  const dispatch = useAppDispatch();
+  const constraints = useAppSelector((state) => state.optimization.parameters.constraints);
+  const candidateSymbols = useAppSelector((state) => state.optimization.candidateSymbols);
+  const holdingWeights = useAppSelector(selectHoldingWeights);
+  const holdings = useAppSelector(selectHoldings);
+  const { assetClasses, sectors, activePortfolioId } = useAppSelector((state) => state.portfolio);
+
+  // Asset class and sector names drive the group cap inputs
+  useEffect(() => {
+    dispatch(fetchAssetClasses());
+    dispatch(fetchSectors());
+  }, [dispatch, activePortfolioId]);
+
+  const universe = useMemo(
+    () => Array.from(new Set([...Object.keys(holdingWeights), ...candidateSymbols])).sort(),
+    [holdingWeights, candidateSymbols]
+  );
+  const errors = getConstraintErrors(constraints, universe);
+  const warnings = getConstraintWarnings(constraints, universe, holdings);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="max-holdings">Max Holdings</Label>
+          <CommittedNumberInput
+            id="max-holdings"
+            min={1}
+            step={1}
+            value={constraints.maxHoldings}
+            parse={parseCount}
+            placeholder="No limit"
+            onChange={(maxHoldings) => dispatch(updateConstraints({ maxHoldings }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="max-turnover">Max Turnover (%)</Label>
+          <CommittedNumberInput
+            id="max-turnover"
+            min={0}
+            max={100}
+            step={1}
+            value={constraints.maxTurnover}
+            parse={parsePercent}
+            placeholder="No limit"
+            onChange={(maxTurnover) => dispatch(updateConstraints({ maxTurnover }))}
+          />
+        </div>
+      </div>
+
+      {/* Per-symbol weight bounds */}
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Weight Bounds (%)</Label>
+          <span className="text-xs text-muted-foreground">Min / Max</span>
+        </div>
+        {universe.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No symbols in the universe</p>
+        ) : (
+          universe.map((symbol) => {
+            const bound = constraints.symbolBounds[symbol] ?? {};
+            return (
+              <div key={symbol} className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">{symbol}</span>
+                <div className="flex gap-2">
+                  <PercentInput
+                    value={bound.min}
+                    onChange={(min) => dispatch(setSymbolBound({ symbol, bound: { ...bound, min: min ?? undefined } }))}
+                    placeholder="0"
+                    ariaLabel={`${symbol} minimum weight`}
+                  />
+                  <PercentInput
+                    value={bound.max}
+                    onChange={(max) => dispatch(setSymbolBound({ symbol, bound: { ...bound, max: max ?? undefined } }))}
+                    placeholder="100"
+                    ariaLabel={`${symbol} maximum weight`}
+                  />
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <GroupCaps
+        title="Asset Class Caps (%)"
+        names={assetClasses.map((assetClass) => assetClass.name)}
+        caps={constraints.assetClassCaps}
+        onChange={(name, cap) => dispatch(setGroupCap({ group: 'assetClass', name, cap }))}
+      />
+
+      <GroupCaps
+        title="Sector Caps (%)"
+        names={sectors.map((sector) => sector.name)}
+        caps={constraints.sectorCaps}
+        onChange={(name, cap) => dispatch(setGroupCap({ group: 'sector', name, cap }))}
+      />
+
+      {errors.length > 0 && (
+        <div className="rounded-md border border-destructive/50 p-3 space-y-1">
+          {errors.map((error) => (
+            <p key={error} className="text-sm text-destructive flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="rounded-md border border-amber-500/50 p-3 space-y-1">
+          {warnings.map((warning) => (
+            <p key={warning} className="text-sm text-amber-600 flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
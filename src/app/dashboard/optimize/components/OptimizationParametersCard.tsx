@@ -1,10 +1,21 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Slider } from '@/components/ui/slider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { updateParameters, OptimizationParameters } from '@/store/optimizationSlice';
+import {
+  updateParameters,
+  addCandidateSymbols,
+  removeCandidateSymbol,
+  OptimizationParameters,
+} from '@/store/optimizationSlice';
+import { selectHoldingWeights } from '@/store/portfolioSlice';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X } from 'lucide-react';
+import { OptimizationConstraintsSection } from './OptimizationConstraintsSection';
 
 const ParameterInput = ({
   label,
@@ -41,6 +52,23 @@ const ParameterInput = ({
 export function OptimizationParametersCard() {
   const dispatch = useAppDispatch();
   const parameters = useAppSelector((state) => state.optimization.parameters);
+  const candidateSymbols = useAppSelector((state) => state.optimization.candidateSymbols);
+  const holdingWeights = useAppSelector(selectHoldingWeights);
+  const [symbolInput, setSymbolInput] = useState('');
+
+  const heldSymbols = Object.keys(holdingWeights).sort();
+
+  const handleAddCandidates = () => {
+    // Accept comma or whitespace separated tickers
+    const symbols = symbolInput
+      .split(/[\s,]+/)
+      .map((symbol) => symbol.trim().toUpperCase())
+      .filter((symbol) => symbol && !heldSymbols.includes(symbol));
+    if (symbols.length > 0) {
+      dispatch(addCandidateSymbols(symbols));
+    }
+    setSymbolInput('');
+  };
 
   const handleParameterChange = (key: keyof OptimizationParameters, value: unknown[]) => {
     dispatch(updateParameters({ [key]: value[0] } as Partial<OptimizationParameters>));
@@ -99,6 +127,53 @@ export function OptimizationParametersCard() {
             </SelectContent>
           </Select>
         </div>
+
+        {/* Optimization universe: current holdings plus candidate symbols */}
+        <div className="space-y-2">
+          <Label>Universe</Label>
+          <div className="flex flex-wrap gap-1">
+            {heldSymbols.length === 0 && candidateSymbols.length === 0 && (
+              <span className="text-sm text-muted-foreground">No holdings in this portfolio</span>
+            )}
+            {heldSymbols.map((symbol) => (
+              <Badge key={symbol} variant="secondary">{symbol}</Badge>
+            ))}
+            {candidateSymbols.map((symbol) => (
+              <Badge key={symbol} variant="outline" className="gap-1">
+                {symbol}
+                <button
+                  type="button"
+                  onClick={() => dispatch(removeCandidateSymbol(symbol))}
+                  aria-label={`Remove ${symbol}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={symbolInput}
+              onChange={(e) => setSymbolInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddCandidates();
+                }
+              }}
+              placeholder="Add candidate symbols, e.g. VXUS"
+            />
+            <Button variant="outline" size="icon" onClick={handleAddCandidates} disabled={!symbolInput.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Investability constraints */}
+        <div className="space-y-4 border-t pt-6">
+          <h3 className="text-sm font-semibold">Constraints</h3>
+          <OptimizationConstraintsSection />
+        </div>
       </CardContent>
     </Card>
   );
@@ -2,6 +2,7 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { OptimizationResults } from '@/store/optimizationSlice';
+import { MonteCarloCard } from './MonteCarloCard';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
@@ -67,6 +68,9 @@ export function OptimizedPortfolioTab({ results }: OptimizedPortfolioTabProps) {
           </CardContent>
         </Card>
       </div>
+      <div className="lg:col-span-3">
+        <MonteCarloCard results={results} />
+      </div>
     </div>
   );
 } 
\ No newline at end of file
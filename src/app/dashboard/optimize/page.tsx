@@ -1,9 +1,25 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { setResults, setSimulationStatus, setError, selectStrategy, clearSelectedStrategy } from '@/store/optimizationSlice';
-import { riskApi } from '@/services/api';
+import {
+  setResults,
+  setSimulationStatus,
+  setError,
+  getConstraintErrors,
+  mapSymbolsToCapGroups,
+  OptimizationConstraints,
+} from '@/store/optimizationSlice';
+import {
+  fetchPortfolioHoldings,
+  selectActivePortfolioId,
+  selectHoldings,
+  selectHoldingWeights,
+  Holding,
+} from '@/store/portfolioSlice';
+import { loadPreferences } from '@/store/preferencesSlice';
+import { riskApi, OptimizePortfolioRequest, OptimizationConstraintsRequest } from '@/services/api';
+import { parseRatePreference } from '@/utils/calculations';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
@@ -11,20 +27,110 @@ import { OptimizationParametersCard } from './components/OptimizationParametersC
 import { OptimizedPortfolioTab } from './components/OptimizedPortfolioTab';
 import { EfficientFrontierTab } from './components/EfficientFrontierTab';
 import { RawDataTab } from './components/RawDataTab';
+import { ImplementationPlanCard } from './components/ImplementationPlanCard';
+import { BacktestTab } from './components/BacktestTab';
 import { Target, Zap } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
+/**
+ * Convert the constraints edited in the parameters card (percent) into the
+ * optimizer request format (decimals), limited to symbols in the universe.
+ */
+const buildConstraintsRequest = (
+  constraints: OptimizationConstraints,
+  universe: string[],
+  holdings: Holding[]
+): OptimizationConstraintsRequest => {
+  const request: OptimizationConstraintsRequest = {};
+
+  const weightBounds: Record<string, [number, number]> = {};
+  universe.forEach(symbol => {
+    const bound = constraints.symbolBounds[symbol];
+    if (bound) {
+      weightBounds[symbol] = [(bound.min ?? 0) / 100, (bound.max ?? 100) / 100];
+    }
+  });
+  if (Object.keys(weightBounds).length > 0) {
+    request.weight_bounds = weightBounds;
+  }
+
+  const toDecimals = (caps: Record<string, number>) =>
+    Object.fromEntries(Object.entries(caps).map(([name, cap]) => [name, cap / 100]));
+
+  if (Object.keys(constraints.assetClassCaps).length > 0 || Object.keys(constraints.sectorCaps).length > 0) {
+    // Group caps only bind symbols whose classification we know (current holdings)
+    const { assetClassMap, sectorMap } = mapSymbolsToCapGroups(constraints, universe, holdings);
+    request.asset_class_caps = toDecimals(constraints.assetClassCaps);
+    request.sector_caps = toDecimals(constraints.sectorCaps);
+    request.asset_class_map = assetClassMap;
+    request.sector_map = sectorMap;
+  }
+
+  if (constraints.maxHoldings !== null) {
+    request.max_assets = constraints.maxHoldings;
+  }
+  if (constraints.maxTurnover !== null) {
+    request.max_turnover = constraints.maxTurnover / 100;
+  }
+
+  return request;
+};
+
 export default function OptimizePortfolioPage() {
   const dispatch = useAppDispatch();
-  const { results: simulationResults, isLoading, error, selectedStrategy } = useAppSelector((state) => state.optimization);
+  const { results: simulationResults, isLoading, error } = useAppSelector((state) => state.optimization);
   const parameters = useAppSelector((state) => state.optimization.parameters);
+  const candidateSymbols = useAppSelector((state) => state.optimization.candidateSymbols);
+  const activePortfolioId = useAppSelector(selectActivePortfolioId);
+  const holdings = useAppSelector(selectHoldings);
+  const holdingWeights = useAppSelector(selectHoldingWeights);
+  const holdingsLoading = useAppSelector((state) => state.portfolio.loading);
+  const { marketRegion, loaded: preferencesLoaded, error: preferencesError } = useAppSelector((state) => state.preferences);
+  // A failed preferences load leaves the default market region (and its risk-free rate) in place
+  const preferencesSettled = preferencesLoaded || Boolean(preferencesError);
+
+  // Load the active portfolio's holdings - they define the optimization universe
+  useEffect(() => {
+    dispatch(fetchPortfolioHoldings());
+  }, [dispatch, activePortfolioId]);
+
+  // The risk-free rate comes from the user's market region preferences
+  useEffect(() => {
+    if (!preferencesLoaded) {
+      dispatch(loadPreferences());
+    }
+  }, [dispatch, preferencesLoaded]);
+
+  // Universe = current holdings plus any user-added candidate symbols
+  const universe = useMemo(
+    () => Array.from(new Set([...Object.keys(holdingWeights), ...candidateSymbols])).sort(),
+    [holdingWeights, candidateSymbols]
+  );
+  const universeKey = universe.join(',');
+  const constraintErrors = useMemo(
+    () => getConstraintErrors(parameters.constraints, universe),
+    [parameters.constraints, universe]
+  );
 
   const runOptimization = async () => {
+    // Infeasible constraints are reported in the parameters card instead
+    if (universe.length === 0 || constraintErrors.length > 0) {
+      return;
+    }
+
     dispatch(setSimulationStatus(true));
-    const payload = {
+    const riskFreeRate = parseRatePreference(marketRegion.riskFreeRate);
+    const payload: OptimizePortfolioRequest = {
+      symbols: universe,
+      current_weights: holdingWeights,
       lookback_days: parameters.lookbackDays,
-      risk_free_rate: 0.03, // Could be user preference-driven in future
       objective: parameters.objective,
+      portfolio_id: activePortfolioId,
+      constraints: buildConstraintsRequest(parameters.constraints, universe, holdings),
+      // A numeric preference is sent as the rate, otherwise the backend resolves the named series
+      ...(riskFreeRate !== null
+        ? { risk_free_rate: riskFreeRate }
+        : { risk_free_rate_series: marketRegion.riskFreeRate }),
     };
 
     try {
@@ -72,8 +178,13 @@ export default function OptimizePortfolioPage() {
   };
 
   useEffect(() => {
+    // Wait for holdings and the preferences request so the first run uses the real universe and rate;
+    // if preferences fail to load the optimizer still runs with the default rate
+    if (holdingsLoading || !preferencesSettled) {
+      return;
+    }
     runOptimization();
-  }, [parameters]);
+  }, [parameters, universeKey, marketRegion.riskFreeRate, holdingsLoading, preferencesSettled]);
 
   return (
     <div className="container mx-auto p-6 space-y-6">
@@ -110,19 +221,32 @@ export default function OptimizePortfolioPage() {
                 <p>{error}</p>
               </CardContent>
             </Card>
+          ) : universe.length === 0 && !holdingsLoading ? (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <p>This portfolio has no holdings to optimize. Add holdings or candidate symbols to get started.</p>
+              </CardContent>
+            </Card>
           ) : simulationResults ? (
             <Tabs defaultValue="optimized">
               <TabsList>
                 <TabsTrigger value="optimized">Optimized Portfolio</TabsTrigger>
                 <TabsTrigger value="frontier">Efficient Frontier</TabsTrigger>
+                <TabsTrigger value="backtest">Backtest</TabsTrigger>
                 <TabsTrigger value="raw">Raw Data</TabsTrigger>
               </TabsList>
               <TabsContent value="optimized">
-                <OptimizedPortfolioTab results={simulationResults} />
+                <div className="space-y-6">
+                  <OptimizedPortfolioTab results={simulationResults} />
+                  <ImplementationPlanCard scenarioName={simulationResults.scenarios[0].name} />
+                </div>
               </TabsContent>
               <TabsContent value="frontier">
                 <EfficientFrontierTab results={simulationResults} />
               </TabsContent>
+              <TabsContent value="backtest">
+                <BacktestTab results={simulationResults} />
+              </TabsContent>
               <TabsContent value="raw">
                 <RawDataTab results={simulationResults} />
               </TabsContent>
@@ -6,10 +6,11 @@ import { StatsCard } from '@/components/dashboard/stats-card';
 import { PortfolioSetup } from '@/components/dashboard/portfolio-setup';
 import { PerformanceChart } from '@/components/dashboard/performance-chart';
 import { SectorAllocationChart } from '@/components/dashboard/sector-allocation-chart';
-import { BarChart3, Users, TrendingUp, Activity, PieChart, DollarSign } from 'lucide-react';
+import { BarChart3, Users, TrendingUp, Activity, PieChart, DollarSign, LineChart } from 'lucide-react';
 import { usePortfolioData } from '@/hooks/usePortfolioData';
 import { portfolioApi } from '@/services/api';
 import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { calculatePeriodReturns } from '@/utils/returns';
 
 
 /**
@@ -27,6 +28,9 @@ export default function DashboardPage() {
     performanceLoading, 
     currentPeriod,
     fetchPerformanceData,
+    benchmarkPerformance,
+    benchmarkName,
+    cashFlows,
     assetAllocation, 
     sectorAllocation,
     allocationLoading,
@@ -73,6 +77,9 @@ export default function DashboardPage() {
     return `${sign}${formatPercentage(value)}`;
   };
 
+  // Time- and money-weighted returns for the selected chart period (decimals)
+  const periodReturns = calculatePeriodReturns(performance, cashFlows);
+
   // Handle portfolio creation
   const handlePortfolioCreated = () => {
     setHasPortfolio(true);
@@ -103,11 +110,11 @@ export default function DashboardPage() {
       </div>
 
           {/* Portfolio Summary Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-6 mb-4">
             {summaryLoading ? (
               // Loading skeleton for stats cards
               <>
-                {[1, 2, 3, 4, 5].map((i) => (
+                {[1, 2, 3, 4, 5, 6].map((i) => (
                   <div key={i} className="rounded-xl bg-card p-6 shadow-sm border border-border animate-pulse">
                     <div className="h-4 bg-muted rounded w-1/2 mb-4"></div>
                     <div className="h-8 bg-muted rounded w-3/4 mb-2"></div>
@@ -148,6 +155,12 @@ export default function DashboardPage() {
                 change="Annual" 
                 icon={<DollarSign className="h-5 w-5" />} 
               />
+              <StatsCard 
+                title={`${currentPeriod === 'all' ? 'All-Time' : currentPeriod} Return (TWR)`} 
+                value={formatPercentageValue(periodReturns.twr * 100)} 
+                change={periodReturns.mwr !== null ? `${formatPercentageValue(periodReturns.mwr * 100)} MWR` : 'n/a MWR'} 
+                icon={<LineChart className="h-5 w-5" />} 
+              />
             </>
           ) : (
             // Error state
@@ -171,6 +184,9 @@ export default function DashboardPage() {
               currentPeriod={currentPeriod}
               onPeriodChange={fetchPerformanceData}
               isLoading={performanceLoading}
+              benchmarkData={benchmarkPerformance}
+              benchmarkName={benchmarkName}
+              cashFlows={cashFlows}
             />
           ) : (
             // Error or no data state
@@ -3,26 +3,47 @@
 import React, { useState, useEffect } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store';
 import { updateAllPreferences, type MarketRegionSettings, type TaxSettings } from '@/store/preferencesSlice';
+import { loadNotificationPreferences, saveNotificationPreferences } from '@/store/notificationsSlice';
+import type { NotificationPreferences } from '@/types/notifications';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import PushDevicesSection from '@/components/notifications/PushDevicesSection';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { preferencesApi } from '@/services/api';
 
+/**
+ * Notification preference switches: delivery channels first, then categories
+ */
+const notificationChannelOptions: Array<{ key: keyof NotificationPreferences; label: string; description: string }> = [
+  { key: 'inAppNotifications', label: 'In-App', description: 'Show notifications in the notification panel and as toasts' },
+  { key: 'emailNotifications', label: 'Email', description: 'Send notifications to your account email address' },
+  { key: 'pushNotifications', label: 'Push', description: 'Send notifications to devices registered for push' },
+];
+
+const notificationCategoryOptions: Array<{ key: keyof NotificationPreferences; label: string; description: string }> = [
+  { key: 'alertNotifications', label: 'Alerts', description: 'Alert rules triggering and resolving' },
+  { key: 'portfolioNotifications', label: 'Portfolio', description: 'Portfolio drift and price movements' },
+  { key: 'systemNotifications', label: 'System', description: 'Account, sync and other system messages' },
+];
+
 /**
  * User Preferences Page
- * Allows users to set their market region settings and tax settings
+ * Allows users to set their market region, tax and notification settings
  */
 export default function PreferencesPage() {
   const dispatch = useAppDispatch();
   const { marketRegion, tax } = useAppSelector(state => state.preferences);
+  const notificationPreferences = useAppSelector(state => state.notifications.preferences);
   
   // Local state for form values
   const [marketRegionValues, setMarketRegionValues] = useState<MarketRegionSettings>(marketRegion);
   const [taxValues, setTaxValues] = useState<TaxSettings>(tax);
+  const [notificationValues, setNotificationValues] = useState<NotificationPreferences>(notificationPreferences);
   
   // Available options for dropdowns
   const marketRegionOptions = ['US', 'Canada', 'UK', 'EU', 'Japan', 'Australia'];
@@ -120,6 +141,16 @@ export default function PreferencesPage() {
     fetchPreferences();
   }, [dispatch]);
 
+  // Notification preferences come from a separate endpoint; a failure keeps the defaults
+  useEffect(() => {
+    dispatch(loadNotificationPreferences())
+      .unwrap()
+      .then(setNotificationValues)
+      .catch(err => {
+        console.error('Failed to load notification preferences:', err);
+      });
+  }, [dispatch]);
+
   // Handle all preferences submission
   const handleSavePreferences = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -138,6 +169,12 @@ export default function PreferencesPage() {
         marketRegion: marketRegionValues,
         tax: taxValues
       });
+
+      // Quiet hours are saved with the browser's timezone so the backend can apply them to email and push
+      await dispatch(saveNotificationPreferences({
+        ...notificationValues,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      })).unwrap();
       
       toast.success('Preferences saved successfully');
     } catch (err) {
@@ -157,6 +194,14 @@ export default function PreferencesPage() {
     }));
   };
 
+  // Handle notification preference changes
+  const handleNotificationChange = <K extends keyof NotificationPreferences>(field: K, value: NotificationPreferences[K]) => {
+    setNotificationValues(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
   // Handle tax form input changes
   const handleTaxChange = (field: keyof TaxSettings, value: string) => {
     // Special handling for string fields - convert display values to API codes
@@ -241,6 +286,7 @@ export default function PreferencesPage() {
           <TabsList className="mb-6 w-full justify-start border-b">
             <TabsTrigger value="market-region" className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none px-8 py-3">Market Region Settings</TabsTrigger>
             <TabsTrigger value="tax" className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none px-8 py-3">Tax Settings</TabsTrigger>
+            <TabsTrigger value="notifications" className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none px-8 py-3">Notifications</TabsTrigger>
           </TabsList>
 
           <TabsContent value="market-region">
@@ -414,6 +460,72 @@ export default function PreferencesPage() {
               </CardContent>
           </Card>
           </TabsContent>
+
+          <TabsContent value="notifications">
+          <Card className="border shadow-sm">
+            <CardHeader>
+              <CardTitle>Notification Settings</CardTitle>
+              <CardDescription>
+                Choose how and when you are notified about alerts, portfolio changes and system events.
+              </CardDescription>
+            </CardHeader>
+              <CardContent className="space-y-6 pt-4">
+                {[
+                  { title: 'Channels', options: notificationChannelOptions },
+                  { title: 'Categories', options: notificationCategoryOptions },
+                ].map(group => (
+                  <div key={group.title} className="space-y-3">
+                    <h3 className="text-base font-medium">{group.title}</h3>
+                    {group.options.map(option => (
+                      <div key={option.key} className="flex items-center justify-between gap-4">
+                        <div>
+                          <Label htmlFor={option.key} className="font-medium">{option.label}</Label>
+                          <p className="text-sm text-muted-foreground">{option.description}</p>
+                        </div>
+                        <Switch
+                          id={option.key}
+                          checked={Boolean(notificationValues[option.key])}
+                          onCheckedChange={(checked) => handleNotificationChange(option.key, checked)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+
+                <div className="space-y-3">
+                  <h3 className="text-base font-medium">Quiet Hours</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Notifications that arrive during quiet hours are held and delivered as a single digest when they end.
+                    Leave both empty to turn quiet hours off.
+                  </p>
+                  <div className="grid gap-3 md:grid-cols-2 md:gap-x-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="quietHoursStart" className="font-medium">Start</Label>
+                      <Input
+                        id="quietHoursStart"
+                        type="time"
+                        value={notificationValues.quietHoursStart ?? ''}
+                        onChange={(e) => handleNotificationChange('quietHoursStart', e.target.value || undefined)}
+                        className="h-10"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quietHoursEnd" className="font-medium">End</Label>
+                      <Input
+                        id="quietHoursEnd"
+                        type="time"
+                        value={notificationValues.quietHoursEnd ?? ''}
+                        onChange={(e) => handleNotificationChange('quietHoursEnd', e.target.value || undefined)}
+                        className="h-10"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <PushDevicesSection />
+              </CardContent>
+          </Card>
+          </TabsContent>
         </Tabs>
       <div className="mt-8 flex flex-col space-y-4">
         {error && (
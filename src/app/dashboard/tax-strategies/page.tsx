@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TaxLossOpportunity, TaxLossResponse, TaxEfficiencyResponse } from '@/types/tax';
 import { portfolioApi } from '@/services/api';
+import { useAppSelector } from '@/store/hooks';
+import { selectActivePortfolioId } from '@/store/portfolioSlice';
 import { formatCurrency, formatPercent } from '@/utils/formatters';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
@@ -37,21 +39,24 @@ export default function TaxStrategiesPage() {
   const [efficiencyError, setEfficiencyError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>("taxLoss");
 
+  const activePortfolioId = useAppSelector(selectActivePortfolioId);
+
   // Use ref to prevent duplicate fetches in React Strict Mode (development)
   // React Strict Mode intentionally runs effects twice to detect side effects
-  const hasFetchedRef = useRef(false);
+  // Tracks the portfolio that was last fetched so switching portfolios refetches
+  const fetchedPortfolioRef = useRef<string | null | undefined>(undefined);
 
   useEffect(() => {
     // Prevent duplicate fetches in React Strict Mode
-    if (hasFetchedRef.current) {
+    if (fetchedPortfolioRef.current === activePortfolioId) {
       return;
     }
-    hasFetchedRef.current = true;
+    fetchedPortfolioRef.current = activePortfolioId;
 
     const fetchTaxLossHarvesting = async () => {
       try {
         setLoading(true);
-        const data = await portfolioApi.getTaxLossHarvestingOpportunities();
+        const data = await portfolioApi.getTaxLossHarvestingOpportunities(activePortfolioId);
         setTaxData(data);
         setError(null);
       } catch (err) {
@@ -65,7 +70,7 @@ export default function TaxStrategiesPage() {
     const fetchTaxEfficiencyAnalysis = async () => {
       try {
         setEfficiencyLoading(true);
-        const data = await portfolioApi.getTaxEfficiencyAnalysis();
+        const data = await portfolioApi.getTaxEfficiencyAnalysis(activePortfolioId);
         setTaxEfficiencyData(data);
         setEfficiencyError(null);
       } catch (err) {
@@ -78,7 +83,7 @@ export default function TaxStrategiesPage() {
 
     fetchTaxLossHarvesting();
     fetchTaxEfficiencyAnalysis();
-  }, []);
+  }, [activePortfolioId]);
 
   // Helper functions for displaying data elements
   const getBadgeForRecommendation = (recommendation: string) => {
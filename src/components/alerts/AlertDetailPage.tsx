@@ -2,8 +2,15 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { AlertRule, ConditionType } from '../../types/alerts';
+import { AlertRule, AlertHistory, AlertStatus, ConditionType } from '../../types/alerts';
 import { alertsApi } from '../../services/alerts-api';
+import { portfolioApi } from '../../services/api';
+import ConditionSummary from './conditions/ConditionSummary';
+import { getConditionDefinition, DRIFT_CONDITION_TYPES } from './conditions/conditionRegistry';
+import { ConditionContext } from './conditions/types';
+import { getActionDefinition } from './actions/actionRegistry';
+import ActionResultsList from './actions/ActionResultsList';
+import AlertSnoozeMenu from './AlertSnoozeMenu';
 
 import { Button } from '../ui/button';
 import {
@@ -33,6 +40,8 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
   const [alert, setAlert] = useState<AlertRule | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [conditionContext, setConditionContext] = useState<ConditionContext>({ sectors: [], assetClasses: [] });
+  const [history, setHistory] = useState<AlertHistory[]>([]);
   
   // Fetch alert details on component mount
   useEffect(() => {
@@ -41,7 +50,18 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
       try {
         const alertData = await alertsApi.getAlertRule(id);
         setAlert(alertData);
-        
+
+        // Drift summaries (also inside combined conditions) show sector and asset class names instead of ids
+        if (DRIFT_CONDITION_TYPES.includes(alertData.conditionType) || alertData.conditionType === ConditionType.COMPOSITE) {
+          const [sectors, assetClasses] = await Promise.all([
+            portfolioApi.getSectors(alertData.portfolioId),
+            portfolioApi.getAssetClasses(alertData.portfolioId)
+          ]);
+          setConditionContext({
+            sectors: Array.isArray(sectors) ? sectors : [],
+            assetClasses: Array.isArray(assetClasses) ? assetClasses : [],
+          });
+        }
       } catch (error) {
         console.error('Error fetching alert details:', error);
       } finally {
@@ -51,6 +71,18 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
     
     fetchAlertDetails();
   }, [id]);
+
+  // Recent triggers with their per-action results
+  useEffect(() => {
+    alertsApi.getAlertHistory(id)
+      .then(entries => setHistory(
+        entries
+          .filter(entry => entry.wasTriggered)
+          .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime())
+          .slice(0, 10)
+      ))
+      .catch(error => console.error('Error fetching alert history:', error));
+  }, [id]);
   
   // Handle alert actions
   const handleEdit = () => {
@@ -122,20 +154,16 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
     );
   }
   
-  // Determine if this is a drift alert
-  const isDriftAlert = [
-    ConditionType.DRIFT,
-    ConditionType.SECTOR_DRIFT,
-    ConditionType.ASSET_CLASS_DRIFT
-  ].includes(alert.conditionType);
-  
   // Use display fields from API or format as fallback
   const getAlertTypeDisplay = (alert: AlertRule) => {
     // Use the display field from API if available, otherwise format the type
     if ((alert as any).conditionTypeDisplay) {
       return (alert as any).conditionTypeDisplay;
     }
-    return alert.conditionType.replace(/_/g, ' ').split(' ').map(word => 
+    if (!alert.unknownConditionType) {
+      return getConditionDefinition(alert.conditionType).label;
+    }
+    return alert.unknownConditionType.replace(/_/g, ' ').split(' ').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' ');
   };
@@ -169,7 +197,7 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
           <div>
             <h1 className="text-2xl font-bold tracking-tight">{alert.name}</h1>
             <div className="flex items-center gap-2 text-muted-foreground">
-              <Badge variant={alert.isActive ? "outline" : "secondary"}>
+              <Badge variant={alert.status === AlertStatus.ESCALATED ? "destructive" : alert.isActive ? "outline" : "secondary"}>
                 {getStatusDisplay(alert)}
               </Badge>
               <span className="text-sm">{getAlertTypeDisplay(alert)}</span>
@@ -185,6 +213,9 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
           <Button variant="outline" onClick={handleToggleStatus}>
             {alert.isActive ? 'Pause' : 'Activate'}
           </Button>
+          {alert.isActive && (
+            <AlertSnoozeMenu alert={alert} onChange={setAlert} variant="outline" size="default" />
+          )}
           <Button variant="secondary" onClick={handleEdit}>
             <Edit size={16} className="mr-2" />
             Edit
@@ -219,6 +250,31 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
                 <h3 className="text-sm font-medium text-muted-foreground">Last Triggered</h3>
                 <p>{alert.lastTriggered ? new Date(alert.lastTriggered).toLocaleString() : 'Never'}</p>
               </div>
+
+              {alert.status === AlertStatus.SNOOZED && alert.snoozedUntil && (
+                <div>
+                  <h3 className="text-sm font-medium text-muted-foreground">Snoozed Until</h3>
+                  <p>{new Date(alert.snoozedUntil).toLocaleString()}</p>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground">Cooldown</h3>
+                <p>{alert.cooldownMinutes ? `${alert.cooldownMinutes} minutes between triggers` : 'None'}</p>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground">Escalation</h3>
+                <p>
+                  {alert.escalation
+                    ? `After ${alert.escalation.afterHours}h unresolved, raise to ${alert.escalation.priority}` +
+                      (alert.escalation.addChannel ? ` and add ${getActionDefinition(alert.escalation.addChannel).label.toLowerCase()}` : '')
+                    : 'None'}
+                </p>
+                {alert.escalatedAt && (
+                  <p className="text-sm text-destructive">Escalated {new Date(alert.escalatedAt).toLocaleString()}</p>
+                )}
+              </div>
               
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground">Created On</h3>
@@ -233,40 +289,79 @@ export default function AlertDetailPage({ id }: AlertDetailPageProps) {
               <CardDescription>Parameters for when this alert triggers</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {isDriftAlert && (
-                <>
-                  <div>
-                    <h3 className="text-sm font-medium text-muted-foreground">Drift Type</h3>
-                    <p>{(alert.conditionConfig.driftType as string) === 'absolute' ? 'Absolute (% change)' : 'Relative (% from target)'}</p>
-                  </div>
-                  
-                  <div>
-                    <h3 className="text-sm font-medium text-muted-foreground">Threshold</h3>
-                    <p>{Number(alert.conditionConfig.thresholdPercent)}%</p>
-                  </div>
-                  
-                  {alert.conditionType === ConditionType.SECTOR_DRIFT && (
-                    <div>
-                      <h3 className="text-sm font-medium text-muted-foreground">Specific Sector</h3>
-                      <p>{(alert.conditionConfig as any).sectorName || (alert.conditionConfig.sectorId as string) || 'All Sectors'}</p>
-                    </div>
-                  )}
-                  
-                  {alert.conditionType === ConditionType.ASSET_CLASS_DRIFT && (
-                    <div>
-                      <h3 className="text-sm font-medium text-muted-foreground">Specific Asset Class</h3>
-                      <p>{(alert.conditionConfig as any).assetClassName || (alert.conditionConfig.assetClassId as string) || 'All Asset Classes'}</p>
-                    </div>
-                  )}
-                </>
+              <ConditionSummary
+                conditionType={alert.conditionType}
+                config={alert.conditionConfig}
+                context={conditionContext}
+                unknownConditionType={alert.unknownConditionType}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Actions</CardTitle>
+              <CardDescription>What happens when this alert triggers, in order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {alert.actions.map((action, index) => {
+                  const definition = getActionDefinition(action.actionType);
+                  const parsed = definition.schema.safeParse(action.config);
+                  return (
+                    <li key={action.id} className="flex gap-3">
+                      <Badge variant="secondary" className="h-6">{index + 1}</Badge>
+                      <div className="min-w-0">
+                        <p className="font-medium">{definition.label}</p>
+                        <p className="text-sm text-muted-foreground break-words">
+                          {parsed.success ? definition.summarize(parsed.data) : definition.description}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Triggers</CardTitle>
+              <CardDescription>Results of each action the last times this alert fired</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This alert hasn&apos;t triggered yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {history.map(entry => (
+                    <li key={entry.id} className="py-3 first:pt-0 last:pb-0 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{new Date(entry.triggeredAt).toLocaleString()}</span>
+                        {entry.resolvedAt
+                          ? <Badge variant="outline">Resolved</Badge>
+                          : <Badge variant="destructive">Open</Badge>}
+                      </div>
+                      <ActionResultsList results={entry.actionOutcomes} actions={alert.actions} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {history.length > 0 && (
+                <Button
+                  variant="link"
+                  className="px-0 mt-2"
+                  onClick={() => router.push(`/dashboard/alerts/history?rule=${id}`)}
+                >
+                  View full history
+                </Button>
               )}
             </CardContent>
           </Card>
         </div>
-        
       </div>
-
-      {/* History and Drift Analysis sections removed */}
     </div>
   );
 }
@@ -0,0 +1,473 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  CheckCheck,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Loader2,
+  RefreshCw,
+} from 'lucide-react';
+import { AlertHistory, AlertRule, AlertStats } from '../../types/alerts';
+import { alertsApi } from '../../services/alerts-api';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { Skeleton } from '../ui/skeleton';
+import ActionResultsList from './actions/ActionResultsList';
+import TriggerHeatmap from './history/TriggerHeatmap';
+import TriggerContextDetails from './history/TriggerContextDetails';
+import {
+  AlertHistoryStatusFilter,
+  calculateMeanTimeToResolveByRule,
+  calculateResolutionStats,
+  filterAlertHistory,
+  formatDurationShort,
+  getTimeToResolve,
+} from '../../utils/alertHistory';
+
+const RANGE_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: 'all', label: 'All time' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AlertHistoryPageProps {
+  /** Preselected rule, e.g. when opened from an alert's detail page */
+  initialRuleId?: string;
+}
+
+/**
+ * Trigger timeline across all alert rules with frequency and resolution analytics
+ */
+export default function AlertHistoryPage({ initialRuleId }: AlertHistoryPageProps) {
+  const router = useRouter();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [history, setHistory] = useState<AlertHistory[]>([]);
+  const [stats, setStats] = useState<AlertStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ruleFilter, setRuleFilter] = useState(initialRuleId || 'all');
+  const [statusFilter, setStatusFilter] = useState<AlertHistoryStatusFilter>('all');
+  const [range, setRange] = useState('30');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [resolving, setResolving] = useState(false);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [rulesData, historyData] = await Promise.all([
+        alertsApi.getAlertRules(),
+        alertsApi.getAlertHistory(),
+      ]);
+      setRules(rulesData);
+      setHistory(historyData);
+      setSelectedIds(new Set());
+    } catch (err) {
+      console.error('Error fetching alert history:', err);
+      setError('Failed to load alert history.');
+    } finally {
+      setLoading(false);
+    }
+
+    // Stats are a summary only; the page works without them
+    alertsApi.getAlertStats()
+      .then(setStats)
+      .catch(err => console.error('Error fetching alert stats:', err));
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const rulesById = useMemo(() => new Map(rules.map(rule => [rule.id, rule])), [rules]);
+
+  const filtered = useMemo(() => filterAlertHistory(history, {
+    alertRuleIds: ruleFilter === 'all' ? [] : [ruleFilter],
+    status: statusFilter,
+    since: range === 'all' ? undefined : new Date(Date.now() - Number(range) * DAY_MS),
+  }), [history, ruleFilter, statusFilter, range]);
+
+  // Selection only covers triggers the user can see, so start over when the filters change
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [ruleFilter, statusFilter, range]);
+
+  const resolutionStats = useMemo(() => calculateResolutionStats(filtered), [filtered]);
+  const mttrByRule = useMemo(() => calculateMeanTimeToResolveByRule(filtered), [filtered]);
+
+  // Per-rule breakdown, busiest rules first
+  const ruleBreakdown = useMemo(() => {
+    const counts = new Map<string, { triggers: number; open: number }>();
+    filtered.forEach(item => {
+      const count = counts.get(item.alertRuleId) ?? { triggers: 0, open: 0 };
+      counts.set(item.alertRuleId, { triggers: count.triggers + 1, open: count.open + (item.resolvedAt ? 0 : 1) });
+    });
+    return Array.from(counts, ([ruleId, count]) => ({ ruleId, ...count, mttr: mttrByRule.get(ruleId) ?? null }))
+      .sort((a, b) => b.triggers - a.triggers);
+  }, [filtered, mttrByRule]);
+
+  // Timeline grouped by local day, newest first
+  const timeline = useMemo(() => {
+    const groups = new Map<string, AlertHistory[]>();
+    filtered.forEach(item => {
+      const day = format(new Date(item.triggeredAt), 'yyyy-MM-dd');
+      groups.set(day, [...(groups.get(day) ?? []), item]);
+    });
+    return Array.from(groups);
+  }, [filtered]);
+
+  const openItems = filtered.filter(item => !item.resolvedAt);
+  const allOpenSelected = openItems.length > 0 && openItems.every(item => selectedIds.has(item.id));
+
+  const getRuleName = (ruleId: string) => rulesById.get(ruleId)?.name ?? 'Deleted alert';
+
+  const toggleSet = (set: Set<string>, id: string, on: boolean) => {
+    const next = new Set(set);
+    if (on) next.add(id);
+    else next.delete(id);
+    return next;
+  };
+
+  const handleSelectAllOpen = (checked: boolean) =>
+    setSelectedIds(checked ? new Set(openItems.map(item => item.id)) : new Set());
+
+  const handleResolveSelected = async () => {
+    const ids = openItems.filter(item => selectedIds.has(item.id)).map(item => item.id);
+    if (ids.length === 0) return;
+
+    setResolving(true);
+    const results = await Promise.allSettled(ids.map(id => alertsApi.resolveAlertHistory(id)));
+    const resolvedAt = new Date().toISOString();
+    const resolved = new Map<string, AlertHistory>();
+    const failedIds: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        resolved.set(ids[index], { ...result.value, resolvedAt: result.value.resolvedAt ?? resolvedAt });
+      } else {
+        console.error('Error resolving alert history item:', ids[index], result.reason);
+        failedIds.push(ids[index]);
+      }
+    });
+
+    setHistory(prev => prev.map(item => resolved.get(item.id) ?? item));
+    // Keep failed items selected so they can be retried
+    setSelectedIds(new Set(failedIds));
+    setResolving(false);
+
+    if (resolved.size > 0) {
+      toast.success(`Resolved ${resolved.size} trigger${resolved.size === 1 ? '' : 's'}`);
+    }
+    if (failedIds.length > 0) {
+      toast.error(`Failed to resolve ${failedIds.length} trigger${failedIds.length === 1 ? '' : 's'}`);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center">
+          <Button variant="ghost" onClick={() => router.push('/dashboard/alerts')} className="mr-2">
+            <ArrowLeft size={16} />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Alert History</h1>
+            <p className="text-muted-foreground">When your alerts fired and how quickly they were resolved</p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={fetchHistory} disabled={loading}>
+          <RefreshCw size={16} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3">
+        <div className="w-[240px]">
+          <Select value={ruleFilter} onValueChange={setRuleFilter}>
+            <SelectTrigger>
+              <SelectValue placeholder="All alerts" />
+            </SelectTrigger>
+            <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+              <SelectItem value="all">All alerts</SelectItem>
+              {rules.map(rule => (
+                <SelectItem key={rule.id} value={rule.id}>{rule.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[160px]">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as AlertHistoryStatusFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+              <SelectItem value="all">All triggers</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[160px]">
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-center py-6">
+          <p className="text-destructive mb-4">{error}</p>
+          <Button variant="outline" onClick={fetchHistory}>
+            Try Again
+          </Button>
+        </div>
+      ) : loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Triggers</CardDescription>
+                <CardTitle className="text-2xl">{resolutionStats.total}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {stats
+                  ? `${stats.triggeredToday} today · ${stats.triggeredThisWeek} this week · ${stats.triggeredThisMonth} this month`
+                  : 'In the selected period'}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Open</CardDescription>
+                <CardTitle className={`text-2xl ${resolutionStats.open > 0 ? 'text-red-600' : ''}`}>{resolutionStats.open}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {resolutionStats.resolved} resolved
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Mean Time to Resolve</CardDescription>
+                <CardTitle className="text-2xl">
+                  {resolutionStats.meanTimeToResolve !== null ? formatDurationShort(resolutionStats.meanTimeToResolve) : '—'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {resolutionStats.medianTimeToResolve !== null
+                  ? `Median ${formatDurationShort(resolutionStats.medianTimeToResolve)}`
+                  : 'No resolved triggers yet'}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Alerts That Fired</CardDescription>
+                <CardTitle className="text-2xl">{ruleBreakdown.length}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {stats ? `of ${stats.totalAlerts} alerts (${stats.activeAlerts} active)` : `of ${rules.length} alerts`}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Trigger Frequency</CardTitle>
+                <CardDescription>When alerts fire, by weekday and hour</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TriggerHeatmap history={filtered} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Alert</CardTitle>
+                <CardDescription>Triggers and mean time to resolve per alert</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {ruleBreakdown.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No triggers in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Alert</TableHead>
+                        <TableHead className="text-right">Triggers</TableHead>
+                        <TableHead className="text-right">Open</TableHead>
+                        <TableHead className="text-right">MTTR</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ruleBreakdown.slice(0, 8).map(row => (
+                        <TableRow
+                          key={row.ruleId}
+                          className="cursor-pointer"
+                          onClick={() => setRuleFilter(row.ruleId)}
+                        >
+                          <TableCell className="font-medium">{getRuleName(row.ruleId)}</TableCell>
+                          <TableCell className="text-right">{row.triggers}</TableCell>
+                          <TableCell className="text-right">{row.open}</TableCell>
+                          <TableCell className="text-right">{row.mttr !== null ? formatDurationShort(row.mttr) : '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <CardTitle>Timeline</CardTitle>
+                  <CardDescription>Expand a trigger to see what drifted and how its actions ran</CardDescription>
+                </div>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={allOpenSelected}
+                      disabled={openItems.length === 0}
+                      onChange={(e) => handleSelectAllOpen(e.target.checked)}
+                    />
+                    Select all open
+                  </label>
+                  <Button size="sm" onClick={handleResolveSelected} disabled={selectedIds.size === 0 || resolving}>
+                    {resolving
+                      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      : <CheckCheck className="mr-2 h-4 w-4" />}
+                    Resolve {selectedIds.size > 0 ? selectedIds.size : ''} selected
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No triggers match these filters.</p>
+              ) : (
+                <div className="space-y-6">
+                  {timeline.map(([day, items]) => (
+                    <div key={day}>
+                      <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                        {format(new Date(items[0].triggeredAt), 'EEEE, MMM d, yyyy')}
+                      </h3>
+                      <ul className="border-l-2 pl-4 space-y-2">
+                        {items.map(item => {
+                          const rule = rulesById.get(item.alertRuleId);
+                          const expanded = expandedIds.has(item.id);
+                          const timeToResolve = getTimeToResolve(item);
+
+                          return (
+                            <li key={item.id} className="rounded-lg border">
+                              <div className="flex items-center gap-3 p-3">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedIds.has(item.id)}
+                                  disabled={Boolean(item.resolvedAt)}
+                                  onChange={(e) => setSelectedIds(prev => toggleSet(prev, item.id, e.target.checked))}
+                                  aria-label={`Select trigger of ${getRuleName(item.alertRuleId)}`}
+                                />
+                                <button
+                                  type="button"
+                                  className="flex flex-1 items-center gap-3 text-left min-w-0"
+                                  onClick={() => setExpandedIds(prev => toggleSet(prev, item.id, !expanded))}
+                                >
+                                  {expanded
+                                    ? <ChevronDown className="h-4 w-4 flex-shrink-0" />
+                                    : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+                                  <span className="text-sm text-muted-foreground w-16 flex-shrink-0">
+                                    {format(new Date(item.triggeredAt), 'h:mm a')}
+                                  </span>
+                                  <span className="font-medium truncate">{getRuleName(item.alertRuleId)}</span>
+                                </button>
+                                {timeToResolve !== null && (
+                                  <span className="hidden sm:flex items-center text-xs text-muted-foreground">
+                                    <Clock className="h-3 w-3 mr-1" />
+                                    {formatDurationShort(timeToResolve)}
+                                  </span>
+                                )}
+                                {item.resolvedAt
+                                  ? <Badge variant="outline">Resolved</Badge>
+                                  : <Badge variant="destructive">Open</Badge>}
+                              </div>
+
+                              {expanded && (
+                                <div className="border-t p-4 space-y-4">
+                                  <TriggerContextDetails contextData={item.contextData} />
+                                  <div>
+                                    <h4 className="text-sm font-medium mb-2">Actions</h4>
+                                    <ActionResultsList results={item.actionOutcomes} actions={rule?.actions ?? []} />
+                                  </div>
+                                  {rule && (
+                                    <Button variant="ghost" size="sm" onClick={() => router.push(`/dashboard/alerts/${rule.id}`)}>
+                                      View alert
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,574 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '../ui/form';
+import { Input } from '../ui/input';
+import { Button } from '../ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Switch } from '../ui/switch';
+import {
+  AlertRule,
+  AlertRuleInput,
+  AlertFrequency,
+  ConditionType,
+  ActionType,
+  ConfigValue,
+  AlertAction,
+} from '../../types/alerts';
+import { NotificationPriority } from '../../types/notifications';
+import { Card, CardContent } from '../ui/card';
+import { Loader2, FlaskConical } from 'lucide-react';
+import AlertRulePreview from './AlertRulePreview';
+import ActionListEditor from './actions/ActionListEditor';
+import { ACTION_REGISTRY, createAction, validateActionConfig } from './actions/actionRegistry';
+import { NumberField, SelectField } from './conditions/fields';
+import {
+  CONDITION_REGISTRY,
+  DRIFT_CONDITION_TYPES,
+  getConditionDefinition,
+  getDefaultConditionConfig,
+  validateConditionConfig,
+} from './conditions/conditionRegistry';
+
+// Define form validation schema; the condition config is validated by its type's registry schema
+const alertRuleSchema = z.object({
+  name: z.string().min(3, { message: 'Alert name must be at least 3 characters' }),
+  isActive: z.boolean().default(true),
+  frequency: z.string(),
+  conditionType: z.nativeEnum(ConditionType),
+  conditionConfig: z.record(z.unknown()),
+  actions: z.array(z.object({
+    id: z.string(),
+    actionType: z.nativeEnum(ActionType),
+    config: z.record(z.unknown()),
+  })).min(1, { message: 'Add at least one action' }),
+  portfolioId: z.string().optional(),
+  cooldownMinutes: z.number({ invalid_type_error: 'Enter a number of minutes' })
+    .int({ message: 'Use whole minutes' })
+    .min(0)
+    .max(7 * 24 * 60, { message: 'At most one week' }),
+  escalation: z.object({
+    enabled: z.boolean(),
+    afterHours: z.number({ invalid_type_error: 'Enter a number of hours' })
+      .min(1, { message: 'At least 1 hour' })
+      .max(30 * 24, { message: 'At most 30 days' }),
+    priority: z.nativeEnum(NotificationPriority),
+    addChannel: z.union([z.nativeEnum(ActionType), z.literal('none')]),
+  }),
+}).superRefine((values, ctx) => {
+  const result = validateConditionConfig(values.conditionType, values.conditionConfig);
+  if (!result.success) {
+    Object.entries(result.errors).forEach(([key, message]) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['conditionConfig', key], message });
+    });
+  }
+  values.actions.forEach((action, index) => {
+    const actionResult = validateActionConfig(action.actionType, action.config);
+    if (!actionResult.success) {
+      Object.entries(actionResult.errors).forEach(([key, message]) => {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['actions', index, 'config', key], message });
+      });
+    }
+  });
+});
+
+type AlertRuleFormValues = z.infer<typeof alertRuleSchema>;
+
+const ESCALATION_PRIORITY_OPTIONS = [
+  { value: NotificationPriority.NORMAL, label: 'Normal' },
+  { value: NotificationPriority.HIGH, label: 'High' },
+  { value: NotificationPriority.URGENT, label: 'Urgent' },
+];
+
+// Channels escalation can add on top of the rule's actions; they use your account defaults
+const ESCALATION_CHANNEL_OPTIONS: { value: ActionType | 'none'; label: string }[] = [
+  { value: 'none', label: 'No extra channel' },
+  ...[ActionType.NOTIFICATION, ActionType.EMAIL, ActionType.IN_APP]
+    .map(type => ({ value: type, label: ACTION_REGISTRY[type].label })),
+];
+
+/**
+ * Build the alert rule payload from form values
+ */
+const buildAlertRuleInput = (values: AlertRuleFormValues): AlertRuleInput => {
+  // Store the schema-parsed config so stale fields from other condition types are dropped
+  const result = validateConditionConfig(values.conditionType, values.conditionConfig);
+  const conditionConfig = result.success
+    ? result.config
+    : values.conditionConfig as Record<string, ConfigValue>;
+
+  // Actions run in list order; the first one is also sent as the rule's single action for older backends
+  const actions: AlertAction[] = values.actions.map(action => {
+    const actionResult = validateActionConfig(action.actionType, action.config);
+    return {
+      ...action,
+      config: actionResult.success ? actionResult.config : action.config as Record<string, ConfigValue>,
+    };
+  });
+
+  return {
+    name: values.name,
+    isActive: values.isActive,
+    conditionType: values.conditionType,
+    conditionConfig,
+    actionType: actions[0].actionType,
+    actionConfig: actions[0].config,
+    actions,
+    frequency: values.frequency as AlertFrequency,
+    cooldownMinutes: values.cooldownMinutes || null,
+    escalation: values.escalation.enabled
+      ? {
+          afterHours: values.escalation.afterHours,
+          priority: values.escalation.priority,
+          addChannel: values.escalation.addChannel === 'none' ? undefined : values.escalation.addChannel,
+        }
+      : null,
+    // Fall back to portfolio 1 when the user has no portfolio list yet (API expects string)
+    portfolioId: values.portfolioId || "1"
+  };
+};
+
+export interface AlertRuleFormProps {
+  initialData?: AlertRule;
+  /** Condition types offered in the condition select (defaults to every registered type) */
+  conditionTypes?: ConditionType[];
+  portfolios?: { id: string; name: string }[];
+  /** Portfolio preselected for new alerts (usually the active portfolio) */
+  defaultPortfolioId?: string | null;
+  sectors?: { id: string; name: string }[];
+  assetClasses?: { id: string; name: string }[];
+  isLoading?: boolean;
+  onSubmit: (data: AlertRuleInput) => Promise<void>;
+}
+
+export function AlertRuleForm({
+  initialData,
+  conditionTypes = Object.keys(CONDITION_REGISTRY) as ConditionType[],
+  portfolios = [],
+  defaultPortfolioId,
+  sectors = [],
+  assetClasses = [],
+  isLoading = false,
+  onSubmit,
+}: AlertRuleFormProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [previewRule, setPreviewRule] = useState<AlertRuleInput | null>(null);
+
+  const initialConditionType = initialData?.conditionType || conditionTypes[0];
+  const resolvedPortfolioId = initialData?.portfolioId || defaultPortfolioId || portfolios[0]?.id;
+
+  // Initialize form with default values or existing alert data
+  const form = useForm<AlertRuleFormValues>({
+    resolver: zodResolver(alertRuleSchema),
+    defaultValues: {
+      name: initialData?.name || '',
+      isActive: initialData?.isActive ?? true,
+      frequency: initialData?.frequency || AlertFrequency.IMMEDIATE,
+      conditionType: initialConditionType,
+      // Saved configs are layered over the defaults so fields added later get a value
+      conditionConfig: {
+        ...getDefaultConditionConfig(initialConditionType),
+        ...initialData?.conditionConfig,
+      },
+      actions: initialData?.actions?.length ? initialData.actions : [createAction(ActionType.NOTIFICATION)],
+      portfolioId: resolvedPortfolioId,
+      cooldownMinutes: initialData?.cooldownMinutes ?? 0,
+      escalation: {
+        enabled: Boolean(initialData?.escalation),
+        afterHours: initialData?.escalation?.afterHours ?? 24,
+        priority: initialData?.escalation?.priority ?? NotificationPriority.HIGH,
+        addChannel: initialData?.escalation?.addChannel ?? 'none',
+      },
+    },
+  });
+  // Portfolios and the active portfolio can load after mount; fill in the portfolio once they
+  // arrive so the rule isn't saved against the fallback, unless the user has picked one already
+  useEffect(() => {
+    if (!resolvedPortfolioId || form.getFieldState('portfolioId').isDirty) return;
+    if (form.getValues('portfolioId') !== resolvedPortfolioId) {
+      form.setValue('portfolioId', resolvedPortfolioId);
+    }
+  }, [form, resolvedPortfolioId]);
+
+  const escalationEnabled = form.watch('escalation.enabled');
+  const escalationErrors = form.formState.errors.escalation;
+
+  // Watch for condition type changes to swap the condition fields
+  const conditionType = form.watch('conditionType');
+  const conditionDefinition = getConditionDefinition(conditionType);
+  const ConditionFields = conditionDefinition.Form;
+  const isDriftCondition = DRIFT_CONDITION_TYPES.includes(conditionType);
+
+  // Messages for invalid condition config fields, keyed by field
+  const conditionErrors = Object.fromEntries(
+    Object.entries((form.formState.errors.conditionConfig ?? {}) as Record<string, { message?: string }>)
+      .map(([key, error]) => [key, error?.message])
+  );
+
+  const handleConditionTypeChange = (type: ConditionType) => {
+    form.setValue('conditionType', type);
+    form.setValue(
+      'conditionConfig',
+      getDefaultConditionConfig(type, form.getValues('conditionConfig') as Record<string, ConfigValue>)
+    );
+    form.clearErrors('conditionConfig');
+  };
+
+  // Handle form submission
+  const handleSubmit = async (values: AlertRuleFormValues) => {
+    setSubmitting(true);
+    try {
+      await onSubmit(buildAlertRuleInput(values));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Validate the form and preview the rule against live and historical drift
+  const handleTestRule = async () => {
+    const valid = await form.trigger();
+    if (valid) {
+      setPreviewRule(buildAlertRuleInput(form.getValues()));
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-lg font-medium mb-4">Basic Information</h3>
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alert Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter a name for this alert" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Give your alert a descriptive name
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Active
+                      </FormLabel>
+                      <FormDescription>
+                        Alert will be evaluated based on frequency
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Check Frequency</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select frequency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+                        <SelectItem value={AlertFrequency.IMMEDIATE}>
+                          Immediately
+                        </SelectItem>
+                        <SelectItem value={AlertFrequency.DAILY}>
+                          Daily
+                        </SelectItem>
+                        <SelectItem value={AlertFrequency.WEEKLY}>
+                          Weekly
+                        </SelectItem>
+                        <SelectItem value={AlertFrequency.MONTHLY}>
+                          Monthly
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      How often this alert should be checked
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {portfolios.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="portfolioId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Portfolio</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select portfolio" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+                          {portfolios.map((portfolio) => (
+                            <SelectItem key={portfolio.id} value={portfolio.id}>
+                              {portfolio.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        The portfolio this alert monitors
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-lg font-medium mb-4">Alert Condition</h3>
+            <div className="space-y-4">
+              {conditionTypes.length > 1 && (
+                <FormField
+                  control={form.control}
+                  name="conditionType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Condition</FormLabel>
+                      <Select
+                        onValueChange={(value) => handleConditionTypeChange(value as ConditionType)}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a condition" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+                          {conditionTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {CONDITION_REGISTRY[type].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {conditionDefinition.description}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="conditionConfig"
+                render={({ field }) => (
+                  <ConditionFields
+                    key={conditionType}
+                    idPrefix="alert-condition"
+                    conditionType={conditionType}
+                    value={field.value as Record<string, ConfigValue>}
+                    onChange={field.onChange}
+                    errors={conditionErrors}
+                    context={{ sectors, assetClasses }}
+                  />
+                )}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-lg font-medium mb-4">Alert Actions</h3>
+            <FormField
+              control={form.control}
+              name="actions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormDescription className="mb-2">
+                    What should happen when the alert is triggered, in order
+                  </FormDescription>
+                  <ActionListEditor
+                    value={field.value as AlertAction[]}
+                    onChange={field.onChange}
+                    showErrors={form.formState.isSubmitted}
+                    alertRuleId={initialData?.id}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-lg font-medium mb-4">Cooldown &amp; Escalation</h3>
+            <div className="space-y-4">
+              <FormField
+                control={form.control}
+                name="cooldownMinutes"
+                render={({ field }) => (
+                  <div className="md:w-1/2">
+                    <NumberField
+                      id="alert-cooldownMinutes"
+                      label="Cooldown (minutes)"
+                      description="Minimum time between two triggers of this alert; 0 for none"
+                      min={0}
+                      step={15}
+                      value={field.value}
+                      onChange={field.onChange}
+                      error={form.formState.errors.cooldownMinutes?.message}
+                    />
+                  </div>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="escalation.enabled"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Escalate unresolved triggers
+                      </FormLabel>
+                      <FormDescription>
+                        Raise the priority and notify another channel if a trigger isn&apos;t resolved in time
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {escalationEnabled && (
+                <div className="grid gap-4 md:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="escalation.afterHours"
+                    render={({ field }) => (
+                      <NumberField
+                        id="alert-escalation-afterHours"
+                        label="Escalate After (hours)"
+                        min={1}
+                        step={1}
+                        value={field.value}
+                        onChange={field.onChange}
+                        error={escalationErrors?.afterHours?.message}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="escalation.priority"
+                    render={({ field }) => (
+                      <SelectField
+                        id="alert-escalation-priority"
+                        label="Raise Priority To"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={ESCALATION_PRIORITY_OPTIONS}
+                        error={escalationErrors?.priority?.message}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="escalation.addChannel"
+                    render={({ field }) => (
+                      <SelectField
+                        id="alert-escalation-addChannel"
+                        label="Also Notify Via"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={ESCALATION_CHANNEL_OPTIONS}
+                        error={escalationErrors?.addChannel?.message}
+                      />
+                    )}
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {previewRule && isDriftCondition && (
+          <AlertRulePreview rule={previewRule} sectors={sectors} assetClasses={assetClasses} />
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          {isDriftCondition && (
+            <Button type="button" variant="outline" onClick={handleTestRule} disabled={submitting || isLoading}>
+              <FlaskConical className="mr-2 h-4 w-4" />
+              {previewRule ? 'Re-test Rule' : 'Test This Rule'}
+            </Button>
+          )}
+          <Button type="submit" disabled={submitting || isLoading}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {initialData ? 'Update Alert' : 'Create Alert'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export default AlertRuleForm;
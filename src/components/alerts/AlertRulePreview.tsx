@@ -0,0 +1,266 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine, ReferenceDot,
+  Tooltip as RechartsTooltip, ResponsiveContainer
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { AlertRuleInput } from '../../types/alerts';
+import { DriftHistoryPoint } from '../../types/portfolio';
+import { portfolioApi } from '../../services/api';
+import { usePortfolioDrift } from '../../hooks/usePortfolioDrift';
+import { useAppSelector } from '../../store/hooks';
+import { selectActivePortfolioId } from '../../store/portfolioSlice';
+import { evaluateDriftRule, backtestDriftRule } from '../../utils/alertEvaluation';
+import { getDriftHistoryCoverage } from '../../utils/driftTrend';
+
+/**
+ * AlertRulePreview Component
+ *
+ * Dry-runs a draft drift alert rule before it is saved:
+ * 1. Live check: which items in the current drift data would breach the threshold right now
+ * 2. Backtest: how often the rule would have fired over past daily drift snapshots,
+ *    checked at the rule's frequency
+ */
+
+interface AlertRulePreviewProps {
+  rule: AlertRuleInput;
+  sectors?: { id: string; name: string }[];
+  assetClasses?: { id: string; name: string }[];
+}
+
+const LOOKBACK_OPTIONS: Record<string, { label: string; days: number }> = {
+  '3M': { label: 'Last 3 months', days: 91 },
+  '6M': { label: 'Last 6 months', days: 182 },
+  '1Y': { label: 'Last year', days: 365 },
+  '2Y': { label: 'Last 2 years', days: 730 },
+};
+
+const CATEGORY_LABELS = {
+  overall: 'overall',
+  asset_class: 'asset class',
+  sector: 'sector',
+};
+
+const formatDrift = (value: number, driftType: 'absolute' | 'relative') =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}${driftType === 'absolute' ? ' pts' : '%'}`;
+
+export default function AlertRulePreview({ rule, sectors = [], assetClasses = [] }: AlertRulePreviewProps) {
+  const { driftData, driftLoading } = usePortfolioDrift();
+  const activePortfolioId = useAppSelector(selectActivePortfolioId);
+  const [lookback, setLookback] = useState('1Y');
+  const [history, setHistory] = useState<DriftHistoryPoint[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // Live drift is only loaded for the active portfolio
+  const isOtherPortfolio = Boolean(rule.portfolioId && activePortfolioId && rule.portfolioId !== activePortfolioId);
+
+  useEffect(() => {
+    let cancelled = false;
+    const start = new Date(Date.now() - LOOKBACK_OPTIONS[lookback].days * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+
+    setHistoryLoading(true);
+    setHistoryError(null);
+    portfolioApi.getDriftHistory(start, rule.portfolioId)
+      .then(points => {
+        if (!cancelled) setHistory(points);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setHistory([]);
+          setHistoryError(error instanceof Error ? error.message : 'Failed to load drift history');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lookback, rule.portfolioId]);
+
+  const evaluation = useMemo(
+    () => (driftData && !isOtherPortfolio ? evaluateDriftRule(rule, driftData, { sectors, assetClasses }) : null),
+    [rule, driftData, isOtherPortfolio, sectors, assetClasses]
+  );
+
+  const backtest = useMemo(
+    () => backtestDriftRule(rule, history, { sectors, assetClasses }),
+    [rule, history, sectors, assetClasses]
+  );
+
+  const coverage = useMemo(
+    () => getDriftHistoryCoverage(history, LOOKBACK_OPTIONS[lookback].days),
+    [history, lookback]
+  );
+
+  const thresholdPercent = Number(rule.conditionConfig.thresholdPercent) || 0;
+  const driftType = rule.conditionConfig.driftType === 'relative' ? 'relative' : 'absolute';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rule Preview</CardTitle>
+        <CardDescription>
+          How this rule behaves against current and historical drift
+          {rule.conditionConfig.useToleranceBands
+            ? ` using each item's tolerance band (${thresholdPercent}% where none is saved)`
+            : ` at a ${thresholdPercent}% threshold`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h4 className="text-sm font-medium mb-2">Right now</h4>
+          {isOtherPortfolio ? (
+            <p className="text-sm text-muted-foreground">
+              Live drift is only available for the active portfolio. Switch portfolios to check this rule against current data.
+            </p>
+          ) : driftLoading && !evaluation ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading current drift...
+            </div>
+          ) : !evaluation || evaluation.category === null ? (
+            <p className="text-sm text-muted-foreground">No drift data is available for this condition.</p>
+          ) : evaluation.breaches.length === 0 ? (
+            <div className="flex items-center text-sm text-green-600">
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Would not trigger: none of the {evaluation.items.length} {CATEGORY_LABELS[evaluation.category]} items exceed the threshold.
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center text-sm text-amber-600 mb-2">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                Would trigger now: {evaluation.breaches.length} of {evaluation.items.length} {CATEGORY_LABELS[evaluation.category]} items exceed the threshold.
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Target</TableHead>
+                    <TableHead className="text-right">Drift</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {evaluation.breaches.map(item => (
+                    <TableRow key={item.name}>
+                      <TableCell className="font-medium">{item.name}</TableCell>
+                      <TableCell className="text-right">{item.currentAllocation.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{item.targetAllocation.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={item.drift > 0 ? 'destructive' : 'secondary'}>
+                          {formatDrift(item.drift, driftType)}
+                        </Badge>
+                        {item.bandWidth !== undefined && (
+                          <span className="ml-2 text-xs text-muted-foreground">band &plusmn;{item.bandWidth.toFixed(1)} pts</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <h4 className="text-sm font-medium">Backtest</h4>
+            <Select value={lookback} onValueChange={setLookback}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LOOKBACK_OPTIONS).map(([key, option]) => (
+                  <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {historyLoading ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading drift history...
+            </div>
+          ) : historyError ? (
+            <p className="text-sm text-destructive">{historyError}</p>
+          ) : backtest.series.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No drift history is recorded for this period yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Checks</p>
+                  <p className="text-lg font-semibold">{backtest.checks}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Would have fired</p>
+                  <p className="text-lg font-semibold">
+                    {backtest.fires}
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">
+                      ({backtest.checks > 0 ? ((backtest.fires / backtest.checks) * 100).toFixed(0) : 0}% of checks)
+                    </span>
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Separate episodes</p>
+                  <p className="text-lg font-semibold">{backtest.episodes}</p>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mb-2">
+                Based on snapshots from {coverage.daysWithData} of {coverage.totalDays} days; periods without one are not checked
+              </p>
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={backtest.series} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                    <XAxis
+                      dataKey="date"
+                      tick={{ fontSize: 11 }}
+                      tickFormatter={(date: string) => new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                      minTickGap={30}
+                    />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => `${value}%`} width={45} />
+                    <RechartsTooltip
+                      formatter={(value: number) => [`${value.toFixed(2)}%`, 'Largest drift']}
+                      labelFormatter={(date: string) => new Date(date).toLocaleDateString()}
+                    />
+                    <ReferenceLine y={thresholdPercent} stroke="#f59e0b" strokeDasharray="5 5" strokeWidth={2} />
+                    <Line type="monotone" dataKey="maxDrift" stroke="#6366f1" strokeWidth={2} dot={false} />
+                    {backtest.series.filter(point => point.fired).map(point => (
+                      <ReferenceDot key={point.date} x={point.date} y={point.maxDrift} r={3} fill="#ef4444" stroke="none" />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { BellOff, BellRing, CalendarClock, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { AlertRule } from '../../types/alerts';
+import { alertsApi } from '../../services/alerts-api';
+import { SNOOZE_PRESETS, getSnoozeUntil, isAlertSnoozed } from '../../utils/alertPolicies';
+
+interface AlertSnoozeMenuProps {
+  alert: AlertRule;
+  /** Called with the rule returned by the API after snoozing or unsnoozing */
+  onChange: (alert: AlertRule) => void;
+  variant?: 'ghost' | 'outline';
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+// datetime-local inputs work in local time without seconds
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+/**
+ * Snooze a rule for a preset number of hours or until a chosen time, or end a snooze early
+ */
+export default function AlertSnoozeMenu({ alert, onChange, variant = 'ghost', size = 'sm', className }: AlertSnoozeMenuProps) {
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [untilText, setUntilText] = useState('');
+  const snoozed = isAlertSnoozed(alert);
+
+  const snooze = async (until: string) => {
+    setSaving(true);
+    try {
+      onChange(await alertsApi.snoozeAlertRule(alert.id, until));
+      toast.success(`${alert.name} snoozed until ${format(new Date(until), 'MMM d, h:mm a')}`);
+      setDialogOpen(false);
+    } catch (error) {
+      console.error('Error snoozing alert:', error);
+      toast.error('Failed to snooze alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unsnooze = async () => {
+    setSaving(true);
+    try {
+      onChange(await alertsApi.unsnoozeAlertRule(alert.id));
+      toast.success(`${alert.name} is no longer snoozed`);
+    } catch (error) {
+      console.error('Error ending snooze:', error);
+      toast.error('Failed to end snooze');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openDialog = () => {
+    setUntilText(format(new Date(getSnoozeUntil(24)), DATETIME_LOCAL_FORMAT));
+    setDialogOpen(true);
+  };
+
+  const until = untilText ? new Date(untilText) : null;
+  const untilIsValid = until !== null && !Number.isNaN(until.getTime()) && until > new Date();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant={variant} size={size} className={className} disabled={saving}>
+            {saving
+              ? <Loader2 size={14} className="mr-1 animate-spin" />
+              : <BellOff size={14} className="mr-1" />}
+            {snoozed ? 'Snoozed' : 'Snooze'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuLabel>Snooze for</DropdownMenuLabel>
+          {SNOOZE_PRESETS.map(preset => (
+            <DropdownMenuItem key={preset.hours} onSelect={() => snooze(getSnoozeUntil(preset.hours))}>
+              {preset.label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openDialog}>
+            <CalendarClock className="h-4 w-4" />
+            Until a date…
+          </DropdownMenuItem>
+          {snoozed && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={unsnooze}>
+                <BellRing className="h-4 w-4" />
+                End snooze
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Snooze {alert.name}</DialogTitle>
+            <DialogDescription>
+              The alert keeps being checked, but triggers are muted until this time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor={`snooze-until-${alert.id}`}>Snooze until</Label>
+            <Input
+              id={`snooze-until-${alert.id}`}
+              type="datetime-local"
+              value={untilText}
+              min={format(new Date(), DATETIME_LOCAL_FORMAT)}
+              onChange={(e) => setUntilText(e.target.value)}
+            />
+            {untilText && !untilIsValid && (
+              <p className="text-destructive text-sm">Pick a time in the future</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => until && snooze(until.toISOString())} disabled={!untilIsValid || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Snooze
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
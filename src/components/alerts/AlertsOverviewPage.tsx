@@ -47,6 +47,7 @@ import {
   ToggleRight,
   Info,
   RefreshCw,
+  History,
   ChevronDown as ChevronDownIcon
 } from "lucide-react";
 import {
@@ -114,9 +115,10 @@ export default function AlertsOverviewPage() {
       console.warn("📊 Raw alert data from API:", alertsData);
       
       // Ensure isActive property is correctly synchronized with the alert status
+      // (snoozed and escalated rules are still active)
       const processedAlerts = alertsData.map(alert => ({
         ...alert,
-        isActive: alert.status === AlertStatus.ACTIVE
+        isActive: alert.status !== AlertStatus.PAUSED && alert.status !== AlertStatus.DELETED
       }));
       
       console.warn("🔄 Processed alerts with synchronized status:", processedAlerts);
@@ -616,11 +618,17 @@ export default function AlertsOverviewPage() {
     <TooltipProvider>
       <div className="relative" style={{ overflow: 'visible' }}>
         <div className="flex flex-col space-y-3">
-        <div>
-          <h1 className="text-2xl font-bold tracking-tight">Alerts</h1>
-          <p className="text-muted-foreground">
-            Manage your portfolio alerts and notifications
-          </p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Alerts</h1>
+            <p className="text-muted-foreground">
+              Manage your portfolio alerts and notifications
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => router.push("/dashboard/alerts/history")}>
+            <History size={16} className="mr-2" />
+            History
+          </Button>
         </div>
 
       <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
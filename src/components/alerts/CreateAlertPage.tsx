@@ -5,11 +5,12 @@ import { useRouter } from 'next/navigation';
 import { AlertRuleInput, ConditionType } from '../../types/alerts';
 import { alertsApi } from '../../services/alerts-api';
 import { portfolioApi } from '../../services/api';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { fetchPortfolios, selectActivePortfolioId, selectPortfolios } from '../../store/portfolioSlice';
 import { DriftAlertForm } from './DriftAlertForm';
-import { 
-  ArrowLeft,
-  Loader2 
-} from 'lucide-react';
+import { AlertRuleForm } from './AlertRuleForm';
+import { getConditionTypesByCategory } from './conditions/conditionRegistry';
+import { ArrowLeft } from 'lucide-react';
 import { Button } from '../ui/button';
 import {
   Card,
@@ -26,11 +27,6 @@ import {
   TabsTrigger,
 } from '../ui/tabs';
 
-interface Portfolio {
-  id: string;
-  name: string;
-}
-
 interface Sector {
   id: string;
   name: string;
@@ -45,7 +41,9 @@ export default function CreateAlertPage() {
   const router = useRouter();
   const [alertType, setAlertType] = useState<string>('drift');
   const [loading, setLoading] = useState(false);
-  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const dispatch = useAppDispatch();
+  const portfolios = useAppSelector(selectPortfolios);
+  const activePortfolioId = useAppSelector(selectActivePortfolioId);
   const [sectors, setSectors] = useState<Sector[]>([]);
   const [assetClasses, setAssetClasses] = useState<AssetClass[]>([]);
 
@@ -57,8 +55,8 @@ export default function CreateAlertPage() {
         
         // Fetch real data from API
         const [sectorsData, assetClassesData] = await Promise.all([
-          portfolioApi.getSectors(),
-          portfolioApi.getAssetClasses()
+          portfolioApi.getSectors(activePortfolioId),
+          portfolioApi.getAssetClasses(activePortfolioId)
         ]);
         
         if (!Array.isArray(sectorsData)) {
@@ -72,9 +70,11 @@ export default function CreateAlertPage() {
         console.log('✅ Fetched asset classes:', assetClassesData);
         setSectors(sectorsData);
         setAssetClasses(assetClassesData);
-        
-        // Portfolios should be fetched from API - no hardcoded fallback
-        // TODO: Implement portfolio fetching from API
+
+        // Portfolios come from the store; load them if the switcher hasn't yet
+        if (portfolios.length === 0) {
+          dispatch(fetchPortfolios());
+        }
       } catch (error) {
         console.error('Error fetching data:', error);
         throw error;
@@ -82,7 +82,8 @@ export default function CreateAlertPage() {
     };
     
     fetchData();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activePortfolioId]);
 
   const handleCreateAlert = async (data: AlertRuleInput) => {
     setLoading(true);
@@ -121,11 +122,12 @@ export default function CreateAlertPage() {
       </div>
       
       <Tabs defaultValue="drift" value={alertType} onValueChange={setAlertType}>
-        <TabsList className="grid grid-cols-4 mb-6">
+        <TabsList className="grid grid-cols-5 mb-6">
           <TabsTrigger value="drift">Portfolio Drift</TabsTrigger>
-          <TabsTrigger value="price">Price Movement</TabsTrigger>
+          <TabsTrigger value="price">Market</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="other">Other</TabsTrigger>
+          <TabsTrigger value="composite">Combined</TabsTrigger>
         </TabsList>
         
         <TabsContent value="drift" className="mt-0">
@@ -139,6 +141,7 @@ export default function CreateAlertPage() {
             <CardContent>
               <DriftAlertForm
                 portfolios={portfolios}
+                defaultPortfolioId={activePortfolioId}
                 sectors={sectors}
                 assetClasses={assetClasses}
                 isLoading={loading}
@@ -151,18 +154,21 @@ export default function CreateAlertPage() {
         <TabsContent value="price" className="mt-0">
           <Card>
             <CardHeader>
-              <CardTitle>Price Movement Alert</CardTitle>
+              <CardTitle>Market Alert</CardTitle>
               <CardDescription>
-                Get notified when a security price moves significantly.
+                Get notified when a security&apos;s price, volume or volatility moves significantly.
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="py-12 text-center">
-                <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
-                <p className="mt-4 text-sm text-muted-foreground">
-                  Price movement alerts coming soon...
-                </p>
-              </div>
+              <AlertRuleForm
+                conditionTypes={getConditionTypesByCategory('price')}
+                portfolios={portfolios}
+                defaultPortfolioId={activePortfolioId}
+                sectors={sectors}
+                assetClasses={assetClasses}
+                isLoading={loading}
+                onSubmit={handleCreateAlert}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -176,12 +182,15 @@ export default function CreateAlertPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="py-12 text-center">
-                <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
-                <p className="mt-4 text-sm text-muted-foreground">
-                  Performance alerts coming soon...
-                </p>
-              </div>
+              <AlertRuleForm
+                conditionTypes={getConditionTypesByCategory('performance')}
+                portfolios={portfolios}
+                defaultPortfolioId={activePortfolioId}
+                sectors={sectors}
+                assetClasses={assetClasses}
+                isLoading={loading}
+                onSubmit={handleCreateAlert}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -191,16 +200,41 @@ export default function CreateAlertPage() {
             <CardHeader>
               <CardTitle>Other Alerts</CardTitle>
               <CardDescription>
-                Additional alert types for various conditions.
+                Idle cash, dividends, news and custom conditions.
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="py-12 text-center">
-                <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
-                <p className="mt-4 text-sm text-muted-foreground">
-                  Additional alert types coming soon...
-                </p>
-              </div>
+              <AlertRuleForm
+                conditionTypes={getConditionTypesByCategory('other')}
+                portfolios={portfolios}
+                defaultPortfolioId={activePortfolioId}
+                sectors={sectors}
+                assetClasses={assetClasses}
+                isLoading={loading}
+                onSubmit={handleCreateAlert}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="composite" className="mt-0">
+          <Card>
+            <CardHeader>
+              <CardTitle>Combined Alert</CardTitle>
+              <CardDescription>
+                Combine several conditions with AND/OR logic, e.g. sector drift above 5% and idle cash above $10,000.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AlertRuleForm
+                conditionTypes={getConditionTypesByCategory('composite')}
+                portfolios={portfolios}
+                defaultPortfolioId={activePortfolioId}
+                sectors={sectors}
+                assetClasses={assetClasses}
+                isLoading={loading}
+                onSubmit={handleCreateAlert}
+              />
             </CardContent>
           </Card>
         </TabsContent>
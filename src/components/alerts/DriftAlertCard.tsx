@@ -9,22 +9,35 @@ import {
 } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
-import { AlertCircle, CheckCircle2, Clock } from 'lucide-react';
-import { AlertRule, ConditionType } from '../../types/alerts';
-import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, BellOff, CheckCircle2, Clock, Hourglass, TrendingUp } from 'lucide-react';
+import { AlertRule, AlertStatus, ConditionType } from '../../types/alerts';
+import { format, formatDistanceToNow } from 'date-fns';
+import AlertSnoozeMenu from './AlertSnoozeMenu';
+import { getCooldownEnd, getEscalationDue, isAlertInCooldown } from '../../utils/alertPolicies';
 
 interface DriftAlertCardProps {
   alert: AlertRule;
   onResolve?: () => void;
   onView?: () => void;
   onEdit?: () => void;
+  /** Enables the snooze menu; called with the updated rule */
+  onChange?: (alert: AlertRule) => void;
 }
 
+// e.g. 90 -> "1h 30m", 2880 -> "2d"
+const formatMinutes = (minutes: number): string => {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  return [days && `${days}d`, hours && `${hours}h`, mins && `${mins}m`].filter(Boolean).join(' ') || '0m';
+};
+
 const DriftAlertCard: React.FC<DriftAlertCardProps> = ({ 
   alert, 
   onResolve, 
   onView, 
-  onEdit 
+  onEdit,
+  onChange
 }) => {
 
   // Only handle drift-type alerts
@@ -71,6 +84,19 @@ const DriftAlertCard: React.FC<DriftAlertCardProps> = ({
     if (!isActive) {
       return { variant: 'secondary' as const, text: 'Inactive', className: '' };
     }
+
+    if (alert.status === AlertStatus.SNOOZED) {
+      return { variant: 'secondary' as const, text: 'Snoozed', className: '' };
+    }
+
+    // Escalated triggers are still unresolved past the rule's escalation window
+    if (alert.status === AlertStatus.ESCALATED) {
+      return {
+        variant: 'destructive' as const,
+        text: 'Escalated',
+        className: 'bg-red-700 text-white border-red-700'
+      };
+    }
     
     // If active and recently triggered, show as "Active" with custom red styling
     if (hasBeenTriggered) {
@@ -87,6 +113,8 @@ const DriftAlertCard: React.FC<DriftAlertCardProps> = ({
 
   const badgeInfo = getBadgeInfo();
 
+  const cooldownEnd = getCooldownEnd(alert);
+  const escalationDue = getEscalationDue(alert);
 
 
   return (
@@ -124,6 +152,38 @@ const DriftAlertCard: React.FC<DriftAlertCardProps> = ({
             </span>
           </div>
           
+          {alert.status === AlertStatus.SNOOZED && alert.snoozedUntil && (
+            <div className="flex items-center gap-2">
+              <BellOff size={16} className="text-gray-500" />
+              <span className="text-xs text-muted-foreground">
+                Snoozed until {format(new Date(alert.snoozedUntil), 'MMM d, h:mm a')}
+              </span>
+            </div>
+          )}
+
+          {Boolean(alert.cooldownMinutes) && (
+            <div className="flex items-center gap-2">
+              <Hourglass size={16} className="text-gray-500" />
+              <span className="text-xs text-muted-foreground">
+                Cooldown: {formatMinutes(alert.cooldownMinutes as number)}
+                {cooldownEnd && isAlertInCooldown(alert) && ` (can re-trigger ${formatDistanceToNow(cooldownEnd, { addSuffix: true })})`}
+              </span>
+            </div>
+          )}
+
+          {alert.escalation && (
+            <div className="flex items-center gap-2">
+              <TrendingUp size={16} className={alert.escalatedAt ? 'text-red-600' : 'text-gray-500'} />
+              <span className="text-xs text-muted-foreground">
+                {alert.escalatedAt
+                  ? `Escalated to ${alert.escalation.priority} ${formatDistanceToNow(new Date(alert.escalatedAt), { addSuffix: true })}`
+                  : escalationDue && escalationDue > new Date()
+                    ? `Escalates to ${alert.escalation.priority} ${formatDistanceToNow(escalationDue, { addSuffix: true })} if unresolved`
+                    : `Escalates to ${alert.escalation.priority} after ${alert.escalation.afterHours}h unresolved`}
+              </span>
+            </div>
+          )}
+          
           {alert.conditionType === ConditionType.SECTOR_DRIFT && (
             <div className="mt-2 text-xs">
               <span className="font-medium">Sectors: </span>
@@ -161,6 +221,10 @@ const DriftAlertCard: React.FC<DriftAlertCardProps> = ({
           </Button>
         )}
         
+        {onChange && alert.isActive && (
+          <AlertSnoozeMenu alert={alert} onChange={onChange} className="text-xs" />
+        )}
+
         {onView && (
           <Button 
             variant="ghost" 
@@ -228,6 +228,7 @@ const DriftAlertsSection: React.FC = () => {
                 setEditingAlert(alert);
                 setDialogOpen(true);
               }}
+              onChange={(updated) => setAlerts(prev => prev.map(a => a.id === updated.id ? updated : a))}
             />
           ))}
         </div>
@@ -12,8 +12,9 @@ import {
   Tooltip as RechartsTooltip, ResponsiveContainer, Legend, Label,
   PieChart, Pie, Sector, LineChart, Line, ReferenceLine
 } from 'recharts';
-import { DriftResponse } from '@/types/portfolio';
+import { DriftResponse, ToleranceBand } from '@/types/portfolio';
 import { groupSectorItems } from '@/utils/sectorMapping';
+import { formatToleranceBand, getSleeveToleranceBand, getToleranceBandWidth } from '@/utils/toleranceBands';
 
 /**
  * DriftVisualization Component
@@ -27,6 +28,9 @@ import { groupSectorItems } from '@/utils/sectorMapping';
  * 3. Gauge Chart: Shows the total portfolio drift against safe/warning/critical thresholds
  * 4. Drift Timeline: Displays how the total drift has changed over time
  * 
+ * Breaches are coloured against each item's saved tolerance band when one is provided,
+ * and against thresholdPercent otherwise.
+ *
  * The component supports two views of drift:
  * - Absolute: Raw percentage point differences (e.g., 65% vs 60% = 5% drift)
  * - Relative: Percentage change relative to the target (e.g., 65% vs 60% = 8.3% drift)
@@ -54,14 +58,27 @@ interface DriftData {
 interface DriftVisualizationProps {
   data?: DriftData;
   thresholdPercent?: number;
+  /** Saved tolerance bands keyed by normalized item name (see buildToleranceBandMap) */
+  bands?: Record<string, ToleranceBand>;
   type: 'overall' | 'asset-class' | 'sector';
 }
 
+// Allowed drift in points for an item: its saved band, or the global threshold
+const getBandWidth = (
+  bands: Record<string, ToleranceBand> | undefined,
+  thresholdPercent: number,
+  name: string,
+  targetAllocation: number
+) => {
+  const band = bands ? getSleeveToleranceBand(bands, name) : null;
+  return band ? getToleranceBandWidth(band, targetAllocation) : thresholdPercent;
+};
 
 
 export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
   data,
   thresholdPercent = 5,
+  bands,
   type = 'overall',
 }) => {
   // Fail hard if data is missing - don't render empty state
@@ -138,6 +155,7 @@ export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
   }
 
   const [driftView, setDriftView] = useState<'absolute' | 'relative'>('absolute');
+
   const [activeIndex, setActiveIndex] = useState(-1);
   const [selectedSegment, setSelectedSegment] = useState<DriftItem | null>(null);
 
@@ -166,6 +184,7 @@ export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
       // Check for both camelCase and snake_case field names
       const currentAlloc = item.currentAllocation ?? item.current_allocation ?? 0;
       const targetAlloc = item.targetAllocation ?? item.target_allocation ?? 0;
+      const bandWidth = getBandWidth(bands, thresholdPercent, item.name, targetAlloc);
       
       // Log if we're using fallback values
       if (item.currentAllocation === undefined && item.current_allocation === undefined) {
@@ -182,8 +201,8 @@ export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
         absoluteDrift: item.absoluteDrift,
         relativeDrift: item.relativeDrift,
         // Color based on drift direction and magnitude
-        color: item.absoluteDrift > thresholdPercent ? '#ef4444' : 
-               item.absoluteDrift < -thresholdPercent ? '#f59e0b' : 
+        color: item.absoluteDrift > bandWidth ? '#ef4444' : 
+               item.absoluteDrift < -bandWidth ? '#f59e0b' : 
                '#22c55e'
       };
     });
@@ -195,7 +214,7 @@ export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
     }
     
     return mapped;
-  }, [processedItems, driftView, thresholdPercent]);
+  }, [processedItems, driftView, bands, thresholdPercent]);
 
   // Drift bar chart data (horizontal bars showing drift amounts)
   const driftBarData = useMemo(() => {
@@ -347,7 +366,9 @@ export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
                 .sort((a: any, b: any) => Math.abs(b.absoluteDrift) - Math.abs(a.absoluteDrift))
                 .map((item: any, index) => {
                   const driftValue = driftView === 'absolute' ? item.absoluteDrift : item.relativeDrift;
-                  const isSignificantDrift = Math.abs(item.absoluteDrift) > thresholdPercent;
+                  const bandWidth = getBandWidth(bands, thresholdPercent, item.name, item.targetAllocation);
+                  const band = bands ? getSleeveToleranceBand(bands, item.name) : null;
+                  const isSignificantDrift = Math.abs(item.absoluteDrift) > bandWidth;
                   
                   return (
                     <div 
@@ -396,10 +417,11 @@ export const DriftVisualization: React.FC<DriftVisualizationProps> = ({
                       {/* Drift Value with Better Contrast */}
                       <div className="col-span-2 text-right">
                         <span 
+                          title={`Band ${band ? formatToleranceBand(band) : `±${thresholdPercent} pts`} (±${bandWidth.toFixed(1)} pts)`}
                           className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
-                            Math.abs(item.absoluteDrift) <= thresholdPercent 
+                            Math.abs(item.absoluteDrift) <= bandWidth 
                               ? 'bg-green-100 text-green-800 border border-green-200' 
-                              : Math.abs(item.absoluteDrift) <= thresholdPercent * 2 
+                              : Math.abs(item.absoluteDrift) <= bandWidth * 2 
                                 ? 'bg-yellow-100 text-yellow-800 border border-yellow-200' 
                                 : 'bg-red-100 text-red-800 border border-red-200'
                           }`}
@@ -2,10 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { AlertRule, AlertRuleInput, ConditionType } from '../../types/alerts';
+import { AlertRule, AlertRuleInput } from '../../types/alerts';
 import { alertsApi } from '../../services/alerts-api';
 import { portfolioApi } from '../../services/api';
-import { DriftAlertForm } from './DriftAlertForm';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { fetchPortfolios, selectPortfolios } from '../../store/portfolioSlice';
+import { AlertRuleForm } from './AlertRuleForm';
+import { getConditionDefinition, getConditionTypesByCategory } from './conditions/conditionRegistry';
 import { 
   ArrowLeft,
   Loader2,
@@ -20,11 +23,6 @@ import {
   CardTitle,
 } from '../ui/card';
 
-interface Portfolio {
-  id: string;
-  name: string;
-}
-
 interface Sector {
   id: string;
   name: string;
@@ -44,7 +42,8 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
   const [alert, setAlert] = useState<AlertRule | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
-  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const dispatch = useAppDispatch();
+  const portfolios = useAppSelector(selectPortfolios);
   const [sectors, setSectors] = useState<Sector[]>([]);
   const [assetClasses, setAssetClasses] = useState<AssetClass[]>([]);
 
@@ -61,8 +60,8 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
         console.log('🔄 Fetching sectors and asset classes from API...');
         
         const [sectorsData, assetClassesData] = await Promise.all([
-          portfolioApi.getSectors(),
-          portfolioApi.getAssetClasses()
+          portfolioApi.getSectors(alertData.portfolioId),
+          portfolioApi.getAssetClasses(alertData.portfolioId)
         ]);
         
         if (!Array.isArray(sectorsData)) {
@@ -77,11 +76,10 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
         setSectors(sectorsData);
         setAssetClasses(assetClassesData);
         
-        // For portfolios, keep dummy data for now (or fetch from API if available)
-        setPortfolios([
-          { id: '123e4567-e89b-12d3-a456-426614174000', name: 'Main Portfolio' },
-          { id: '223e4567-e89b-12d3-a456-426614174001', name: 'Retirement Portfolio' },
-        ]);
+        // Portfolios come from the store; load them if the switcher hasn't yet
+        if (portfolios.length === 0) {
+          dispatch(fetchPortfolios());
+        }
       } catch (error) {
         console.error('Error fetching data:', error);
       } finally {
@@ -90,6 +88,7 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
     };
     
     fetchData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
 
   const handleUpdateAlert = async (data: AlertRuleInput) => {
@@ -134,12 +133,9 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
     );
   }
 
-  // Determine if this is a drift-type alert
-  const isDriftAlert = [
-    ConditionType.DRIFT,
-    ConditionType.SECTOR_DRIFT,
-    ConditionType.ASSET_CLASS_DRIFT
-  ].includes(alert.conditionType);
+  // Only offer condition types from the same create page category as the alert
+  const { category, label } = getConditionDefinition(alert.conditionType);
+  const conditionTypes = getConditionTypesByCategory(category);
 
   return (
     <div className="container mx-auto py-6 space-y-6 max-w-4xl">
@@ -159,17 +155,18 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
         </div>
       </div>
       
-      {isDriftAlert ? (
+      {!alert.unknownConditionType ? (
         <Card>
           <CardHeader>
-            <CardTitle>Drift Alert Settings</CardTitle>
+            <CardTitle>{label} Alert Settings</CardTitle>
             <CardDescription>
-              Update your drift alert configuration.
+              Update your alert configuration.
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <DriftAlertForm
+            <AlertRuleForm
               initialData={alert}
+              conditionTypes={conditionTypes}
               portfolios={portfolios}
               sectors={sectors}
               assetClasses={assetClasses}
@@ -188,7 +185,7 @@ export default function EditAlertPage({ id }: EditAlertPageProps) {
           </CardHeader>
           <CardContent className="py-6">
             <p className="text-center text-muted-foreground">
-              The edit UI for {alert.conditionType.replace('_', ' ')} alerts is under development.
+              This app does not know {alert.unknownConditionType} conditions, so editing them here could overwrite their settings.
             </p>
             <div className="flex justify-center mt-6">
               <Button onClick={handleCancel} variant="outline">
@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Send, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '../../ui/button';
+import { Badge } from '../../ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../ui/select';
+import { ActionType, AlertAction, AlertActionTestResult } from '../../../types/alerts';
+import { alertsApi } from '../../../services/alerts-api';
+import { ACTION_REGISTRY, MAX_ACTIONS, createAction, getActionDefinition, validateActionConfig } from './actionRegistry';
+
+interface ActionListEditorProps {
+  value: AlertAction[];
+  onChange: (actions: AlertAction[]) => void;
+  /** Show field errors (set once the form has been submitted) */
+  showErrors: boolean;
+  /** Saved rule id, lets test events use a stored webhook secret */
+  alertRuleId?: string;
+}
+
+type TestState = { loading: boolean; result?: AlertActionTestResult };
+
+/**
+ * Ordered list of actions a rule runs when it triggers, with per-action config
+ * forms and a "send test event" button for actions the backend can test
+ */
+export default function ActionListEditor({ value, onChange, showErrors, alertRuleId }: ActionListEditorProps) {
+  const [tests, setTests] = useState<Record<string, TestState>>({});
+
+  const updateAction = (index: number, action: AlertAction) =>
+    onChange(value.map((a, i) => (i === index ? action : a)));
+
+  const moveAction = (index: number, offset: -1 | 1) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleTest = async (action: AlertAction) => {
+    const validation = validateActionConfig(action.actionType, action.config);
+    if (!validation.success) {
+      setTests(prev => ({
+        ...prev,
+        [action.id]: { loading: false, result: { success: false, error: 'Fix the highlighted fields first' } },
+      }));
+      return;
+    }
+
+    setTests(prev => ({ ...prev, [action.id]: { loading: true } }));
+    try {
+      const result = await alertsApi.testAlertAction({ ...action, config: validation.config }, alertRuleId);
+      setTests(prev => ({ ...prev, [action.id]: { loading: false, result } }));
+    } catch (err) {
+      setTests(prev => ({
+        ...prev,
+        [action.id]: { loading: false, result: { success: false, error: err instanceof Error ? err.message : 'Test failed' } },
+      }));
+    }
+  };
+
+  const availableTypes = Object.values(ACTION_REGISTRY).filter(definition => !definition.hidden);
+
+  return (
+    <div className="space-y-4">
+      {value.map((action, index) => {
+        const definition = getActionDefinition(action.actionType);
+        const ActionFields = definition.Form;
+        const validation = showErrors ? validateActionConfig(action.actionType, action.config) : null;
+        const test = tests[action.id];
+
+        return (
+          <div key={action.id} className="rounded-lg border p-4 space-y-4">
+            <div className="flex items-start justify-between gap-2">
+              <div className="flex items-start gap-3">
+                <Badge variant="secondary">{index + 1}</Badge>
+                <div>
+                  <p className="font-medium">{definition.label}</p>
+                  <p className="text-sm text-muted-foreground">{definition.description}</p>
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveAction(index, -1)} disabled={index === 0} title="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveAction(index, 1)} disabled={index === value.length - 1} title="Move down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  disabled={value.length === 1}
+                  title="Remove action"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <ActionFields
+              idPrefix={`action-${action.id}`}
+              value={action.config}
+              onChange={(config) => updateAction(index, { ...action, config })}
+              errors={validation && !validation.success ? validation.errors : {}}
+            />
+
+            {definition.testable && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Button type="button" variant="outline" size="sm" onClick={() => handleTest(action)} disabled={test?.loading}>
+                  {test?.loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                  Send test event
+                </Button>
+                {test?.result && (
+                  <div className={`flex items-center text-sm ${test.result.success ? 'text-green-600' : 'text-destructive'}`}>
+                    {test.result.success ? <CheckCircle2 className="h-4 w-4 mr-1" /> : <XCircle className="h-4 w-4 mr-1" />}
+                    {test.result.success ? 'Delivered' : test.result.error || 'Failed'}
+                    {test.result.statusCode !== undefined && ` · HTTP ${test.result.statusCode}`}
+                    {test.result.durationMs !== undefined && ` · ${test.result.durationMs} ms`}
+                  </div>
+                )}
+                {test?.result?.responseBody && (
+                  <pre className="w-full max-h-32 overflow-auto rounded-md bg-muted p-2 text-xs">
+                    {test.result.responseBody.slice(0, 2000)}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {value.length < MAX_ACTIONS && (
+        <Select value="" onValueChange={(type) => onChange([...value, createAction(type as ActionType)])}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Add an action" />
+          </SelectTrigger>
+          <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+            {availableTypes.map(definition => (
+              <SelectItem key={definition.type} value={definition.type}>
+                {definition.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import React from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { ActionType, AlertAction, AlertActionResult } from '../../../types/alerts';
+import { ACTION_REGISTRY } from './actionRegistry';
+
+interface ActionResultsListProps {
+  results: AlertActionResult[];
+  /** The rule's actions, used to label results and keep them in rule order */
+  actions: AlertAction[];
+}
+
+/**
+ * Per-action outcomes of one trigger
+ */
+export default function ActionResultsList({ results, actions }: ActionResultsListProps) {
+  if (results.length === 0) {
+    return <p className="text-sm text-muted-foreground">No action results recorded.</p>;
+  }
+
+  const actionIndex = (result: AlertActionResult) => {
+    const index = actions.findIndex(action => action.id === result.actionId);
+    return index === -1 ? actions.length : index;
+  };
+  const sorted = [...results].sort((a, b) => actionIndex(a) - actionIndex(b));
+
+  return (
+    <ul className="space-y-1">
+      {sorted.map((result, index) => {
+        const action = actions.find(a => a.id === result.actionId);
+        const type = (action?.actionType ?? result.actionType) as ActionType;
+        const label = ACTION_REGISTRY[type]?.label ?? (result.actionType || 'Action');
+
+        return (
+          <li key={result.actionId ?? index} className="flex items-start gap-2 text-sm">
+            {result.success
+              ? <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+              : <XCircle className="h-4 w-4 mt-0.5 text-destructive flex-shrink-0" />}
+            <div className="min-w-0">
+              <span className="font-medium">{label}</span>
+              {result.statusCode !== undefined && <span className="text-muted-foreground"> · HTTP {result.statusCode}</span>}
+              {result.message && <p className="text-muted-foreground break-words">{result.message}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
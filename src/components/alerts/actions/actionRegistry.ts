@@ -0,0 +1,64 @@
+/**
+ * Action registry
+ * Maps every ActionType to its config schema, form component and summary
+ */
+import { nanoid } from '@reduxjs/toolkit';
+import { ActionType, AlertAction } from '../../../types/alerts';
+import { ActionConfig, ActionDefinition } from './types';
+import {
+  notificationAction,
+  emailAction,
+  inAppAction,
+  suggestRebalanceAction,
+  createTaskAction,
+  logToJournalAction,
+  executeTradeAction,
+} from './basicActions';
+import { webhookAction } from './webhookAction';
+
+export const ACTION_REGISTRY: Record<ActionType, ActionDefinition> = {
+  [ActionType.NOTIFICATION]: notificationAction,
+  [ActionType.EMAIL]: emailAction,
+  [ActionType.IN_APP]: inAppAction,
+  [ActionType.SUGGEST_REBALANCE]: suggestRebalanceAction,
+  [ActionType.CREATE_TASK]: createTaskAction,
+  [ActionType.LOG_TO_JOURNAL]: logToJournalAction,
+  [ActionType.WEBHOOK]: webhookAction,
+  [ActionType.EXECUTE_TRADE]: executeTradeAction,
+};
+
+// Upper bound on actions per rule
+export const MAX_ACTIONS = 10;
+
+export const getActionDefinition = (type: ActionType): ActionDefinition => ACTION_REGISTRY[type];
+
+/**
+ * New action of a type with its default config
+ */
+export const createAction = (type: ActionType): AlertAction => ({
+  id: nanoid(),
+  actionType: type,
+  config: { ...getActionDefinition(type).defaultConfig },
+});
+
+export type ActionValidationResult =
+  | { success: true; config: ActionConfig }
+  | { success: false; errors: Record<string, string> };
+
+/**
+ * Validate an action config against its type's schema
+ * Unknown keys are stripped; errors are keyed by the first path segment
+ */
+export function validateActionConfig(type: ActionType, config: unknown): ActionValidationResult {
+  const result = getActionDefinition(type).schema.safeParse(config);
+  if (result.success) {
+    return { success: true, config: result.data };
+  }
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const key = String(issue.path[0] ?? '_');
+    errors[key] = errors[key] || issue.message;
+  }
+  return { success: false, errors };
+}
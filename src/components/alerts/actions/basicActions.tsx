@@ -0,0 +1,262 @@
+"use client";
+
+import React, { useState } from 'react';
+import * as z from 'zod';
+import {
+  ActionType,
+  CreateTaskActionConfig,
+  EmailActionConfig,
+  ExecuteTradeActionConfig,
+  InAppActionConfig,
+  LogToJournalActionConfig,
+  NotificationActionConfig,
+  SuggestRebalanceActionConfig,
+} from '../../../types/alerts';
+import { ActionFormProps, defineAction } from './types';
+import { NumberField, SelectField, TextField, parseList } from '../conditions/fields';
+import { formatCurrency } from '../../../utils/formatters';
+
+// Send notification: in-app list, toast and push, depending on the user's preferences
+
+const PRIORITY_LABELS: Record<NotificationActionConfig['priority'], string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+function NotificationActionFields({ idPrefix, value, onChange, errors }: ActionFormProps<NotificationActionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <SelectField
+        id={`${idPrefix}-priority`}
+        label="Priority"
+        description="High and urgent notifications stay on screen until dismissed"
+        value={value.priority}
+        onChange={(priority) => onChange({ ...value, priority })}
+        options={Object.entries(PRIORITY_LABELS).map(([v, label]) => ({ value: v as NotificationActionConfig['priority'], label }))}
+        error={errors.priority}
+      />
+    </div>
+  );
+}
+
+export const notificationAction = defineAction<NotificationActionConfig>({
+  type: ActionType.NOTIFICATION,
+  label: 'Send Notification',
+  description: 'Notify you in the app and on your push devices',
+  schema: z.object({ priority: z.enum(['low', 'normal', 'high', 'urgent']) }),
+  defaultConfig: { priority: 'normal' },
+  Form: NotificationActionFields,
+  summarize: (config) => `${PRIORITY_LABELS[config.priority]} priority`,
+  testable: true,
+});
+
+// Send email
+
+function EmailActionFields({ idPrefix, value, onChange, errors }: ActionFormProps<EmailActionConfig>) {
+  // Keep the raw text so a trailing comma isn't stripped while typing
+  const [recipientsText, setRecipientsText] = useState(value.recipients.join(', '));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-recipients`}
+        label="Recipients"
+        description="Comma separated; leave empty to use your account email"
+        placeholder="Your account email"
+        value={recipientsText}
+        onChange={(text) => {
+          setRecipientsText(text);
+          onChange({ ...value, recipients: parseList(text) });
+        }}
+        error={errors.recipients}
+      />
+      <TextField
+        id={`${idPrefix}-subject`}
+        label="Subject (optional)"
+        placeholder="[AlphaOptimize] {{alert.name}} triggered"
+        value={value.subject}
+        onChange={(subject) => onChange({ ...value, subject: subject || undefined })}
+        error={errors.subject}
+      />
+    </div>
+  );
+}
+
+export const emailAction = defineAction<EmailActionConfig>({
+  type: ActionType.EMAIL,
+  label: 'Send Email',
+  description: 'Email you or a list of recipients',
+  schema: z.object({
+    recipients: z.array(z.string().email({ message: 'Enter valid email addresses' })).max(10, { message: 'At most 10 recipients' }),
+    subject: z.string().max(200).optional(),
+  }),
+  defaultConfig: { recipients: [] },
+  Form: EmailActionFields,
+  summarize: (config) => config.recipients.length > 0 ? `To ${config.recipients.join(', ')}` : 'To your account email',
+  testable: true,
+});
+
+// Show in-app message
+
+function InAppActionFields({ idPrefix, value, onChange, errors }: ActionFormProps<InAppActionConfig>) {
+  return (
+    <TextField
+      id={`${idPrefix}-message`}
+      label="Message (optional)"
+      description="Shown in a banner the next time you open the app"
+      placeholder="{{alert.name}} triggered"
+      value={value.message}
+      onChange={(message) => onChange({ ...value, message: message || undefined })}
+      error={errors.message}
+    />
+  );
+}
+
+export const inAppAction = defineAction<InAppActionConfig>({
+  type: ActionType.IN_APP,
+  label: 'Show In-App Message',
+  description: 'Show a banner the next time you open the app',
+  schema: z.object({ message: z.string().max(500).optional() }),
+  defaultConfig: {},
+  Form: InAppActionFields,
+  summarize: (config) => config.message || 'Default message',
+  testable: false,
+});
+
+// Suggest rebalance
+
+function SuggestRebalanceActionFields({ idPrefix, value, onChange, errors }: ActionFormProps<SuggestRebalanceActionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <NumberField
+        id={`${idPrefix}-minTradeAmount`}
+        label="Minimum Trade ($)"
+        description="Skip suggested trades smaller than this"
+        min={0}
+        step={50}
+        value={value.minTradeAmount}
+        onChange={(minTradeAmount) => onChange({ ...value, minTradeAmount })}
+        error={errors.minTradeAmount}
+      />
+    </div>
+  );
+}
+
+export const suggestRebalanceAction = defineAction<SuggestRebalanceActionConfig>({
+  type: ActionType.SUGGEST_REBALANCE,
+  label: 'Suggest Rebalance',
+  description: 'Prepare rebalancing trades back to your targets',
+  schema: z.object({ minTradeAmount: z.number({ invalid_type_error: 'Amount is required' }).min(0) }),
+  defaultConfig: { minTradeAmount: 100 },
+  Form: SuggestRebalanceActionFields,
+  summarize: (config) => `Trades of ${formatCurrency(config.minTradeAmount)} or more`,
+  testable: false,
+});
+
+// Create task
+
+function CreateTaskActionFields({ idPrefix, value, onChange, errors }: ActionFormProps<CreateTaskActionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-title`}
+        label="Task Title"
+        placeholder="Review {{alert.name}}"
+        value={value.title}
+        onChange={(title) => onChange({ ...value, title })}
+        error={errors.title}
+      />
+      <NumberField
+        id={`${idPrefix}-dueInDays`}
+        label="Due In (days)"
+        min={0}
+        step={1}
+        value={value.dueInDays}
+        onChange={(dueInDays) => onChange({ ...value, dueInDays })}
+        error={errors.dueInDays}
+      />
+    </div>
+  );
+}
+
+export const createTaskAction = defineAction<CreateTaskActionConfig>({
+  type: ActionType.CREATE_TASK,
+  label: 'Create Task',
+  description: 'Add a follow-up task to your task list',
+  schema: z.object({
+    title: z.string().trim().min(1, { message: 'Title is required' }).max(200),
+    dueInDays: z.number({ invalid_type_error: 'Days are required' }).int().min(0).max(365),
+  }),
+  defaultConfig: { title: 'Review {{alert.name}}', dueInDays: 3 },
+  Form: CreateTaskActionFields,
+  summarize: (config) => `"${config.title}", due in ${config.dueInDays} days`,
+  testable: false,
+});
+
+// Log to journal
+
+function LogToJournalActionFields({ idPrefix, value, onChange, errors }: ActionFormProps<LogToJournalActionConfig>) {
+  const [tagsText, setTagsText] = useState(value.tags.join(', '));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-tags`}
+        label="Tags"
+        description="Comma separated"
+        placeholder="e.g. drift, rebalance"
+        value={tagsText}
+        onChange={(text) => {
+          setTagsText(text);
+          onChange({ ...value, tags: parseList(text) });
+        }}
+        error={errors.tags}
+      />
+      <TextField
+        id={`${idPrefix}-note`}
+        label="Note (optional)"
+        value={value.note}
+        onChange={(note) => onChange({ ...value, note: note || undefined })}
+        error={errors.note}
+      />
+    </div>
+  );
+}
+
+export const logToJournalAction = defineAction<LogToJournalActionConfig>({
+  type: ActionType.LOG_TO_JOURNAL,
+  label: 'Log to Journal',
+  description: 'Record the trigger in your investment journal',
+  schema: z.object({
+    tags: z.array(z.string().max(30)).max(10, { message: 'At most 10 tags' }),
+    note: z.string().max(500).optional(),
+  }),
+  defaultConfig: { tags: [] },
+  Form: LogToJournalActionFields,
+  summarize: (config) => config.tags.length > 0 ? `Tagged ${config.tags.join(', ')}` : 'No tags',
+  testable: false,
+});
+
+// Execute trade: configured on the backend only
+
+function ExecuteTradeActionFields() {
+  return (
+    <p className="text-sm text-muted-foreground">
+      Trade execution is configured by your advisor and can&apos;t be edited here.
+    </p>
+  );
+}
+
+export const executeTradeAction = defineAction<ExecuteTradeActionConfig>({
+  type: ActionType.EXECUTE_TRADE,
+  label: 'Execute Trade',
+  description: 'Place trades through your connected brokerage',
+  schema: z.record(z.unknown()) as z.ZodType<ExecuteTradeActionConfig, z.ZodTypeDef, unknown>,
+  defaultConfig: {},
+  Form: ExecuteTradeActionFields,
+  summarize: () => 'Configured by your advisor',
+  testable: false,
+  hidden: true,
+});
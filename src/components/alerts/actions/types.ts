@@ -0,0 +1,40 @@
+/**
+ * Action registry types
+ * Every ActionType has one definition: a zod schema for its config, a form component
+ * that edits it and a summary used in action lists.
+ */
+import type { ComponentType } from 'react';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { ActionType, ConfigValue } from '../../../types/alerts';
+
+export type ActionConfig = Record<string, ConfigValue>;
+
+export interface ActionFormProps<T> {
+  /** Unique per action so field ids don't collide when a rule has several actions */
+  idPrefix: string;
+  value: T;
+  onChange: (value: T) => void;
+  /** Validation messages keyed by config field */
+  errors: Partial<Record<string, string>>;
+}
+
+export interface ActionDefinition<T = ActionConfig> {
+  type: ActionType;
+  label: string;
+  description: string;
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  defaultConfig: T;
+  Form: ComponentType<ActionFormProps<T>>;
+  summarize: (config: T) => string;
+  /** Whether the backend can send a test event for this action */
+  testable: boolean;
+  /** Hidden from the "add action" menu (still shown on rules that already use it) */
+  hidden?: boolean;
+}
+
+/**
+ * Erase a typed action definition so it can be stored in the registry
+ */
+export function defineAction<T>(definition: ActionDefinition<T>): ActionDefinition {
+  return definition as unknown as ActionDefinition;
+}
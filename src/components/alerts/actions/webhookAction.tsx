@@ -0,0 +1,241 @@
+"use client";
+
+import React from 'react';
+import * as z from 'zod';
+import { Plus, Trash2, KeyRound, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { Textarea } from '../../ui/textarea';
+import { ActionType, WebhookActionConfig } from '../../../types/alerts';
+import { ActionFormProps, defineAction } from './types';
+import { ConditionField, SelectField, TextField } from '../conditions/fields';
+
+const DEFAULT_PAYLOAD_TEMPLATE = `{
+  "alert": "{{alert.name}}",
+  "alert_id": "{{alert.id}}",
+  "triggered_at": "{{triggered_at}}",
+  "context": {{context}}
+}`;
+
+// Placeholders are replaced by the backend when the webhook is sent
+const PLACEHOLDER_PATTERN = /\{\{\s*[\w.]+\s*\}\}/g;
+
+const SIGNATURE_HEADER = 'X-AlphaOptimize-Signature';
+
+/**
+ * Whether a payload template is valid JSON once placeholders are filled in
+ */
+const isValidPayloadTemplate = (template: string): boolean => {
+  try {
+    JSON.parse(template.replace(PLACEHOLDER_PATTERN, 'null'));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Random 32-byte hex secret for HMAC signing
+ */
+const generateSecret = (): string =>
+  Array.from(window.crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+function SigningSecretField({ idPrefix, value, onChange, errors }: ActionFormProps<WebhookActionConfig>) {
+  const isEditing = typeof value.signingSecret === 'string';
+  const isRemoving = value.signingSecret === null;
+
+  const handleCopy = async () => {
+    if (!value.signingSecret) return;
+    try {
+      await navigator.clipboard.writeText(value.signingSecret);
+      toast.success('Secret copied to clipboard');
+    } catch {
+      toast.error('Could not copy the secret');
+    }
+  };
+
+  return (
+    <ConditionField
+      id={`${idPrefix}-signingSecret`}
+      label="Signing Secret"
+      description={`Requests are signed with HMAC-SHA256 of the body in the ${SIGNATURE_HEADER} header`}
+      error={errors.signingSecret}
+    >
+      {isEditing ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              id={`${idPrefix}-signingSecret`}
+              className="font-mono"
+              value={value.signingSecret ?? ''}
+              placeholder="At least 16 characters"
+              autoComplete="off"
+              aria-invalid={Boolean(errors.signingSecret)}
+              onChange={(e) => onChange({ ...value, signingSecret: e.target.value })}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...value, signingSecret: generateSecret() })}>
+              <KeyRound className="h-4 w-4 mr-2" />
+              Generate
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleCopy} disabled={!value.signingSecret} title="Copy secret">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">Copy it now; the secret can&apos;t be viewed after saving.</p>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, signingSecret: undefined })}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : isRemoving ? (
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <p className="text-sm text-muted-foreground">The secret will be removed when you save.</p>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, signingSecret: undefined })}>
+            Undo
+          </Button>
+        </div>
+      ) : value.hasSigningSecret ? (
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <p className="text-sm">A signing secret is set.</p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...value, signingSecret: generateSecret() })}>
+              Rotate
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, signingSecret: null })}>
+              Remove
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <p className="text-sm text-muted-foreground">Requests are not signed.</p>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...value, signingSecret: generateSecret() })}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Add secret
+          </Button>
+        </div>
+      )}
+    </ConditionField>
+  );
+}
+
+function WebhookActionFields(props: ActionFormProps<WebhookActionConfig>) {
+  const { idPrefix, value, onChange, errors } = props;
+
+  const updateHeader = (index: number, field: 'name' | 'value', text: string) =>
+    onChange({
+      ...value,
+      headers: value.headers.map((header, i) => (i === index ? { ...header, [field]: text } : header)),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-[1fr_auto]">
+        <TextField
+          id={`${idPrefix}-url`}
+          label="URL"
+          placeholder="https://example.com/hooks/alerts"
+          value={value.url}
+          onChange={(url) => onChange({ ...value, url })}
+          error={errors.url}
+        />
+        <SelectField
+          id={`${idPrefix}-method`}
+          label="Method"
+          value={value.method}
+          onChange={(method) => onChange({ ...value, method })}
+          options={[
+            { value: 'POST', label: 'POST' },
+            { value: 'PUT', label: 'PUT' },
+          ]}
+          error={errors.method}
+        />
+      </div>
+
+      <ConditionField id={`${idPrefix}-headers`} label="Headers" error={errors.headers}>
+        <div className="space-y-2">
+          {value.headers.map((header, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                placeholder="Header name"
+                value={header.name}
+                onChange={(e) => updateHeader(index, 'name', e.target.value)}
+              />
+              <Input
+                placeholder="Value"
+                value={header.value}
+                onChange={(e) => updateHeader(index, 'value', e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0 text-muted-foreground hover:text-destructive"
+                onClick={() => onChange({ ...value, headers: value.headers.filter((_, i) => i !== index) })}
+                title="Remove header"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, headers: [...value.headers, { name: '', value: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add header
+          </Button>
+        </div>
+      </ConditionField>
+
+      <ConditionField
+        id={`${idPrefix}-payloadTemplate`}
+        label="Payload Template"
+        description="JSON body; {{alert.name}}, {{alert.id}}, {{triggered_at}} and {{context}} are filled in when sent"
+        error={errors.payloadTemplate}
+      >
+        <Textarea
+          id={`${idPrefix}-payloadTemplate`}
+          className="font-mono min-h-32"
+          value={value.payloadTemplate}
+          aria-invalid={Boolean(errors.payloadTemplate)}
+          onChange={(e) => onChange({ ...value, payloadTemplate: e.target.value })}
+        />
+      </ConditionField>
+
+      <SigningSecretField {...props} />
+    </div>
+  );
+}
+
+export const webhookAction = defineAction<WebhookActionConfig>({
+  type: ActionType.WEBHOOK,
+  label: 'Call Webhook',
+  description: 'Send a signed HTTP request to your own service',
+  schema: z.object({
+    url: z.string().trim().url({ message: 'Enter a valid URL' }).refine(url => url.startsWith('https://'), {
+      message: 'Webhooks must use HTTPS',
+    }),
+    method: z.enum(['POST', 'PUT']),
+    headers: z.array(z.object({
+      name: z.string().trim().regex(/^[A-Za-z0-9-]+$/, { message: 'Header names may only use letters, digits and dashes' }),
+      value: z.string(),
+    })).max(20, { message: 'At most 20 headers' }),
+    payloadTemplate: z.string().refine(isValidPayloadTemplate, { message: 'Template must be valid JSON' }),
+    signingSecret: z.string().min(16, { message: 'Use at least 16 characters' }).nullable().optional(),
+    hasSigningSecret: z.boolean().optional(),
+  }),
+  defaultConfig: {
+    url: '',
+    method: 'POST',
+    headers: [],
+    payloadTemplate: DEFAULT_PAYLOAD_TEMPLATE,
+  },
+  Form: WebhookActionFields,
+  summarize: (config) => `${config.method} ${config.url}${config.hasSigningSecret || config.signingSecret ? ' (signed)' : ''}`,
+  testable: true,
+});
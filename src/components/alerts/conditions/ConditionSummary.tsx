@@ -0,0 +1,60 @@
+"use client";
+
+import React from 'react';
+import { ConditionType, ConfigValue } from '../../../types/alerts';
+import { getConditionDefinition } from './conditionRegistry';
+import { ConditionContext, ConditionSummaryItem } from './types';
+
+interface ConditionSummaryProps {
+  conditionType: ConditionType;
+  config: Record<string, ConfigValue>;
+  context?: Partial<ConditionContext>;
+  /** Set when the backend sent a condition type this client does not know */
+  unknownConditionType?: string;
+}
+
+const formatRawValue = (value: ConfigValue): string =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+/**
+ * Renders a condition config as label/value pairs using the condition registry
+ * Configs that don't match their schema are shown raw instead of guessed at.
+ */
+export default function ConditionSummary({ conditionType, config, context, unknownConditionType }: ConditionSummaryProps) {
+  const definition = getConditionDefinition(conditionType);
+  const parsed = unknownConditionType ? null : definition.schema.safeParse(config);
+
+  const summaryContext = {
+    sectors: context?.sectors ?? [],
+    assetClasses: context?.assetClasses ?? [],
+  };
+
+  // Conditions with their own detail rendering (e.g. composite trees)
+  if (parsed?.success && definition.Summary) {
+    const Summary = definition.Summary;
+    return <Summary config={parsed.data} context={summaryContext} />;
+  }
+
+  let items: ConditionSummaryItem[];
+  let notice: string | null = null;
+  if (parsed?.success) {
+    items = definition.summarize(parsed.data, summaryContext);
+  } else {
+    notice = unknownConditionType
+      ? `"${unknownConditionType}" conditions are not supported by this version of the app.`
+      : 'This configuration does not match the expected format.';
+    items = Object.entries(config || {}).map(([label, value]) => ({ label, value: formatRawValue(value) }));
+  }
+
+  return (
+    <div className="space-y-4">
+      {notice && <p className="text-sm text-amber-600">{notice}</p>}
+      {items.map(item => (
+        <div key={item.label}>
+          <h3 className="text-sm font-medium text-muted-foreground">{item.label}</h3>
+          <p className="break-words">{item.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
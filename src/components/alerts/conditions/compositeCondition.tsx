@@ -0,0 +1,340 @@
+"use client";
+
+import React from 'react';
+import * as z from 'zod';
+import { nanoid } from '@reduxjs/toolkit';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
+import { Button } from '../../ui/button';
+import { Badge } from '../../ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '../../ui/toggle-group';
+import {
+  ConditionType,
+  ConditionGroup,
+  ConditionLeaf,
+  ConditionNode,
+  CompositeConditionConfig,
+} from '../../../types/alerts';
+import {
+  ConditionConfig,
+  ConditionContext,
+  ConditionDefinition,
+  ConditionFormProps,
+  defineCondition,
+} from './types';
+import { SelectField } from './fields';
+
+// Composite conditions are built from the other registry entries, which are passed in
+// by the registry to avoid a circular import
+interface CompositeConditionDependencies {
+  getDefinition: (type: ConditionType) => ConditionDefinition;
+  getDefaultConfig: (type: ConditionType, previous?: ConditionConfig) => ConditionConfig;
+}
+
+// Top-level group plus two levels of nested groups
+const MAX_GROUP_DEPTH = 3;
+
+const LEAF_CONDITION_TYPES = Object.values(ConditionType).filter(type => type !== ConditionType.COMPOSITE);
+
+const OPERATOR_LABELS = {
+  and: 'AND',
+  or: 'OR',
+};
+
+/**
+ * Number of leaf conditions in a tree
+ */
+export const countConditions = (node: ConditionNode): number =>
+  node.kind === 'condition'
+    ? 1
+    : node.conditions.reduce((sum, child) => sum + countConditions(child), 0);
+
+export function createCompositeCondition({ getDefinition, getDefaultConfig }: CompositeConditionDependencies): ConditionDefinition {
+  const createLeaf = (conditionType: ConditionType = ConditionType.DRIFT): ConditionLeaf => ({
+    id: nanoid(),
+    kind: 'condition',
+    conditionType,
+    config: getDefaultConfig(conditionType),
+  });
+
+  const createGroup = (operator: ConditionGroup['operator'] = 'and'): ConditionGroup => ({
+    id: nanoid(),
+    kind: 'group',
+    operator,
+    conditions: [createLeaf()],
+  });
+
+  // Leaves are validated (and stripped of unknown fields) by their own condition's schema
+  const leafSchema = z.object({
+    id: z.string(),
+    kind: z.literal('condition'),
+    conditionType: z.nativeEnum(ConditionType).refine(type => type !== ConditionType.COMPOSITE, {
+      message: 'Use a group to nest conditions',
+    }),
+    config: z.record(z.unknown()),
+  }).transform((leaf, ctx): ConditionLeaf => {
+    const result = getDefinition(leaf.conditionType).schema.safeParse(leaf.config);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', ...issue.path], message: issue.message });
+      });
+      return z.NEVER;
+    }
+    return { ...leaf, config: result.data };
+  });
+
+  const nodeSchema: z.ZodType<ConditionNode, z.ZodTypeDef, unknown> = z.lazy(() => z.union([leafSchema, groupSchema]));
+
+  const groupSchema = z.object({
+    id: z.string(),
+    kind: z.literal('group'),
+    operator: z.enum(['and', 'or']),
+    conditions: z.array(nodeSchema).min(1, { message: 'Groups need at least one condition' }),
+  });
+
+  const compositeSchema = groupSchema.refine(group => countConditions(group) >= 2, {
+    message: 'Combine at least two conditions',
+    path: ['conditions'],
+  });
+
+  /**
+   * Field errors for one leaf, keyed like a standalone condition form's errors
+   */
+  const getLeafErrors = (leaf: ConditionLeaf): Record<string, string> => {
+    const result = getDefinition(leaf.conditionType).schema.safeParse(leaf.config);
+    if (result.success) return {};
+    const errors: Record<string, string> = {};
+    result.error.issues.forEach(issue => {
+      const key = String(issue.path[0] ?? '_');
+      errors[key] = errors[key] || issue.message;
+    });
+    return errors;
+  };
+
+  /**
+   * One line per tree, e.g. "Sector Drift AND (Idle Cash OR Volatility)"
+   */
+  const describeNode = (node: ConditionNode, nested = false): string => {
+    if (node.kind === 'condition') return getDefinition(node.conditionType).label;
+    const text = node.conditions.map(child => describeNode(child, true)).join(` ${OPERATOR_LABELS[node.operator]} `);
+    return nested && node.conditions.length > 1 ? `(${text})` : text;
+  };
+
+  interface LeafEditorProps {
+    leaf: ConditionLeaf;
+    onChange: (leaf: ConditionLeaf) => void;
+    onRemove: () => void;
+    showErrors: boolean;
+    context: ConditionContext;
+  }
+
+  function LeafEditor({ leaf, onChange, onRemove, showErrors, context }: LeafEditorProps) {
+    const LeafFields = getDefinition(leaf.conditionType).Form;
+    return (
+      <div className="rounded-lg border p-4 space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <SelectField
+              id={`condition-${leaf.id}`}
+              label="Condition"
+              value={leaf.conditionType}
+              onChange={(conditionType) => onChange({
+                ...leaf,
+                conditionType,
+                config: getDefaultConfig(conditionType, leaf.config),
+              })}
+              options={LEAF_CONDITION_TYPES.map(type => ({ value: type, label: getDefinition(type).label }))}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-9 w-9 p-0 text-muted-foreground hover:text-destructive"
+            onClick={onRemove}
+            title="Remove condition"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <LeafFields
+          key={leaf.conditionType}
+          idPrefix={`condition-${leaf.id}`}
+          conditionType={leaf.conditionType}
+          value={leaf.config}
+          onChange={(config) => onChange({ ...leaf, config })}
+          errors={showErrors ? getLeafErrors(leaf) : {}}
+          context={context}
+        />
+      </div>
+    );
+  }
+
+  interface GroupEditorProps {
+    group: ConditionGroup;
+    onChange: (group: ConditionGroup) => void;
+    /** Omitted for the top-level group, which can't be removed */
+    onRemove?: () => void;
+    depth: number;
+    showErrors: boolean;
+    context: ConditionContext;
+  }
+
+  function GroupEditor({ group, onChange, onRemove, depth, showErrors, context }: GroupEditorProps) {
+    const updateChild = (index: number, child: ConditionNode) =>
+      onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+    const removeChild = (index: number) =>
+      onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+    return (
+      <div className={depth > 0 ? 'space-y-3 rounded-lg border border-dashed p-4' : 'space-y-3'}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Match</span>
+            <ToggleGroup
+              type="single"
+              value={group.operator}
+              onValueChange={(operator) => operator && onChange({ ...group, operator: operator as ConditionGroup['operator'] })}
+            >
+              <ToggleGroupItem value="and">All (AND)</ToggleGroupItem>
+              <ToggleGroupItem value="or">Any (OR)</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          {onRemove && (
+            <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Remove group
+            </Button>
+          )}
+        </div>
+
+        {group.conditions.map((node, index) => (
+          <React.Fragment key={node.id}>
+            {index > 0 && (
+              <div className="flex justify-center">
+                <Badge variant="outline">{OPERATOR_LABELS[group.operator]}</Badge>
+              </div>
+            )}
+            {node.kind === 'group' ? (
+              <GroupEditor
+                group={node}
+                onChange={(child) => updateChild(index, child)}
+                onRemove={() => removeChild(index)}
+                depth={depth + 1}
+                showErrors={showErrors}
+                context={context}
+              />
+            ) : (
+              <LeafEditor
+                leaf={node}
+                onChange={(child) => updateChild(index, child)}
+                onRemove={() => removeChild(index)}
+                showErrors={showErrors}
+                context={context}
+              />
+            )}
+          </React.Fragment>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, createLeaf()] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add condition
+          </Button>
+          {depth < MAX_GROUP_DEPTH - 1 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({
+                ...group,
+                conditions: [...group.conditions, createGroup(group.operator === 'and' ? 'or' : 'and')],
+              })}
+            >
+              <FolderPlus className="h-4 w-4 mr-2" />
+              Add group
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  function CompositeConditionFields({ value, onChange, errors, context }: ConditionFormProps<CompositeConditionConfig>) {
+    // The form reports a single error for the tree; leaf editors show their own field errors
+    const showErrors = Object.keys(errors).length > 0;
+    const hasLeafErrors = (node: ConditionNode): boolean =>
+      node.kind === 'condition'
+        ? Object.keys(getLeafErrors(node)).length > 0
+        : node.conditions.some(hasLeafErrors);
+
+    return (
+      <div className="space-y-3">
+        <GroupEditor group={value} onChange={onChange} depth={0} showErrors={showErrors} context={context} />
+        {showErrors && (
+          <p className="text-destructive text-sm">
+            {hasLeafErrors(value) ? 'Fix the highlighted conditions' : errors.conditions || errors.operator}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  function NodeSummary({ node, context }: { node: ConditionNode; context: ConditionContext }) {
+    if (node.kind === 'condition') {
+      const definition = getDefinition(node.conditionType);
+      return (
+        <div>
+          <p className="font-medium">{definition.label}</p>
+          <p className="text-sm text-muted-foreground break-words">
+            {definition.summarize(node.config, context).map(item => `${item.label}: ${item.value}`).join(' · ')}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2 border-l-2 pl-3">
+        <Badge variant="secondary">{node.operator === 'and' ? 'All of' : 'Any of'}</Badge>
+        {node.conditions.map((child, index) => (
+          <React.Fragment key={child.id}>
+            {index > 0 && <p className="text-xs font-medium text-muted-foreground">{OPERATOR_LABELS[node.operator]}</p>}
+            <NodeSummary node={child} context={context} />
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  }
+
+  function CompositeConditionSummary({ config, context }: { config: CompositeConditionConfig; context: ConditionContext }) {
+    return <NodeSummary node={config} context={context} />;
+  }
+
+  return defineCondition<CompositeConditionConfig>({
+    type: ConditionType.COMPOSITE,
+    label: 'Combined Conditions',
+    description: 'Several conditions combined with AND/OR logic',
+    category: 'composite',
+    schema: compositeSchema,
+    get defaultConfig() {
+      // Fresh ids for every new rule
+      const group: CompositeConditionConfig = {
+        id: nanoid(),
+        kind: 'group',
+        operator: 'and',
+        conditions: [createLeaf(), createLeaf(ConditionType.CASH_IDLE)],
+      };
+      return group;
+    },
+    Form: CompositeConditionFields,
+    summarize: (config) => [
+      { label: 'Logic', value: describeNode(config) },
+      { label: 'Conditions', value: String(countConditions(config)) },
+    ],
+    Summary: CompositeConditionSummary,
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Condition registry
+ * Maps every ConditionType to its config schema, form component and summary renderer
+ */
+import { ConditionType } from '../../../types/alerts';
+import { ConditionConfig, ConditionDefinition } from './types';
+import { driftCondition, sectorDriftCondition, assetClassDriftCondition } from './driftConditions';
+import { priceMovementCondition, volatilityCondition, volumeCondition } from './marketConditions';
+import { performanceCondition, cashIdleCondition, dividendCondition } from './portfolioConditions';
+import { newsCondition, customCondition } from './otherConditions';
+import { createCompositeCondition } from './compositeCondition';
+
+export const CONDITION_REGISTRY: Record<ConditionType, ConditionDefinition> = {
+  [ConditionType.DRIFT]: driftCondition,
+  [ConditionType.SECTOR_DRIFT]: sectorDriftCondition,
+  [ConditionType.ASSET_CLASS_DRIFT]: assetClassDriftCondition,
+  [ConditionType.PRICE_MOVEMENT]: priceMovementCondition,
+  [ConditionType.VOLATILITY]: volatilityCondition,
+  [ConditionType.VOLUME]: volumeCondition,
+  [ConditionType.PERFORMANCE]: performanceCondition,
+  [ConditionType.CASH_IDLE]: cashIdleCondition,
+  [ConditionType.DIVIDEND]: dividendCondition,
+  [ConditionType.NEWS]: newsCondition,
+  [ConditionType.CUSTOM]: customCondition,
+  [ConditionType.COMPOSITE]: createCompositeCondition({
+    getDefinition: type => CONDITION_REGISTRY[type],
+    getDefaultConfig: (type, previous) => getDefaultConditionConfig(type, previous),
+  }),
+};
+
+export const DRIFT_CONDITION_TYPES = [
+  ConditionType.DRIFT,
+  ConditionType.SECTOR_DRIFT,
+  ConditionType.ASSET_CLASS_DRIFT,
+];
+
+export const getConditionDefinition = (type: ConditionType): ConditionDefinition => CONDITION_REGISTRY[type];
+
+/**
+ * Condition types offered under a create page tab, in registry order
+ */
+export const getConditionTypesByCategory = (category: ConditionDefinition['category']): ConditionType[] =>
+  Object.values(CONDITION_REGISTRY)
+    .filter(definition => definition.category === category)
+    .map(definition => definition.type);
+
+export type ConditionValidationResult =
+  | { success: true; config: ConditionConfig }
+  | { success: false; errors: Record<string, string> };
+
+/**
+ * Validate a condition config against its type's schema
+ * Unknown keys are stripped; errors are keyed by the first path segment
+ */
+export function validateConditionConfig(type: ConditionType, config: unknown): ConditionValidationResult {
+  const result = getConditionDefinition(type).schema.safeParse(config);
+  if (result.success) {
+    return { success: true, config: result.data };
+  }
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const key = String(issue.path[0] ?? '_');
+    errors[key] = errors[key] || issue.message;
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Default config for a condition type, keeping any values from the previous
+ * config that the new type also uses (e.g. threshold when switching drift types)
+ */
+export function getDefaultConditionConfig(type: ConditionType, previous?: ConditionConfig): ConditionConfig {
+  const { defaultConfig } = getConditionDefinition(type);
+  if (!previous) return { ...defaultConfig };
+
+  const carried = Object.fromEntries(
+    Object.keys(defaultConfig)
+      .filter(key => previous[key] !== undefined)
+      .map(key => [key, previous[key]])
+  );
+  return { ...defaultConfig, ...carried };
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import React from 'react';
+import * as z from 'zod';
+import { Slider } from '../../ui/slider';
+import { Switch } from '../../ui/switch';
+import { Label } from '../../ui/label';
+import { ConditionType, DriftRuleConditionConfig } from '../../../types/alerts';
+import { ConditionContext, ConditionFormProps, ConditionSummaryItem, defineCondition } from './types';
+import { ConditionField, SelectField } from './fields';
+
+// Sentinels the selects use for "no specific sector/asset class"
+export const ALL_SECTORS = 'all_sectors';
+export const ALL_ASSET_CLASSES = 'all_asset_classes';
+
+const driftSchema: z.ZodType<DriftRuleConditionConfig> = z.object({
+  thresholdPercent: z.number({ invalid_type_error: 'Threshold is required' }).min(0.1).max(50),
+  driftType: z.enum(['absolute', 'relative']),
+  sectorId: z.string().optional(),
+  assetClassId: z.string().optional(),
+  useToleranceBands: z.boolean().optional(),
+});
+
+const defaultDriftConfig: DriftRuleConditionConfig = {
+  thresholdPercent: 5,
+  driftType: 'absolute',
+};
+
+function DriftConditionFields({ idPrefix, conditionType, value, onChange, errors, context }: ConditionFormProps<DriftRuleConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <SelectField
+        id={`${idPrefix}-driftType`}
+        label="Drift Calculation"
+        description="How drift should be calculated"
+        value={value.driftType}
+        onChange={(driftType) => onChange({ ...value, driftType })}
+        options={[
+          { value: 'absolute', label: 'Absolute (% change)' },
+          { value: 'relative', label: 'Relative (% from target)' },
+        ]}
+        error={errors.driftType}
+      />
+
+      {conditionType === ConditionType.SECTOR_DRIFT && (
+        <SelectField
+          id={`${idPrefix}-sectorId`}
+          label="Sector"
+          description="Monitor all sectors or a specific one"
+          placeholder="All sectors"
+          value={value.sectorId}
+          onChange={(sectorId) => onChange({ ...value, sectorId })}
+          options={[
+            { value: ALL_SECTORS, label: 'All sectors' },
+            ...context.sectors.map(sector => ({ value: String(sector.id), label: sector.name })),
+          ]}
+          error={errors.sectorId}
+        />
+      )}
+
+      {conditionType === ConditionType.ASSET_CLASS_DRIFT && (
+        <SelectField
+          id={`${idPrefix}-assetClassId`}
+          label="Asset Class"
+          description="Monitor all asset classes or a specific one"
+          placeholder="All asset classes"
+          value={value.assetClassId}
+          onChange={(assetClassId) => onChange({ ...value, assetClassId })}
+          options={[
+            { value: ALL_ASSET_CLASSES, label: 'All asset classes' },
+            ...context.assetClasses.map(assetClass => ({ value: String(assetClass.id), label: assetClass.name })),
+          ]}
+          error={errors.assetClassId}
+        />
+      )}
+
+      <div className="flex flex-row items-center justify-between rounded-lg border p-4 md:col-span-2">
+        <div className="space-y-0.5">
+          <Label htmlFor={`${idPrefix}-useToleranceBands`} className="text-base">Use Tolerance Bands</Label>
+          <p className="text-muted-foreground text-sm">
+            Alert when an item leaves the band saved with its target allocation
+          </p>
+        </div>
+        <Switch
+          id={`${idPrefix}-useToleranceBands`}
+          checked={Boolean(value.useToleranceBands)}
+          onCheckedChange={(useToleranceBands) => onChange({ ...value, useToleranceBands })}
+        />
+      </div>
+
+      <ConditionField
+        id={`${idPrefix}-thresholdPercent`}
+        label={`${value.useToleranceBands ? 'Fallback Threshold' : 'Threshold Percentage'}: ${value.thresholdPercent}%`}
+        description={value.useToleranceBands
+          ? 'Used for items that have no tolerance band saved'
+          : 'Alert when drift exceeds this percentage'}
+        error={errors.thresholdPercent}
+      >
+        <Slider
+          id={`${idPrefix}-thresholdPercent`}
+          value={[value.thresholdPercent]}
+          max={50}
+          min={0.1}
+          step={0.1}
+          onValueChange={(values) => onChange({ ...value, thresholdPercent: values[0] })}
+        />
+      </ConditionField>
+    </div>
+  );
+}
+
+const summarizeDrift = (config: DriftRuleConditionConfig, context: ConditionContext): ConditionSummaryItem[] => {
+  const items: ConditionSummaryItem[] = [
+    { label: 'Drift Type', value: config.driftType === 'absolute' ? 'Absolute (% change)' : 'Relative (% from target)' },
+    {
+      label: 'Threshold',
+      value: config.useToleranceBands
+        ? `Tolerance bands (${config.thresholdPercent}% without a band)`
+        : `${config.thresholdPercent}%`,
+    },
+  ];
+  if (config.sectorId !== undefined) {
+    items.push({
+      label: 'Specific Sector',
+      value: config.sectorId === ALL_SECTORS
+        ? 'All Sectors'
+        : context.sectors.find(s => String(s.id) === config.sectorId)?.name || config.sectorId,
+    });
+  }
+  if (config.assetClassId !== undefined) {
+    items.push({
+      label: 'Specific Asset Class',
+      value: config.assetClassId === ALL_ASSET_CLASSES
+        ? 'All Asset Classes'
+        : context.assetClasses.find(a => String(a.id) === config.assetClassId)?.name || config.assetClassId,
+    });
+  }
+  return items;
+};
+
+export const driftCondition = defineCondition<DriftRuleConditionConfig>({
+  type: ConditionType.DRIFT,
+  label: 'Overall Portfolio Drift',
+  description: 'Allocation drifts away from your targets',
+  category: 'drift',
+  schema: driftSchema,
+  defaultConfig: defaultDriftConfig,
+  Form: DriftConditionFields,
+  summarize: summarizeDrift,
+});
+
+export const sectorDriftCondition = defineCondition<DriftRuleConditionConfig>({
+  type: ConditionType.SECTOR_DRIFT,
+  label: 'Sector Drift',
+  description: 'A sector drifts away from its target weight',
+  category: 'drift',
+  schema: driftSchema,
+  defaultConfig: { ...defaultDriftConfig, sectorId: ALL_SECTORS },
+  Form: DriftConditionFields,
+  summarize: summarizeDrift,
+});
+
+export const assetClassDriftCondition = defineCondition<DriftRuleConditionConfig>({
+  type: ConditionType.ASSET_CLASS_DRIFT,
+  label: 'Asset Class Drift',
+  description: 'An asset class drifts away from its target weight',
+  category: 'drift',
+  schema: driftSchema,
+  defaultConfig: { ...defaultDriftConfig, assetClassId: ALL_ASSET_CLASSES },
+  Form: DriftConditionFields,
+  summarize: summarizeDrift,
+});
@@ -0,0 +1,115 @@
+"use client";
+
+import React from 'react';
+import { Label } from '../../ui/label';
+import { Input } from '../../ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../ui/select';
+
+interface ConditionFieldProps {
+  id: string;
+  label: React.ReactNode;
+  description?: string;
+  error?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Label, control, description and error laid out like the shared FormItem
+ */
+export function ConditionField({ id, label, description, error, children }: ConditionFieldProps) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id} className={error ? 'text-destructive' : undefined}>{label}</Label>
+      {children}
+      {description && !error && <p className="text-muted-foreground text-sm">{description}</p>}
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
+
+interface NumberFieldProps extends Omit<ConditionFieldProps, 'children'> {
+  value: number | undefined;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+/**
+ * Numeric input; an empty input reports NaN so the schema flags it as required
+ */
+export function NumberField({ value, onChange, min, max, step, ...field }: NumberFieldProps) {
+  return (
+    <ConditionField {...field}>
+      <Input
+        id={field.id}
+        type="number"
+        value={value === undefined || Number.isNaN(value) ? '' : value}
+        min={min}
+        max={max}
+        step={step}
+        aria-invalid={Boolean(field.error)}
+        onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      />
+    </ConditionField>
+  );
+}
+
+interface TextFieldProps extends Omit<ConditionFieldProps, 'children'> {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  uppercase?: boolean;
+}
+
+export function TextField({ value, onChange, placeholder, uppercase = false, ...field }: TextFieldProps) {
+  return (
+    <ConditionField {...field}>
+      <Input
+        id={field.id}
+        value={value ?? ''}
+        placeholder={placeholder}
+        aria-invalid={Boolean(field.error)}
+        onChange={(e) => onChange(uppercase ? e.target.value.toUpperCase() : e.target.value)}
+      />
+    </ConditionField>
+  );
+}
+
+interface SelectFieldProps<V extends string> extends Omit<ConditionFieldProps, 'children'> {
+  value: V | undefined;
+  onChange: (value: V) => void;
+  options: { value: V; label: string }[];
+  placeholder?: string;
+}
+
+export function SelectField<V extends string>({ value, onChange, options, placeholder, ...field }: SelectFieldProps<V>) {
+  return (
+    <ConditionField {...field}>
+      <Select value={value} onValueChange={(v) => onChange(v as V)}>
+        <SelectTrigger id={field.id}>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent position="item-aligned" side="bottom" align="start" className="z-[9999]" style={{ position: 'relative', zIndex: 9999 }}>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </ConditionField>
+  );
+}
+
+/**
+ * Split a comma separated list into trimmed, non-empty entries
+ */
+export const parseList = (text: string): string[] =>
+  text.split(',').map(entry => entry.trim()).filter(Boolean);
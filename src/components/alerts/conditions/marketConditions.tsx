@@ -0,0 +1,202 @@
+"use client";
+
+import React from 'react';
+import * as z from 'zod';
+import {
+  ConditionType,
+  PriceMovementConditionConfig,
+  VolatilityConditionConfig,
+  VolumeConditionConfig,
+} from '../../../types/alerts';
+import { ConditionFormProps, defineCondition } from './types';
+import { NumberField, SelectField, TextField } from './fields';
+
+const symbolSchema = z.string().trim().min(1, { message: 'Symbol is required' }).max(10, { message: 'Symbol too long' });
+
+// Price movement: price moves more than threshold_pct over lookbackDays
+
+const DIRECTION_LABELS: Record<PriceMovementConditionConfig['direction'], string> = {
+  up: 'Rises',
+  down: 'Falls',
+  either: 'Rises or falls',
+};
+
+function PriceMovementFields({ idPrefix, value, onChange, errors }: ConditionFormProps<PriceMovementConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-symbol`}
+        label="Symbol"
+        description="Security to watch"
+        placeholder="e.g. AAPL"
+        uppercase
+        value={value.symbol}
+        onChange={(symbol) => onChange({ ...value, symbol })}
+        error={errors.symbol}
+      />
+      <SelectField
+        id={`${idPrefix}-direction`}
+        label="Direction"
+        value={value.direction}
+        onChange={(direction) => onChange({ ...value, direction })}
+        options={Object.entries(DIRECTION_LABELS).map(([v, label]) => ({ value: v as PriceMovementConditionConfig['direction'], label }))}
+        error={errors.direction}
+      />
+      <NumberField
+        id={`${idPrefix}-threshold_pct`}
+        label="Change (%)"
+        description="Alert when the price moves more than this"
+        min={0.1}
+        step={0.1}
+        value={value.threshold_pct}
+        onChange={(threshold_pct) => onChange({ ...value, threshold_pct })}
+        error={errors.threshold_pct}
+      />
+      <NumberField
+        id={`${idPrefix}-lookbackDays`}
+        label="Over (days)"
+        description="Window the change is measured over"
+        min={1}
+        step={1}
+        value={value.lookbackDays}
+        onChange={(lookbackDays) => onChange({ ...value, lookbackDays })}
+        error={errors.lookbackDays}
+      />
+    </div>
+  );
+}
+
+export const priceMovementCondition = defineCondition<PriceMovementConditionConfig>({
+  type: ConditionType.PRICE_MOVEMENT,
+  label: 'Price Movement',
+  description: 'A security price moves significantly',
+  category: 'price',
+  schema: z.object({
+    symbol: symbolSchema,
+    threshold_pct: z.number({ invalid_type_error: 'Change is required' }).min(0.1).max(100),
+    direction: z.enum(['up', 'down', 'either']),
+    lookbackDays: z.number({ invalid_type_error: 'Window is required' }).int().min(1).max(365),
+  }),
+  defaultConfig: { symbol: '', threshold_pct: 5, direction: 'either', lookbackDays: 1 },
+  Form: PriceMovementFields,
+  summarize: (config) => [
+    { label: 'Symbol', value: config.symbol },
+    { label: 'Condition', value: `${DIRECTION_LABELS[config.direction]} more than ${config.threshold_pct}%` },
+    { label: 'Window', value: config.lookbackDays === 1 ? '1 day' : `${config.lookbackDays} days` },
+  ],
+});
+
+// Volatility: annualized volatility of a security (or the portfolio) exceeds a threshold
+
+function VolatilityFields({ idPrefix, value, onChange, errors }: ConditionFormProps<VolatilityConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-symbol`}
+        label="Symbol (optional)"
+        description="Leave empty to watch the whole portfolio"
+        placeholder="Portfolio"
+        uppercase
+        value={value.symbol}
+        onChange={(symbol) => onChange({ ...value, symbol: symbol || undefined })}
+        error={errors.symbol}
+      />
+      <NumberField
+        id={`${idPrefix}-thresholdPercent`}
+        label="Annualized Volatility (%)"
+        description="Alert when volatility rises above this"
+        min={1}
+        step={0.5}
+        value={value.thresholdPercent}
+        onChange={(thresholdPercent) => onChange({ ...value, thresholdPercent })}
+        error={errors.thresholdPercent}
+      />
+      <NumberField
+        id={`${idPrefix}-windowDays`}
+        label="Window (days)"
+        description="Trading days used to measure volatility"
+        min={5}
+        step={1}
+        value={value.windowDays}
+        onChange={(windowDays) => onChange({ ...value, windowDays })}
+        error={errors.windowDays}
+      />
+    </div>
+  );
+}
+
+export const volatilityCondition = defineCondition<VolatilityConditionConfig>({
+  type: ConditionType.VOLATILITY,
+  label: 'Volatility',
+  description: 'Volatility rises above a threshold',
+  category: 'price',
+  schema: z.object({
+    symbol: symbolSchema.optional(),
+    thresholdPercent: z.number({ invalid_type_error: 'Threshold is required' }).min(1).max(200),
+    windowDays: z.number({ invalid_type_error: 'Window is required' }).int().min(5).max(252),
+  }),
+  defaultConfig: { thresholdPercent: 25, windowDays: 21 },
+  Form: VolatilityFields,
+  summarize: (config) => [
+    { label: 'Applies To', value: config.symbol || 'Portfolio' },
+    { label: 'Threshold', value: `${config.thresholdPercent}% annualized` },
+    { label: 'Window', value: `${config.windowDays} trading days` },
+  ],
+});
+
+// Volume: daily volume is a multiple of its recent average
+
+function VolumeFields({ idPrefix, value, onChange, errors }: ConditionFormProps<VolumeConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-symbol`}
+        label="Symbol"
+        description="Security to watch"
+        placeholder="e.g. AAPL"
+        uppercase
+        value={value.symbol}
+        onChange={(symbol) => onChange({ ...value, symbol })}
+        error={errors.symbol}
+      />
+      <NumberField
+        id={`${idPrefix}-multipleOfAverage`}
+        label="Volume Multiple"
+        description="Alert when volume exceeds this multiple of average"
+        min={1.1}
+        step={0.1}
+        value={value.multipleOfAverage}
+        onChange={(multipleOfAverage) => onChange({ ...value, multipleOfAverage })}
+        error={errors.multipleOfAverage}
+      />
+      <NumberField
+        id={`${idPrefix}-averageDays`}
+        label="Average Over (days)"
+        min={5}
+        step={1}
+        value={value.averageDays}
+        onChange={(averageDays) => onChange({ ...value, averageDays })}
+        error={errors.averageDays}
+      />
+    </div>
+  );
+}
+
+export const volumeCondition = defineCondition<VolumeConditionConfig>({
+  type: ConditionType.VOLUME,
+  label: 'Volume Spike',
+  description: 'Trading volume spikes above its average',
+  category: 'price',
+  schema: z.object({
+    symbol: symbolSchema,
+    multipleOfAverage: z.number({ invalid_type_error: 'Multiple is required' }).min(1.1).max(50),
+    averageDays: z.number({ invalid_type_error: 'Average window is required' }).int().min(5).max(90),
+  }),
+  defaultConfig: { symbol: '', multipleOfAverage: 2, averageDays: 20 },
+  Form: VolumeFields,
+  summarize: (config) => [
+    { label: 'Symbol', value: config.symbol },
+    { label: 'Condition', value: `Volume above ${config.multipleOfAverage}× average` },
+    { label: 'Average Window', value: `${config.averageDays} days` },
+  ],
+});
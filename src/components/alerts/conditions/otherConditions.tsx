@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from 'react';
+import * as z from 'zod';
+import { Textarea } from '../../ui/textarea';
+import { ConditionType, CustomConditionConfig, NewsConditionConfig } from '../../../types/alerts';
+import { ConditionFormProps, defineCondition } from './types';
+import { ConditionField, TextField, parseList } from './fields';
+
+// News: headlines mentioning holdings or keywords
+
+function NewsFields({ idPrefix, value, onChange, errors }: ConditionFormProps<NewsConditionConfig>) {
+  // Keep the raw text so a trailing comma isn't stripped while typing
+  const [symbolsText, setSymbolsText] = useState(value.symbols.join(', '));
+  const [keywordsText, setKeywordsText] = useState(value.keywords.join(', '));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-symbols`}
+        label="Symbols"
+        description="Comma separated; leave empty for all holdings"
+        placeholder="All holdings"
+        uppercase
+        value={symbolsText}
+        onChange={(text) => {
+          setSymbolsText(text);
+          onChange({ ...value, symbols: parseList(text) });
+        }}
+        error={errors.symbols}
+      />
+      <TextField
+        id={`${idPrefix}-keywords`}
+        label="Keywords"
+        description="Comma separated; only headlines containing one of these"
+        placeholder="e.g. earnings, guidance"
+        value={keywordsText}
+        onChange={(text) => {
+          setKeywordsText(text);
+          onChange({ ...value, keywords: parseList(text) });
+        }}
+        error={errors.keywords}
+      />
+    </div>
+  );
+}
+
+export const newsCondition = defineCondition<NewsConditionConfig>({
+  type: ConditionType.NEWS,
+  label: 'News',
+  description: 'News mentions your holdings',
+  category: 'other',
+  schema: z.object({
+    symbols: z.array(z.string().max(10, { message: 'Symbol too long' })).max(25, { message: 'At most 25 symbols' }),
+    keywords: z.array(z.string()).max(25, { message: 'At most 25 keywords' }),
+  }),
+  defaultConfig: { symbols: [], keywords: [] },
+  Form: NewsFields,
+  summarize: (config) => [
+    { label: 'Symbols', value: config.symbols.length > 0 ? config.symbols.join(', ') : 'All holdings' },
+    { label: 'Keywords', value: config.keywords.length > 0 ? config.keywords.join(', ') : 'Any headline' },
+  ],
+});
+
+// Custom: an expression evaluated by the backend rule engine
+
+function CustomFields({ idPrefix, value, onChange, errors }: ConditionFormProps<CustomConditionConfig>) {
+  return (
+    <div className="grid gap-4">
+      <ConditionField
+        id={`${idPrefix}-expression`}
+        label="Expression"
+        description="Evaluated by the alert engine, e.g. cash_balance > 5000 and days_since_deposit > 30"
+        error={errors.expression}
+      >
+        <Textarea
+          id={`${idPrefix}-expression`}
+          className="font-mono"
+          value={value.expression}
+          aria-invalid={Boolean(errors.expression)}
+          onChange={(e) => onChange({ ...value, expression: e.target.value })}
+        />
+      </ConditionField>
+      <TextField
+        id={`${idPrefix}-description`}
+        label="Description (optional)"
+        placeholder="What this rule watches for"
+        value={value.description}
+        onChange={(description) => onChange({ ...value, description: description || undefined })}
+        error={errors.description}
+      />
+    </div>
+  );
+}
+
+export const customCondition = defineCondition<CustomConditionConfig>({
+  type: ConditionType.CUSTOM,
+  label: 'Custom',
+  description: 'Your own condition expression',
+  category: 'other',
+  schema: z.object({
+    expression: z.string().trim().min(1, { message: 'Expression is required' }).max(1000),
+    description: z.string().max(200).optional(),
+  }),
+  defaultConfig: { expression: '' },
+  Form: CustomFields,
+  summarize: (config) => [
+    { label: 'Expression', value: config.expression },
+    ...(config.description ? [{ label: 'Description', value: config.description }] : []),
+  ],
+});
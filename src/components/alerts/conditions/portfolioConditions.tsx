@@ -0,0 +1,205 @@
+"use client";
+
+import React from 'react';
+import * as z from 'zod';
+import {
+  ConditionType,
+  CashIdleConditionConfig,
+  DividendConditionConfig,
+  PerformanceConditionConfig,
+} from '../../../types/alerts';
+import { ConditionFormProps, defineCondition } from './types';
+import { NumberField, SelectField, TextField } from './fields';
+import { formatCurrency } from '../../../utils/formatters';
+
+// Performance: a return metric crosses a threshold over a period
+
+const METRIC_LABELS: Record<PerformanceConditionConfig['metric'], string> = {
+  return: 'Portfolio return',
+  drawdown: 'Drawdown from peak',
+  benchmark_excess: 'Return vs. benchmark',
+};
+
+const PERIOD_LABELS: Record<PerformanceConditionConfig['period'], string> = {
+  '1D': '1 day',
+  '1W': '1 week',
+  '1M': '1 month',
+  '3M': '3 months',
+  YTD: 'Year to date',
+  '1Y': '1 year',
+};
+
+function PerformanceFields({ idPrefix, value, onChange, errors }: ConditionFormProps<PerformanceConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <SelectField
+        id={`${idPrefix}-metric`}
+        label="Metric"
+        value={value.metric}
+        onChange={(metric) => onChange({ ...value, metric })}
+        options={Object.entries(METRIC_LABELS).map(([v, label]) => ({ value: v as PerformanceConditionConfig['metric'], label }))}
+        error={errors.metric}
+      />
+      <SelectField
+        id={`${idPrefix}-period`}
+        label="Period"
+        value={value.period}
+        onChange={(period) => onChange({ ...value, period })}
+        options={Object.entries(PERIOD_LABELS).map(([v, label]) => ({ value: v as PerformanceConditionConfig['period'], label }))}
+        error={errors.period}
+      />
+      <SelectField
+        id={`${idPrefix}-direction`}
+        label="Alert When"
+        value={value.direction}
+        onChange={(direction) => onChange({ ...value, direction })}
+        options={[
+          { value: 'above', label: 'Rises above' },
+          { value: 'below', label: 'Falls below' },
+        ]}
+        error={errors.direction}
+      />
+      <NumberField
+        id={`${idPrefix}-thresholdPercent`}
+        label="Threshold (%)"
+        description="Use negative values for losses"
+        step={0.5}
+        value={value.thresholdPercent}
+        onChange={(thresholdPercent) => onChange({ ...value, thresholdPercent })}
+        error={errors.thresholdPercent}
+      />
+    </div>
+  );
+}
+
+export const performanceCondition = defineCondition<PerformanceConditionConfig>({
+  type: ConditionType.PERFORMANCE,
+  label: 'Performance',
+  description: 'Portfolio performance reaches a threshold',
+  category: 'performance',
+  schema: z.object({
+    metric: z.enum(['return', 'drawdown', 'benchmark_excess']),
+    direction: z.enum(['above', 'below']),
+    thresholdPercent: z.number({ invalid_type_error: 'Threshold is required' }).min(-100).max(1000),
+    period: z.enum(['1D', '1W', '1M', '3M', 'YTD', '1Y']),
+  }),
+  defaultConfig: { metric: 'return', direction: 'below', thresholdPercent: -5, period: '1M' },
+  Form: PerformanceFields,
+  summarize: (config) => [
+    { label: 'Metric', value: METRIC_LABELS[config.metric] },
+    { label: 'Condition', value: `${config.direction === 'above' ? 'Above' : 'Below'} ${config.thresholdPercent}%` },
+    { label: 'Period', value: PERIOD_LABELS[config.period] },
+  ],
+});
+
+// Cash idle: uninvested cash above an amount for a number of days
+
+function CashIdleFields({ idPrefix, value, onChange, errors }: ConditionFormProps<CashIdleConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <NumberField
+        id={`${idPrefix}-threshold_amount`}
+        label="Cash Balance Above ($)"
+        min={0}
+        step={100}
+        value={value.threshold_amount}
+        onChange={(threshold_amount) => onChange({ ...value, threshold_amount })}
+        error={errors.threshold_amount}
+      />
+      <NumberField
+        id={`${idPrefix}-idleDays`}
+        label="Idle For (days)"
+        description="Alert when cash stays uninvested this long"
+        min={1}
+        step={1}
+        value={value.idleDays}
+        onChange={(idleDays) => onChange({ ...value, idleDays })}
+        error={errors.idleDays}
+      />
+    </div>
+  );
+}
+
+export const cashIdleCondition = defineCondition<CashIdleConditionConfig>({
+  type: ConditionType.CASH_IDLE,
+  label: 'Idle Cash',
+  description: 'Cash sits uninvested for too long',
+  category: 'other',
+  schema: z.object({
+    threshold_amount: z.number({ invalid_type_error: 'Amount is required' }).min(0),
+    idleDays: z.number({ invalid_type_error: 'Days are required' }).int().min(1).max(365),
+  }),
+  defaultConfig: { threshold_amount: 1000, idleDays: 7 },
+  Form: CashIdleFields,
+  summarize: (config) => [
+    { label: 'Cash Balance', value: `Above ${formatCurrency(config.threshold_amount)}` },
+    { label: 'Idle For', value: `${config.idleDays} days` },
+  ],
+});
+
+// Dividend: dividend events for a holding
+
+const DIVIDEND_EVENT_LABELS: Record<DividendConditionConfig['event'], string> = {
+  announced: 'Dividend announced',
+  ex_date: 'Upcoming ex-dividend date',
+  paid: 'Dividend paid',
+};
+
+function DividendFields({ idPrefix, value, onChange, errors }: ConditionFormProps<DividendConditionConfig>) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <TextField
+        id={`${idPrefix}-symbol`}
+        label="Symbol (optional)"
+        description="Leave empty to watch every holding"
+        placeholder="All holdings"
+        uppercase
+        value={value.symbol}
+        onChange={(symbol) => onChange({ ...value, symbol: symbol || undefined })}
+        error={errors.symbol}
+      />
+      <SelectField
+        id={`${idPrefix}-event`}
+        label="Event"
+        value={value.event}
+        onChange={(event) => onChange({ ...value, event })}
+        options={Object.entries(DIVIDEND_EVENT_LABELS).map(([v, label]) => ({ value: v as DividendConditionConfig['event'], label }))}
+        error={errors.event}
+      />
+      {value.event === 'ex_date' && (
+        <NumberField
+          id={`${idPrefix}-daysBefore`}
+          label="Days Before Ex-Date"
+          min={0}
+          step={1}
+          value={value.daysBefore}
+          onChange={(daysBefore) => onChange({ ...value, daysBefore })}
+          error={errors.daysBefore}
+        />
+      )}
+    </div>
+  );
+}
+
+export const dividendCondition = defineCondition<DividendConditionConfig>({
+  type: ConditionType.DIVIDEND,
+  label: 'Dividend',
+  description: 'A holding announces or pays a dividend',
+  category: 'other',
+  schema: z.object({
+    symbol: z.string().trim().min(1).max(10, { message: 'Symbol too long' }).optional(),
+    event: z.enum(['announced', 'ex_date', 'paid']),
+    daysBefore: z.number({ invalid_type_error: 'Days are required' }).int().min(0).max(30),
+  }),
+  defaultConfig: { event: 'ex_date', daysBefore: 3 },
+  Form: DividendFields,
+  summarize: (config) => [
+    { label: 'Applies To', value: config.symbol || 'All holdings' },
+    {
+      label: 'Event',
+      value: config.event === 'ex_date'
+        ? `${DIVIDEND_EVENT_LABELS.ex_date} (${config.daysBefore} days before)`
+        : DIVIDEND_EVENT_LABELS[config.event],
+    },
+  ],
+});
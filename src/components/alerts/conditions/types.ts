@@ -0,0 +1,56 @@
+/**
+ * Condition registry types
+ * Every ConditionType has one definition: a zod schema for its conditionConfig, a form
+ * component that edits it and a summary renderer used on cards and detail pages.
+ */
+import type { ComponentType } from 'react';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { ConditionType, ConfigValue } from '../../../types/alerts';
+
+export type ConditionConfig = Record<string, ConfigValue>;
+
+type NamedOption = { id: string; name: string };
+
+// Lookup data condition forms and summaries need to resolve ids to names
+export interface ConditionContext {
+  sectors: NamedOption[];
+  assetClasses: NamedOption[];
+}
+
+export interface ConditionFormProps<T> {
+  /** Unique per form so field ids don't collide when a composite rule has several conditions */
+  idPrefix: string;
+  conditionType: ConditionType;
+  value: T;
+  onChange: (value: T) => void;
+  /** Validation messages keyed by config field */
+  errors: Partial<Record<string, string>>;
+  context: ConditionContext;
+}
+
+export interface ConditionSummaryItem {
+  label: string;
+  value: string;
+}
+
+export interface ConditionDefinition<T = ConditionConfig> {
+  type: ConditionType;
+  label: string;
+  description: string;
+  /** Create page tab the condition is offered under */
+  category: 'drift' | 'price' | 'performance' | 'other' | 'composite';
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  defaultConfig: T;
+  Form: ComponentType<ConditionFormProps<T>>;
+  summarize: (config: T, context: ConditionContext) => ConditionSummaryItem[];
+  /** Custom detail rendering for configs that don't fit label/value pairs */
+  Summary?: ComponentType<{ config: T; context: ConditionContext }>;
+}
+
+/**
+ * Erase a typed condition definition so it can be stored in the registry
+ * The schema guarantees configs passed to Form and summarize match T.
+ */
+export function defineCondition<T>(definition: ConditionDefinition<T>): ConditionDefinition {
+  return definition as unknown as ConditionDefinition;
+}
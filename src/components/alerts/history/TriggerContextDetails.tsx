@@ -0,0 +1,76 @@
+"use client";
+
+import React from 'react';
+import { ConfigObject, ConfigValue } from '../../../types/alerts';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../../ui/table';
+import { parseDriftContext } from '../../../utils/alertHistory';
+import { formatPercentage } from '../../../utils/formatters';
+
+const formatKey = (key: string) =>
+  key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const formatValue = (value: ConfigValue): string =>
+  Array.isArray(value) ? value.join(', ') : String(value);
+
+/**
+ * What a trigger saw: drifted items with their allocations, plus the other
+ * scalar values the backend recorded in contextData
+ */
+export default function TriggerContextDetails({ contextData }: { contextData: ConfigObject }) {
+  const driftItems = parseDriftContext(contextData);
+  const values = Object.entries(contextData ?? {}).filter(([, value]) =>
+    value !== null && (typeof value !== 'object' || (Array.isArray(value) && value.every(entry => typeof entry !== 'object')))
+  );
+
+  if (driftItems.length === 0 && values.length === 0) {
+    return <p className="text-sm text-muted-foreground">No context was recorded for this trigger.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {driftItems.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Holding</TableHead>
+              <TableHead className="text-right">Current</TableHead>
+              <TableHead className="text-right">Target</TableHead>
+              <TableHead className="text-right">Drift</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {driftItems.map((item, index) => (
+              <TableRow key={`${item.source}-${item.name}-${index}`}>
+                <TableCell className="font-medium">{item.name}</TableCell>
+                <TableCell className="text-right">{formatPercentage(item.currentAllocation, 1)}</TableCell>
+                <TableCell className="text-right">{formatPercentage(item.targetAllocation, 1)}</TableCell>
+                <TableCell className={`text-right ${item.absoluteDrift > 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                  {item.absoluteDrift > 0 ? '+' : ''}{item.absoluteDrift.toFixed(1)} pts
+                  <span className="text-muted-foreground"> ({item.relativeDrift > 0 ? '+' : ''}{formatPercentage(item.relativeDrift, 1)})</span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {values.length > 0 && (
+        <dl className="grid grid-cols-1 gap-x-6 gap-y-1 text-sm sm:grid-cols-2">
+          {values.map(([key, value]) => (
+            <div key={key} className="flex justify-between gap-2">
+              <dt className="text-muted-foreground">{formatKey(key)}</dt>
+              <dd className="font-medium text-right break-all">{formatValue(value)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
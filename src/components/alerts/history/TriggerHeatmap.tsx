@@ -0,0 +1,53 @@
+"use client";
+
+import React from 'react';
+import { AlertHistory } from '../../../types/alerts';
+import { buildTriggerHeatmap } from '../../../utils/alertHistory';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR_LABELS = [0, 6, 12, 18];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Trigger counts by weekday and hour of day (local time)
+ */
+export default function TriggerHeatmap({ history }: { history: AlertHistory[] }) {
+  const grid = buildTriggerHeatmap(history);
+  const max = Math.max(0, ...grid.flat());
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <div className="grid min-w-[560px] gap-1" style={{ gridTemplateColumns: '2.5rem repeat(24, minmax(0, 1fr))' }}>
+          <div />
+          {Array.from({ length: 24 }, (_, hour) => (
+            <div key={hour} className="text-[10px] text-muted-foreground">
+              {HOUR_LABELS.includes(hour) ? formatHour(hour) : ''}
+            </div>
+          ))}
+          {grid.map((counts, day) => (
+            <React.Fragment key={day}>
+              <div className="text-xs text-muted-foreground leading-4">{WEEKDAYS[day]}</div>
+              {counts.map((count, hour) => (
+                <div
+                  key={hour}
+                  className={`h-4 rounded-sm ${count > 0 ? 'bg-primary' : 'bg-muted'}`}
+                  style={count > 0 ? { opacity: 0.2 + 0.8 * (count / max) } : undefined}
+                  title={`${WEEKDAYS[day]} ${formatHour(hour)}: ${count} trigger${count === 1 ? '' : 's'}`}
+                />
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+        <span>Fewer</span>
+        {[0.2, 0.47, 0.73, 1].map(opacity => (
+          <div key={opacity} className="h-3 w-3 rounded-sm bg-primary" style={{ opacity }} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import React from 'react';
-import { useMarketData } from '@/context/MarketDataContext';
+import React, { useMemo } from 'react';
+import { useMarketData, useSymbolData } from '@/context/MarketDataContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 
@@ -15,9 +15,15 @@ export const MarketDataTicker: React.FC<MarketDataTickerProps> = ({
   const { marketData, isConnected } = useMarketData();
   
   // Filter out any undefined symbols
-  const validSymbols = symbols.filter(symbol => symbol);
+  const validSymbols = useMemo(() => symbols.filter(symbol => symbol), [symbols]);
+
+  // Stream quotes for the displayed symbols while the ticker is mounted
+  useSymbolData(validSymbols);
   
-  if (!isConnected) {
+  // Keep showing the last known quotes while the stream reconnects
+  const hasQuotes = validSymbols.some(symbol => marketData[symbol.toUpperCase()]);
+
+  if (!isConnected && !hasQuotes) {
     return (
       <Card className={className}>
         <CardHeader>
@@ -45,7 +51,7 @@ export const MarketDataTicker: React.FC<MarketDataTickerProps> = ({
       <CardContent>
         <div className="space-y-2">
           {validSymbols.map((symbol) => {
-            const data = marketData[symbol];
+            const data = marketData[symbol.toUpperCase()];
             const isPositive = data?.change_percent >= 0;
             
             return (
@@ -6,6 +6,7 @@ import { Moon, Sun } from 'lucide-react';
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import NotificationPanel from '@/components/notifications/NotificationPanel';
+import { PortfolioSwitcher } from '@/components/portfolio/PortfolioSwitcher';
 
 export function Header() {
   const dispatch = useAppDispatch();
@@ -21,18 +22,21 @@ export function Header() {
   }, [theme]);
 
   return (
-    <header className="relative h-12 flex items-center justify-end gap-2">
-      <NotificationPanel />
-      <button
-        onClick={() => dispatch(toggleTheme())}
-        className="p-2 hover:bg-accent rounded-lg transition-colors"
-      >
-        {theme === 'dark' ? (
-          <Sun className="h-5 w-5" />
-        ) : (
-          <Moon className="h-5 w-5" />
-        )}
-      </button>
+    <header className="relative h-12 flex items-center justify-between gap-2">
+      <PortfolioSwitcher />
+      <div className="flex items-center gap-2">
+        <NotificationPanel />
+        <button
+          onClick={() => dispatch(toggleTheme())}
+          className="p-2 hover:bg-accent rounded-lg transition-colors"
+        >
+          {theme === 'dark' ? (
+            <Sun className="h-5 w-5" />
+          ) : (
+            <Moon className="h-5 w-5" />
+          )}
+        </button>
+      </div>
     </header>
   );
 }
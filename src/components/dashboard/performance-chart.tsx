@@ -2,16 +2,24 @@
 
 import { useState } from 'react';
 import { 
-  AreaChart, 
+  ComposedChart, 
   Area, 
+  Line, 
   XAxis, 
   YAxis, 
   CartesianGrid, 
   Tooltip, 
   ResponsiveContainer 
 } from 'recharts';
-import { PerformanceData } from '@/types/portfolio';
+import { CashFlowEvent, PerformanceData } from '@/types/portfolio';
 import { cn } from '@/lib/utils';
+import {
+  calculateReturns,
+  calculateBeta,
+  calculateTrackingError,
+  calculateInformationRatio,
+} from '@/utils/calculations';
+import { calculateFlowAdjustedReturns, calculatePeriodReturns } from '@/utils/returns';
 
 /**
  * Time period options for the performance chart
@@ -28,6 +36,9 @@ interface PerformanceChartProps {
   currentPeriod: '1D' | '1W' | '1M' | '1Y' | '5Y' | 'all';
   onPeriodChange: (period: '1D' | '1W' | '1M' | '1Y' | '5Y') => Promise<void>;
   isLoading?: boolean;
+  benchmarkData?: PerformanceData[]; // Benchmark values for the same period
+  benchmarkName?: string;
+  cashFlows?: CashFlowEvent[]; // External deposits/withdrawals for the same period
 }
 
 /**
@@ -35,6 +46,8 @@ interface PerformanceChartProps {
  */
 interface TooltipPayload {
   value: number;
+  name?: string;
+  dataKey?: string;
   [key: string]: unknown;
 }
 
@@ -57,13 +70,19 @@ const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
         <p className="text-sm font-medium">
           {label ? new Date(label).toLocaleDateString() : ''}
         </p>
-        <p className="text-sm text-primary">
-          {new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: 'USD',
-            maximumFractionDigits: 2
-          }).format(payload[0].value)}
-        </p>
+        {payload.map((item) => (
+          <p
+            key={item.dataKey ?? item.name}
+            className={cn("text-sm", item.dataKey === 'benchmark' ? "text-muted-foreground" : "text-primary")}
+          >
+            {payload.length > 1 && `${item.name}: `}
+            {new Intl.NumberFormat('en-US', {
+              style: 'currency',
+              currency: 'USD',
+              maximumFractionDigits: 2
+            }).format(item.value)}
+          </p>
+        ))}
       </div>
     );
   }
@@ -75,17 +94,42 @@ const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
  * Portfolio Performance Chart Component
  * Displays portfolio value over time with period selection
  */
-export function PerformanceChart({ data, className, currentValue, currentPeriod, onPeriodChange, isLoading }: PerformanceChartProps) {
+export function PerformanceChart({ data, className, currentValue, currentPeriod, onPeriodChange, isLoading, benchmarkData = [], benchmarkName, cashFlows = [] }: PerformanceChartProps) {
   // Use the period from props instead of local state
   const period = currentPeriod as TimePeriod;
   
   // Format data for chart display and ensure it's sorted chronologically
-  const chartData = data
+  const portfolioData = data
     .map(item => ({
       date: new Date(item.date).toISOString(),
       value: item.value
     }))
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // Align the benchmark to the portfolio's dates (latest benchmark value at or before each date)
+  // and rescale it to start at the portfolio's first value
+  const sortedBenchmark = [...benchmarkData]
+    .filter(item => item.value > 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const alignedBenchmark: number[] = [];
+  if (sortedBenchmark.length > 0) {
+    let j = 0;
+    portfolioData.forEach(point => {
+      const time = new Date(point.date).getTime();
+      while (j + 1 < sortedBenchmark.length && new Date(sortedBenchmark[j + 1].date).getTime() <= time) {
+        j++;
+      }
+      alignedBenchmark.push(sortedBenchmark[j].value);
+    });
+  }
+  const hasBenchmark = alignedBenchmark.length > 1;
+
+  const chartData = portfolioData.map((point, i) => ({
+    ...point,
+    benchmark: hasBenchmark && portfolioData[0].value
+      ? (alignedBenchmark[i] / alignedBenchmark[0]) * portfolioData[0].value
+      : undefined
+  }));
   
   // Handle period change - call API to fetch new data
   const handlePeriodChange = async (newPeriod: TimePeriod) => {
@@ -108,7 +152,7 @@ export function PerformanceChart({ data, className, currentValue, currentPeriod,
   };
   
   // Calculate min and max values for Y axis domain
-  const values = chartData.map(item => item.value);
+  const values = chartData.flatMap(item => item.benchmark !== undefined ? [item.value, item.benchmark] : [item.value]);
   let minValue = 0;
   let maxValue = 100;
   
@@ -127,6 +171,7 @@ export function PerformanceChart({ data, className, currentValue, currentPeriod,
   }
   
   // Calculate period-specific metrics
+  // Change excludes deposits/withdrawals; the percentage is the time-weighted return
   const getPeriodMetrics = () => {
     if (chartData.length === 0) {
       return {
@@ -134,26 +179,58 @@ export function PerformanceChart({ data, className, currentValue, currentPeriod,
         endValue: 0,
         change: 0,
         changePercent: 0,
+        moneyWeightedPercent: null,
+        netCashFlow: 0,
         periodLabel: period
       };
     }
 
     const startValue = chartData[0].value;
     const endValue = chartData[chartData.length - 1].value;
-    const change = endValue - startValue;
-    const changePercent = startValue !== 0 ? (change / startValue) * 100 : 0;
+    const returns = calculatePeriodReturns(chartData, cashFlows);
 
     return {
       startValue,
       endValue,
-      change,
-      changePercent,
+      change: returns.investmentGain,
+      changePercent: returns.twr * 100,
+      moneyWeightedPercent: returns.mwr !== null ? returns.mwr * 100 : null,
+      netCashFlow: returns.netCashFlow,
       periodLabel: period
     };
   };
 
   const metrics = getPeriodMetrics();
 
+  // Relative performance against the benchmark for the selected period
+  const getRelativeMetrics = () => {
+    if (!hasBenchmark) return null;
+
+    // Flow-adjusted so deposits and withdrawals do not show up as active return
+    const portfolioReturns = calculateFlowAdjustedReturns(chartData, cashFlows);
+    const benchmarkReturns = calculateReturns(alignedBenchmark);
+    const benchmarkChange = alignedBenchmark[alignedBenchmark.length - 1] / alignedBenchmark[0] - 1;
+
+    const firstTime = new Date(chartData[0].date).getTime();
+    const lastTime = new Date(chartData[chartData.length - 1].date).getTime();
+    const years = (lastTime - firstTime) / (365.25 * 24 * 60 * 60 * 1000);
+    const periodsPerYear = years > 0 ? portfolioReturns.length / years : 252;
+
+    const activeReturns = portfolioReturns.map((value, i) => value - benchmarkReturns[i]);
+    const meanActive = activeReturns.reduce((sum, value) => sum + value, 0) / (activeReturns.length || 1);
+    const trackingError = calculateTrackingError(portfolioReturns, benchmarkReturns, periodsPerYear);
+
+    return {
+      benchmarkChangePercent: benchmarkChange * 100,
+      excessReturn: metrics.changePercent - benchmarkChange * 100,
+      trackingError: trackingError * 100,
+      beta: calculateBeta(portfolioReturns, benchmarkReturns),
+      informationRatio: calculateInformationRatio(meanActive * periodsPerYear, trackingError)
+    };
+  };
+
+  const relative = getRelativeMetrics();
+
   return (
     <div className={cn("flex flex-col", className)}>
       <div className="flex justify-between mb-4">
@@ -176,10 +253,46 @@ export function PerformanceChart({ data, className, currentValue, currentPeriod,
                 "ml-1 text-xs",
                 metrics.change >= 0 ? "text-green-600" : "text-red-600"
               )}>
-                ({metrics.changePercent >= 0 ? "+" : ""}{metrics.changePercent.toFixed(2)}%)
+                ({metrics.changePercent >= 0 ? "+" : ""}{metrics.changePercent.toFixed(2)}% TWR)
               </span>
             </div>
           </div>
+          {chartData.length > 1 && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span>
+                Money-Weighted{' '}
+                {metrics.moneyWeightedPercent === null ? (
+                  <span className="font-medium text-foreground">n/a</span>
+                ) : (
+                  <span className={cn("font-medium", metrics.moneyWeightedPercent >= 0 ? "text-green-600" : "text-red-600")}>
+                    {metrics.moneyWeightedPercent >= 0 ? "+" : ""}{metrics.moneyWeightedPercent.toFixed(2)}%
+                  </span>
+                )}
+              </span>
+              {metrics.netCashFlow !== 0 && (
+                <span>
+                  Net {metrics.netCashFlow > 0 ? 'Contributions' : 'Withdrawals'}{' '}
+                  <span className="font-medium text-foreground">{formatCurrencyValue(Math.abs(metrics.netCashFlow))}</span>
+                </span>
+              )}
+            </div>
+          )}
+          {relative && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span>
+                vs {benchmarkName ?? 'Benchmark'} ({relative.benchmarkChangePercent >= 0 ? "+" : ""}{relative.benchmarkChangePercent.toFixed(2)}%):
+              </span>
+              <span>
+                Excess{' '}
+                <span className={cn("font-medium", relative.excessReturn >= 0 ? "text-green-600" : "text-red-600")}>
+                  {relative.excessReturn >= 0 ? "+" : ""}{relative.excessReturn.toFixed(2)}%
+                </span>
+              </span>
+              <span>Tracking Error <span className="font-medium text-foreground">{relative.trackingError.toFixed(2)}%</span></span>
+              <span>Beta <span className="font-medium text-foreground">{relative.beta.toFixed(2)}</span></span>
+              <span>Info Ratio <span className="font-medium text-foreground">{relative.informationRatio.toFixed(2)}</span></span>
+            </div>
+          )}
         </div>
         <div className="flex space-x-1">
           {(['1D', '1W', '1M', '1Y', '5Y'] as TimePeriod[]).map((p) => (
@@ -217,7 +330,7 @@ export function PerformanceChart({ data, className, currentValue, currentPeriod,
           </div>
         ) : chartData.length > 0 ? (
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart
+            <ComposedChart
               data={chartData}
               margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
             >
@@ -269,8 +382,20 @@ export function PerformanceChart({ data, className, currentValue, currentPeriod,
                 fillOpacity={chartData.length === 1 ? 0.3 : 1} 
                 fill="url(#colorValue)"
                 dot={chartData.length === 1 ? { fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 } : false}
+                name="Portfolio"
               />
-            </AreaChart>
+              {hasBenchmark && (
+                <Line
+                  type="monotone"
+                  dataKey="benchmark"
+                  name={benchmarkName ?? 'Benchmark'}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         ) : (
           <div className="h-full flex items-center justify-center">
@@ -11,12 +11,15 @@ import {
   selectFilteredNotifications,
   selectNotificationStats,
   selectIsPanelOpen,
+  selectHasMoreNotifications,
+  selectIsLoadingMoreNotifications,
   closePanel,
   openPanel,
   markAsRead,
   markAllAsRead,
   deleteNotification,
   clearAllNotifications,
+  loadMoreNotifications,
 } from '@/store/notificationsSlice';
 import { useAlertNotifications } from '@/hooks/useAlertNotifications';
 import { Button } from '@/components/ui/button';
@@ -118,6 +121,8 @@ export default function NotificationPanel({ className }: NotificationPanelProps)
   const notifications = useAppSelector(selectFilteredNotifications);
   const stats = useAppSelector(selectNotificationStats);
   const isOpen = useAppSelector(selectIsPanelOpen);
+  const hasMore = useAppSelector(selectHasMoreNotifications);
+  const isLoadingMore = useAppSelector(selectIsLoadingMoreNotifications);
   const { refreshNotifications } = useAlertNotifications();
 
 
@@ -160,6 +165,10 @@ export default function NotificationPanel({ className }: NotificationPanelProps)
     dispatch(clearAllNotifications());
   };
 
+  const handleLoadMore = () => {
+    dispatch(loadMoreNotifications());
+  };
+
   const handleNotificationClick = (notification: any) => {
     // Mark as read if not already read
     if (!notification.isRead) {
@@ -349,6 +358,17 @@ export default function NotificationPanel({ className }: NotificationPanelProps)
                     )}
                   </div>
                 ))}
+                {hasMore && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full mt-2 text-xs"
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                  >
+                    {isLoadingMore ? 'Loading...' : 'Load older notifications'}
+                  </Button>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,168 @@
+/**
+ * Push Devices Section Component
+ * Enables Web Push for this browser and lists the devices registered for push
+ */
+
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, Trash2, BellRing, BellOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { notificationsApi } from '@/services/notifications-api';
+import {
+  isPushSupported,
+  getCurrentPushSubscription,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '@/services/pushNotifications';
+import { PushDevice } from '@/types/notifications';
+
+/**
+ * Lists push devices with controls to subscribe or unsubscribe this browser and remove other devices
+ */
+export default function PushDevicesSection() {
+  const [devices, setDevices] = React.useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isUpdating, setIsUpdating] = React.useState(false);
+  // Checked after mount so the server render and hydration agree; null until then
+  const [supported, setSupported] = React.useState<boolean | null>(null);
+
+  React.useEffect(() => {
+    setSupported(isPushSupported());
+  }, []);
+
+  const loadDevices = React.useCallback(async () => {
+    try {
+      const [deviceList, subscription] = await Promise.all([
+        notificationsApi.getPushDevices(),
+        getCurrentPushSubscription(),
+      ]);
+      setDevices(deviceList);
+      setCurrentEndpoint(subscription?.endpoint ?? null);
+    } catch (err) {
+      console.error('Failed to load push devices:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const isThisDeviceRegistered = currentEndpoint !== null && devices.some(d => d.endpoint === currentEndpoint);
+
+  const handleEnable = async () => {
+    setIsUpdating(true);
+    try {
+      await subscribeToPush();
+      toast.success('Push notifications enabled on this device');
+      await loadDevices();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to enable push notifications');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsUpdating(true);
+    try {
+      await unsubscribeFromPush(devices);
+      toast.success('Push notifications disabled on this device');
+      await loadDevices();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to disable push notifications');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRemove = async (device: PushDevice) => {
+    // Removing this browser also drops its local subscription
+    if (device.endpoint === currentEndpoint) {
+      await handleDisable();
+      return;
+    }
+
+    try {
+      await notificationsApi.deletePushDevice(device.id);
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+      toast.success(`Removed ${device.deviceName}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove device');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-base font-medium">Push Devices</h3>
+          <p className="text-sm text-muted-foreground">
+            Receive notifications on this device even when AlphaOptimize is closed.
+          </p>
+        </div>
+        {supported && (
+          isThisDeviceRegistered ? (
+            <Button type="button" variant="outline" size="sm" onClick={handleDisable} disabled={isUpdating}>
+              <BellOff className="h-4 w-4 mr-2" />
+              Disable on this device
+            </Button>
+          ) : (
+            <Button type="button" size="sm" onClick={handleEnable} disabled={isUpdating || isLoading}>
+              <BellRing className="h-4 w-4 mr-2" />
+              Enable on this device
+            </Button>
+          )
+        )}
+      </div>
+
+      {supported === false && (
+        <p className="text-sm text-muted-foreground">This browser does not support push notifications.</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading devices...</p>
+      ) : devices.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No devices are registered for push notifications.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {devices.map(device => (
+            <li key={device.id} className="flex items-center justify-between gap-4 p-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <Monitor className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {device.deviceName}
+                    {device.endpoint === currentEndpoint && (
+                      <Badge variant="secondary" className="ml-2">This device</Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Added {new Date(device.createdAt).toLocaleDateString()}
+                    {device.lastUsedAt && ` · Last notified ${new Date(device.lastUsedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                onClick={() => handleRemove(device)}
+                disabled={isUpdating}
+                title="Remove device"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { BookOpen, Download, Loader2, Save, Trash2, Upload } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { portfolioApi } from '@/services/api';
+import { AllocationModel, AllocationModelTarget } from '@/types/portfolio';
+import {
+  ALLOCATION_MODEL_TEMPLATES,
+  allocationModelToCsv,
+  allocationModelToJson,
+  buildAgeBasedModel,
+  parseAllocationModelCsv,
+  parseAllocationModelJson,
+} from '@/utils/allocationModels';
+
+interface AllocationModelMenuProps {
+  /** Category of the targets currently being edited */
+  category: AllocationModel['category'];
+  /** Targets currently in the editor, used for saving and exporting */
+  currentTargets: AllocationModelTarget[];
+  /** Load a model into the editor; the user still saves the targets themselves */
+  onApply: (model: AllocationModel) => void;
+}
+
+const CATEGORY_LABELS: Record<AllocationModel['category'], string> = {
+  asset_class: 'asset classes',
+  sector: 'sectors',
+};
+
+const downloadFile = (contents: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Model portfolio templates, the user's saved models and CSV/JSON import and export
+ * for the target allocation editor
+ */
+const AllocationModelMenu: React.FC<AllocationModelMenuProps> = ({ category, currentTargets, onApply }) => {
+  const [savedModels, setSavedModels] = useState<AllocationModel[]>([]);
+  const [ageDialogOpen, setAgeDialogOpen] = useState(false);
+  const [age, setAge] = useState(40);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [modelName, setModelName] = useState('');
+  const [modelDescription, setModelDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    portfolioApi.getAllocationModels()
+      .then(setSavedModels)
+      .catch(error => console.error('Allocation models fetch error:', error));
+  }, []);
+
+  const saveModel = async () => {
+    setSaving(true);
+    try {
+      const saved = await portfolioApi.saveAllocationModel({
+        name: modelName.trim(),
+        description: modelDescription.trim() || undefined,
+        category,
+        targets: currentTargets,
+      });
+      setSavedModels(prev => [...prev, saved]);
+      toast.success(`Saved model ${saved.name}`);
+      setSaveDialogOpen(false);
+      setModelName('');
+      setModelDescription('');
+    } catch (error) {
+      console.error('Allocation model save error:', error);
+      toast.error('Failed to save model');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteModel = async (model: AllocationModel) => {
+    try {
+      await portfolioApi.deleteAllocationModel(model.id);
+      setSavedModels(prev => prev.filter(m => m.id !== model.id));
+      toast.success(`Deleted model ${model.name}`);
+    } catch (error) {
+      console.error('Allocation model delete error:', error);
+      toast.error('Failed to delete model');
+    }
+  };
+
+  const importFile = async (file: File) => {
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    try {
+      const text = await file.text();
+      const model = /\.json$/i.test(file.name)
+        ? parseAllocationModelJson(text, baseName)
+        : parseAllocationModelCsv(text, baseName);
+      onApply(model);
+    } catch (error) {
+      toast.error(`Could not import ${file.name}`, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const exportTargets = (format: 'csv' | 'json') => {
+    const model: AllocationModel = { id: '', name: 'Target Allocations', category, targets: currentTargets };
+    const fileName = `target-allocations-${category.replace('_', '-')}.${format}`;
+    if (format === 'csv') {
+      downloadFile(allocationModelToCsv(model), fileName, 'text/csv');
+    } else {
+      downloadFile(allocationModelToJson(model), fileName, 'application/json');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <BookOpen className="h-4 w-4" />
+            Apply Model
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Model portfolios</DropdownMenuLabel>
+          {ALLOCATION_MODEL_TEMPLATES.map(model => (
+            <DropdownMenuItem key={model.id} onSelect={() => onApply(model)} className="flex flex-col items-start gap-0">
+              <span>{model.name}</span>
+              <span className="text-xs text-muted-foreground">{model.description}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem onSelect={() => setAgeDialogOpen(true)} className="flex flex-col items-start gap-0">
+            <span>Age-Based Glide Path…</span>
+            <span className="text-xs text-muted-foreground">Stock weight set from the investor&apos;s age</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Saved models</DropdownMenuLabel>
+          {savedModels.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved models yet</p>
+          ) : savedModels.map(model => (
+            <DropdownMenuItem key={model.id} onSelect={() => onApply(model)} className="flex items-center justify-between gap-2">
+              <span className="flex flex-col">
+                <span>{model.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {model.description || `${model.targets.length} ${CATEGORY_LABELS[model.category]}`}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                aria-label={`Delete ${model.name}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteModel(model);
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-2"
+        onClick={() => setSaveDialogOpen(true)}
+        disabled={currentTargets.length === 0}
+      >
+        <Save className="h-4 w-4" />
+        Save as Model
+      </Button>
+
+      <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="h-4 w-4" />
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" disabled={currentTargets.length === 0}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => exportTargets('csv')}>CSV</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportTargets('json')}>JSON</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={ageDialogOpen} onOpenChange={setAgeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Age-Based Glide Path</DialogTitle>
+            <DialogDescription>
+              Stocks at 110 minus the investor&apos;s age, kept between 20% and 90%, with the rest in bonds.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="glide-path-age">Investor age</Label>
+            <Input
+              id="glide-path-age"
+              type="number"
+              min={18}
+              max={100}
+              value={age}
+              onChange={(e) => setAge(parseInt(e.target.value, 10) || 0)}
+            />
+            <p className="text-sm text-muted-foreground">
+              {buildAgeBasedModel(age).targets.map(t => `${t.targetPercentage}% ${t.name.toLowerCase()}`).join(', ')}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAgeDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                onApply(buildAgeBasedModel(age));
+                setAgeDialogOpen(false);
+              }}
+              disabled={age < 18 || age > 100}
+            >
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save as Model</DialogTitle>
+            <DialogDescription>
+              Save the current {CATEGORY_LABELS[category]} targets and bands as a named model you can apply to any portfolio.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="model-name">Name</Label>
+              <Input
+                id="model-name"
+                value={modelName}
+                onChange={(e) => setModelName(e.target.value)}
+                placeholder="e.g. House Moderate"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="model-description">Description (optional)</Label>
+              <Input
+                id="model-description"
+                value={modelDescription}
+                onChange={(e) => setModelDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveModel} disabled={!modelName.trim() || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Model
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AllocationModelMenu;
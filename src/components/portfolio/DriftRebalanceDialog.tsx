@@ -0,0 +1,431 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { AssetClass, fetchPortfolioHoldings, getHoldingMarketValue, selectHoldings } from '@/store/portfolioSlice';
+import { DriftResponse, Sector } from '@/types/portfolio';
+import {
+  DEFAULT_REBALANCE_OPTIONS,
+  RebalancePosition,
+  SleeveAllocation,
+  SleeveRebalanceMode,
+  generateRebalanceTrades,
+  getSleevePlanTargetWeights,
+  planSleeveRebalance,
+} from '@/utils/rebalancing';
+import { formatCurrency } from '@/utils/formatters';
+import { getSavedToleranceBand, getToleranceBandWidth } from '@/utils/toleranceBands';
+
+/**
+ * DriftRebalanceDialog Component
+ *
+ * Turns the drift on the Portfolio Drift page into a proposed trade list. The user picks a
+ * rebalance mode, previews each sleeve's post-trade drift against the saved targets (or
+ * today's glide-path targets), and confirms to copy the share trades for their broker.
+ */
+
+interface DriftRebalanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  driftData: DriftResponse | null;
+  assetClasses: AssetClass[];
+  sectors: Sector[];
+  thresholdPercent?: number;
+  /** Category whose drift items already carry today's glide-path targets */
+  glidePathCategory?: RebalanceCategory | null;
+}
+
+type RebalanceCategory = 'asset_class' | 'sector';
+
+const MODE_OPTIONS: Record<SleeveRebalanceMode, { label: string; description: string }> = {
+  full: {
+    label: 'Full Reset',
+    description: 'Buy and sell so every sleeve is back at its target weight.',
+  },
+  band_edge: {
+    label: 'To Band Edge',
+    description: 'Only trade sleeves outside the tolerance band, and only back to the edge of the band.',
+  },
+  cash_flow: {
+    label: 'New Cash Only',
+    description: 'Sell nothing; invest new cash in the most underweight sleeves first.',
+  },
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+// Saved targets come back converted to camelCase, but the store types use snake_case
+const getSavedTarget = (allocation: AssetClass | Sector): number | undefined => {
+  const converted = (allocation as { targetAllocation?: number }).targetAllocation;
+  return converted !== undefined ? converted : allocation.target_allocation;
+};
+
+const formatDrift = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} pts`;
+
+export default function DriftRebalanceDialog({
+  open,
+  onOpenChange,
+  driftData,
+  assetClasses,
+  sectors,
+  thresholdPercent = 5,
+  glidePathCategory = null,
+}: DriftRebalanceDialogProps) {
+  const dispatch = useAppDispatch();
+  const holdings = useAppSelector(selectHoldings);
+  const holdingsLoading = useAppSelector((state) => state.portfolio.loading);
+  const [mode, setMode] = useState<SleeveRebalanceMode>('full');
+  const [category, setCategory] = useState<RebalanceCategory>(
+    driftData?.asset_class?.items.length ? 'asset_class' : 'sector'
+  );
+  const [newCash, setNewCash] = useState(0);
+  const [band, setBand] = useState(thresholdPercent);
+
+  // Trades are sized from the active portfolio's holdings, which the drift page doesn't load on its own
+  useEffect(() => {
+    if (open) {
+      dispatch(fetchPortfolioHoldings());
+    }
+  }, [open, dispatch]);
+
+  // Current weights from the drift data, targets from the saved allocations or the glide path
+  const sleeves = useMemo<SleeveAllocation[]>(() => {
+    const items = driftData?.[category]?.items ?? [];
+    const usesGlidePath = glidePathCategory === category;
+    const saved = new Map<string, AssetClass | Sector>();
+    (category === 'sector' ? sectors : assetClasses).forEach(allocation => {
+      saved.set(normalizeName(allocation.name), allocation);
+    });
+
+    // Saved target and, when the sleeve has one, its tolerance band width
+    const withSavedTarget = (name: string, currentAllocation: number, fallbackTarget: number): SleeveAllocation => {
+      const allocation = saved.get(normalizeName(name));
+      const targetAllocation = usesGlidePath
+        ? fallbackTarget
+        : (allocation && getSavedTarget(allocation)) ?? fallbackTarget;
+      const band = allocation ? getSavedToleranceBand(allocation) : null;
+      return {
+        name,
+        currentAllocation,
+        targetAllocation,
+        ...(band && { bandWidth: getToleranceBandWidth(band, targetAllocation) }),
+      };
+    };
+
+    const result = items.map(item => withSavedTarget(item.name, item.currentAllocation, item.targetAllocation));
+    // Sleeves with a saved target but nothing held yet (glide-path drift already includes them)
+    saved.forEach((allocation, key) => {
+      if (usesGlidePath) return;
+      const target = getSavedTarget(allocation) ?? 0;
+      if (target > 0 && !items.some(item => normalizeName(item.name) === key)) {
+        result.push(withSavedTarget(allocation.name, 0, target));
+      }
+    });
+    return result;
+  }, [driftData, category, assetClasses, sectors, glidePathCategory]);
+
+  const { positions, cash, investedValue } = useMemo(() => {
+    const securityPositions: RebalancePosition[] = [];
+    let cashBalance = 0;
+    let securitiesValue = 0;
+    holdings.forEach(holding => {
+      const value = getHoldingMarketValue(holding);
+      if (holding.symbol === 'CASH') {
+        cashBalance += value;
+        return;
+      }
+      const shares = parseFloat(holding.shares || '0');
+      securitiesValue += value;
+      securityPositions.push({
+        symbol: holding.symbol,
+        shares,
+        price: shares > 0 ? value / shares : 0,
+      });
+    });
+    return { positions: securityPositions, cash: cashBalance, investedValue: securitiesValue };
+  }, [holdings]);
+
+  const plan = useMemo(
+    () => planSleeveRebalance(sleeves, investedValue, { mode, thresholdPercent: band, newCash }),
+    [sleeves, investedValue, mode, band, newCash]
+  );
+
+  const bandWidths = useMemo(
+    () => new Map(sleeves.map(sleeve => [sleeve.name, sleeve.bandWidth ?? band])),
+    [sleeves, band]
+  );
+
+  const { trades, unheldSleeves } = useMemo(() => {
+    const sleeveHoldings = holdings
+      .filter(holding => holding.symbol !== 'CASH')
+      .map(holding => ({
+        symbol: holding.symbol,
+        sleeve: (category === 'sector' ? holding.sector : holding.assetClass) ?? '',
+        value: getHoldingMarketValue(holding),
+      }));
+    const { targetWeights, unheldSleeves: unheld } = getSleevePlanTargetWeights(
+      plan,
+      sleeveHoldings,
+      investedValue + cash + newCash
+    );
+    const result = generateRebalanceTrades(positions, cash + newCash, targetWeights, {}, {
+      ...DEFAULT_REBALANCE_OPTIONS,
+      cashBufferPercent: 0,
+    });
+    return { trades: result, unheldSleeves: unheld };
+  }, [plan, holdings, category, positions, cash, investedValue, newCash]);
+
+  const handleConfirm = async () => {
+    const lines = trades.trades.map(trade =>
+      `${trade.action.toUpperCase()} ${trade.shares} ${trade.symbol} @ ${formatCurrency(trade.price)} (${formatCurrency(trade.value)})`
+    );
+    unheldSleeves.forEach(name => {
+      const sleeve = plan.sleeves.find(s => s.name === name);
+      if (sleeve) lines.push(`BUY ${formatCurrency(sleeve.amount)} of ${name} (choose a security)`);
+    });
+
+    try {
+      await navigator.clipboard.writeText(lines.join('\n'));
+      toast.success('Trade list copied to clipboard', {
+        description: 'Place these orders with your broker to complete the rebalance.',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Trade list copy error:', error);
+      toast.error('Could not copy the trade list');
+    }
+  };
+
+  const hasTrades = trades.trades.length > 0 || unheldSleeves.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rebalance to Target</DialogTitle>
+          <DialogDescription>
+            Preview the trades and post-trade drift against your saved target allocations before confirming.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <ToggleGroup
+                type="single"
+                value={mode}
+                onValueChange={(value) => value && setMode(value as SleeveRebalanceMode)}
+                className="justify-start"
+              >
+                {(Object.keys(MODE_OPTIONS) as SleeveRebalanceMode[]).map(key => (
+                  <ToggleGroupItem key={key} value={key}>{MODE_OPTIONS[key].label}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <p className="text-xs text-muted-foreground">{MODE_OPTIONS[mode].description}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Targets</Label>
+              <ToggleGroup
+                type="single"
+                value={category}
+                onValueChange={(value) => value && setCategory(value as RebalanceCategory)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="asset_class">Asset Classes</ToggleGroupItem>
+                <ToggleGroupItem value="sector">Sectors</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rebalance-new-cash">New Cash to Invest ($)</Label>
+              <Input
+                id="rebalance-new-cash"
+                type="number"
+                min={0}
+                step={100}
+                value={newCash}
+                onChange={(e) => {
+                  const parsed = parseFloat(e.target.value);
+                  setNewCash(Number.isNaN(parsed) ? 0 : Math.max(0, parsed));
+                }}
+              />
+            </div>
+            {mode === 'band_edge' && (
+              <div className="space-y-2">
+                <Label htmlFor="rebalance-band">Default Tolerance Band (&plusmn; pts)</Label>
+                <Input
+                  id="rebalance-band"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={band}
+                  onChange={(e) => {
+                    const parsed = parseFloat(e.target.value);
+                    setBand(Number.isNaN(parsed) ? 0 : Math.max(0, parsed));
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">Sleeves with a saved tolerance band use their own.</p>
+              </div>
+            )}
+          </div>
+
+          {mode === 'cash_flow' && newCash <= 0 && (
+            <p className="text-sm text-amber-600 flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Enter the new cash to invest - this mode never sells.
+            </p>
+          )}
+
+          {holdingsLoading && holdings.length === 0 ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading holdings...
+            </div>
+          ) : sleeves.length === 0 || investedValue <= 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No holdings or target allocations are available to rebalance.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Buys</p>
+                  <p className="font-semibold">{formatCurrency(plan.totalBuyValue)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Sells</p>
+                  <p className="font-semibold">{formatCurrency(plan.totalSellValue)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Largest Drift</p>
+                  <p className="font-semibold">
+                    {plan.maxDriftBefore.toFixed(1)} &rarr; {plan.maxDriftAfter.toFixed(1)} pts
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Uninvested Cash</p>
+                  <p className="font-semibold">{formatCurrency(plan.uninvestedCash)}</p>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{category === 'sector' ? 'Sector' : 'Asset Class'}</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Target</TableHead>
+                    <TableHead className="text-right">Trade</TableHead>
+                    <TableHead className="text-right">After</TableHead>
+                    <TableHead className="text-right">Drift After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.sleeves.map(sleeve => (
+                    <TableRow key={sleeve.name}>
+                      <TableCell className="font-medium">{sleeve.name}</TableCell>
+                      <TableCell className="text-right">{sleeve.currentAllocation.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{sleeve.targetAllocation.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">
+                        {sleeve.action === 'hold' ? (
+                          <span className="text-muted-foreground">Hold</span>
+                        ) : (
+                          <span className={sleeve.action === 'buy' ? 'text-green-600' : 'text-red-600'}>
+                            {sleeve.action === 'buy' ? 'Buy' : 'Sell'} {formatCurrency(sleeve.amount)}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{sleeve.postTradeAllocation.toFixed(1)}%</TableCell>
+                      <TableCell className={`text-right ${Math.abs(sleeve.postTradeDrift) > (bandWidths.get(sleeve.name) ?? band) ? 'text-red-600' : ''}`}>
+                        {formatDrift(sleeve.postTradeDrift)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Trades</h4>
+                {trades.unpricedSymbols.length > 0 && (
+                  <p className="text-sm text-amber-600 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    No price available for {trades.unpricedSymbols.join(', ')} - these positions were skipped.
+                  </p>
+                )}
+                {unheldSleeves.length > 0 && (
+                  <p className="text-sm text-amber-600 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    Nothing is held in {unheldSleeves.join(', ')} - choose a security to buy for {unheldSleeves.length === 1 ? 'it' : 'them'}.
+                  </p>
+                )}
+                {trades.trades.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No share trades above the minimum trade size are needed.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Symbol</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead className="text-right">Shares</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trades.trades.map(trade => (
+                        <TableRow key={`${trade.action}-${trade.symbol}`}>
+                          <TableCell className="font-medium">{trade.symbol}</TableCell>
+                          <TableCell>
+                            <Badge variant={trade.action === 'buy' ? 'default' : 'destructive'}>
+                              {trade.action.toUpperCase()}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{trade.shares.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.price)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.value)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!hasTrades}>
+            Confirm &amp; Copy Trades
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
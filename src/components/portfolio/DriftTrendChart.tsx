@@ -0,0 +1,310 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceArea, ReferenceLine, ReferenceDot,
+  Tooltip as RechartsTooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { Loader2 } from 'lucide-react';
+import { ToleranceBand } from '../../types/portfolio';
+import { useDriftHistory } from '../../hooks/useDriftHistory';
+import {
+  DRIFT_TREND_FIT_DAYS,
+  DriftBreachProjection,
+  DriftTrendCategory,
+  buildDriftSeries,
+  getDriftHistoryCoverage,
+  getDriftSleeveNames,
+  projectDriftBreaches,
+} from '../../utils/driftTrend';
+
+/**
+ * DriftTrendChart Component
+ *
+ * Plots each sleeve's daily drift snapshots against the tolerance band and projects,
+ * from the recent trend, when each sleeve will breach it.
+ */
+
+interface DriftTrendChartProps {
+  /** Band half-width in points for sleeves without a saved band */
+  thresholdPercent?: number;
+  /** Saved tolerance bands per category, keyed by normalized sleeve name */
+  bands?: Partial<Record<DriftTrendCategory, Record<string, ToleranceBand>>>;
+}
+
+const LOOKBACK_OPTIONS: Record<string, { label: string; days: number }> = {
+  '3M': { label: 'Last 3 months', days: 91 },
+  '6M': { label: 'Last 6 months', days: 182 },
+  '1Y': { label: 'Last year', days: 365 },
+  '2Y': { label: 'Last 2 years', days: 730 },
+};
+
+const SERIES_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#8b5cf6', '#ec4899', '#14b8a6'];
+
+const ALL_SLEEVES = 'all';
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const formatDrift = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} pts`;
+
+const ProjectionCell = ({ projection }: { projection: DriftBreachProjection }) => {
+  switch (projection.status) {
+    case 'breached':
+      return <Badge variant="destructive">Breached</Badge>;
+    case 'approaching':
+      return (
+        <span>
+          {projection.breachDate && formatDate(projection.breachDate)}
+          <span className="ml-1 text-xs text-muted-foreground">({projection.daysToBreach} days)</span>
+        </span>
+      );
+    case 'stable':
+      return <span className="text-muted-foreground">Not within a year</span>;
+    default:
+      return <span className="text-muted-foreground">Not enough history</span>;
+  }
+};
+
+export default function DriftTrendChart({ thresholdPercent = 5, bands }: DriftTrendChartProps) {
+  const [category, setCategory] = useState<DriftTrendCategory>('sector');
+  const [lookback, setLookback] = useState('6M');
+  const [sleeve, setSleeve] = useState(ALL_SLEEVES);
+  const { history, loading, error } = useDriftHistory(LOOKBACK_OPTIONS[lookback].days);
+
+  const sleeveNames = useMemo(() => getDriftSleeveNames(history, category), [history, category]);
+  const series = useMemo(() => buildDriftSeries(history, category), [history, category]);
+  const projections = useMemo(
+    () => projectDriftBreaches(history, category, thresholdPercent, bands?.[category]),
+    [history, category, thresholdPercent, bands]
+  );
+  // Only the fit window matters for the projections, whatever the chart's lookback
+  const fitCoverage = useMemo(() => getDriftHistoryCoverage(history, DRIFT_TREND_FIT_DAYS), [history]);
+  const lookbackCoverage = useMemo(
+    () => getDriftHistoryCoverage(history, LOOKBACK_OPTIONS[lookback].days),
+    [history, lookback]
+  );
+
+  const selectedSleeve = sleeve !== ALL_SLEEVES && sleeveNames.includes(sleeve) ? sleeve : ALL_SLEEVES;
+  const visibleSleeves = selectedSleeve === ALL_SLEEVES ? sleeveNames : [selectedSleeve];
+  const selectedProjection = projections.find(projection => projection.name === selectedSleeve);
+  const getBandWidth = (name: string) =>
+    projections.find(projection => projection.name === name)?.bandWidth ?? thresholdPercent;
+  // One shaded band when every visible sleeve shares a width, otherwise a pair of lines per sleeve
+  const visibleBandWidths = Array.from(new Set(visibleSleeves.map(getBandWidth)));
+  const sharedBandWidth = visibleBandWidths.length <= 1 ? visibleBandWidths[0] ?? thresholdPercent : null;
+
+  // With one sleeve selected, extend the chart with a dashed line to its projected breach
+  const chartData = useMemo(() => {
+    const last = series[series.length - 1];
+    if (!last || selectedProjection?.status !== 'approaching' || !selectedProjection.breachDate) return series;
+    return [
+      ...series.slice(0, -1),
+      { ...last, projection: selectedProjection.currentDrift },
+      { date: selectedProjection.breachDate, projection: selectedProjection.bandEdge ?? 0 },
+    ];
+  }, [series, selectedProjection]);
+
+  const maxDrift = Math.max(
+    ...visibleBandWidths,
+    thresholdPercent,
+    ...series.flatMap(row => visibleSleeves.map(name => Math.abs(Number(row[name]) || 0)))
+  );
+  const yDomain = [-Math.ceil(maxDrift + 1), Math.ceil(maxDrift + 1)];
+
+  const handleCategoryChange = (value: string) => {
+    if (!value) return;
+    setCategory(value as DriftTrendCategory);
+    setSleeve(ALL_SLEEVES);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <CardTitle>Drift Over Time</CardTitle>
+            <CardDescription>
+              Daily drift against each sleeve&apos;s tolerance band (&plusmn;{thresholdPercent} pts where none is saved), with projected breach dates from the last 90 days&apos; trend
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup type="single" value={category} onValueChange={handleCategoryChange}>
+              <ToggleGroupItem value="asset_class">Asset Class</ToggleGroupItem>
+              <ToggleGroupItem value="sector">Sector</ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={selectedSleeve} onValueChange={setSleeve}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SLEEVES}>All sleeves</SelectItem>
+                {sleeveNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={lookback} onValueChange={setLookback}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LOOKBACK_OPTIONS).map(([key, option]) => (
+                  <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading drift history...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : series.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No drift history is recorded for this period yet. Snapshots are taken once a day.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Snapshots on {lookbackCoverage.daysWithData} of {lookbackCoverage.totalDays} days in this period
+            </p>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                    minTickGap={30}
+                  />
+                  <YAxis
+                    domain={yDomain}
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(value: number) => `${value}%`}
+                    width={45}
+                  />
+                  <RechartsTooltip
+                    formatter={(value: number, name: string) => [formatDrift(value), name === 'projection' ? 'Projected' : name]}
+                    labelFormatter={(date: string) => formatDate(date)}
+                  />
+                  {visibleSleeves.length <= 8 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                  {sharedBandWidth !== null ? (
+                    <>
+                      <ReferenceArea y1={-sharedBandWidth} y2={sharedBandWidth} fill="#10b981" fillOpacity={0.06} />
+                      <ReferenceLine y={sharedBandWidth} stroke="#f59e0b" strokeDasharray="5 5" strokeWidth={2} />
+                      <ReferenceLine y={-sharedBandWidth} stroke="#f59e0b" strokeDasharray="5 5" strokeWidth={2} />
+                    </>
+                  ) : (
+                    visibleSleeves.flatMap((name, index) => [1, -1].map(sign => (
+                      <ReferenceLine
+                        key={`${name}:${sign}`}
+                        y={sign * getBandWidth(name)}
+                        stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                        strokeDasharray="5 5"
+                        strokeOpacity={0.6}
+                      />
+                    )))
+                  )}
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  {visibleSleeves.map((name, index) => (
+                    <Line
+                      key={name}
+                      type="monotone"
+                      dataKey={name}
+                      stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      strokeWidth={selectedSleeve === ALL_SLEEVES ? 1.5 : 2}
+                      dot={false}
+                      connectNulls={false}
+                    />
+                  ))}
+                  {selectedProjection?.status === 'approaching' && selectedProjection.breachDate && (
+                    <>
+                      <Line
+                        type="linear"
+                        dataKey="projection"
+                        stroke={SERIES_COLORS[0]}
+                        strokeDasharray="4 4"
+                        strokeWidth={2}
+                        dot={false}
+                        legendType="none"
+                        connectNulls
+                      />
+                      <ReferenceDot
+                        x={selectedProjection.breachDate}
+                        y={selectedProjection.bandEdge ?? 0}
+                        r={4}
+                        fill="#ef4444"
+                        stroke="none"
+                      />
+                    </>
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Breach dates are projected from snapshots on {fitCoverage.daysWithData} of the last {fitCoverage.totalDays} days
+              {fitCoverage.daysWithData < fitCoverage.totalDays / 2 && '; with this many gaps, treat them as rough'}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{category === 'sector' ? 'Sector' : 'Asset Class'}</TableHead>
+                  <TableHead className="text-right">Current Drift</TableHead>
+                  <TableHead className="text-right">Trend</TableHead>
+                  <TableHead className="text-right">Projected Breach</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {projections.map(projection => (
+                  <TableRow
+                    key={projection.name}
+                    className={`cursor-pointer ${projection.name === selectedSleeve ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSleeve(projection.name === selectedSleeve ? ALL_SLEEVES : projection.name)}
+                  >
+                    <TableCell className="font-medium">{projection.name}</TableCell>
+                    <TableCell className={`text-right ${Math.abs(projection.currentDrift) >= projection.bandWidth ? 'text-red-600' : ''}`}>
+                      {formatDrift(projection.currentDrift)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {projection.status === 'insufficient_data' || projection.status === 'breached'
+                        ? '—'
+                        : `${formatDrift(projection.trendPerMonth)}/mo`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <ProjectionCell projection={projection} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine,
+  Tooltip as RechartsTooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { TrendingDown } from 'lucide-react';
+import { AssetClass } from '@/store/portfolioSlice';
+import { GlidePath, Sector } from '@/types/portfolio';
+import { getGlidePathDate, getGlidePathSchedule, getInvestorAge } from '@/utils/glidePath';
+import GlidePathDialog from './GlidePathDialog';
+
+/**
+ * GlidePathChart Component
+ *
+ * Shows the portfolio's planned glide path, where today falls on it and the targets
+ * drift is currently measured against.
+ */
+
+interface GlidePathChartProps {
+  glidePath: GlidePath | null;
+  /** Today's interpolated targets, when the glide path is enabled */
+  glidePathTargets: Record<string, number> | null;
+  assetClasses: AssetClass[];
+  sectors: Sector[];
+}
+
+const SERIES_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#8b5cf6', '#ec4899', '#14b8a6'];
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+export default function GlidePathChart({ glidePath, glidePathTargets, assetClasses, sectors }: GlidePathChartProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const today = getGlidePathDate();
+
+  const schedule = useMemo(() => (glidePath ? getGlidePathSchedule(glidePath) : []), [glidePath]);
+
+  const sleeveNames = useMemo(() => {
+    const names = new Set<string>();
+    schedule.forEach(point => Object.keys(point.targets).forEach(name => names.add(name)));
+    return Array.from(names);
+  }, [schedule]);
+
+  // One row per sampled day with a column per sleeve, on a time axis so today can be marked
+  const chartData = useMemo(
+    () => schedule.map(point => ({ time: toTime(point.date), age: point.age, ...point.targets })),
+    [schedule]
+  );
+
+  const todayAge = glidePath?.keyType === 'age' && glidePath.birthDate
+    ? getInvestorAge(glidePath.birthDate, today)
+    : null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              Glide Path
+              {glidePath && (
+                <Badge variant={glidePath.enabled ? 'default' : 'secondary'}>
+                  {glidePath.enabled ? 'Active' : 'Paused'}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {glidePath
+                ? `Planned ${glidePath.category === 'sector' ? 'sector' : 'asset class'} targets by ${glidePath.keyType === 'age' ? 'investor age' : 'date'}`
+                : 'Targets that de-risk automatically over time, interpolated daily between the points you set'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={() => setDialogOpen(true)}>
+            <TrendingDown className="h-4 w-4" />
+            <span>{glidePath ? 'Edit Glide Path' : 'Set Up Glide Path'}</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!glidePath ? (
+          <p className="text-sm text-muted-foreground">
+            No glide path is set for this portfolio. Drift is measured against the saved target allocations.
+          </p>
+        ) : chartData.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add a birth date and at least two points to see the planned path.
+          </p>
+        ) : (
+          <>
+            <div className="h-[280px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(time: number) => String(new Date(time).getUTCFullYear())}
+                    minTickGap={30}
+                  />
+                  <YAxis
+                    domain={[0, 100]}
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(value: number) => `${value}%`}
+                    width={45}
+                  />
+                  <RechartsTooltip
+                    formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+                    labelFormatter={(time: number) => {
+                      const age = chartData.find(row => row.time === time)?.age;
+                      return age !== undefined ? `${formatDate(time)} (age ${age})` : formatDate(time);
+                    }}
+                  />
+                  {sleeveNames.length <= 8 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                  <ReferenceLine
+                    x={toTime(today)}
+                    stroke="#94a3b8"
+                    strokeDasharray="4 4"
+                    label={{ value: 'Today', position: 'insideTopLeft', fontSize: 11 }}
+                  />
+                  {sleeveNames.map((name, index) => (
+                    <Line
+                      key={name}
+                      type="linear"
+                      dataKey={name}
+                      stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                Today&apos;s targets
+                {todayAge !== null && <span className="ml-1 text-muted-foreground">(age {todayAge.toFixed(1)})</span>}
+              </h4>
+              {glidePathTargets ? (
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(glidePathTargets)
+                    .filter(([, value]) => value > 0)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([name, value]) => (
+                      <Badge key={name} variant="outline">
+                        {name}: {value.toFixed(1)}%
+                      </Badge>
+                    ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  The glide path is paused, so drift is measured against the saved target allocations.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <GlidePathDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        glidePath={glidePath}
+        assetClasses={assetClasses}
+        sectors={sectors}
+      />
+    </Card>
+  );
+}
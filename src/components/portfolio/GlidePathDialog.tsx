@@ -0,0 +1,368 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group';
+import { Alert, AlertDescription } from '../ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { useAppDispatch } from '@/store/hooks';
+import { AssetClass, saveGlidePath } from '@/store/portfolioSlice';
+import { GlidePath, GlidePathKeyType, GlidePathPoint, Sector } from '@/types/portfolio';
+import { buildAgeBasedModel, matchModelTargets } from '@/utils/allocationModels';
+import { getGlidePathDate, validateGlidePath } from '@/utils/glidePath';
+
+/**
+ * GlidePathDialog Component
+ *
+ * Edits the portfolio's glide path: target allocations at a list of dates or investor ages.
+ * While the path is enabled, the targets for today replace the saved targets in drift and
+ * drift alert evaluation.
+ */
+
+interface GlidePathDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  glidePath: GlidePath | null;
+  assetClasses: AssetClass[];
+  sectors: Sector[];
+}
+
+// Ages used when starting an age-keyed path from the 110 minus age rule
+const AGE_RULE_AGES = [30, 40, 50, 60, 70];
+
+// Saved targets come back converted to camelCase, but the store types use snake_case
+const getSavedTargets = (allocations: (AssetClass | Sector)[]): Record<string, number> => {
+  const targets: Record<string, number> = {};
+  allocations.forEach(allocation => {
+    const converted = (allocation as { targetAllocation?: number }).targetAllocation;
+    const target = converted !== undefined ? converted : allocation.target_allocation;
+    if (target) targets[allocation.name] = Number(target);
+  });
+  return targets;
+};
+
+const addYears = (date: string, years: number) =>
+  `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+
+const getPointTotal = (point: GlidePathPoint) =>
+  Object.values(point.targets).reduce((sum, value) => sum + value, 0);
+
+export default function GlidePathDialog({
+  open,
+  onOpenChange,
+  glidePath,
+  assetClasses,
+  sectors,
+}: GlidePathDialogProps) {
+  const dispatch = useAppDispatch();
+  const [draft, setDraft] = useState<GlidePath | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved path, or a flat ten-year path at the current targets
+  useEffect(() => {
+    if (!open) return;
+    const today = getGlidePathDate();
+    const targets = getSavedTargets(assetClasses);
+    setDraft(glidePath ?? {
+      enabled: true,
+      category: 'asset_class',
+      keyType: 'date',
+      points: [
+        { date: today, targets },
+        { date: addYears(today, 10), targets: { ...targets } },
+      ],
+    });
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, glidePath]);
+
+  const allocations = draft?.category === 'sector' ? sectors : assetClasses;
+
+  // Columns for every sleeve in the category plus any the path already targets
+  const sleeveNames = useMemo(() => {
+    const names = allocations.map(allocation => allocation.name);
+    draft?.points.forEach(point => {
+      Object.keys(point.targets).forEach(name => {
+        if (!names.includes(name)) names.push(name);
+      });
+    });
+    return names;
+  }, [allocations, draft?.points]);
+
+  if (!draft) return null;
+
+  const update = (changes: Partial<GlidePath>) => setDraft({ ...draft, ...changes });
+
+  const updatePoint = (index: number, changes: Partial<GlidePathPoint>) =>
+    update({ points: draft.points.map((point, i) => (i === index ? { ...point, ...changes } : point)) });
+
+  const setPointTarget = (index: number, name: string, value: number) =>
+    updatePoint(index, { targets: { ...draft.points[index].targets, [name]: value } });
+
+  const handleCategoryChange = (category: string) => {
+    if (!category || category === draft.category) return;
+    const targets = getSavedTargets(category === 'sector' ? sectors : assetClasses);
+    update({
+      category: category as GlidePath['category'],
+      points: draft.points.map(point => ({ ...point, targets: { ...targets } })),
+    });
+  };
+
+  const handleKeyTypeChange = (keyType: string) => {
+    if (!keyType || keyType === draft.keyType) return;
+    const today = getGlidePathDate();
+    update({
+      keyType: keyType as GlidePathKeyType,
+      points: draft.points.map((point, index) => (keyType === 'age'
+        ? { age: AGE_RULE_AGES[0] + index * 10, targets: point.targets }
+        : { date: addYears(today, index * 5), targets: point.targets })),
+    });
+  };
+
+  const addPoint = () => {
+    const last = draft.points[draft.points.length - 1];
+    const next: GlidePathPoint = draft.keyType === 'age'
+      ? { age: (last?.age ?? 60) + 5, targets: { ...last?.targets } }
+      : { date: addYears(last?.date ?? getGlidePathDate(), 5), targets: { ...last?.targets } };
+    update({ points: [...draft.points, next] });
+  };
+
+  // Points from the 110 minus age rule, mapped onto the portfolio's asset classes
+  const fillFromAgeRule = () => {
+    const unmatched = new Set<string>();
+    const points = AGE_RULE_AGES.map(age => {
+      const match = matchModelTargets(buildAgeBasedModel(age), assetClasses);
+      match.unmatched.forEach(name => unmatched.add(name));
+      const targets: Record<string, number> = {};
+      assetClasses.forEach(assetClass => {
+        if (match.allocations[assetClass.id]) targets[assetClass.name] = match.allocations[assetClass.id];
+      });
+      return { age, targets };
+    });
+    update({ points });
+    if (unmatched.size) {
+      toast.warning('Some rule targets have no matching asset class', {
+        description: `${Array.from(unmatched).join(', ')}. Adjust the points so each adds up to 100%.`,
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    const glidePathToSave: GlidePath = {
+      ...draft,
+      birthDate: draft.keyType === 'age' ? draft.birthDate : undefined,
+      points: draft.points
+        .map((point): GlidePathPoint => ({
+          ...(draft.keyType === 'date' ? { date: point.date } : { age: point.age }),
+          targets: Object.fromEntries(Object.entries(point.targets).filter(([, value]) => value > 0)),
+        }))
+        .sort((a, b) => (draft.keyType === 'date'
+          ? (a.date ?? '').localeCompare(b.date ?? '')
+          : (a.age ?? 0) - (b.age ?? 0))),
+    };
+
+    const validationError = validateGlidePath(glidePathToSave);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await dispatch(saveGlidePath(glidePathToSave)).unwrap();
+      toast.success('Glide path saved', {
+        description: glidePathToSave.enabled
+          ? 'Drift and drift alerts now use today\'s glide-path targets.'
+          : 'The glide path is paused; drift uses the saved target allocations.',
+      });
+      onOpenChange(false);
+    } catch (saveError) {
+      setError(typeof saveError === 'string' ? saveError : 'Failed to save glide path. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Glide Path</DialogTitle>
+          <DialogDescription>
+            Targets at a series of dates or ages. Each day&apos;s target is interpolated between the surrounding points
+            and held flat before the first and after the last.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="glide-path-enabled">Use glide path</Label>
+              <p className="text-sm text-muted-foreground">
+                While enabled, today&apos;s targets replace the saved {draft.category === 'sector' ? 'sector' : 'asset class'} targets
+                for drift and drift alerts.
+              </p>
+            </div>
+            <Switch
+              id="glide-path-enabled"
+              checked={draft.enabled}
+              onCheckedChange={(enabled) => update({ enabled })}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Targets</Label>
+              <ToggleGroup type="single" value={draft.category} onValueChange={handleCategoryChange}>
+                <ToggleGroupItem value="asset_class">Asset Class</ToggleGroupItem>
+                <ToggleGroupItem value="sector">Sector</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <div className="space-y-2">
+              <Label>Keyed by</Label>
+              <ToggleGroup type="single" value={draft.keyType} onValueChange={handleKeyTypeChange}>
+                <ToggleGroupItem value="date">Date</ToggleGroupItem>
+                <ToggleGroupItem value="age">Investor Age</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            {draft.keyType === 'age' && (
+              <div className="space-y-2">
+                <Label htmlFor="glide-path-birth-date">Birth date</Label>
+                <Input
+                  id="glide-path-birth-date"
+                  type="date"
+                  value={draft.birthDate ?? ''}
+                  onChange={(e) => update({ birthDate: e.target.value || undefined })}
+                  className="w-[170px]"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{draft.keyType === 'age' ? 'Age' : 'Date'}</TableHead>
+                  {sleeveNames.map(name => (
+                    <TableHead key={name} className="text-right whitespace-nowrap">{name}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.points.map((point, index) => {
+                  const total = getPointTotal(point);
+                  return (
+                    <TableRow key={index}>
+                      <TableCell>
+                        {draft.keyType === 'age' ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            max="120"
+                            value={point.age ?? ''}
+                            onChange={(e) => updatePoint(index, { age: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                            className="h-8 w-20"
+                            aria-label={`Point ${index + 1} age`}
+                          />
+                        ) : (
+                          <Input
+                            type="date"
+                            value={point.date ?? ''}
+                            onChange={(e) => updatePoint(index, { date: e.target.value || undefined })}
+                            className="h-8 w-[150px]"
+                            aria-label={`Point ${index + 1} date`}
+                          />
+                        )}
+                      </TableCell>
+                      {sleeveNames.map(name => (
+                        <TableCell key={name} className="text-right">
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.5"
+                            value={point.targets[name] ?? 0}
+                            onChange={(e) => setPointTarget(index, name, Math.max(0, parseFloat(e.target.value) || 0))}
+                            className="h-8 w-20 text-right ml-auto"
+                            aria-label={`Point ${index + 1} ${name} target`}
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell className={`text-right ${Math.abs(total - 100) > 0.01 ? 'text-destructive' : ''}`}>
+                        {total.toFixed(1)}%
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => update({ points: draft.points.filter((_, i) => i !== index) })}
+                          disabled={draft.points.length <= 2}
+                          aria-label={`Remove point ${index + 1}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={addPoint}>
+              <PlusCircle className="h-4 w-4" />
+              Add Point
+            </Button>
+            {draft.keyType === 'age' && draft.category === 'asset_class' && (
+              <Button variant="outline" size="sm" onClick={fillFromAgeRule}>
+                Fill from 110 &minus; Age Rule
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Glide Path
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,9 @@ import { usePortfolioDrift } from '@/hooks/usePortfolioDrift';
 import DriftVisualization from '../alerts/DriftVisualization';
 import TargetAllocationEditor from './TargetAllocationEditor';
 import DriftAlertsSection from '../alerts/DriftAlertsSection';
+import DriftTrendChart from './DriftTrendChart';
+import DriftRebalanceDialog from './DriftRebalanceDialog';
+import GlidePathChart from './GlidePathChart';
 import {
   Dialog,
   DialogContent,
@@ -12,16 +15,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { AlertTriangle, Loader2, RefreshCw, PieChart, Settings } from 'lucide-react';
+import { AlertTriangle, Loader2, RefreshCw, PieChart, Settings, ArrowRightLeft } from 'lucide-react';
 import { Alert, AlertTitle, AlertDescription } from '../ui/alert';
 import { Button } from '../ui/button';
+import { buildToleranceBandMap } from '@/utils/toleranceBands';
 
 const PortfolioDriftContainer: React.FC = () => {
   const [allocationDialogOpen, setAllocationDialogOpen] = useState(false);
+  const [rebalanceDialogOpen, setRebalanceDialogOpen] = useState(false);
   
   // Use optimized portfolio drift hook
   const {
     driftData,
+    glidePath,
+    glidePathTargets,
     currentAllocations,
     assetClasses,
     sectors,
@@ -41,6 +48,14 @@ const PortfolioDriftContainer: React.FC = () => {
     enablePrefetch: true
   });
   
+  // Saved per-sleeve tolerance bands for colouring and projecting breaches
+  const sectorBands = useMemo(() => buildToleranceBandMap(sectors), [sectors]);
+  const assetClassBands = useMemo(() => buildToleranceBandMap(assetClasses), [assetClasses]);
+  const trendBands = useMemo(
+    () => ({ asset_class: assetClassBands, sector: sectorBands }),
+    [assetClassBands, sectorBands]
+  );
+
   // Memoized refresh handler
   const handleRefresh = useCallback(() => {
     refresh(true);
@@ -240,6 +255,16 @@ const PortfolioDriftContainer: React.FC = () => {
           <TargetAllocationEditor onClose={() => setAllocationDialogOpen(false)} />
         </DialogContent>
       </Dialog>
+
+      <DriftRebalanceDialog
+        open={rebalanceDialogOpen}
+        onOpenChange={setRebalanceDialogOpen}
+        driftData={driftData}
+        assetClasses={assetClasses}
+        sectors={sectors}
+        thresholdPercent={5}
+        glidePathCategory={glidePath && glidePathTargets ? glidePath.category : null}
+      />
       
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-semibold">Portfolio Drift</h2>
@@ -254,6 +279,16 @@ const PortfolioDriftContainer: React.FC = () => {
             <Settings className="h-4 w-4" />
             <span>Target Allocations</span>
           </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setRebalanceDialogOpen(true)}
+          >
+            <ArrowRightLeft className="h-4 w-4" />
+            <span>Rebalance</span>
+          </Button>
           
           <Button 
             variant="outline" 
@@ -272,6 +307,7 @@ const PortfolioDriftContainer: React.FC = () => {
         <MemoizedDriftVisualization 
           data={driftData.sector} 
           thresholdPercent={5}
+          bands={sectorBands}
           type="sector"
         />
       ) : (
@@ -284,6 +320,17 @@ const PortfolioDriftContainer: React.FC = () => {
         </Alert>
       )}
 
+      {/* Planned glide path and today's targets */}
+      <GlidePathChart
+        glidePath={glidePath}
+        glidePathTargets={glidePathTargets}
+        assetClasses={assetClasses}
+        sectors={sectors}
+      />
+
+      {/* Drift history with projected band breaches */}
+      <DriftTrendChart thresholdPercent={5} bands={trendBands} />
+
       {/* Drift Alerts section */}
       <DriftAlertsSection />
     </div>
@@ -296,6 +343,7 @@ const MemoizedDriftVisualization = React.memo(DriftVisualization, (prevProps, ne
   return (
     prevProps.data === nextProps.data &&
     prevProps.thresholdPercent === nextProps.thresholdPercent &&
+    prevProps.bands === nextProps.bands &&
     prevProps.type === nextProps.type
   );
 });
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  fetchPortfolios,
+  addPortfolio,
+  updatePortfolio,
+  removePortfolio,
+  setActivePortfolio,
+  selectPortfolios,
+  selectActivePortfolio,
+} from '@/store/portfolioSlice';
+import { PortfolioInput, PortfolioType } from '@/types/portfolio';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Briefcase, Check, ChevronDown, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+/**
+ * Display labels for portfolio types
+ */
+const PORTFOLIO_TYPE_LABELS: Record<PortfolioType, string> = {
+  taxable: 'Taxable',
+  ira: 'Traditional IRA',
+  roth_ira: 'Roth IRA',
+  '401k': '401(k)',
+  household: 'Household',
+  other: 'Other',
+};
+
+type DialogMode = 'create' | 'rename' | null;
+
+/**
+ * Portfolio Switcher
+ *
+ * Dropdown in the dashboard header for choosing the active portfolio.
+ * Every portfolio-scoped page (dashboard, drift, tax, optimizer) reads the
+ * active portfolio from the store. Also hosts the create, rename and delete flows.
+ */
+export function PortfolioSwitcher() {
+  const dispatch = useAppDispatch();
+  const portfolios = useAppSelector(selectPortfolios);
+  const activePortfolio = useAppSelector(selectActivePortfolio);
+  const portfoliosLoading = useAppSelector((state) => state.portfolio.portfoliosLoading);
+
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formValues, setFormValues] = useState<PortfolioInput>({ name: '', portfolioType: 'taxable' });
+
+  useEffect(() => {
+    dispatch(fetchPortfolios());
+  }, [dispatch]);
+
+  const openCreateDialog = () => {
+    setFormValues({ name: '', portfolioType: 'taxable' });
+    setDialogMode('create');
+  };
+
+  const openRenameDialog = () => {
+    if (!activePortfolio) return;
+    setFormValues({
+      name: activePortfolio.name,
+      portfolioType: activePortfolio.portfolioType ?? 'other',
+    });
+    setDialogMode('rename');
+  };
+
+  const handleSave = async () => {
+    const name = formValues.name.trim();
+    if (!name) {
+      toast.error('Portfolio name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (dialogMode === 'create') {
+        await dispatch(addPortfolio({ ...formValues, name })).unwrap();
+        toast.success(`Created portfolio "${name}"`);
+      } else if (dialogMode === 'rename' && activePortfolio) {
+        await dispatch(updatePortfolio({
+          portfolioId: activePortfolio.id,
+          input: { ...formValues, name },
+        })).unwrap();
+        toast.success('Portfolio updated');
+      }
+      setDialogMode(null);
+    } catch (error) {
+      toast.error(typeof error === 'string' ? error : 'Failed to save portfolio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activePortfolio) return;
+    try {
+      await dispatch(removePortfolio(activePortfolio.id)).unwrap();
+      toast.success(`Deleted portfolio "${activePortfolio.name}"`);
+    } catch (error) {
+      toast.error(typeof error === 'string' ? error : 'Failed to delete portfolio');
+    } finally {
+      setDeleteOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={portfoliosLoading && portfolios.length === 0}>
+            <Briefcase className="h-4 w-4" />
+            <span className="max-w-[180px] truncate">
+              {activePortfolio?.name ?? (portfoliosLoading ? 'Loading portfolios...' : 'Select portfolio')}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Portfolios</DropdownMenuLabel>
+          {portfolios.length === 0 && (
+            <DropdownMenuItem disabled>No portfolios yet</DropdownMenuItem>
+          )}
+          {portfolios.map((portfolio) => (
+            <DropdownMenuItem
+              key={portfolio.id}
+              onSelect={() => dispatch(setActivePortfolio(portfolio.id))}
+              className="flex items-center justify-between"
+            >
+              <div className="flex flex-col">
+                <span className="truncate">{portfolio.name}</span>
+                {portfolio.portfolioType && (
+                  <span className="text-xs text-muted-foreground">
+                    {PORTFOLIO_TYPE_LABELS[portfolio.portfolioType]}
+                  </span>
+                )}
+              </div>
+              {portfolio.id === activePortfolio?.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openCreateDialog}>
+            <Plus className="h-4 w-4" />
+            New portfolio
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={openRenameDialog} disabled={!activePortfolio}>
+            <Pencil className="h-4 w-4" />
+            Rename portfolio
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => setDeleteOpen(true)}
+            disabled={!activePortfolio}
+            variant="destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete portfolio
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Create / rename dialog */}
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode === 'create' ? 'New Portfolio' : 'Rename Portfolio'}</DialogTitle>
+            <DialogDescription>
+              {dialogMode === 'create'
+                ? 'Create a separate portfolio, e.g. for an IRA or household account.'
+                : 'Update the name and type of this portfolio.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-name">Name</Label>
+              <Input
+                id="portfolio-name"
+                value={formValues.name}
+                onChange={(e) => setFormValues((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Roth IRA"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={formValues.portfolioType}
+                onValueChange={(value) => setFormValues((prev) => ({ ...prev, portfolioType: value as PortfolioType }))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PORTFOLIO_TYPE_LABELS) as PortfolioType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {PORTFOLIO_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogMode(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : dialogMode === 'create' ? 'Create' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Portfolio</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{activePortfolio?.name}&quot;? Its holdings, target
+              allocations and alert rules will be removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default PortfolioSwitcher;
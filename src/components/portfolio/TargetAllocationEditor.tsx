@@ -14,6 +14,12 @@ import { Loader2, Save, PlusCircle, MinusCircle, Trash2, AlertTriangle } from 'l
 import { fetchAssetClasses, saveTargetAllocations, fetchPortfolioDrift, fetchSectors, saveSectorTargetAllocations } from '@/store/portfolioSlice';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { BugPlay } from "lucide-react";
+import { toast } from 'sonner';
+import { AllocationModel, AllocationModelTarget, ToleranceBand } from '@/types/portfolio';
+import { DEFAULT_TOLERANCE_BAND, getSavedToleranceBand } from '@/utils/toleranceBands';
+import { matchModelTargets } from '@/utils/allocationModels';
+import ToleranceBandControl from './ToleranceBandControl';
+import AllocationModelMenu from './AllocationModelMenu';
 
 /**
  * Component for editing and setting target allocations for portfolio assets
@@ -29,6 +35,9 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
   const [formError, setFormError] = useState<string | null>(null);
   const [allocations, setAllocations] = useState<{[key: string]: number}>({});
   const [sectorAllocations, setSectorAllocations] = useState<{[key: string]: number}>({});
+  const [bands, setBands] = useState<{[key: string]: ToleranceBand}>({});
+  const [sectorBands, setSectorBands] = useState<{[key: string]: ToleranceBand}>({});
+  const [bulkBand, setBulkBand] = useState<ToleranceBand>(DEFAULT_TOLERANCE_BAND);
   const [totalAllocation, setTotalAllocation] = useState<number>(0);
   const [totalSectorAllocation, setTotalSectorAllocation] = useState<number>(0);
   const [assetClassesInitialized, setAssetClassesInitialized] = useState(false);
@@ -103,9 +112,11 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
    */
   const initializeFromExistingAllocations = () => {
     const initialAllocations: {[key: string]: number} = {};
+    const initialBands: {[key: string]: ToleranceBand} = {};
     
     // Initialize from asset classes in the store (API data)
     assetClasses.forEach(assetClass => {
+      initialBands[assetClass.id] = getSavedToleranceBand(assetClass) ?? DEFAULT_TOLERANCE_BAND;
       // Prefer camelCase 'targetAllocation' from converted data, fallback to snake_case
       const targetValue =
         (assetClass as any).targetAllocation !== undefined
@@ -117,6 +128,7 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
     });
     
     setAllocations(initialAllocations);
+    setBands(initialBands);
     calculateTotalAllocation(initialAllocations);
   };
   
@@ -125,9 +137,11 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
    */
   const initializeFromExistingSectorAllocations = () => {
     const initialAllocations: {[key: string]: number} = {};
+    const initialBands: {[key: string]: ToleranceBand} = {};
     
     // Initialize from sectors in the store (API data)
     sectors.forEach(sector => {
+      initialBands[sector.id] = getSavedToleranceBand(sector) ?? DEFAULT_TOLERANCE_BAND;
       const targetValue =
         (sector as any).targetAllocation !== undefined
           ? (sector as any).targetAllocation
@@ -138,6 +152,7 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
     });
     
     setSectorAllocations(initialAllocations);
+    setSectorBands(initialBands);
     calculateTotalSectorAllocation(initialAllocations);
   };
 
@@ -169,6 +184,69 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
     calculateTotalSectorAllocation(newAllocations);
   };
 
+  /**
+   * Apply the bulk band to every asset class or sector in the active tab
+   */
+  const applyBandToAll = () => {
+    if (activeTab === 'asset-class') {
+      setBands(assetClasses.reduce((acc, assetClass) => {
+        acc[assetClass.id] = bulkBand;
+        return acc;
+      }, {} as {[key: string]: ToleranceBand}));
+    } else {
+      setSectorBands(sectors.reduce((acc, sector) => {
+        acc[sector.id] = bulkBand;
+        return acc;
+      }, {} as {[key: string]: ToleranceBand}));
+    }
+  };
+
+  /**
+   * Load a model portfolio into the matching tab; nothing is saved until the user saves
+   */
+  const applyModel = (model: AllocationModel) => {
+    const sleeves = model.category === 'sector' ? sectors : assetClasses;
+    const { allocations: modelAllocations, bands: modelBands, unmatched } = matchModelTargets(model, sleeves);
+
+    if (model.category === 'sector') {
+      setSectorAllocations(modelAllocations);
+      setSectorBands({ ...sectorBands, ...modelBands });
+      calculateTotalSectorAllocation(modelAllocations);
+      setActiveTab('sector');
+    } else {
+      setAllocations(modelAllocations);
+      setBands({ ...bands, ...modelBands });
+      calculateTotalAllocation(modelAllocations);
+      setActiveTab('asset-class');
+    }
+    setFormError(null);
+
+    if (unmatched.length) {
+      toast.warning(`Applied ${model.name} with unmatched targets`, {
+        description: `No ${model.category === 'sector' ? 'sector' : 'asset class'} found for ${unmatched.join(', ')}. Adjust the remaining targets before saving.`,
+      });
+    } else {
+      toast.success(`Applied ${model.name}`, { description: 'Review the targets and save to keep them.' });
+    }
+  };
+
+  // Targets in the active tab, for saving as a model or exporting
+  const currentModelTargets: AllocationModelTarget[] = activeTab === 'asset-class'
+    ? assetClasses
+        .filter(assetClass => (allocations[assetClass.id] || 0) > 0)
+        .map(assetClass => ({
+          name: assetClass.name,
+          targetPercentage: allocations[assetClass.id],
+          band: bands[assetClass.id],
+        }))
+    : sectors
+        .filter(sector => (sectorAllocations[sector.id] || 0) > 0)
+        .map(sector => ({
+          name: sector.name,
+          targetPercentage: sectorAllocations[sector.id],
+          band: sectorBands[sector.id],
+        }));
+
   /**
    * Reset all allocations to 0
    */
@@ -269,10 +347,15 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
       
       try {
         // Prepare data for the API
-        const allocationData = Object.entries(allocations).map(([assetId, targetPercentage]) => ({
-          asset_id: assetId,
-          target_percentage: targetPercentage
-        }));
+        const allocationData = Object.entries(allocations).map(([assetId, targetPercentage]) => {
+          const band = bands[assetId] ?? DEFAULT_TOLERANCE_BAND;
+          return {
+            asset_id: assetId,
+            target_percentage: targetPercentage,
+            band_type: band.type,
+            band_value: band.value
+          };
+        });
         
         // Call the Redux action
         await dispatch(saveTargetAllocations(allocationData)).unwrap();
@@ -303,10 +386,15 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
       
       try {
         // Prepare data for the API
-        const allocationData = Object.entries(sectorAllocations).map(([sectorId, targetPercentage]) => ({
-          asset_id: sectorId,
-          target_percentage: targetPercentage
-        }));
+        const allocationData = Object.entries(sectorAllocations).map(([sectorId, targetPercentage]) => {
+          const band = sectorBands[sectorId] ?? DEFAULT_TOLERANCE_BAND;
+          return {
+            asset_id: sectorId,
+            target_percentage: targetPercentage,
+            band_type: band.type,
+            band_value: band.value
+          };
+        });
         
         // Call the Redux action
         await dispatch(saveSectorTargetAllocations(allocationData)).unwrap();
@@ -365,7 +453,7 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
         <CardTitle>Target Allocations</CardTitle>
         <CardDescription>
           Define target percentages for your portfolio's sectors and asset classes.
-          Total allocation should equal 100%.
+          Total allocation should equal 100%. Each target&apos;s tolerance band sets how far it may drift before rebalancing.
         </CardDescription>
       </CardHeader>
       
@@ -392,6 +480,23 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
             <TabsTrigger value="sector">Sectors</TabsTrigger>
             <TabsTrigger value="asset-class">Asset Classes</TabsTrigger>
           </TabsList>
+
+          {/* Model portfolios, saved models and import/export */}
+          <div className="mb-4">
+            <AllocationModelMenu
+              category={activeTab === 'asset-class' ? 'asset_class' : 'sector'}
+              currentTargets={currentModelTargets}
+              onApply={applyModel}
+            />
+          </div>
+
+          {/* Tolerance band applied to every sleeve in the active tab */}
+          <div className="mb-4 flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+            <ToleranceBandControl id="bulk-band" band={bulkBand} onChange={setBulkBand} />
+            <Button variant="outline" size="sm" onClick={applyBandToAll}>
+              Apply to all {activeTab === 'asset-class' ? 'asset classes' : 'sectors'}
+            </Button>
+          </div>
           
           <TabsContent value="asset-class" className="space-y-4">
             <div className="flex flex-col gap-4">
@@ -424,6 +529,12 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
                       value={[allocations[asset.id] || 0]}
                       onValueChange={(value) => handleAllocationChange(asset.id, value[0])}
                     />
+                    <ToleranceBandControl
+                      id={`band-${asset.id}`}
+                      band={bands[asset.id] ?? DEFAULT_TOLERANCE_BAND}
+                      onChange={(band) => setBands({ ...bands, [asset.id]: band })}
+                      targetAllocation={allocations[asset.id] || 0}
+                    />
                   </div>
                 ))}
                 
@@ -481,6 +592,12 @@ const TargetAllocationEditor: React.FC<TargetAllocationEditorProps> = ({ onClose
                       value={[sectorAllocations[sector.id] || 0]}
                       onValueChange={(value) => handleSectorAllocationChange(sector.id, value[0])}
                     />
+                    <ToleranceBandControl
+                      id={`sector-band-${sector.id}`}
+                      band={sectorBands[sector.id] ?? DEFAULT_TOLERANCE_BAND}
+                      onChange={(band) => setSectorBands({ ...sectorBands, [sector.id]: band })}
+                      targetAllocation={sectorAllocations[sector.id] || 0}
+                    />
                     <p className="text-sm text-muted-foreground">{sector.description}</p>
                   </div>
                 ))}
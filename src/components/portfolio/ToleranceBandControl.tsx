@@ -0,0 +1,78 @@
+"use client";
+
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToleranceBand, ToleranceBandType } from '@/types/portfolio';
+import { TOLERANCE_BAND_LABELS, getToleranceBandWidth } from '@/utils/toleranceBands';
+
+interface ToleranceBandControlProps {
+  id: string;
+  band: ToleranceBand;
+  onChange: (band: ToleranceBand) => void;
+  /** Target weight the band applies to, used to show the resulting width */
+  targetAllocation?: number;
+}
+
+// Starting value when switching to a band type
+const DEFAULT_BAND_VALUES: Record<ToleranceBandType, number> = {
+  absolute: 5,
+  relative: 20,
+  five_twenty_five: 0,
+};
+
+/**
+ * Band type and size for one sleeve, with the resulting +/- width in points
+ */
+const ToleranceBandControl: React.FC<ToleranceBandControlProps> = ({ id, band, onChange, targetAllocation }) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <span className="text-muted-foreground">Band</span>
+    <Select
+      value={band.type}
+      onValueChange={(type) => onChange({ type: type as ToleranceBandType, value: DEFAULT_BAND_VALUES[type as ToleranceBandType] })}
+    >
+      <SelectTrigger id={id} className="h-8 w-[180px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent
+        position="item-aligned"
+        side="bottom"
+        align="start"
+        className="z-[9999]"
+        style={{ position: 'relative', zIndex: 9999 }}
+      >
+        {(Object.keys(TOLERANCE_BAND_LABELS) as ToleranceBandType[]).map(type => (
+          <SelectItem key={type} value={type}>{TOLERANCE_BAND_LABELS[type]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    {band.type !== 'five_twenty_five' && (
+      <div className="flex items-center">
+        <Input
+          id={`${id}-value`}
+          type="number"
+          min="0"
+          max={band.type === 'relative' ? 100 : 50}
+          step="0.5"
+          value={band.value}
+          onChange={(e) => onChange({ ...band, value: Math.max(0, parseFloat(e.target.value) || 0) })}
+          className="h-8 w-20 text-right mr-2"
+        />
+        <span className="text-muted-foreground">{band.type === 'relative' ? '%' : 'pts'}</span>
+      </div>
+    )}
+    {targetAllocation !== undefined && targetAllocation > 0 && (
+      <span className="text-xs text-muted-foreground">
+        = &plusmn;{getToleranceBandWidth(band, targetAllocation).toFixed(1)} pts
+      </span>
+    )}
+  </div>
+);
+
+export default ToleranceBandControl;
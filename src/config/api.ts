@@ -55,16 +55,23 @@ export const PORTFOLIO_ENDPOINTS = {
   DELETE: (id: string) => `${API_BASE_URL}/portfolios/${id}/`,
   HAS_PORTFOLIO: `${API_BASE_URL}/portfolio/status`,  // Returns {has_portfolio: boolean}
   PERFORMANCE: `${API_BASE_URL}/portfolio/performance/`,  // Uses the active user's portfolio
+  BENCHMARK_PERFORMANCE: `${API_BASE_URL}/portfolio/benchmark-performance/`,  // Benchmark values for the same periods (?benchmark=&period=)
   ALLOCATION: `${API_BASE_URL}/portfolio/allocation/`,  // Uses the active user's portfolio
   DRIFT: `${API_BASE_URL}/portfolio/drift/`,  // Uses the active user's portfolio
+  DRIFT_HISTORY: `${API_BASE_URL}/portfolio/drift/history/`,  // Daily drift snapshots written by a scheduled backend job (GET ?start=YYYY-MM-DD) for the active user's portfolio
   SUMMARY: `${API_BASE_URL}/portfolio/summary`,  // Uses singular 'portfolio' path
+  HOLDINGS: `${API_BASE_URL}/portfolio/holdings/`,  // Holdings with current prices for the active user's portfolio
   TAX_LOSS_HARVESTING: `${API_BASE_URL}/portfolio/tax-loss-harvesting/`,  // Uses the active user's portfolio
   TAX_EFFICIENCY: `${API_BASE_URL}/portfolio/tax-efficiency-analysis/`,  // Uses the active user's portfolio
+  TAX_LOTS: `${API_BASE_URL}/portfolio/tax-lots/`,  // Open tax lots per holding for the active user's portfolio
   ALERTS: `${API_BASE_URL}/alerts/`,  // The alerts endpoints are under /api/alerts/ in the backend
   ASSET_CLASSES: `${API_BASE_URL}/portfolio/asset-classes/`,  // Get available asset classes
   TARGET_ALLOCATIONS: `${API_BASE_URL}/portfolio/target-allocations/`,  // Save target allocations
   SECTORS: `${API_BASE_URL}/portfolio/sectors/`,  // Get available sectors
   SECTOR_TARGET_ALLOCATIONS: `${API_BASE_URL}/portfolio/sector-target-allocations/`,  // Save sector target allocations
+  ALLOCATION_MODELS: `${API_BASE_URL}/portfolio/allocation-models/`,  // User-saved target allocation models (GET list, POST create)
+  ALLOCATION_MODEL_DETAIL: (id: string) => `${API_BASE_URL}/portfolio/allocation-models/${id}/`,  // Delete a saved model
+  GLIDE_PATH: `${API_BASE_URL}/portfolio/glide-path/`,  // Glide-path targets for the active user's portfolio (GET, PUT to replace)
 };
 
 // Plaid endpoints - using API_BASE_URL for consistent URL construction
@@ -76,12 +83,23 @@ export const PLAID_ENDPOINTS = {
   DISCONNECT_ACCOUNT: (id: string) => `${API_BASE_URL}/plaid/disconnect/${id}/`,
   UPDATE_CONNECTION: (id: string) => `${API_BASE_URL}/plaid/update-connection/${id}/`,
   CREATE_PORTFOLIO: `${API_BASE_URL}/portfolio/`,
+  CASH_FLOWS: `${API_BASE_URL}/plaid/cash-flows/`,  // External deposits/withdrawals from linked investment accounts
 };
 
 
 // Risk optimization endpoints
 export const RISK_ENDPOINTS = {
   OPTIMIZE: `${API_BASE_URL}/risk/optimize/`,
+  INFLATION: `${API_BASE_URL}/risk/inflation/`,  // Latest annual rate for an inflation series (?series=)
+  HISTORICAL_PRICES: `${API_BASE_URL}/risk/historical-prices/`,  // Aligned daily closes for symbols and a benchmark
+};
+
+// Market data streaming endpoints
+// The WebSocket URL is derived from the backend URL (http -> ws, https -> wss)
+export const MARKET_DATA_ENDPOINTS = {
+  WEBSOCKET: `${BACKEND_URL.replace(/^http/, 'ws')}/ws/market-data/`,
+  STREAM: `${API_BASE_URL}/market-data/stream/`,  // Server-sent events fallback
+  QUOTES: `${API_BASE_URL}/market-data/quotes/`,  // Long-poll fallback
 };
 
 // Export a combined object for easy imports
@@ -91,6 +109,7 @@ export const API_CONFIG = {
   PORTFOLIO: PORTFOLIO_ENDPOINTS,
   PLAID: PLAID_ENDPOINTS,
   RISK: RISK_ENDPOINTS,
+  MARKET_DATA: MARKET_DATA_ENDPOINTS,
 };
 
 export default API_CONFIG;
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useEffect, useMemo, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, ReactNode } from 'react';
 import { marketDataService, MarketData } from '@/services/marketData';
 
 interface MarketDataContextType {
@@ -21,10 +21,7 @@ export const MarketDataProvider: React.FC<MarketDataProviderProps> = ({
   initialSymbols = [],
 }) => {
   const [marketData, setMarketData] = React.useState<MarketData>({});
-  const [isConnected, setIsConnected] = React.useState(false);
-  const [subscribedSymbols, setSubscribedSymbols] = React.useState<Set<string>>(
-    new Set(initialSymbols)
-  );
+  const [isConnected, setIsConnected] = React.useState(marketDataService.isConnected);
 
   // Subscribe to market data updates
   useEffect(() => {
@@ -35,47 +32,41 @@ export const MarketDataProvider: React.FC<MarketDataProviderProps> = ({
       }));
     });
 
-    // Initial connection status
-    setIsConnected(marketDataService['isConnected']);
+    // Track connection status (invoked immediately with the current status)
+    const unsubscribeStatus = marketDataService.onConnectionChange((status) => {
+      setIsConnected(status === 'connected');
+    });
 
     // Subscribe to initial symbols
     if (initialSymbols.length > 0) {
       marketDataService.subscribeToSymbols(initialSymbols);
     }
 
-    // Cleanup
+    // Cleanup - release only this provider's references so other consumers keep streaming
     return () => {
       unsubscribe();
-      marketDataService.disconnect();
+      unsubscribeStatus();
+      if (initialSymbols.length > 0) {
+        marketDataService.unsubscribeFromSymbols(initialSymbols);
+      }
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Handle symbol subscriptions
-  const subscribeToSymbols = (symbols: string[]) => {
-    const newSymbols = symbols.filter((symbol) => !subscribedSymbols.has(symbol));
-    
-    if (newSymbols.length > 0) {
-      setSubscribedSymbols((prev) => {
-        const newSet = new Set(prev);
-        newSymbols.forEach(symbol => newSet.add(symbol));
-        return newSet;
-      });
-      
-      marketDataService.subscribeToSymbols(newSymbols);
-    }
-  };
+  // Symbol subscriptions are reference counted by the service,
+  // so every subscribe must be paired with an unsubscribe
+  const subscribeToSymbols = useCallback((symbols: string[]) => {
+    marketDataService.subscribeToSymbols(symbols);
+  }, []);
 
-  const unsubscribeFromSymbols = (symbols: string[]) => {
-    setSubscribedSymbols((prev) => {
-      const newSet = new Set(prev);
-      symbols.forEach(symbol => newSet.delete(symbol));
-      return newSet;
-    });
-    
+  const unsubscribeFromSymbols = useCallback((symbols: string[]) => {
     marketDataService.unsubscribeFromSymbols(symbols);
-  };
+  }, []);
 
-  const getSymbolData = (symbol: string) => marketData[symbol];
+  const getSymbolData = useCallback(
+    (symbol: string) => marketData[symbol.toUpperCase()],
+    [marketData]
+  );
 
   const value = useMemo(
     () => ({
@@ -85,7 +76,7 @@ export const MarketDataProvider: React.FC<MarketDataProviderProps> = ({
       unsubscribeFromSymbols,
       getSymbolData,
     }),
-    [marketData, isConnected, subscribedSymbols]
+    [marketData, isConnected, subscribeToSymbols, unsubscribeFromSymbols, getSymbolData]
   );
 
   return (
@@ -106,15 +97,18 @@ export const useMarketData = (): MarketDataContextType => {
 // Helper hook to get data for specific symbols
 export const useSymbolData = (symbols: string[]) => {
   const { marketData, subscribeToSymbols, unsubscribeFromSymbols } = useMarketData();
+  // Key on the symbol list contents so a new array with the same symbols doesn't resubscribe
+  const symbolsKey = symbols.join(',');
 
   useEffect(() => {
-    if (symbols.length > 0) {
-      subscribeToSymbols(symbols);
+    const subscribed = symbolsKey ? symbolsKey.split(',') : [];
+    if (subscribed.length > 0) {
+      subscribeToSymbols(subscribed);
       return () => {
-        unsubscribeFromSymbols(symbols);
+        unsubscribeFromSymbols(subscribed);
       };
     }
-  }, [symbols, subscribeToSymbols, unsubscribeFromSymbols]);
+  }, [symbolsKey, subscribeToSymbols, unsubscribeFromSymbols]);
 
-  return symbols.map(symbol => marketData[symbol]);
+  return symbols.map(symbol => marketData[symbol.toUpperCase()]);
 };
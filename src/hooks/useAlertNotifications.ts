@@ -1,34 +1,50 @@
 /**
  * Hook for managing alert notifications
- * Periodically checks for new alert history and creates notifications
+ * Loads persisted notifications, receives alert events over the alert event stream
+ * (falling back to polling while it is disconnected) and syncs notification
+ * changes made on other devices
  */
 
 import { useEffect, useRef, useCallback } from 'react';
 import { notificationService } from '@/services/notificationService';
+import { alertEventStream } from '@/services/alertEventStream';
+import { deliverNotificationDigest } from '@/services/notifications';
+import { useAppDispatch } from '@/store/hooks';
+import { loadNotifications, loadNotificationPreferences, syncNotifications } from '@/store/notificationsSlice';
 
 /**
  * Hook to monitor alert history and create notifications
  */
 export const useAlertNotifications = () => {
+  const dispatch = useAppDispatch();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const hasStartedRef = useRef(false);
 
   // Check for new alert triggers using the efficient service
   const checkForNewAlerts = useCallback(async () => {
     try {
-      await notificationService.checkForNewAlerts();
+      // Alert triggers are pushed while the stream is open; only poll without it
+      if (!alertEventStream.isConnected()) {
+        await notificationService.checkForNewAlerts();
+      }
+      await dispatch(syncNotifications());
+      // Delivers anything queued during quiet hours once they have ended
+      await deliverNotificationDigest();
     } catch (error) {
       // Error handling - could be logged to error tracking service in production
       if (process.env.NODE_ENV === 'development') {
         console.error('Failed to check for new alerts:', error);
       }
     }
-  }, []);
+  }, [dispatch]);
 
   // Start monitoring
   const startMonitoring = () => {
-    // Initial check
-    checkForNewAlerts();
+    // Populate the store and the user's preferences from the backend before the first check
+    Promise.allSettled([
+      dispatch(loadNotifications()),
+      dispatch(loadNotificationPreferences()),
+    ]).finally(checkForNewAlerts);
     
     // Set up periodic checking (every 30 seconds - more efficient)
     intervalRef.current = setInterval(checkForNewAlerts, 30000);
@@ -60,9 +76,18 @@ export const useAlertNotifications = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Keep the shared alert event stream open while mounted
+  useEffect(() => {
+    alertEventStream.start();
+    return () => {
+      alertEventStream.stop();
+    };
+  }, []);
+
   // Manual refresh function for immediate checking
   const refreshNotifications = async () => {
     await notificationService.forceRefresh();
+    await dispatch(syncNotifications());
   };
 
   return {
@@ -0,0 +1,53 @@
+/**
+ * Custom hook for daily drift snapshots of the active portfolio
+ * Loads the snapshots for a lookback window. Snapshots are written by the backend's
+ * daily job, not by the client, so the history doesn't depend on anyone viewing drift.
+ */
+
+import { useEffect, useState } from 'react';
+import { useAppSelector } from '@/store/hooks';
+import { selectActivePortfolioId } from '@/store/portfolioSlice';
+import { portfolioApi } from '@/services/api';
+import { DriftHistoryPoint } from '@/types/portfolio';
+
+interface UseDriftHistoryReturn {
+  history: DriftHistoryPoint[];
+  loading: boolean;
+  error: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+export function useDriftHistory(lookbackDays: number): UseDriftHistoryReturn {
+  const activePortfolioId = useAppSelector(selectActivePortfolioId);
+  const [history, setHistory] = useState<DriftHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const start = toDateString(new Date(Date.now() - lookbackDays * DAY_MS));
+
+    setLoading(true);
+    setError(null);
+    portfolioApi.getDriftHistory(start, activePortfolioId)
+      .then(points => {
+        if (!cancelled) setHistory(points);
+      })
+      .catch(err => {
+        console.error('Drift history fetch error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load drift history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lookbackDays, activePortfolioId]);
+
+  return { history, loading, error };
+}
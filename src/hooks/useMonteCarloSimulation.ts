@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { riskApi } from '@/services/api';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { OptimizationResults, ProjectionPoint, setMonteCarloResults } from '@/store/optimizationSlice';
+import { parseRatePreference } from '@/utils/calculations';
+import type { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from '@/workers/monteCarlo.worker';
+
+// Long-run assumption used when the inflation series cannot be resolved
+const DEFAULT_INFLATION_RATE = 0.025;
+
+/**
+ * Custom hook that runs the Monte Carlo projection for the optimized scenario in a Web Worker
+ * Re-runs whenever new optimization results arrive or the time horizon, the simulation
+ * settings, the inflation preference or the portfolio value change, and writes the
+ * results to the scenario's monteCarlo block and the projectedData fan.
+ * @param results Optimization results whose first scenario is projected
+ * @returns Simulation status and the inflation rate used
+ */
+export function useMonteCarloSimulation(results: OptimizationResults | null) {
+  const dispatch = useAppDispatch();
+  const scenario = results?.scenarios[0];
+  const timeHorizon = useAppSelector((state) => state.optimization.parameters.timeHorizon);
+  const settings = useAppSelector((state) => state.optimization.simulationSettings);
+  const inflationSeries = useAppSelector((state) => state.preferences.marketRegion.inflationSeries);
+  const portfolioValue = useAppSelector((state) => state.portfolio.totalBalance);
+
+  const [inflationRate, setInflationRate] = useState<number | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Resolve the inflation preference: numeric values are used directly, series names via the backend
+  useEffect(() => {
+    const parsed = parseRatePreference(inflationSeries);
+    if (parsed !== null) {
+      setInflationRate(parsed);
+      return;
+    }
+
+    let cancelled = false;
+    riskApi.getInflationRate(inflationSeries)
+      .then(rate => {
+        if (!cancelled) setInflationRate(Number.isFinite(rate) ? rate : DEFAULT_INFLATION_RATE);
+      })
+      .catch(err => {
+        console.warn(`⚠️ Could not resolve inflation series "${inflationSeries}", using ${DEFAULT_INFLATION_RATE * 100}%`, err);
+        if (!cancelled) setInflationRate(DEFAULT_INFLATION_RATE);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [inflationSeries]);
+
+  // The worker is started with the first run and replaced after it fails
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!scenario || inflationRate === null || portfolioValue <= 0) {
+      return;
+    }
+    const worker = workerRef.current ?? new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url));
+    workerRef.current = worker;
+
+    // Only the latest request's result is applied
+    const id = ++requestIdRef.current;
+    const scenarioName = scenario.name;
+    setRunning(true);
+    setError(null);
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+      if (event.data.id !== requestIdRef.current) return;
+      setRunning(false);
+
+      if (event.data.type === 'error') {
+        console.error('❌ Monte Carlo simulation failed:', event.data.error);
+        setError(event.data.error);
+        return;
+      }
+
+      const { summary, fan } = event.data.output;
+      const projectedData: ProjectionPoint[] = [
+        {
+          year: 0,
+          conservative: portfolioValue,
+          balanced: portfolioValue,
+          growth: portfolioValue,
+          current: portfolioValue,
+          percentile25: portfolioValue,
+          percentile75: portfolioValue,
+        },
+        ...fan.map(point => ({
+          year: point.year,
+          conservative: point.percentile10,
+          balanced: point.median,
+          growth: point.percentile90,
+          current: point.invested,
+          percentile25: point.percentile25,
+          percentile75: point.percentile75,
+        })),
+      ];
+      dispatch(setMonteCarloResults({ scenarioName, summary, projectedData }));
+    };
+
+    // A throw inside the worker, a failed worker load or an unreadable result ends the run.
+    // Each run replaces these handlers, so they always belong to the request in flight.
+    const failRun = (message: string) => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      setRunning(false);
+      setError(message);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      console.error('❌ Monte Carlo worker error:', event.message);
+      failRun(event.message || 'The simulation worker stopped unexpectedly');
+    };
+    worker.onmessageerror = () => {
+      console.error('❌ Monte Carlo worker sent a result that could not be read');
+      failRun('The simulation result could not be read');
+    };
+
+    const request: MonteCarloWorkerRequest = {
+      id,
+      input: {
+        initialValue: portfolioValue,
+        // Scenario figures are stored in percent
+        expectedReturn: scenario.expectedReturn / 100,
+        volatility: scenario.volatility / 100,
+        years: timeHorizon,
+        annualContribution: settings.annualContribution,
+        inflationRate,
+        iterations: settings.iterations,
+        targetValue: settings.targetValue ?? undefined,
+      },
+    };
+    worker.postMessage(request);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [results?.generatedAt, timeHorizon, settings, inflationRate, portfolioValue]);
+
+  return {
+    running,
+    error,
+    inflationRate,
+  };
+}
@@ -1,15 +1,30 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { portfolioApi } from '@/services/api';
-import { PortfolioSummary, PerformanceData, AssetAllocation } from '@/types/portfolio';
+import { plaidApi } from '@/services/plaid-api';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { selectActivePortfolioId } from '@/store/portfolioSlice';
+import { loadPreferences } from '@/store/preferencesSlice';
+import { PortfolioSummary, PerformanceData, AssetAllocation, CashFlowEvent } from '@/types/portfolio';
 
 /**
  * Custom hook for fetching portfolio data
  * Handles loading states, error handling, and data fetching
+ * Data is scoped to the portfolio selected in the switcher and refetched when it changes
  * @returns Portfolio data, loading states, and error states
  */
 export function usePortfolioData() {
+  const dispatch = useAppDispatch();
+  const activePortfolioId = useAppSelector(selectActivePortfolioId);
+  const benchmarkName = useAppSelector((state) => state.preferences.marketRegion.default_benchmark);
+  const preferencesLoaded = useAppSelector((state) => state.preferences.loaded);
+
+  // Latest selected portfolio, so responses for a previously selected one are ignored
+  const activePortfolioIdRef = useRef(activePortfolioId);
+  activePortfolioIdRef.current = activePortfolioId;
+  const isStale = (portfolioId: string | null) => portfolioId !== activePortfolioIdRef.current;
+
   // Portfolio existence state
   const [portfolioExists, setPortfolioExists] = useState<boolean | null>(null);
   
@@ -23,6 +38,12 @@ export function usePortfolioData() {
   const [performanceLoading, setPerformanceLoading] = useState<boolean>(true);
   const [performanceError, setPerformanceError] = useState<string | null>(null);
   const [currentPeriod, setCurrentPeriod] = useState<'1D' | '1W' | '1M' | '1Y' | '5Y' | 'all'>('5Y');
+
+  // Benchmark performance for the same period (user's default_benchmark preference)
+  const [benchmarkPerformance, setBenchmarkPerformance] = useState<PerformanceData[]>([]);
+
+  // External cash flows for the same period, used for time- and money-weighted returns
+  const [cashFlows, setCashFlows] = useState<CashFlowEvent[]>([]);
   
   // Asset allocation data
   const [assetAllocation, setAssetAllocation] = useState<AssetAllocation[]>([]);
@@ -33,13 +54,16 @@ export function usePortfolioData() {
   // Fetch portfolio summary and check if portfolio exists
   useEffect(() => {
     async function fetchSummary() {
+      const portfolioId = activePortfolioId;
       try {
         setSummaryLoading(true);
-        const data = await portfolioApi.getPortfolioSummary();
+        const data = await portfolioApi.getPortfolioSummary(portfolioId);
+        if (isStale(portfolioId)) return;
         setSummary(data);
         setSummaryError(null);
         setPortfolioExists(true);
       } catch (error: unknown) {
+        if (isStale(portfolioId)) return;
         // Check for 404 specifically to determine portfolio doesn't exist
         interface ApiError {
           status?: number;
@@ -54,12 +78,12 @@ export function usePortfolioData() {
           console.error('Error fetching portfolio summary:', error);
         }
       } finally {
-        setSummaryLoading(false);
+        if (!isStale(portfolioId)) setSummaryLoading(false);
       }
     }
     
     fetchSummary();
-  }, []);
+  }, [activePortfolioId]);
   
   // Function to fetch performance data for a specific period
   const fetchPerformanceData = async (period: '1D' | '1W' | '1M' | '1Y' | '5Y' | 'all' = '5Y') => {
@@ -67,29 +91,87 @@ export function usePortfolioData() {
       return;
     }
     
+    const portfolioId = activePortfolioId;
     try {
       setPerformanceLoading(true);
       setCurrentPeriod(period); // Update the current period
-      const data = await portfolioApi.getPerformance(period);
+      const data = await portfolioApi.getPerformance(period, portfolioId);
+      if (isStale(portfolioId)) return;
       setPerformance(data);
       setPerformanceError(null);
     } catch (error) {
+      if (isStale(portfolioId)) return;
       setPerformanceError('Failed to load performance data');
       if (process.env.NODE_ENV === 'development') {
         console.error('Error fetching performance data:', error);
       }
     } finally {
-      setPerformanceLoading(false);
+      if (!isStale(portfolioId)) setPerformanceLoading(false);
     }
   };
 
   // Initial fetch of performance data (default to 5Y view)
   useEffect(() => {
     if (portfolioExists === true) {
-      fetchPerformanceData('5Y');
+      fetchPerformanceData(currentPeriod);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [portfolioExists]);
+  }, [portfolioExists, activePortfolioId]);
+  
+  // The benchmark comes from the user's market region preferences
+  useEffect(() => {
+    if (!preferencesLoaded) {
+      dispatch(loadPreferences());
+    }
+  }, [dispatch, preferencesLoaded]);
+
+  // Fetch benchmark performance whenever the period or benchmark changes
+  // A failure only hides the overlay, so it does not set an error state
+  useEffect(() => {
+    if (portfolioExists !== true || !preferencesLoaded || !benchmarkName) {
+      return;
+    }
+
+    let isMounted = true;
+    portfolioApi.getBenchmarkPerformance(benchmarkName, currentPeriod)
+      .then(data => {
+        if (isMounted) setBenchmarkPerformance(data);
+      })
+      .catch(error => {
+        if (isMounted) setBenchmarkPerformance([]);
+        if (process.env.NODE_ENV === 'development') {
+          console.error('Error fetching benchmark performance:', error);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [portfolioExists, preferencesLoaded, benchmarkName, currentPeriod]);
+
+  // Fetch cash flows whenever the period changes
+  // Without flows, returns fall back to treating every value change as investment gain
+  useEffect(() => {
+    if (portfolioExists !== true) {
+      return;
+    }
+
+    let isMounted = true;
+    plaidApi.getCashFlows(currentPeriod, activePortfolioId)
+      .then(data => {
+        if (isMounted) setCashFlows(data);
+      })
+      .catch(error => {
+        if (isMounted) setCashFlows([]);
+        if (process.env.NODE_ENV === 'development') {
+          console.error('Error fetching cash flows:', error);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [portfolioExists, activePortfolioId, currentPeriod]);
   
   // Fetch asset allocation only if portfolio exists
   useEffect(() => {
@@ -98,9 +180,11 @@ export function usePortfolioData() {
         return;
       }
       
+      const portfolioId = activePortfolioId;
       try {
         setAllocationLoading(true);
-        const data = await portfolioApi.getAssetAllocation();
+        const data = await portfolioApi.getAssetAllocation(portfolioId);
+        if (isStale(portfolioId)) return;
         
         // Transform data if needed - handle both direct array and nested object formats
         if (data) {
@@ -149,25 +233,29 @@ export function usePortfolioData() {
         
         setAllocationError(null);
       } catch (error) {
+        if (isStale(portfolioId)) return;
         setAllocationError('Failed to load asset allocation');
         if (process.env.NODE_ENV === 'development') {
           console.error('Error fetching asset allocation:', error);
         }
       } finally {
-        setAllocationLoading(false);
+        if (!isStale(portfolioId)) setAllocationLoading(false);
       }
     }
     
     fetchAllocation();
-  }, [portfolioExists]);
+  }, [portfolioExists, activePortfolioId]);
   
   // Function to refresh all data
   const refreshData = () => {
+    const portfolioId = activePortfolioId;
+
     // Reset loading states
     setSummaryLoading(true);
     
     // Always check portfolio summary first
-    portfolioApi.getPortfolioSummary().then(data => {
+    portfolioApi.getPortfolioSummary(portfolioId).then(data => {
+      if (isStale(portfolioId)) return;
       setSummary(data);
       setSummaryError(null);
       setPortfolioExists(true);
@@ -176,6 +264,7 @@ export function usePortfolioData() {
       setPerformanceLoading(true);
       setAllocationLoading(true);
     }).catch(error => {
+      if (isStale(portfolioId)) return;
       setSummaryError('Failed to refresh portfolio summary');
       
       // Check if portfolio doesn't exist
@@ -186,27 +275,30 @@ export function usePortfolioData() {
         console.error('Error refreshing portfolio summary:', error);
       }
     }).finally(() => {
-      setSummaryLoading(false);
+      if (!isStale(portfolioId)) setSummaryLoading(false);
     });
     
     // Only fetch performance data if portfolio exists
     if (portfolioExists === true) {
-      portfolioApi.getPerformance('all').then(data => {
+      portfolioApi.getPerformance('all', portfolioId).then(data => {
+        if (isStale(portfolioId)) return;
         setPerformance(data);
         setPerformanceError(null);
       }).catch(error => {
+        if (isStale(portfolioId)) return;
         setPerformanceError('Failed to refresh performance data');
         if (process.env.NODE_ENV === 'development') {
           console.error('Error refreshing performance data:', error);
         }
       }).finally(() => {
-        setPerformanceLoading(false);
+        if (!isStale(portfolioId)) setPerformanceLoading(false);
       });
     }
     
     // Only fetch allocation data if portfolio exists
     if (portfolioExists === true) {
-      portfolioApi.getAssetAllocation().then(data => {
+      portfolioApi.getAssetAllocation(portfolioId).then(data => {
+        if (isStale(portfolioId)) return;
         // Transform data if needed - handle both direct array and nested object formats
         if (data) {
           // Handle asset allocation
@@ -254,12 +346,13 @@ export function usePortfolioData() {
         
         setAllocationError(null);
     }).catch(error => {
+      if (isStale(portfolioId)) return;
       setAllocationError('Failed to refresh asset allocation');
       if (process.env.NODE_ENV === 'development') {
         console.error('Error refreshing asset allocation:', error);
       }
     }).finally(() => {
-      setAllocationLoading(false);
+      if (!isStale(portfolioId)) setAllocationLoading(false);
     });
     }
   };
@@ -273,6 +366,9 @@ export function usePortfolioData() {
     performanceError,
     currentPeriod,
     fetchPerformanceData,
+    benchmarkPerformance,
+    benchmarkName,
+    cashFlows,
     assetAllocation,
     sectorAllocation,
     allocationLoading,
@@ -7,9 +7,13 @@ import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { useRouter } from 'next/navigation';
 import { AppDispatch, RootState } from '@/store';
-import { fetchPortfolioDrift, fetchAssetClasses, fetchSectors, AssetClass, Sector } from '@/store/portfolioSlice';
+import { fetchPortfolioDrift, fetchAssetClasses, fetchSectors, fetchGlidePath, selectActivePortfolioId, AssetClass } from '@/store/portfolioSlice';
 import { portfolioApi } from '@/services/api';
-import { DriftResponse } from '@/types/portfolio';
+import { DriftResponse, GlidePath, Sector } from '@/types/portfolio';
+import { applyGlidePathToDrift, getEffectiveGlidePathTargets, getGlidePathDate } from '@/utils/glidePath';
+
+// How often to check whether the day has changed and the glide-path targets need recomputing
+const GLIDE_PATH_DATE_CHECK_MS = 60 * 60 * 1000;
 
 interface UsePortfolioDriftOptions {
   autoLoad?: boolean;
@@ -17,12 +21,12 @@ interface UsePortfolioDriftOptions {
   enablePrefetch?: boolean;
 }
 
-import { DriftResponse } from '@/types/portfolio';
-import { AssetClass, Sector } from '@/store/portfolioSlice';
-
 interface UsePortfolioDriftReturn {
-  // Data
+  // Data (targets come from the glide path while one is enabled)
   driftData: DriftResponse | null;
+  glidePath: GlidePath | null;
+  // Today's glide-path targets by sleeve name, or null without an enabled glide path
+  glidePathTargets: Record<string, number> | null;
   currentAllocations: {
     asset_class?: Record<string, number>;
     sector?: Record<string, number>;
@@ -71,13 +75,33 @@ export function usePortfolioDrift(options: UsePortfolioDriftOptions = {}): UsePo
     assetClasses,
     assetClassesLoading,
     sectors,
-    sectorsLoading
+    sectorsLoading,
+    glidePath
   } = useSelector((state: RootState) => state.portfolio);
+  const activePortfolioId = useSelector(selectActivePortfolioId);
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [lastFetchTime, setLastFetchTime] = useState<number>(0);
   const [isInitializing, setIsInitializing] = useState(false);
   const hasLoadedRef = useRef(false);
+  const [glidePathDate, setGlidePathDate] = useState(getGlidePathDate);
+
+  // Recompute the effective glide-path targets when the day changes
+  useEffect(() => {
+    const timer = setInterval(() => setGlidePathDate(getGlidePathDate()), GLIDE_PATH_DATE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const glidePathTargets = useMemo(
+    () => getEffectiveGlidePathTargets(glidePath, glidePathDate),
+    [glidePath, glidePathDate]
+  );
+
+  // Drift against today's glide-path targets instead of the static targets
+  const effectiveDriftData = useMemo(
+    () => applyGlidePathToDrift(driftData, glidePath, glidePathDate),
+    [driftData, glidePath, glidePathDate]
+  );
 
   // Memoized computed values
   const hasData = useMemo(() => {
@@ -120,7 +144,8 @@ export function usePortfolioDrift(options: UsePortfolioDriftOptions = {}): UsePo
       
       // Parallel data loading for optimal performance
       const promises = [
-        dispatch(fetchPortfolioDrift()).unwrap()
+        dispatch(fetchPortfolioDrift()).unwrap(),
+        dispatch(fetchGlidePath()).unwrap()
       ];
       
       // Prefetch asset classes and sectors if enabled
@@ -169,10 +194,26 @@ export function usePortfolioDrift(options: UsePortfolioDriftOptions = {}): UsePo
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [autoLoad]);
 
+  // Reload when the user switches portfolios
+  const previousPortfolioIdRef = useRef(activePortfolioId);
+  useEffect(() => {
+    if (previousPortfolioIdRef.current === activePortfolioId) {
+      return;
+    }
+    previousPortfolioIdRef.current = activePortfolioId;
+    invalidateCache();
+    if (autoLoad) {
+      loadData(true);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activePortfolioId]);
+
   // Return hook interface
   return {
     // Data
-    driftData,
+    driftData: effectiveDriftData,
+    glidePath,
+    glidePathTargets,
     currentAllocations,
     assetClasses,
     sectors,
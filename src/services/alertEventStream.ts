@@ -0,0 +1,227 @@
+/**
+ * Push delivery of alert triggers and resolutions over Server-Sent Events
+ *
+ * The stream is read with fetch rather than EventSource so the auth header can be sent.
+ * Every event carries an id that is saved as the resume token; reconnecting with it
+ * (Last-Event-ID) makes the backend replay everything missed while offline.
+ */
+
+import { API_BASE_URL } from '@/config/api';
+import { getCookie } from '@/utils/cookies';
+import { ALERT_ENDPOINTS, transformAlertRule, transformAlertHistory } from './alerts-api';
+import { createAlertEscalatedNotification, createAlertNotification, createAlertResolvedNotification } from './notifications';
+import { notificationService } from './notificationService';
+import { AlertEventResponse } from '../types/alerts';
+
+export type AlertStreamStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+const RESUME_TOKEN_KEY = 'alert_events_resume_token';
+
+class AlertEventStream {
+  private static instance: AlertEventStream;
+  private status: AlertStreamStatus = 'idle';
+  private subscribers = 0;
+  private controller: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private readonly MIN_RECONNECT_DELAY = 1000; // 1 second
+  private readonly MAX_RECONNECT_DELAY = 60000; // 1 minute
+
+  private constructor() {}
+
+  static getInstance(): AlertEventStream {
+    if (!AlertEventStream.instance) {
+      AlertEventStream.instance = new AlertEventStream();
+    }
+    return AlertEventStream.instance;
+  }
+
+  /**
+   * Start receiving events; the connection is shared and stays open until every caller has stopped
+   */
+  start(): void {
+    this.subscribers++;
+    if (this.subscribers === 1) {
+      window.addEventListener('online', this.handleOnline);
+      this.connect();
+    }
+  }
+
+  /**
+   * Stop receiving events for one caller
+   */
+  stop(): void {
+    this.subscribers = Math.max(0, this.subscribers - 1);
+    if (this.subscribers === 0) {
+      window.removeEventListener('online', this.handleOnline);
+      this.disconnect();
+      this.setStatus('idle');
+    }
+  }
+
+  /**
+   * Whether events are currently being pushed (polling is unnecessary while true)
+   */
+  isConnected(): boolean {
+    return this.status === 'open';
+  }
+
+  getStatus(): AlertStreamStatus {
+    return this.status;
+  }
+
+  private setStatus(status: AlertStreamStatus): void {
+    this.status = status;
+  }
+
+  private handleOnline = () => {
+    // Reconnect right away instead of waiting out the backoff
+    if (this.status !== 'open' && this.subscribers > 0) {
+      this.disconnect();
+      this.connect();
+    }
+  };
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private scheduleReconnect(): void {
+    if (this.subscribers === 0 || this.reconnectTimer) return;
+    const delay = Math.min(this.MIN_RECONNECT_DELAY * 2 ** this.reconnectAttempts, this.MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private async connect(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.setStatus('connecting');
+
+    const token = getCookie('auth_token');
+    const resumeToken = localStorage.getItem(RESUME_TOKEN_KEY);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${ALERT_ENDPOINTS.EVENTS}`, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...(resumeToken && { 'Last-Event-ID': resumeToken }),
+        },
+        credentials: 'include',
+        mode: 'cors',
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Alert event stream failed with status ${response.status}`);
+      }
+
+      this.setStatus('open');
+      this.reconnectAttempts = 0;
+      await this.readStream(response.body);
+      // The server closed the stream; reconnect and resume
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('⚠️ Alert event stream unavailable, falling back to polling:', error);
+      }
+    }
+
+    if (this.controller === controller) {
+      this.controller = null;
+      this.setStatus('closed');
+      this.scheduleReconnect();
+    }
+  }
+
+  private async readStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const event = this.parseEvent(block);
+        if (event) {
+          await this.handleEvent(event);
+        }
+      }
+    }
+  }
+
+  private parseEvent(block: string): ServerSentEvent | null {
+    const event: ServerSentEvent = { event: 'message', data: '' };
+    const dataLines: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      // Lines starting with a colon are comments (used as heartbeats)
+      if (!line || line.startsWith(':')) continue;
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'id') event.id = value;
+      else if (field === 'event') event.event = value;
+      else if (field === 'data') dataLines.push(value);
+    }
+
+    event.data = dataLines.join('\n');
+    return event.data || event.event !== 'message' ? event : null;
+  }
+
+  private async handleEvent(event: ServerSentEvent): Promise<void> {
+    try {
+      if (event.event === 'resync') {
+        // The resume token expired on the server, so catch up with a full poll instead
+        await notificationService.forceRefresh();
+      } else if (event.event === 'alert_triggered' || event.event === 'alert_resolved' || event.event === 'alert_escalated') {
+        const payload = JSON.parse(event.data) as AlertEventResponse;
+        const rule = transformAlertRule(payload.alert_rule);
+        const history = payload.history ? transformAlertHistory(payload.history) : undefined;
+
+        if (event.event === 'alert_triggered') {
+          // Keep the polling cache current so a later fallback poll does not repeat this trigger
+          notificationService.recordTrigger(rule);
+          await createAlertNotification(rule, history);
+        } else if (event.event === 'alert_escalated') {
+          notificationService.recordTrigger(rule);
+          await createAlertEscalatedNotification(rule, history);
+        } else {
+          await createAlertResolvedNotification(rule);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error handling alert event:', error);
+    }
+
+    // Only advance the resume token once the event has been handled
+    if (event.id) {
+      localStorage.setItem(RESUME_TOKEN_KEY, event.id);
+    }
+  }
+}
+
+export const alertEventStream = AlertEventStream.getInstance();
@@ -1,4 +1,4 @@
-import { fetchWithAuth } from './api-utils';
+import { fetchWithAuth, withPortfolioId } from './api-utils';
 import { 
   AlertRule, 
   AlertHistory, 
@@ -10,40 +10,164 @@ import {
   ConditionType,
   ActionType,
   AlertStats,
-  PortfolioDrift
+  PortfolioDrift,
+  AlertAction,
+  AlertActionResponse,
+  AlertActionResult,
+  AlertActionTestResponse,
+  AlertActionTestResult,
+  ConfigObject,
+  ConfigValue,
+  AlertEscalationPolicy,
+  AlertEscalationPolicyResponse,
 } from '../types/alerts';
+import { NotificationPriority } from '../types/notifications';
+import { deriveAlertStatus } from '../utils/alertPolicies';
 
 // Define alert API endpoints as a constant
-const ALERT_ENDPOINTS = {
+export const ALERT_ENDPOINTS = {
   RULES: '/alerts/rules/',
   HISTORY: '/alerts/history/',
   STATS: '/alerts/stat/',
   DRIFT: '/portfolio/drift/',
+  EVENTS: '/alerts/events/',
+  TEST_ACTION: '/alerts/actions/test/',
   RULE_DETAIL: (id: string) => `/alerts/rules/${id}/`,
   HISTORY_DETAIL: (id: string) => `/alerts/history/${id}/`,
 };
 
+const toActionType = (value: string): ActionType =>
+  Object.values(ActionType).includes(value as ActionType) ? value as ActionType : ActionType.NOTIFICATION;
+
+/**
+ * Transform an escalation policy from the API response, dropping policies this client can't read
+ */
+const transformEscalationPolicy = (response?: AlertEscalationPolicyResponse | null): AlertEscalationPolicy | undefined => {
+  if (!response || !(response.after_hours > 0)) return undefined;
+  const priority = Object.values(NotificationPriority).includes(response.priority as NotificationPriority)
+    ? response.priority as NotificationPriority
+    : NotificationPriority.HIGH;
+  const addChannel = Object.values(ActionType).includes(response.add_channel as ActionType)
+    ? response.add_channel as ActionType
+    : undefined;
+  return { afterHours: response.after_hours, priority, addChannel };
+};
+
+/**
+ * Transform an escalation policy to the API format
+ */
+const toEscalationPayload = (policy: AlertEscalationPolicy | null): AlertEscalationPolicyResponse | null =>
+  policy
+    ? { after_hours: policy.afterHours, priority: policy.priority, add_channel: policy.addChannel ?? null }
+    : null;
+
+/**
+ * Transform an action from the API response to the frontend model
+ */
+const transformAlertAction = (response: AlertActionResponse): AlertAction => ({
+  id: String(response.id),
+  actionType: toActionType(response.action_type),
+  config: response.action_config || {},
+});
+
+/**
+ * Action config in the API format, without the read-only hasSigningSecret flag
+ */
+const toActionConfigPayload = (config: ConfigObject) => {
+  const actionConfig = { ...config };
+  delete actionConfig.hasSigningSecret;
+  return actionConfig;
+};
+
+/**
+ * Transform an action to the API format
+ * A signingSecret is only sent when it changed
+ */
+const toActionPayload = (action: AlertAction, order: number) => ({
+  id: action.id,
+  action_type: action.actionType,
+  action_config: toActionConfigPayload(action.config),
+  order,
+});
+
+/**
+ * Legacy single-action config for older backends
+ * A new webhook signingSecret is only sent once, with the actions list
+ */
+const toLegacyActionConfig = (config: ConfigObject) => {
+  const actionConfig = toActionConfigPayload(config);
+  delete actionConfig.signingSecret;
+  return actionConfig;
+};
+
+/**
+ * Parse action_results into per-action outcomes
+ * Accepts { results: [...] }, results keyed by action id, or a legacy single-action result
+ */
+const transformActionResults = (actionResults: ConfigObject | null | undefined): AlertActionResult[] => {
+  if (!actionResults || typeof actionResults !== 'object') return [];
+
+  const toResult = (raw: ConfigValue, actionId?: string): AlertActionResult | null => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+    return {
+      actionId: raw.action_id != null ? String(raw.action_id) : actionId,
+      actionType: String(raw.action_type ?? ''),
+      success: raw.success !== false && !raw.error,
+      message: raw.message != null ? String(raw.message) : raw.error != null ? String(raw.error) : undefined,
+      statusCode: typeof raw.status_code === 'number' ? raw.status_code : undefined,
+      executedAt: raw.executed_at != null ? String(raw.executed_at) : undefined,
+    };
+  };
+
+  if (Array.isArray(actionResults.results)) {
+    return (actionResults.results as ConfigValue[])
+      .map(raw => toResult(raw))
+      .filter((result): result is AlertActionResult => result !== null);
+  }
+
+  if ('success' in actionResults || 'action_type' in actionResults || 'error' in actionResults) {
+    const result = toResult(actionResults);
+    return result ? [result] : [];
+  }
+
+  return Object.entries(actionResults)
+    .map(([actionId, raw]) => toResult(raw, actionId))
+    .filter((result): result is AlertActionResult => result !== null);
+};
+
 /**
  * Transform API response to frontend model
  */
-const transformAlertRule = (response: AlertRuleResponse): AlertRule => {
-  // Validate condition type and ensure it's a valid enum value
+export const transformAlertRule = (response: AlertRuleResponse): AlertRule => {
+  // Validate condition type; unknown types are kept on the rule so the UI can refuse to edit them
+  // instead of overwriting the backend config with a CUSTOM one
   const validConditionTypes = Object.values(ConditionType);
-  const conditionType = validConditionTypes.includes(response.condition_type as ConditionType)
+  const isKnownConditionType = validConditionTypes.includes(response.condition_type as ConditionType);
+  const conditionType = isKnownConditionType
     ? response.condition_type as ConditionType
-    : ConditionType.CUSTOM; // Default to CUSTOM if invalid
+    : ConditionType.CUSTOM;
+  if (!isKnownConditionType && process.env.NODE_ENV === 'development') {
+    console.warn(`Unknown alert condition type "${response.condition_type}" on rule ${response.id}`);
+  }
 
   // Validate status and ensure it's a valid enum value
   const validStatusTypes = Object.values(AlertStatus);
-  const status = validStatusTypes.includes(response.status as AlertStatus)
+  const storedStatus = validStatusTypes.includes(response.status as AlertStatus)
     ? response.status as AlertStatus
     : response.is_active ? AlertStatus.ACTIVE : AlertStatus.PAUSED; // Default based on is_active
 
+  // Snoozed and escalated follow the policy timestamps, so an expired snooze reads as active again
+  const snoozedUntil = response.snoozed_until ?? undefined;
+  const escalatedAt = response.escalated_at ?? undefined;
+  const status = deriveAlertStatus(storedStatus, { snoozedUntil, escalatedAt });
+
   // Validate action type
-  const validActionTypes = Object.values(ActionType);
-  const actionType = validActionTypes.includes(response.action_type as ActionType)
-    ? response.action_type as ActionType
-    : ActionType.NOTIFICATION; // Default to NOTIFICATION if invalid
+  const actionType = toActionType(response.action_type); // Defaults to NOTIFICATION if invalid
+
+  // Older backends store a single action on the rule itself
+  const actions = Array.isArray(response.actions) && response.actions.length > 0
+    ? [...response.actions].sort((a, b) => a.order - b.order).map(transformAlertAction)
+    : [{ id: 'primary', actionType, config: response.action_config || {} }];
   
   // Validate frequency
   const validFrequencyTypes = Object.values(AlertFrequency);
@@ -68,6 +192,12 @@ const transformAlertRule = (response: AlertRuleResponse): AlertRule => {
     lastChecked: response.last_checked,
     portfolioId: response.portfolio,
     accountId: response.account,
+    unknownConditionType: isKnownConditionType ? undefined : response.condition_type,
+    actions,
+    snoozedUntil,
+    cooldownMinutes: response.cooldown_minutes || undefined,
+    escalation: transformEscalationPolicy(response.escalation_policy),
+    escalatedAt,
   };
 
 
@@ -77,7 +207,7 @@ const transformAlertRule = (response: AlertRuleResponse): AlertRule => {
 /**
  * Transform API response to frontend model for alert history
  */
-const transformAlertHistory = (response: AlertHistoryResponse): AlertHistory => ({
+export const transformAlertHistory = (response: AlertHistoryResponse): AlertHistory => ({
   id: response.id,
   alertRuleId: response.alert_rule,
   triggeredAt: response.triggered_at,
@@ -85,6 +215,7 @@ const transformAlertHistory = (response: AlertHistoryResponse): AlertHistory =>
   wasTriggered: response.was_triggered,
   contextData: response.context_data,
   actionResults: response.action_results,
+  actionOutcomes: transformActionResults(response.action_results),
 });
 
 /**
@@ -125,8 +256,14 @@ export const alertsApi = {
       condition_type: alertRule.conditionType,
       condition_config: alertRule.conditionConfig,
       action_type: alertRule.actionType,
-      action_config: alertRule.actionConfig,
-      portfolio: alertRule.portfolioId ? parseInt(alertRule.portfolioId) : 1, // Convert string to number, default to 1
+      action_config: toLegacyActionConfig(alertRule.actionConfig),
+      actions: alertRule.actions?.map(toActionPayload),
+      cooldown_minutes: alertRule.cooldownMinutes ?? null,
+      escalation_policy: toEscalationPayload(alertRule.escalation ?? null),
+      // Numeric IDs are sent as numbers, UUIDs as-is; default to 1
+      portfolio: alertRule.portfolioId
+        ? (/^\d+$/.test(alertRule.portfolioId) ? parseInt(alertRule.portfolioId) : alertRule.portfolioId)
+        : 1,
       account: alertRule.accountId,
     };
 
@@ -144,9 +281,6 @@ export const alertsApi = {
     // Transform frontend model to API expected format
     const apiAlertRule: Record<string, unknown> = {};
     
-    // Log what we're about to update
-    console.warn('🔄 Updating alert rule:', id, 'with data:', alertRule);
-    
     // Process each field that needs updating
     if (alertRule.name !== undefined) apiAlertRule.name = alertRule.name;
     
@@ -163,11 +297,13 @@ export const alertsApi = {
     if (alertRule.status !== undefined) {
       const validStatusTypes = Object.values(AlertStatus);
       if (validStatusTypes.includes(alertRule.status)) {
-        apiAlertRule.status = alertRule.status;
+        // Snoozed and escalated are derived from the policy fields; the backend stores those rules as active
+        const isDerivedStatus = alertRule.status === AlertStatus.SNOOZED || alertRule.status === AlertStatus.ESCALATED;
+        apiAlertRule.status = isDerivedStatus ? AlertStatus.ACTIVE : alertRule.status;
         
         // Ensure isActive matches the status for consistency if not explicitly set
         if (alertRule.isActive === undefined) {
-          apiAlertRule.is_active = alertRule.status === AlertStatus.ACTIVE;
+          apiAlertRule.is_active = apiAlertRule.status === AlertStatus.ACTIVE;
         }
       } else {
         console.error('❌ Invalid alert status:', alertRule.status);
@@ -179,12 +315,13 @@ export const alertsApi = {
     if (alertRule.conditionType !== undefined) apiAlertRule.condition_type = alertRule.conditionType;
     if (alertRule.conditionConfig !== undefined) apiAlertRule.condition_config = alertRule.conditionConfig;
     if (alertRule.actionType !== undefined) apiAlertRule.action_type = alertRule.actionType;
-    if (alertRule.actionConfig !== undefined) apiAlertRule.action_config = alertRule.actionConfig;
+    if (alertRule.actionConfig !== undefined) apiAlertRule.action_config = toLegacyActionConfig(alertRule.actionConfig);
+    if (alertRule.actions !== undefined) apiAlertRule.actions = alertRule.actions.map(toActionPayload);
+    if (alertRule.cooldownMinutes !== undefined) apiAlertRule.cooldown_minutes = alertRule.cooldownMinutes;
+    if (alertRule.escalation !== undefined) apiAlertRule.escalation_policy = toEscalationPayload(alertRule.escalation);
     if (alertRule.portfolioId !== undefined) apiAlertRule.portfolio = alertRule.portfolioId;
     if (alertRule.accountId !== undefined) apiAlertRule.account = alertRule.accountId;
 
-    console.warn('📤 Sending API request:', apiAlertRule);
-    
     try {
       const response = await fetchWithAuth<AlertRuleResponse>(ALERT_ENDPOINTS.RULE_DETAIL(id), {
         method: 'PATCH',
@@ -201,6 +338,24 @@ export const alertsApi = {
     }
   },
 
+  // Mute a rule's triggers until a time; the rule keeps being evaluated
+  snoozeAlertRule: async (id: string, until: string): Promise<AlertRule> => {
+    const response = await fetchWithAuth<AlertRuleResponse>(ALERT_ENDPOINTS.RULE_DETAIL(id), {
+      method: 'PATCH',
+      body: JSON.stringify({ snoozed_until: until }),
+    });
+    return transformAlertRule(response);
+  },
+
+  // End a snooze early
+  unsnoozeAlertRule: async (id: string): Promise<AlertRule> => {
+    const response = await fetchWithAuth<AlertRuleResponse>(ALERT_ENDPOINTS.RULE_DETAIL(id), {
+      method: 'PATCH',
+      body: JSON.stringify({ snoozed_until: null }),
+    });
+    return transformAlertRule(response);
+  },
+
   // Delete an alert rule
   deleteAlertRule: async (id: string): Promise<void> => {
     await fetchWithAuth(ALERT_ENDPOINTS.RULE_DETAIL(id), {
@@ -224,14 +379,33 @@ export const alertsApi = {
   },
 
   // Get current drift information for a portfolio
-  getPortfolioDrift: async (): Promise<PortfolioDrift> => {
-    // The backend endpoint uses the active user's portfolio
-    return await fetchWithAuth<PortfolioDrift>(ALERT_ENDPOINTS.DRIFT);
+  getPortfolioDrift: async (portfolioId?: string | null): Promise<PortfolioDrift> => {
+    // Without an ID the backend endpoint uses the active user's portfolio
+    return await fetchWithAuth<PortfolioDrift>(withPortfolioId(ALERT_ENDPOINTS.DRIFT, portfolioId));
+  },
+
+  // Run one action with a sample event without saving the rule
+  // Pass the rule id so the backend can use a stored webhook secret that isn't re-sent
+  testAlertAction: async (action: AlertAction, alertRuleId?: string): Promise<AlertActionTestResult> => {
+    const response = await fetchWithAuth<AlertActionTestResponse>(ALERT_ENDPOINTS.TEST_ACTION, {
+      method: 'POST',
+      body: JSON.stringify({
+        ...toActionPayload(action, 0),
+        alert_rule: alertRuleId,
+      }),
+    });
+    return {
+      success: response.success,
+      statusCode: response.status_code ?? undefined,
+      responseBody: response.response_body ?? undefined,
+      error: response.error ?? undefined,
+      durationMs: response.duration_ms ?? undefined,
+    };
   },
 
   // Mark an alert history item as resolved
   resolveAlertHistory: async (historyId: string): Promise<AlertHistory> => {
-    const response = await fetchWithAuth<AlertHistoryResponse>(`${ALERT_ENDPOINTS.HISTORY_DETAIL(historyId)}/resolve`, {
+    const response = await fetchWithAuth<AlertHistoryResponse>(`${ALERT_ENDPOINTS.HISTORY_DETAIL(historyId)}resolve/`, {
       method: 'POST',
     });
     return transformAlertHistory(response);
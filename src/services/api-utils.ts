@@ -6,6 +6,19 @@
 import { API_BASE_URL } from '@/config/api';
 import { getCookie } from '@/utils/cookies';
 
+/**
+ * Scope a portfolio endpoint to a specific portfolio
+ * Without an ID the backend falls back to the active user's default portfolio
+ * @param {string} endpoint - Endpoint URL (may already contain query parameters)
+ * @param {string | null} [portfolioId] - Optional portfolio ID
+ * @returns {string} The endpoint with a portfolio_id query parameter when an ID is given
+ */
+export function withPortfolioId(endpoint: string, portfolioId?: string | null): string {
+  if (!portfolioId) return endpoint;
+  const separator = endpoint.includes('?') ? '&' : '?';
+  return `${endpoint}${separator}portfolio_id=${encodeURIComponent(portfolioId)}`;
+}
+
 /**
  * Generic fetch wrapper with authentication and error handling
  * 
@@ -3,43 +3,193 @@
  * Handles all API requests to the backend
  */
 
-import { fetchWithAuth } from './api-utils';
+import { fetchWithAuth, withPortfolioId } from './api-utils';
 import { convertSnakeToCamelCase } from '../utils/caseConversions';
+import { normalizeDriftData } from '../utils/drift';
 import { AUTH_ENDPOINTS, PORTFOLIO_ENDPOINTS, RISK_ENDPOINTS } from '../config/api';
-import { PortfolioSummary, PortfolioSummaryResponse, PerformanceData, AllocationResponse, HoldingInput, DriftResponse } from '@/types/portfolio';
+import {
+  Portfolio,
+  PortfolioInput,
+  PortfolioResponse,
+  PortfolioSummary,
+  PortfolioSummaryResponse,
+  PerformanceData,
+  AllocationResponse,
+  Holding,
+  HoldingInput,
+  DriftResponse,
+  DriftHistoryPoint,
+  ToleranceBandType,
+  AllocationModel,
+  AllocationModelResponse,
+  GlidePath,
+  GlidePathResponse
+} from '@/types/portfolio';
 import { 
   AuthResponse,
   UserInfoResponse
 } from '../types/auth';
 import { MarketRegionSettings, TaxSettings } from '../store/preferencesSlice';
-import { TaxLossResponse, TaxEfficiencyResponse } from '@/types/tax';
+import { TaxLossResponse, TaxEfficiencyResponse, TaxLot } from '@/types/tax';
+
+/**
+ * Normalize a drift snapshot's items to percentage points like the live drift data
+ */
+const normalizeDriftHistoryPoint = (point: DriftHistoryPoint): DriftHistoryPoint => ({
+  date: point.date,
+  overall: point.overall ? normalizeDriftData(point.overall) : undefined,
+  asset_class: point.asset_class ? normalizeDriftData(point.asset_class) : undefined,
+  sector: point.sector ? normalizeDriftData(point.sector) : undefined,
+});
+
+/**
+ * Transform a portfolio API response to the frontend model
+ */
+const transformPortfolio = (response: PortfolioResponse): Portfolio => ({
+  id: String(response.id),
+  name: response.name,
+  description: response.description,
+  portfolioType: response.portfolio_type,
+  isDefault: response.is_default,
+  totalValue: response.total_value,
+  createdAt: response.created_at,
+  updatedAt: response.updated_at,
+});
+
+const transformAllocationModel = (response: AllocationModelResponse): AllocationModel => ({
+  id: String(response.id),
+  name: response.name,
+  description: response.description ?? undefined,
+  category: response.category,
+  targets: (response.targets ?? []).map(target => ({
+    name: target.name,
+    targetPercentage: Number(target.target_percentage),
+    ...(target.band_type && { band: { type: target.band_type, value: Number(target.band_value ?? 0) } }),
+  })),
+  createdAt: response.created_at,
+});
+
+const transformGlidePath = (response: GlidePathResponse): GlidePath => ({
+  enabled: Boolean(response.enabled),
+  category: response.category,
+  keyType: response.key_type,
+  birthDate: response.birth_date ?? undefined,
+  points: (response.points ?? []).map(point => ({
+    ...(point.date && { date: point.date }),
+    ...(point.age !== undefined && point.age !== null && { age: Number(point.age) }),
+    targets: point.targets ?? {},
+  })),
+});
 
 /**
  * Portfolio API methods
+ * Methods that take an optional portfolioId operate on the active user's default
+ * portfolio when it is omitted.
  */
 export const portfolioApi = {
+  /**
+   * Get all portfolios owned by the user
+   */
+  getPortfolios: () =>
+    fetchWithAuth<PortfolioResponse[]>(PORTFOLIO_ENDPOINTS.GET_ALL)
+      .then(response => (Array.isArray(response) ? response.map(transformPortfolio) : [])),
+
+  /**
+   * Get a single portfolio by ID
+   * @param portfolioId ID of the portfolio
+   */
+  getPortfolio: (portfolioId: string) =>
+    fetchWithAuth<PortfolioResponse>(PORTFOLIO_ENDPOINTS.GET_BY_ID(portfolioId))
+      .then(transformPortfolio),
+
+  /**
+   * Create a new, empty named portfolio (e.g. a separate IRA or household portfolio)
+   * @param input Portfolio name, description and type
+   */
+  addPortfolio: (input: PortfolioInput) =>
+    fetchWithAuth<PortfolioResponse>(PORTFOLIO_ENDPOINTS.CREATE, {
+      method: 'POST',
+      body: JSON.stringify({
+        name: input.name,
+        description: input.description,
+        portfolio_type: input.portfolioType,
+      }),
+    }).then(transformPortfolio),
+
+  /**
+   * Update a portfolio's name, description or type
+   * @param portfolioId ID of the portfolio to update
+   * @param input Fields to update
+   */
+  updatePortfolio: (portfolioId: string, input: Partial<PortfolioInput>) => {
+    const data: Record<string, unknown> = {};
+    if (input.name !== undefined) data.name = input.name;
+    if (input.description !== undefined) data.description = input.description;
+    if (input.portfolioType !== undefined) data.portfolio_type = input.portfolioType;
+
+    return fetchWithAuth<PortfolioResponse>(PORTFOLIO_ENDPOINTS.UPDATE(portfolioId), {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }).then(transformPortfolio);
+  },
+
+  /**
+   * Delete a portfolio and its holdings
+   * @param portfolioId ID of the portfolio to delete
+   */
+  deletePortfolio: (portfolioId: string) =>
+    fetchWithAuth<void>(PORTFOLIO_ENDPOINTS.DELETE(portfolioId), {
+      method: 'DELETE',
+    }),
+
   /**
    * Get user portfolio summary
    * Fetches the portfolio summary and transforms snake_case to camelCase
+   * @param portfolioId Optional ID of the portfolio to summarize
    */
-  getPortfolioSummary: () => 
-    fetchWithAuth<PortfolioSummaryResponse>(PORTFOLIO_ENDPOINTS.SUMMARY)
-      .then(response => convertSnakeToCamelCase<PortfolioSummary>(response)),
+  getPortfolioSummary: (portfolioId?: string | null) => 
+    fetchWithAuth<PortfolioSummaryResponse>(withPortfolioId(PORTFOLIO_ENDPOINTS.SUMMARY, portfolioId))
+      .then(response => {
+        const summary = convertSnakeToCamelCase<PortfolioSummary>(response);
+        if (response.portfolio_id !== undefined && response.portfolio_id !== null) {
+          summary.portfolioId = String(response.portfolio_id);
+        }
+        return summary;
+      }),
   
+  /**
+   * Get the holdings of a portfolio, including current prices where available
+   * @param portfolioId Optional ID of the portfolio
+   */
+  getHoldings: (portfolioId?: string | null) =>
+    fetchWithAuth<unknown[]>(withPortfolioId(PORTFOLIO_ENDPOINTS.HOLDINGS, portfolioId))
+      .then(response => convertSnakeToCamelCase<Holding[]>(Array.isArray(response) ? response : [])),
+
   /**
    * Get portfolio performance over time
    * @param period Time period for performance data ('1D', '1W', '1M', '1Y', '5Y', or 'all')
+   * @param portfolioId Optional ID of the portfolio
    */
-  getPerformance: (period: '1D' | '1W' | '1M' | '1Y' | '5Y' | 'all' = '1M') => 
-    fetchWithAuth<any[]>(`${PORTFOLIO_ENDPOINTS.PERFORMANCE}?period=${period}`)
+  getPerformance: (period: '1D' | '1W' | '1M' | '1Y' | '5Y' | 'all' = '1M', portfolioId?: string | null) => 
+    fetchWithAuth<any[]>(withPortfolioId(`${PORTFOLIO_ENDPOINTS.PERFORMANCE}?period=${period}`, portfolioId))
+      .then(response => convertSnakeToCamelCase<PerformanceData[]>(response)),
+
+  /**
+   * Get benchmark performance over the same periods as getPerformance
+   * @param benchmark Benchmark name from preferences (e.g. 'S&P 500')
+   * @param period Time period for performance data
+   */
+  getBenchmarkPerformance: (benchmark: string, period: '1D' | '1W' | '1M' | '1Y' | '5Y' | 'all' = '1M') =>
+    fetchWithAuth<unknown[]>(`${PORTFOLIO_ENDPOINTS.BENCHMARK_PERFORMANCE}?benchmark=${encodeURIComponent(benchmark)}&period=${period}`)
       .then(response => convertSnakeToCamelCase<PerformanceData[]>(response)),
   
   /**
    * Get asset allocation
+   * @param portfolioId Optional ID of the portfolio
    * @returns Promise with asset and sector allocation data
    */
-  getAssetAllocation: () => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.ALLOCATION)
+  getAssetAllocation: (portfolioId?: string | null) => 
+    fetchWithAuth<any>(withPortfolioId(PORTFOLIO_ENDPOINTS.ALLOCATION, portfolioId))
       .then(response => {
         // Convert snake_case to camelCase
         const convertedData = convertSnakeToCamelCase<AllocationResponse>(response);
@@ -67,78 +217,184 @@ export const portfolioApi = {
   /**
    * Get tax loss harvesting opportunities
    * Fetches tax-optimized recommendations for portfolio holdings
+   * @param portfolioId Optional ID of the portfolio
    */
-  getTaxLossHarvestingOpportunities: () => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.TAX_LOSS_HARVESTING)
+  getTaxLossHarvestingOpportunities: (portfolioId?: string | null) => 
+    fetchWithAuth<any>(withPortfolioId(PORTFOLIO_ENDPOINTS.TAX_LOSS_HARVESTING, portfolioId))
       .then(response => convertSnakeToCamelCase<TaxLossResponse>(response)),
       
   /**
    * Get tax efficiency analysis
    * Analyzes tax efficiency of asset placement in taxable vs tax-advantaged accounts
+   * @param portfolioId Optional ID of the portfolio
    */
-  getTaxEfficiencyAnalysis: () => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.TAX_EFFICIENCY)
+  getTaxEfficiencyAnalysis: (portfolioId?: string | null) => 
+    fetchWithAuth<any>(withPortfolioId(PORTFOLIO_ENDPOINTS.TAX_EFFICIENCY, portfolioId))
       .then(response => convertSnakeToCamelCase<TaxEfficiencyResponse>(response)),
       
+  /**
+   * Get open tax lots
+   * Used to pick which lots to sell when a rebalance requires a sale
+   * @param portfolioId Optional ID of the portfolio
+   */
+  getTaxLots: (portfolioId?: string | null) =>
+    fetchWithAuth<unknown[]>(withPortfolioId(PORTFOLIO_ENDPOINTS.TAX_LOTS, portfolioId))
+      .then(response => convertSnakeToCamelCase<TaxLot[]>(Array.isArray(response) ? response : [])),
+
   /**
    * Get portfolio drift analysis
    * Compares current allocations to target allocations to identify portfolio drift
-   * @param portfolioId ID of the portfolio to analyze
+   * @param portfolioId Optional ID of the portfolio to analyze
    */
-  getPortfolioDrift: () => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.DRIFT)
+  getPortfolioDrift: (portfolioId?: string | null) => 
+    fetchWithAuth<any>(withPortfolioId(PORTFOLIO_ENDPOINTS.DRIFT, portfolioId))
       .then(response => convertSnakeToCamelCase<DriftResponse>(response)),
+
+  /**
+   * Get daily drift snapshots, oldest first
+   * Snapshots are written by a scheduled backend job; days it didn't run are missing.
+   * Items are normalized to percentage points like the live drift data
+   * @param start First date to include (YYYY-MM-DD)
+   * @param portfolioId Optional ID of the portfolio
+   */
+  getDriftHistory: (start: string, portfolioId?: string | null) =>
+    fetchWithAuth<DriftHistoryPoint[]>(withPortfolioId(`${PORTFOLIO_ENDPOINTS.DRIFT_HISTORY}?start=${start}`, portfolioId))
+      .then(response => (Array.isArray(response) ? response : [])
+        .map(normalizeDriftHistoryPoint)
+        .sort((a, b) => a.date.localeCompare(b.date))),
+
       
   /**
    * Get available asset classes for target allocations
    * Includes current allocation percentages if available
+   * @param portfolioId Optional ID of the portfolio
    */
-  getAssetClasses: () => 
-    fetchWithAuth<any[]>(PORTFOLIO_ENDPOINTS.ASSET_CLASSES)
+  getAssetClasses: (portfolioId?: string | null) => 
+    fetchWithAuth<any[]>(withPortfolioId(PORTFOLIO_ENDPOINTS.ASSET_CLASSES, portfolioId))
       .then(response => convertSnakeToCamelCase<any[]>(response)),
       
   /**
    * Get available sectors for target allocations
    * Includes current allocation percentages if available
+   * @param portfolioId Optional ID of the portfolio
    */
-  getSectors: () => 
-    fetchWithAuth<any[]>(PORTFOLIO_ENDPOINTS.SECTORS)
+  getSectors: (portfolioId?: string | null) => 
+    fetchWithAuth<any[]>(withPortfolioId(PORTFOLIO_ENDPOINTS.SECTORS, portfolioId))
       .then(response => convertSnakeToCamelCase<any[]>(response)),
       
   /**
    * Save target allocations for the portfolio
-   * @param allocations Array of asset allocations with target percentages
+   * @param allocations Array of asset allocations with target percentages and optional tolerance bands
+   * @param portfolioId Optional ID of the portfolio
    */
-  saveTargetAllocations: (allocations: { asset_id: string; target_percentage: number }[]) => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.TARGET_ALLOCATIONS, {
+  saveTargetAllocations: (
+    allocations: { asset_id: string; target_percentage: number; band_type?: ToleranceBandType; band_value?: number }[],
+    portfolioId?: string | null
+  ) =>
+    fetchWithAuth<any>(withPortfolioId(PORTFOLIO_ENDPOINTS.TARGET_ALLOCATIONS, portfolioId), {
       method: 'POST',
       body: JSON.stringify(allocations),
     }),
       
   /**
    * Save sector target allocations for the portfolio
-   * @param allocations Array of sector allocations with target percentages
+   * @param allocations Array of sector allocations with target percentages and optional tolerance bands
+   * @param portfolioId Optional ID of the portfolio
    */
-  saveSectorTargetAllocations: (allocations: { asset_id: string; target_percentage: number }[]) => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.SECTOR_TARGET_ALLOCATIONS, {
+  saveSectorTargetAllocations: (
+    allocations: { asset_id: string; target_percentage: number; band_type?: ToleranceBandType; band_value?: number }[],
+    portfolioId?: string | null
+  ) =>
+    fetchWithAuth<any>(withPortfolioId(PORTFOLIO_ENDPOINTS.SECTOR_TARGET_ALLOCATIONS, portfolioId), {
       method: 'POST',
       body: JSON.stringify(allocations),
     }),
+
+  /**
+   * Get the allocation models the user has saved
+   * Models belong to the user, not a portfolio, so one model can be applied to several portfolios
+   */
+  getAllocationModels: () =>
+    fetchWithAuth<AllocationModelResponse[]>(PORTFOLIO_ENDPOINTS.ALLOCATION_MODELS)
+      .then(response => (Array.isArray(response) ? response : []).map(transformAllocationModel)),
+
+  /**
+   * Save a named allocation model
+   * @param model Model name, category and targets
+   */
+  saveAllocationModel: (model: Omit<AllocationModel, 'id' | 'createdAt'>) =>
+    fetchWithAuth<AllocationModelResponse>(PORTFOLIO_ENDPOINTS.ALLOCATION_MODELS, {
+      method: 'POST',
+      body: JSON.stringify({
+        name: model.name,
+        description: model.description ?? null,
+        category: model.category,
+        targets: model.targets.map(target => ({
+          name: target.name,
+          target_percentage: target.targetPercentage,
+          band_type: target.band?.type ?? null,
+          band_value: target.band?.value ?? null,
+        })),
+      }),
+    }).then(transformAllocationModel),
+
+  /**
+   * Delete a saved allocation model
+   * @param modelId ID of the model to delete
+   */
+  deleteAllocationModel: (modelId: string) =>
+    fetchWithAuth<void>(PORTFOLIO_ENDPOINTS.ALLOCATION_MODEL_DETAIL(modelId), {
+      method: 'DELETE',
+    }),
+
+  /**
+   * Get the glide path for the portfolio
+   * Resolves to null when the portfolio has no glide path
+   * @param portfolioId Optional ID of the portfolio
+   */
+  getGlidePath: (portfolioId?: string | null) =>
+    fetchWithAuth<GlidePathResponse | null>(withPortfolioId(PORTFOLIO_ENDPOINTS.GLIDE_PATH, portfolioId))
+      .then(response => (response && Array.isArray(response.points) ? transformGlidePath(response) : null)),
+
+  /**
+   * Replace the glide path for the portfolio
+   * @param glidePath Path definition; points are stored with sleeve names as keys
+   * @param portfolioId Optional ID of the portfolio
+   */
+  saveGlidePath: (glidePath: GlidePath, portfolioId?: string | null) =>
+    fetchWithAuth<GlidePathResponse>(withPortfolioId(PORTFOLIO_ENDPOINTS.GLIDE_PATH, portfolioId), {
+      method: 'PUT',
+      body: JSON.stringify({
+        enabled: glidePath.enabled,
+        category: glidePath.category,
+        key_type: glidePath.keyType,
+        birth_date: glidePath.birthDate ?? null,
+        points: glidePath.points.map(point => ({
+          date: point.date ?? null,
+          age: point.age ?? null,
+          targets: point.targets,
+        })),
+      }),
+    }).then(transformGlidePath),
       
   /**
    * Get the active portfolio ID
-   * Uses the summary endpoint since active endpoint was deprecated
+   * Uses the ID from the summary when the backend provides it, otherwise the
+   * user's default portfolio (or first portfolio) from the portfolio list
    */
-  getActivePortfolioId: () => 
-    fetchWithAuth<any>(PORTFOLIO_ENDPOINTS.SUMMARY)
-      .then(response => {
-        // The summary endpoint doesn't directly return an ID field
-        // So we extract from the response structure if available
-        if (!response.portfolio_id) {
-          throw new Error('Portfolio ID not found in response');
-        }
-        return response.portfolio_id;
-      }),
+  getActivePortfolioId: async (): Promise<string> => {
+    const summary = await fetchWithAuth<PortfolioSummaryResponse>(PORTFOLIO_ENDPOINTS.SUMMARY);
+    if (summary.portfolio_id !== undefined && summary.portfolio_id !== null) {
+      return String(summary.portfolio_id);
+    }
+
+    const portfolios = await portfolioApi.getPortfolios();
+    const active = portfolios.find(p => p.isDefault) ?? portfolios[0];
+    if (!active) {
+      throw new Error('Portfolio ID not found in response');
+    }
+    return active.id;
+  },
 };
 
 
@@ -394,6 +650,68 @@ export const chatApi = {
       .then(response => response.recommendations),
 };
 
+/**
+ * Optimizer constraints in the backend's format. Weights are decimals (0-1).
+ */
+export interface OptimizationConstraintsRequest {
+  /** [min, max] weight per symbol */
+  weight_bounds?: Record<string, [number, number]>;
+  /** Maximum combined weight per asset class name */
+  asset_class_caps?: Record<string, number>;
+  /** Maximum combined weight per sector name */
+  sector_caps?: Record<string, number>;
+  /** Asset class / sector of each symbol, needed to apply the group caps */
+  asset_class_map?: Record<string, string>;
+  sector_map?: Record<string, string>;
+  /** Maximum number of symbols with a non-zero weight */
+  max_assets?: number;
+  /** Maximum one-way turnover against current_weights */
+  max_turnover?: number;
+}
+
+/**
+ * Request body for the portfolio optimizer
+ */
+export interface OptimizePortfolioRequest {
+  /** Optimization universe: the portfolio's holdings plus any user-added candidates */
+  symbols: string[];
+  /** Current portfolio weights by symbol (decimals summing to 1) */
+  current_weights?: Record<string, number>;
+  lookback_days: number;
+  objective: string;
+  /** Annual risk-free rate as a decimal, when the preference is a numeric rate */
+  risk_free_rate?: number;
+  /** Risk-free rate series name (e.g. 'US 3 Month Treasury Bill') resolved by the backend */
+  risk_free_rate_series?: string;
+  portfolio_id?: string | null;
+  frontier_steps?: number;
+  constraints?: OptimizationConstraintsRequest;
+}
+
+export interface HistoricalPricesRequest {
+  symbols: string[];
+  /** ISO dates (YYYY-MM-DD) */
+  start_date: string;
+  end_date: string;
+  /** Benchmark name from preferences (e.g. 'S&P 500'), resolved by the backend */
+  benchmark?: string;
+  /** Risk-free series name; the backend returns its average annual rate over the window */
+  risk_free_rate_series?: string;
+}
+
+/**
+ * Daily closes aligned on a shared date index (camelCased)
+ */
+export interface HistoricalPrices {
+  dates: string[];
+  prices: Record<string, Array<number | null>>;
+  benchmark?: {
+    name: string;
+    prices: Array<number | null>;
+  };
+  riskFreeRate?: number;
+}
+
 /**
  * Risk analysis / optimization API methods
  */
@@ -401,27 +719,46 @@ export const riskApi = {
   /**
    * Run portfolio optimization on the backend
    * Delegates all heavy calculations to the Django service.
-   * @param data Data required for portfolio optimization (strategy, parameters, holdings, etc.)
-   */
-  optimizePortfolio: (data: {
-    strategy?: string;
-    parameters?: Record<string, unknown>;
-    holdings?: unknown[];
-    frontier_steps?: number;
-  }) =>
-    fetchWithAuth<any>(RISK_ENDPOINTS.OPTIMIZE, {
+   * @param data Optimization universe, objective and market assumptions
+   */
+  optimizePortfolio: (data: OptimizePortfolioRequest) => {
+    if (data.symbols.length === 0) {
+      throw new Error('At least one symbol is required for optimization');
+    }
+    return fetchWithAuth<any>(RISK_ENDPOINTS.OPTIMIZE, {
       method: 'POST',
       body: JSON.stringify({
-        // Always optimise this predefined set of holdings
         ...data,
-        symbols: ['NFLX', 'AAPL', 'NVDA'],
         // Request additional analytics now supported by the backend
         include_mu: true,
         include_covariance: true,
         include_frontier: true,
-        frontier_steps: data?.frontier_steps,
       }),
-    }).then(response => convertSnakeToCamelCase<any>(response)),
+    }).then(response => convertSnakeToCamelCase<any>(response));
+  },
+
+  /**
+   * Get historical prices for backtesting
+   * @param data Symbols, date window and optional benchmark / risk-free series
+   */
+  getHistoricalPrices: (data: HistoricalPricesRequest) =>
+    fetchWithAuth<unknown>(RISK_ENDPOINTS.HISTORICAL_PRICES, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }).then(response => {
+      // Symbol keys inside `prices` must keep their case, so only convert the top level
+      const { prices, ...rest } = response as { prices: HistoricalPrices['prices'] };
+      return { ...convertSnakeToCamelCase<Omit<HistoricalPrices, 'prices'>>(rest), prices };
+    }),
+
+  /**
+   * Get the latest annual inflation rate for a series
+   * @param series Inflation series name from the market region preferences
+   * @returns Annual rate as a decimal
+   */
+  getInflationRate: (series: string) =>
+    fetchWithAuth<{ annual_rate: number }>(`${RISK_ENDPOINTS.INFLATION}?series=${encodeURIComponent(series)}`)
+      .then(response => Number(response.annual_rate)),
 };
 
 // End of API definitions
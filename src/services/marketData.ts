@@ -1,3 +1,16 @@
+/**
+ * Market data streaming service
+ * Maintains a single streaming connection for live quotes shared by every consumer.
+ *
+ * Transports are tried in order: WebSocket, then server-sent events, then long-polling.
+ * Symbols are reference counted so a symbol stays subscribed until its last consumer
+ * releases it, and quotes are batched before being delivered to callbacks.
+ */
+
+import { MARKET_DATA_ENDPOINTS } from '@/config/api';
+import { fetchWithAuth } from './api-utils';
+import { getCookie } from '@/utils/cookies';
+
 export type MarketData = {
   [symbol: string]: {
     symbol: string;
@@ -13,15 +26,94 @@ export type MarketData = {
   };
 };
 
+export type Quote = MarketData[string];
+
+export type MarketDataTransport = 'websocket' | 'sse' | 'long-poll';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * Endpoint and timing options for the market data service.
+ * Defaults come from MARKET_DATA_ENDPOINTS; override them to point at a local mock quote server.
+ */
+export interface MarketDataServiceOptions {
+  websocketUrl: string;
+  streamUrl: string;
+  quotesUrl: string;
+  /** Transports to try, in order of preference */
+  transports: MarketDataTransport[];
+  /** Interval at which buffered quotes are flushed to callbacks */
+  batchIntervalMs: number;
+  /** Interval at which the client pings the WebSocket server */
+  heartbeatIntervalMs: number;
+  /** Connection is considered dead if nothing is received for this long */
+  heartbeatTimeoutMs: number;
+  /** Base and maximum delay for exponential reconnect backoff */
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+  /** Failed attempts on a transport that never connected before falling back to the next one */
+  maxAttemptsPerTransport: number;
+  /** How long the server may hold a long-poll request open */
+  longPollWaitSeconds: number;
+}
+
+/**
+ * Messages sent by the quote server (WebSocket frames, SSE data and long-poll responses)
+ */
+type ServerMessage =
+  | { type: 'quote'; data: Quote }
+  | { type: 'quotes'; data: Quote[]; cursor?: string }
+  | { type: 'heartbeat' | 'pong' }
+  | { type: 'error'; message?: string };
+
 type MarketDataCallback = (data: MarketData) => void;
+type ConnectionCallback = (status: ConnectionStatus, transport: MarketDataTransport | null) => void;
+
+const DEFAULT_OPTIONS: MarketDataServiceOptions = {
+  websocketUrl: MARKET_DATA_ENDPOINTS.WEBSOCKET,
+  streamUrl: MARKET_DATA_ENDPOINTS.STREAM,
+  quotesUrl: MARKET_DATA_ENDPOINTS.QUOTES,
+  transports: ['websocket', 'sse', 'long-poll'],
+  batchIntervalMs: 250,
+  heartbeatIntervalMs: 15000,
+  heartbeatTimeoutMs: 45000,
+  reconnectBaseDelayMs: 1000,
+  reconnectMaxDelayMs: 30000,
+  maxAttemptsPerTransport: 3,
+  longPollWaitSeconds: 25,
+};
 
 export class MarketDataService {
   private static instance: MarketDataService;
+  private options: MarketDataServiceOptions;
   private callbacks: MarketDataCallback[] = [];
-  private isConnected = false;
+  private connectionCallbacks: ConnectionCallback[] = [];
 
-  private constructor() {
-    // WebSockets removed: no initialization needed
+  // Reference counts per symbol - a symbol is streamed while its count is above zero
+  private symbolRefCounts: Map<string, number> = new Map();
+
+  // Connection state
+  private status: ConnectionStatus = 'idle';
+  private transportIndex = 0;
+  private failedAttempts = 0;
+  private reconnectAttempt = 0;
+  private hasConnectedOnTransport = false;
+  // Incremented on every (re)connect so stale transport events can be ignored
+  private connectionGeneration = 0;
+
+  private socket: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
+  private pollCursor: string | null = null;
+
+  // Timers
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimeoutTimer: ReturnType<typeof setTimeout> | null = null;
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingQuotes: MarketData = {};
+
+  private constructor(options: Partial<MarketDataServiceOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   static getInstance(): MarketDataService {
@@ -31,12 +123,90 @@ export class MarketDataService {
     return MarketDataService.instance;
   }
 
-  subscribeToSymbols() {
-    // No-op without WebSockets
+  /**
+   * Override endpoints or timings (e.g. to test against a local mock quote server).
+   * An open connection is re-established with the new settings.
+   */
+  configure(options: Partial<MarketDataServiceOptions>) {
+    this.options = { ...this.options, ...options };
+    if (this.status !== 'idle') {
+      this.closeTransport();
+      this.transportIndex = 0;
+      this.failedAttempts = 0;
+      this.connect();
+    }
+  }
+
+  /**
+   * Whether a transport is currently open and delivering quotes
+   */
+  get isConnected(): boolean {
+    return this.status === 'connected';
+  }
+
+  get connectionStatus(): ConnectionStatus {
+    return this.status;
   }
 
-  unsubscribeFromSymbols() {
-    // No-op without WebSockets
+  get activeTransport(): MarketDataTransport | null {
+    return this.status === 'idle' ? null : this.options.transports[this.transportIndex] ?? null;
+  }
+
+  /**
+   * Symbols that currently have at least one subscriber
+   */
+  getSubscribedSymbols(): string[] {
+    return Array.from(this.symbolRefCounts.keys());
+  }
+
+  /**
+   * Add a reference to each symbol, opening the connection if needed
+   * @param symbols Ticker symbols to stream
+   */
+  subscribeToSymbols(symbols: string[]) {
+    const added: string[] = [];
+    normalizeSymbols(symbols).forEach(symbol => {
+      const count = this.symbolRefCounts.get(symbol) ?? 0;
+      this.symbolRefCounts.set(symbol, count + 1);
+      if (count === 0) {
+        added.push(symbol);
+      }
+    });
+
+    if (added.length === 0) return;
+
+    if (this.status === 'idle') {
+      this.connect();
+    } else {
+      this.onSymbolsChanged('subscribe', added);
+    }
+  }
+
+  /**
+   * Release a reference to each symbol, closing the connection once nothing is subscribed
+   * @param symbols Ticker symbols previously passed to subscribeToSymbols
+   */
+  unsubscribeFromSymbols(symbols: string[]) {
+    const removed: string[] = [];
+    normalizeSymbols(symbols).forEach(symbol => {
+      const count = this.symbolRefCounts.get(symbol);
+      if (count === undefined) return;
+      if (count <= 1) {
+        this.symbolRefCounts.delete(symbol);
+        delete this.pendingQuotes[symbol];
+        removed.push(symbol);
+      } else {
+        this.symbolRefCounts.set(symbol, count - 1);
+      }
+    });
+
+    if (removed.length === 0) return;
+
+    if (this.symbolRefCounts.size === 0) {
+      this.stop();
+    } else {
+      this.onSymbolsChanged('unsubscribe', removed);
+    }
   }
 
   onMarketDataUpdate(callback: MarketDataCallback) {
@@ -46,11 +216,411 @@ export class MarketDataService {
     };
   }
 
+  /**
+   * Listen for connection status changes
+   * The callback is invoked immediately with the current status
+   */
+  onConnectionChange(callback: ConnectionCallback) {
+    this.connectionCallbacks.push(callback);
+    callback(this.status, this.activeTransport);
+    return () => {
+      this.connectionCallbacks = this.connectionCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * Close the connection and drop all subscriptions and callbacks
+   */
   disconnect() {
+    this.symbolRefCounts.clear();
+    this.stop();
     this.callbacks = [];
   }
+
+  // ---------------------------------------------------------------------------
+  // Connection lifecycle
+  // ---------------------------------------------------------------------------
+
+  private connect() {
+    this.clearReconnectTimer();
+    if (this.symbolRefCounts.size === 0) return;
+
+    const transport = this.options.transports[this.transportIndex];
+    if (!transport) return;
+
+    this.connectionGeneration += 1;
+    this.hasConnectedOnTransport = false;
+    // Reopening a healthy SSE/long-poll connection for new symbols keeps the connected status
+    if (this.status !== 'connected') {
+      this.setStatus(this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+    }
+
+    switch (transport) {
+      case 'websocket':
+        this.openWebSocket(this.connectionGeneration);
+        break;
+      case 'sse':
+        this.openEventSource(this.connectionGeneration);
+        break;
+      case 'long-poll':
+        this.runLongPoll(this.connectionGeneration);
+        break;
+    }
+  }
+
+  private stop() {
+    this.clearReconnectTimer();
+    this.closeTransport();
+    this.clearBatchTimer();
+    this.pendingQuotes = {};
+    this.pollCursor = null;
+    this.transportIndex = 0;
+    this.failedAttempts = 0;
+    this.reconnectAttempt = 0;
+    this.setStatus('idle');
+  }
+
+  private closeTransport() {
+    // Invalidate callbacks from the transport being closed
+    this.connectionGeneration += 1;
+    this.stopHeartbeat();
+
+    if (this.socket) {
+      this.socket.onopen = null;
+      this.socket.onmessage = null;
+      this.socket.onerror = null;
+      this.socket.onclose = null;
+      if (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING) {
+        this.socket.close(1000, 'Client closed connection');
+      }
+      this.socket = null;
+    }
+
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+  }
+
+  private handleOpen(generation: number) {
+    if (generation !== this.connectionGeneration) return;
+    this.hasConnectedOnTransport = true;
+    this.failedAttempts = 0;
+    this.reconnectAttempt = 0;
+    this.setStatus('connected');
+  }
+
+  /**
+   * Handle a dropped or failed connection by scheduling a reconnect with backoff.
+   * A transport that fails repeatedly without ever connecting is abandoned for the next one.
+   */
+  private handleConnectionLost(generation: number, reason: string) {
+    if (generation !== this.connectionGeneration) return;
+
+    console.warn(`⚠️ Market data connection lost (${this.activeTransport}): ${reason}`);
+    this.closeTransport();
+
+    if (this.symbolRefCounts.size === 0) {
+      this.stop();
+      return;
+    }
+
+    if (!this.hasConnectedOnTransport) {
+      this.failedAttempts += 1;
+      const hasFallback = this.transportIndex < this.options.transports.length - 1;
+      if (this.failedAttempts >= this.options.maxAttemptsPerTransport && hasFallback) {
+        this.transportIndex += 1;
+        this.failedAttempts = 0;
+        this.reconnectAttempt = 0;
+        console.warn(`🔁 Falling back to ${this.options.transports[this.transportIndex]} transport`);
+        this.connect();
+        return;
+      }
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.clearReconnectTimer();
+    this.setStatus('reconnecting');
+
+    const { reconnectBaseDelayMs, reconnectMaxDelayMs } = this.options;
+    const exponential = Math.min(reconnectMaxDelayMs, reconnectBaseDelayMs * 2 ** this.reconnectAttempt);
+    // Full jitter avoids every client reconnecting at the same instant after an outage
+    const delay = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    this.reconnectAttempt += 1;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    const transport = this.activeTransport;
+    this.connectionCallbacks.forEach(cb => cb(status, transport));
+  }
+
+  /**
+   * Push subscription changes to the open transport
+   */
+  private onSymbolsChanged(action: 'subscribe' | 'unsubscribe', symbols: string[]) {
+    const transport = this.activeTransport;
+
+    if (transport === 'websocket') {
+      this.sendSocketMessage({ action, symbols });
+    } else if (transport === 'sse' || transport === 'long-poll') {
+      // Both fallbacks carry the symbol list in the URL, so reopen with the new set
+      this.closeTransport();
+      this.connect();
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Heartbeat
+  // ---------------------------------------------------------------------------
+
+  private startHeartbeat(generation: number, sendPing: boolean) {
+    this.stopHeartbeat();
+    this.resetHeartbeatTimeout(generation);
+
+    if (sendPing) {
+      this.heartbeatTimer = setInterval(() => {
+        this.sendSocketMessage({ action: 'ping' });
+      }, this.options.heartbeatIntervalMs);
+    }
+  }
+
+  /**
+   * Any message from the server proves the connection is alive
+   */
+  private resetHeartbeatTimeout(generation: number) {
+    if (this.heartbeatTimeoutTimer) {
+      clearTimeout(this.heartbeatTimeoutTimer);
+    }
+    this.heartbeatTimeoutTimer = setTimeout(() => {
+      this.handleConnectionLost(generation, 'heartbeat timeout');
+    }, this.options.heartbeatTimeoutMs);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.heartbeatTimeoutTimer) {
+      clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transports
+  // ---------------------------------------------------------------------------
+
+  private openWebSocket(generation: number) {
+    if (typeof WebSocket === 'undefined') {
+      this.handleConnectionLost(generation, 'WebSocket is not supported');
+      return;
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(withAuthToken(this.options.websocketUrl));
+    } catch (error) {
+      this.handleConnectionLost(generation, error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.handleOpen(generation);
+      this.sendSocketMessage({ action: 'subscribe', symbols: this.getSubscribedSymbols() });
+      this.startHeartbeat(generation, true);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (generation !== this.connectionGeneration) return;
+      this.resetHeartbeatTimeout(generation);
+      this.handleServerMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      // onclose always follows onerror and carries the close code
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      this.handleConnectionLost(generation, `socket closed (${event.code})`);
+    };
+  }
+
+  private sendSocketMessage(message: Record<string, unknown>) {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private openEventSource(generation: number) {
+    if (typeof EventSource === 'undefined') {
+      this.handleConnectionLost(generation, 'EventSource is not supported');
+      return;
+    }
+
+    const url = withAuthToken(
+      `${this.options.streamUrl}?symbols=${encodeURIComponent(this.getSubscribedSymbols().join(','))}`
+    );
+    const eventSource = new EventSource(url, { withCredentials: true });
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      this.handleOpen(generation);
+      // The server sends heartbeat events, the client cannot ping over SSE
+      this.startHeartbeat(generation, false);
+    };
+
+    eventSource.onmessage = (event: MessageEvent) => {
+      if (generation !== this.connectionGeneration) return;
+      this.resetHeartbeatTimeout(generation);
+      this.handleServerMessage(event.data);
+    };
+
+    eventSource.onerror = () => {
+      // EventSource retries on its own without backoff, so take over reconnection
+      this.handleConnectionLost(generation, 'event stream error');
+    };
+  }
+
+  /**
+   * Long-poll loop: each request is held open by the server until quotes are available
+   * or the wait time elapses, then immediately re-issued.
+   */
+  private async runLongPoll(generation: number) {
+    const { quotesUrl, longPollWaitSeconds } = this.options;
+
+    while (generation === this.connectionGeneration && this.symbolRefCounts.size > 0) {
+      const params = new URLSearchParams({
+        symbols: this.getSubscribedSymbols().join(','),
+        wait: String(longPollWaitSeconds),
+      });
+      if (this.pollCursor) {
+        params.set('since', this.pollCursor);
+      }
+
+      try {
+        const response = await fetchWithAuth<{ quotes?: Quote[]; cursor?: string }>(
+          `${quotesUrl}?${params.toString()}`,
+          {},
+          (longPollWaitSeconds + 10) * 1000
+        );
+        if (generation !== this.connectionGeneration) return;
+
+        if (this.status !== 'connected') {
+          this.handleOpen(generation);
+        }
+        if (response.cursor) {
+          this.pollCursor = response.cursor;
+        }
+        this.enqueueQuotes(response.quotes ?? []);
+      } catch (error) {
+        this.handleConnectionLost(generation, error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Message handling and batching
+  // ---------------------------------------------------------------------------
+
+  private handleServerMessage(raw: unknown) {
+    let message: ServerMessage;
+    try {
+      message = (typeof raw === 'string' ? JSON.parse(raw) : raw) as ServerMessage;
+    } catch {
+      console.warn('⚠️ Ignoring malformed market data message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'quote':
+        this.enqueueQuotes([message.data]);
+        break;
+      case 'quotes':
+        this.enqueueQuotes(message.data);
+        break;
+      case 'error':
+        console.error('❌ Market data server error:', message.message);
+        break;
+      default:
+        // heartbeat / pong - already handled by resetting the heartbeat timeout
+        break;
+    }
+  }
+
+  private enqueueQuotes(quotes: Quote[]) {
+    quotes.forEach(quote => {
+      if (!quote?.symbol) return;
+      const symbol = quote.symbol.toUpperCase();
+      // Drop late quotes for symbols nobody is subscribed to anymore
+      if (!this.symbolRefCounts.has(symbol)) return;
+      this.pendingQuotes[symbol] = { ...this.pendingQuotes[symbol], ...quote, symbol };
+    });
+
+    if (!this.batchTimer && Object.keys(this.pendingQuotes).length > 0) {
+      this.batchTimer = setTimeout(() => this.flushQuotes(), this.options.batchIntervalMs);
+    }
+  }
+
+  private flushQuotes() {
+    this.batchTimer = null;
+    const batch = this.pendingQuotes;
+    this.pendingQuotes = {};
+    if (Object.keys(batch).length === 0) return;
+
+    this.callbacks.forEach(cb => {
+      try {
+        cb(batch);
+      } catch (error) {
+        console.error('❌ Market data callback failed:', error);
+      }
+    });
+  }
+
+  private clearBatchTimer() {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+  }
 }
 
+/**
+ * Uppercase, trim and de-duplicate a list of symbols
+ */
+const normalizeSymbols = (symbols: string[]): string[] =>
+  Array.from(new Set(symbols.filter(Boolean).map(symbol => symbol.trim().toUpperCase())));
+
+/**
+ * WebSocket and EventSource cannot send an Authorization header,
+ * so the JWT is passed as a query parameter instead
+ */
+const withAuthToken = (url: string): string => {
+  const token = getCookie('auth_token');
+  if (!token) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}token=${encodeURIComponent(token)}`;
+};
+
 export const marketDataService = MarketDataService.getInstance();
 
 // React hook for using market data
@@ -58,7 +628,8 @@ import { useEffect, useState } from 'react';
 
 export const useMarketData = (symbols: string[] = []) => {
   const [marketData, setMarketData] = useState<MarketData>({});
-  const [isConnected, setIsConnected] = useState(false);
+  const [isConnected, setIsConnected] = useState(marketDataService.isConnected);
+  const symbolsKey = symbols.join(',');
 
   useEffect(() => {
     const unsubscribe = marketDataService.onMarketDataUpdate((data) => {
@@ -67,25 +638,27 @@ export const useMarketData = (symbols: string[] = []) => {
         ...data,
       }));
     });
+    const unsubscribeStatus = marketDataService.onConnectionChange((status) => {
+      setIsConnected(status === 'connected');
+    });
 
-    if (symbols.length > 0) {
-      marketDataService.subscribeToSymbols(symbols);
+    const subscribed = symbolsKey ? symbolsKey.split(',') : [];
+    if (subscribed.length > 0) {
+      marketDataService.subscribeToSymbols(subscribed);
     }
 
-    // Without WebSockets, the connection is always false
-    setIsConnected(false);
-
     return () => {
       unsubscribe();
-      if (symbols.length > 0) {
-        marketDataService.unsubscribeFromSymbols(symbols);
+      unsubscribeStatus();
+      if (subscribed.length > 0) {
+        marketDataService.unsubscribeFromSymbols(subscribed);
       }
     };
-  }, [symbols]);
+  }, [symbolsKey]);
 
   return {
     marketData,
     isConnected,
-    getSymbolData: (symbol: string) => marketData[symbol],
+    getSymbolData: (symbol: string) => marketData[symbol.toUpperCase()],
   };
 };
@@ -1,15 +1,17 @@
 /**
  * Efficient notification service with intelligent caching and reduced API calls
+ * Polling fallback for when the alert event stream (alertEventStream) is not connected
  */
 
 import { alertsApi } from './alerts-api';
-import { createAlertNotification } from './notifications';
+import { createAlertEscalatedNotification, createAlertNotification } from './notifications';
 import { AlertRule } from '../types/alerts';
 
 interface CachedAlertRule {
   rule: AlertRule;
   lastChecked: number;
   lastTriggered?: string;
+  escalatedAt?: string;
 }
 
 class NotificationService {
@@ -82,12 +84,15 @@ class NotificationService {
             console.log('⏭️ Skipping already processed trigger for:', rule.id);
           }
         }
+
+        await this.checkEscalation(rule, cached);
         
         // Update cache
         this.alertRulesCache.set(rule.id, {
           rule,
           lastChecked: Date.now(),
-          lastTriggered: rule.lastTriggered
+          lastTriggered: rule.lastTriggered,
+          escalatedAt: rule.escalatedAt
         });
       }
     } catch (error) {
@@ -119,12 +124,15 @@ class NotificationService {
             await createAlertNotification(rule);
           }
         }
+
+        await this.checkEscalation(rule, cached);
         
         // Update cache
         this.alertRulesCache.set(ruleId, {
           rule,
           lastChecked: now,
-          lastTriggered: rule.lastTriggered
+          lastTriggered: rule.lastTriggered,
+          escalatedAt: rule.escalatedAt
         });
       } catch (error) {
         console.error(`❌ Error checking alert rule ${ruleId}:`, error);
@@ -132,6 +140,28 @@ class NotificationService {
     }
   }
 
+  /**
+   * Notify once when a rule's unresolved trigger has escalated since it was last cached
+   * Escalations seen on the first check after a reload are not repeated
+   */
+  private async checkEscalation(rule: AlertRule, cached?: CachedAlertRule): Promise<void> {
+    if (cached && rule.escalatedAt && cached.escalatedAt !== rule.escalatedAt) {
+      await createAlertEscalatedNotification(rule);
+    }
+  }
+
+  /**
+   * Record a trigger or escalation delivered by the alert event stream so polling does not notify about it again
+   */
+  recordTrigger(rule: AlertRule): void {
+    this.alertRulesCache.set(rule.id, {
+      rule,
+      lastChecked: Date.now(),
+      lastTriggered: rule.lastTriggered,
+      escalatedAt: rule.escalatedAt
+    });
+  }
+
   /**
    * Force refresh - bypass cache and check immediately
    */
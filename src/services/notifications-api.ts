@@ -0,0 +1,223 @@
+import { fetchWithAuth } from './api-utils';
+import {
+  Notification,
+  NotificationType,
+  NotificationPriority,
+  NotificationResponse,
+  NotificationListResponse,
+  NotificationSyncResponse,
+  NotificationPage,
+  NotificationChanges,
+  NotificationPreferences,
+  NotificationPreferencesResponse,
+  PushDevice,
+  PushDeviceResponse,
+} from '../types/notifications';
+
+// Define notification API endpoints as a constant
+const NOTIFICATION_ENDPOINTS = {
+  LIST: '/notifications/',
+  SYNC: '/notifications/sync/',
+  MARK_ALL_READ: '/notifications/mark-all-read/',
+  CLEAR: '/notifications/clear/',
+  PREFERENCES: '/notifications/preferences/',
+  VAPID_PUBLIC_KEY: '/notifications/push/vapid-public-key/',
+  PUSH_DEVICES: '/notifications/push/devices/',
+  PUSH_DEVICE_DETAIL: (id: string) => `/notifications/push/devices/${id}/`,
+  DETAIL: (id: string) => `/notifications/${id}/`,
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Transform API response to frontend model
+ */
+const transformNotification = (response: NotificationResponse): Notification => {
+  // Unknown types and priorities from newer backends fall back to generic values
+  const type = Object.values(NotificationType).includes(response.type as NotificationType)
+    ? response.type as NotificationType
+    : NotificationType.INFO;
+  const priority = Object.values(NotificationPriority).includes(response.priority as NotificationPriority)
+    ? response.priority as NotificationPriority
+    : NotificationPriority.NORMAL;
+
+  return {
+    id: response.id,
+    type,
+    priority,
+    title: response.title,
+    message: response.message,
+    timestamp: response.created_at,
+    isRead: response.is_read,
+    alertId: response.alert_rule ?? undefined,
+    portfolioId: response.portfolio ?? undefined,
+    data: response.data,
+    actionUrl: response.action_url ?? undefined,
+    actionLabel: response.action_label ?? undefined,
+  };
+};
+
+/**
+ * Transform API response to frontend model for notification preferences
+ * Quiet hours come back as "HH:MM:SS" times and are trimmed to "HH:MM"
+ */
+const transformNotificationPreferences = (response: NotificationPreferencesResponse): NotificationPreferences => ({
+  emailNotifications: response.email_notifications,
+  pushNotifications: response.push_notifications,
+  inAppNotifications: response.in_app_notifications,
+  alertNotifications: response.alert_notifications,
+  portfolioNotifications: response.portfolio_notifications,
+  systemNotifications: response.system_notifications,
+  quietHoursStart: response.quiet_hours_start?.slice(0, 5) || undefined,
+  quietHoursEnd: response.quiet_hours_end?.slice(0, 5) || undefined,
+  timezone: response.timezone ?? undefined,
+});
+
+/**
+ * Transform API response to frontend model for push devices
+ */
+const transformPushDevice = (response: PushDeviceResponse): PushDevice => ({
+  id: response.id,
+  endpoint: response.endpoint,
+  deviceName: response.device_name,
+  userAgent: response.user_agent,
+  createdAt: response.created_at,
+  lastUsedAt: response.last_used_at ?? undefined,
+});
+
+/**
+ * Notifications API service
+ */
+export const notificationsApi = {
+  // Get a page of notifications, newest first; omit the cursor for the first page
+  getNotifications: async (cursor?: string | null, limit: number = DEFAULT_PAGE_SIZE): Promise<NotificationPage> => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+    const response = await fetchWithAuth<NotificationListResponse>(`${NOTIFICATION_ENDPOINTS.LIST}?${params}`);
+    return {
+      notifications: Array.isArray(response.results) ? response.results.map(transformNotification) : [],
+      nextCursor: response.next_cursor ?? null,
+      syncCursor: response.sync_cursor,
+    };
+  },
+
+  // Get everything that changed since a sync cursor returned by a previous request
+  getChangesSince: async (syncCursor: string): Promise<NotificationChanges> => {
+    const response = await fetchWithAuth<NotificationSyncResponse>(
+      `${NOTIFICATION_ENDPOINTS.SYNC}?since=${encodeURIComponent(syncCursor)}`
+    );
+    return {
+      notifications: Array.isArray(response.results) ? response.results.map(transformNotification) : [],
+      deletedIds: Array.isArray(response.deleted_ids) ? response.deleted_ids : [],
+      syncCursor: response.sync_cursor,
+    };
+  },
+
+  // Create a notification
+  createNotification: async (notification: Omit<Notification, 'id' | 'timestamp' | 'isRead'>): Promise<Notification> => {
+    const response = await fetchWithAuth<NotificationResponse>(NOTIFICATION_ENDPOINTS.LIST, {
+      method: 'POST',
+      body: JSON.stringify({
+        type: notification.type,
+        priority: notification.priority,
+        title: notification.title,
+        message: notification.message,
+        alert_rule: notification.alertId,
+        portfolio: notification.portfolioId,
+        data: notification.data,
+        action_url: notification.actionUrl,
+        action_label: notification.actionLabel,
+      }),
+    });
+    return transformNotification(response);
+  },
+
+  // Mark a notification as read
+  markAsRead: async (id: string): Promise<void> => {
+    await fetchWithAuth(NOTIFICATION_ENDPOINTS.DETAIL(id), {
+      method: 'PATCH',
+      body: JSON.stringify({ is_read: true }),
+    });
+  },
+
+  // Mark every notification as read
+  markAllAsRead: async (): Promise<void> => {
+    await fetchWithAuth(NOTIFICATION_ENDPOINTS.MARK_ALL_READ, {
+      method: 'POST',
+    });
+  },
+
+  // Delete a notification
+  deleteNotification: async (id: string): Promise<void> => {
+    await fetchWithAuth(NOTIFICATION_ENDPOINTS.DETAIL(id), {
+      method: 'DELETE',
+    });
+  },
+
+  // Delete every notification
+  clearAllNotifications: async (): Promise<void> => {
+    await fetchWithAuth(NOTIFICATION_ENDPOINTS.CLEAR, {
+      method: 'POST',
+    });
+  },
+
+  // Get the user's notification preferences
+  getPreferences: async (): Promise<NotificationPreferences> => {
+    const response = await fetchWithAuth<NotificationPreferencesResponse>(NOTIFICATION_ENDPOINTS.PREFERENCES);
+    return transformNotificationPreferences(response);
+  },
+
+  // Update the user's notification preferences; empty quiet hours turn them off
+  updatePreferences: async (preferences: NotificationPreferences): Promise<NotificationPreferences> => {
+    const response = await fetchWithAuth<NotificationPreferencesResponse>(NOTIFICATION_ENDPOINTS.PREFERENCES, {
+      method: 'PUT',
+      body: JSON.stringify({
+        email_notifications: preferences.emailNotifications,
+        push_notifications: preferences.pushNotifications,
+        in_app_notifications: preferences.inAppNotifications,
+        alert_notifications: preferences.alertNotifications,
+        portfolio_notifications: preferences.portfolioNotifications,
+        system_notifications: preferences.systemNotifications,
+        quiet_hours_start: preferences.quietHoursStart || null,
+        quiet_hours_end: preferences.quietHoursEnd || null,
+        timezone: preferences.timezone ?? null,
+      }),
+    });
+    return transformNotificationPreferences(response);
+  },
+
+  // Get the server's VAPID public key (base64url) used to subscribe browsers to push
+  getVapidPublicKey: async (): Promise<string> => {
+    const response = await fetchWithAuth<{ public_key: string }>(NOTIFICATION_ENDPOINTS.VAPID_PUBLIC_KEY);
+    return response.public_key;
+  },
+
+  // Get the browsers registered for push
+  getPushDevices: async (): Promise<PushDevice[]> => {
+    const response = await fetchWithAuth<PushDeviceResponse[]>(NOTIFICATION_ENDPOINTS.PUSH_DEVICES);
+    return Array.isArray(response) ? response.map(transformPushDevice) : [];
+  },
+
+  // Register a push subscription; re-registering the same endpoint updates the existing device
+  registerPushDevice: async (subscription: PushSubscriptionJSON, deviceName: string): Promise<PushDevice> => {
+    const response = await fetchWithAuth<PushDeviceResponse>(NOTIFICATION_ENDPOINTS.PUSH_DEVICES, {
+      method: 'POST',
+      body: JSON.stringify({
+        endpoint: subscription.endpoint,
+        keys: subscription.keys,
+        device_name: deviceName,
+        user_agent: navigator.userAgent,
+      }),
+    });
+    return transformPushDevice(response);
+  },
+
+  // Remove a push device so it no longer receives notifications
+  deletePushDevice: async (id: string): Promise<void> => {
+    await fetchWithAuth(NOTIFICATION_ENDPOINTS.PUSH_DEVICE_DETAIL(id), {
+      method: 'DELETE',
+    });
+  },
+};
+
+export default notificationsApi;
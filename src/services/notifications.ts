@@ -4,16 +4,121 @@
 
 import { store } from '@/store';
 import { createNotification } from '@/store/notificationsSlice';
-import { NotificationType, NotificationPriority } from '@/types/notifications';
+import { Notification, NotificationType, NotificationPriority, NotificationPreferences } from '@/types/notifications';
 import { AlertRule, AlertHistory } from '@/types/alerts';
+import { isWithinQuietHours } from '@/utils/quietHours';
+import { getEscalatedPriority, isAlertSnoozed, maxNotificationPriority } from '@/utils/alertPolicies';
 import { toast } from 'sonner';
 
+type NotificationInput = Omit<Notification, 'id' | 'timestamp' | 'isRead'>;
+type NotificationCategory = 'alert' | 'portfolio' | 'system';
+
+interface QueuedNotification {
+  notification: NotificationInput;
+  queuedAt: string;
+}
+
+// Notifications held back during quiet hours survive reloads until the digest is delivered
+const DIGEST_QUEUE_KEY = 'notification_digest_queue';
+
+const readDigestQueue = (): QueuedNotification[] => {
+  try {
+    const stored = localStorage.getItem(DIGEST_QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeDigestQueue = (queue: QueuedNotification[]) => {
+  if (queue.length === 0) {
+    localStorage.removeItem(DIGEST_QUEUE_KEY);
+  } else {
+    localStorage.setItem(DIGEST_QUEUE_KEY, JSON.stringify(queue));
+  }
+};
+
+const isCategoryEnabled = (preferences: NotificationPreferences, category: NotificationCategory): boolean => {
+  switch (category) {
+    case 'alert':
+      return preferences.alertNotifications;
+    case 'portfolio':
+      return preferences.portfolioNotifications;
+    case 'system':
+    default:
+      return preferences.systemNotifications;
+  }
+};
+
+/**
+ * Store and toast a notification if the user's preferences allow it
+ * During quiet hours the notification is queued for the digest instead
+ */
+const deliverNotification = (
+  notification: NotificationInput,
+  category: NotificationCategory,
+  showToast: () => void
+) => {
+  const { preferences } = store.getState().notifications;
+  if (!preferences.inAppNotifications || !isCategoryEnabled(preferences, category)) {
+    return;
+  }
+
+  if (isWithinQuietHours(preferences.quietHoursStart, preferences.quietHoursEnd)) {
+    writeDigestQueue([...readDigestQueue(), { notification, queuedAt: new Date().toISOString() }]);
+    return;
+  }
+
+  store.dispatch(createNotification(notification));
+  showToast();
+};
+
+/**
+ * Deliver notifications queued during quiet hours as a single digest notification
+ * Does nothing while quiet hours are still on or when nothing is queued
+ */
+export const deliverNotificationDigest = async () => {
+  const queue = readDigestQueue();
+  if (queue.length === 0) return;
+
+  const { preferences } = store.getState().notifications;
+  if (isWithinQuietHours(preferences.quietHoursStart, preferences.quietHoursEnd)) return;
+
+  writeDigestQueue([]);
+
+  const priority = queue.reduce(
+    (highest, item) => maxNotificationPriority(highest, item.notification.priority),
+    NotificationPriority.LOW
+  );
+  const titles = queue.map(item => item.notification.title);
+  const listed = titles.slice(0, 3).join('; ');
+  const remaining = titles.length - 3;
+
+  store.dispatch(createNotification({
+    type: NotificationType.INFO,
+    priority,
+    title: `${queue.length} notification${queue.length === 1 ? '' : 's'} during quiet hours`,
+    message: remaining > 0 ? `${listed}; and ${remaining} more.` : `${listed}.`,
+    data: {
+      digest: true,
+      notifications: queue.map(item => ({ ...item.notification, queuedAt: item.queuedAt })),
+    },
+  }));
+
+  toast.info(`You have ${queue.length} notification${queue.length === 1 ? '' : 's'} from quiet hours`, {
+    duration: 6000,
+  });
+};
+
 /**
  * Create a notification for an alert trigger
+ * Snoozed rules stay quiet; escalated rules notify at their escalation priority
  */
 export const createAlertNotification = async (alert: AlertRule, history?: AlertHistory) => {
+  if (isAlertSnoozed(alert)) return;
+
   const notificationType = getNotificationTypeFromAlert(alert);
-  const priority = getNotificationPriorityFromAlert(alert);
+  const priority = getEscalatedPriority(alert, getNotificationPriorityFromAlert(alert));
   
   const notification = {
     type: notificationType,
@@ -31,10 +136,14 @@ export const createAlertNotification = async (alert: AlertRule, history?: AlertH
     },
   };
 
-  // Add to notification store
-  store.dispatch(createNotification(notification));
+  // Add to notification store and show a toast for immediate feedback
+  deliverNotification(notification, 'alert', () => showAlertToast(alert, priority));
+};
 
-  // Also show toast notification for immediate feedback
+/**
+ * Show a toast for an alert trigger, more prominent for higher priorities
+ */
+const showAlertToast = (alert: AlertRule, priority: NotificationPriority) => {
   const toastMessage = `${alert.name}: ${getShortAlertMessage(alert)}`;
   
   switch (priority) {
@@ -67,6 +176,37 @@ export const createAlertNotification = async (alert: AlertRule, history?: AlertH
   }
 };
 
+/**
+ * Create a notification for a trigger left unresolved past the rule's escalation window
+ */
+export const createAlertEscalatedNotification = async (alert: AlertRule, history?: AlertHistory) => {
+  if (isAlertSnoozed(alert)) return;
+
+  const priority = getEscalatedPriority(alert, getNotificationPriorityFromAlert(alert));
+  const hours = alert.escalation?.afterHours;
+
+  const notification = {
+    type: getNotificationTypeFromAlert(alert),
+    priority,
+    title: `Alert Escalated: ${alert.name}`,
+    message: hours
+      ? `Still unresolved after ${hours} hour${hours === 1 ? '' : 's'}. ${getAlertMessage(alert, history)}`
+      : getAlertMessage(alert, history),
+    alertId: alert.id,
+    portfolioId: alert.portfolioId,
+    actionUrl: `/dashboard/alerts/${alert.id}`,
+    actionLabel: 'View Alert Details',
+    data: {
+      alertType: alert.conditionType,
+      escalated: true,
+      escalatedAt: alert.escalatedAt,
+      historyId: history?.id,
+    },
+  };
+
+  deliverNotification(notification, 'alert', () => showAlertToast(alert, priority));
+};
+
 /**
  * Create a notification for alert resolution
  */
@@ -85,10 +225,10 @@ export const createAlertResolvedNotification = async (alert: AlertRule) => {
     },
   };
 
-  store.dispatch(createNotification(notification));
-  
-  toast.success(`Alert resolved: ${alert.name}`, {
-    duration: 4000,
+  deliverNotification(notification, 'alert', () => {
+    toast.success(`Alert resolved: ${alert.name}`, {
+      duration: 4000,
+    });
   });
 };
 
@@ -112,7 +252,11 @@ export const createSystemNotification = async (
     actionLabel,
   };
 
-  store.dispatch(createNotification(notification));
+  // Portfolio events follow the portfolio switch, everything else the system switch
+  const category = type === NotificationType.PORTFOLIO_DRIFT || type === NotificationType.PRICE_MOVEMENT
+    ? 'portfolio'
+    : 'system';
+  deliverNotification(notification, category, () => {});
 };
 
 /**
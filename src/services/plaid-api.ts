@@ -3,8 +3,9 @@
  * Handles all Plaid-related API requests to the Django backend
  */
 
-import { fetchWithAuth } from './api-utils';
-import { HoldingInput } from '@/types/portfolio';
+import { fetchWithAuth, withPortfolioId } from './api-utils';
+import { CashFlowEvent, HoldingInput } from '@/types/portfolio';
+import { convertSnakeToCamelCase } from '@/utils/caseConversions';
 import { PLAID_ENDPOINTS } from '@/config/api';
 
 // No mock data - API must provide real data
@@ -563,6 +564,22 @@ export const plaidApi = {
     return { success: true, linkToken, institutionId };
   },
   
+  /**
+   * Get external cash flows (deposits, withdrawals, transfers) from linked investment accounts
+   * Used to separate contributions from investment gains when computing returns
+   * @param period Time period matching portfolioApi.getPerformance
+   * @param portfolioId Optional ID of the portfolio
+   */
+  getCashFlows: async (period: '1D' | '1W' | '1M' | '1Y' | '5Y' | 'all' = '1M', portfolioId?: string | null): Promise<CashFlowEvent[]> => {
+    try {
+      const response = await fetchWithAuth<unknown[]>(withPortfolioId(`${PLAID_ENDPOINTS.CASH_FLOWS}?period=${period}`, portfolioId));
+      return convertSnakeToCamelCase<CashFlowEvent[]>(Array.isArray(response) ? response : []);
+    } catch (error) {
+      console.error('Error fetching cash flows:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get all linked institutions with their accounts
    * Returns a grouped view of institutions and their accounts
@@ -0,0 +1,113 @@
+/**
+ * Web Push subscription management
+ * Registers the service worker (public/sw.js), subscribes this browser with the
+ * server's VAPID key and registers the subscription with the backend.
+ */
+
+import { notificationsApi } from './notifications-api';
+import { PushDevice } from '../types/notifications';
+
+const SERVICE_WORKER_URL = '/sw.js';
+// getRegistration() looks registrations up by the page URL they control, not the script URL
+const SERVICE_WORKER_SCOPE = '/';
+
+/**
+ * Convert a base64url VAPID key to the byte array PushManager expects
+ */
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+/**
+ * Short default name for this browser, e.g. "Chrome on macOS"
+ */
+const getDefaultDeviceName = (): string => {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(ua) ? 'Windows'
+    : /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown OS';
+  return `${browser} on ${os}`;
+};
+
+/**
+ * Whether this browser supports service workers and Web Push
+ */
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+/**
+ * Register (or reuse) the push service worker
+ */
+const getServiceWorkerRegistration = async (): Promise<ServiceWorkerRegistration> => {
+  const existing = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_SCOPE);
+  if (existing) return existing;
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE });
+  return navigator.serviceWorker.ready;
+};
+
+/**
+ * Get this browser's current push subscription, if any
+ */
+export const getCurrentPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_SCOPE);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Ask for permission, subscribe this browser and register it with the backend
+ * @param deviceName - Name shown in the device list (defaults to browser and OS)
+ * @returns The registered device
+ * @throws If push is unsupported or permission is denied
+ */
+export const subscribeToPush = async (deviceName?: string): Promise<PushDevice> => {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const registration = await getServiceWorkerRegistration();
+  let subscription = await registration.pushManager.getSubscription();
+  if (!subscription) {
+    const publicKey = await notificationsApi.getVapidPublicKey();
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    });
+  }
+
+  return notificationsApi.registerPushDevice(subscription.toJSON(), deviceName || getDefaultDeviceName());
+};
+
+/**
+ * Unsubscribe this browser and remove it from the backend
+ * @param devices - Registered devices, used to find this browser's device by endpoint
+ */
+export const unsubscribeFromPush = async (devices: PushDevice[]): Promise<void> => {
+  const subscription = await getCurrentPushSubscription();
+  if (!subscription) return;
+
+  const device = devices.find(d => d.endpoint === subscription.endpoint);
+  if (device) {
+    await notificationsApi.deletePushDevice(device.id);
+  }
+  await subscription.unsubscribe();
+};
@@ -3,7 +3,7 @@
  */
 
 import { createSlice, createAsyncThunk, PayloadAction, createSelector } from '@reduxjs/toolkit';
-import { Notification, NotificationFilters, NotificationStats, NotificationType, NotificationPriority } from '../types/notifications';
+import { Notification, NotificationFilters, NotificationStats, NotificationType, NotificationPriority, NotificationPreferences } from '../types/notifications';
 import type { RootState } from './index';
 
 interface NotificationsState {
@@ -11,10 +11,35 @@ interface NotificationsState {
   stats: NotificationStats;
   filters: NotificationFilters;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   panelOpen: boolean;
+  // Whether the first page has been loaded from the backend
+  hasLoaded: boolean;
+  // Cursor for the next (older) page, null when everything has been loaded
+  nextCursor: string | null;
+  // Server position for incremental "fetch since" sync
+  syncCursor: string | null;
+  // Notifications as they were before an optimistic update, keyed by request ID
+  pendingRollbacks: Record<string, Notification[]>;
+  // Temporary IDs of notifications not (yet) saved to the backend
+  localIds: string[];
+  // Creates still waiting for the backend; kept apart from isLoading so they never block the first load
+  pendingCreates: number;
+  preferences: NotificationPreferences;
+  preferencesLoaded: boolean;
 }
 
+// Everything on and no quiet hours until the user's preferences are loaded
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailNotifications: true,
+  pushNotifications: true,
+  inAppNotifications: true,
+  alertNotifications: true,
+  portfolioNotifications: true,
+  systemNotifications: true,
+};
+
 const initialState: NotificationsState = {
   notifications: [],
   stats: {
@@ -25,26 +50,139 @@ const initialState: NotificationsState = {
   },
   filters: {},
   isLoading: false,
+  isLoadingMore: false,
   error: null,
   panelOpen: false,
+  hasLoaded: false,
+  nextCursor: null,
+  syncCursor: null,
+  pendingRollbacks: {},
+  localIds: [],
+  pendingCreates: 0,
+  preferences: DEFAULT_NOTIFICATION_PREFERENCES,
+  preferencesLoaded: false,
 };
 
+/**
+ * Load the user's notification preferences
+ */
+export const loadNotificationPreferences = createAsyncThunk(
+  'notifications/loadPreferences',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      return await notificationsApi.getPreferences();
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load notification preferences');
+    }
+  }
+);
+
+/**
+ * Save the user's notification preferences
+ */
+export const saveNotificationPreferences = createAsyncThunk(
+  'notifications/savePreferences',
+  async (preferences: NotificationPreferences, { rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      return await notificationsApi.updatePreferences(preferences);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to save notification preferences');
+    }
+  }
+);
+
+/**
+ * Load the first page of persisted notifications (run once at startup)
+ */
+export const loadNotifications = createAsyncThunk(
+  'notifications/load',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      return await notificationsApi.getNotifications();
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load notifications');
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { notifications } = getState() as RootState;
+      return !notifications.hasLoaded && !notifications.isLoading;
+    },
+  }
+);
+
+/**
+ * Load the next (older) page of notifications
+ */
+export const loadMoreNotifications = createAsyncThunk(
+  'notifications/loadMore',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      const { nextCursor } = (getState() as RootState).notifications;
+      return await notificationsApi.getNotifications(nextCursor);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load more notifications');
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { notifications } = getState() as RootState;
+      return notifications.nextCursor !== null && !notifications.isLoadingMore;
+    },
+  }
+);
+
+/**
+ * Fetch notifications created, updated or deleted since the last sync
+ * Picks up read state and deletions from other devices
+ */
+export const syncNotifications = createAsyncThunk(
+  'notifications/sync',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      const { syncCursor } = (getState() as RootState).notifications;
+      return await notificationsApi.getChangesSince(syncCursor as string);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to sync notifications');
+    }
+  },
+  {
+    condition: (_, { getState }) => (getState() as RootState).notifications.syncCursor !== null,
+  }
+);
+
 /**
  * Create a new notification (typically triggered by alert system)
+ * Shown immediately under a temporary ID, which is replaced by the server's once saved.
+ * A read or delete made on the temporary entry while the create was in flight is replayed
+ * against the saved notification.
  */
 export const createNotification = createAsyncThunk(
   'notifications/create',
-  async (notificationData: Omit<Notification, 'id' | 'timestamp' | 'isRead'>) => {
-    const notification: Notification = {
-      ...notificationData,
-      id: crypto.randomUUID(),
-      timestamp: new Date().toISOString(),
-      isRead: false,
-    };
-    
-    // In a real app, this would save to backend
-    // For now, just return the notification
-    return notification;
+  async (notificationData: Omit<Notification, 'id' | 'timestamp' | 'isRead'>, { getState, requestId, rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      const saved = await notificationsApi.createNotification(notificationData);
+
+      const { notifications, localIds } = (getState() as RootState).notifications;
+      const local = notifications.find(n => n.id === requestId);
+      if (!local && localIds.includes(requestId)) {
+        await notificationsApi.deleteNotification(saved.id);
+        return { notification: saved, deleted: true };
+      }
+      if (local?.isRead && !saved.isRead) {
+        await notificationsApi.markAsRead(saved.id);
+        return { notification: { ...saved, isRead: true }, deleted: false };
+      }
+      return { notification: saved, deleted: false };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to create notification');
+    }
   }
 );
 
@@ -53,9 +191,17 @@ export const createNotification = createAsyncThunk(
  */
 export const markAsRead = createAsyncThunk(
   'notifications/markAsRead',
-  async (notificationId: string) => {
-    // In a real app, this would update the backend
-    return notificationId;
+  async (notificationId: string, { getState, rejectWithValue }) => {
+    try {
+      if ((getState() as RootState).notifications.localIds.includes(notificationId)) {
+        return notificationId;
+      }
+      const { notificationsApi } = await import('../services/notifications-api');
+      await notificationsApi.markAsRead(notificationId);
+      return notificationId;
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to mark notification as read');
+    }
   }
 );
 
@@ -64,9 +210,14 @@ export const markAsRead = createAsyncThunk(
  */
 export const markAllAsRead = createAsyncThunk(
   'notifications/markAllAsRead',
-  async () => {
-    // In a real app, this would update the backend
-    return true;
+  async (_, { rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      await notificationsApi.markAllAsRead();
+      return true;
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to mark all notifications as read');
+    }
   }
 );
 
@@ -75,9 +226,17 @@ export const markAllAsRead = createAsyncThunk(
  */
 export const deleteNotification = createAsyncThunk(
   'notifications/delete',
-  async (notificationId: string) => {
-    // In a real app, this would delete from backend
-    return notificationId;
+  async (notificationId: string, { getState, rejectWithValue }) => {
+    try {
+      if ((getState() as RootState).notifications.localIds.includes(notificationId)) {
+        return notificationId;
+      }
+      const { notificationsApi } = await import('../services/notifications-api');
+      await notificationsApi.deleteNotification(notificationId);
+      return notificationId;
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete notification');
+    }
   }
 );
 
@@ -86,12 +245,42 @@ export const deleteNotification = createAsyncThunk(
  */
 export const clearAllNotifications = createAsyncThunk(
   'notifications/clearAll',
-  async () => {
-    // In a real app, this would clear from backend
-    return true;
+  async (_, { rejectWithValue }) => {
+    try {
+      const { notificationsApi } = await import('../services/notifications-api');
+      await notificationsApi.clearAllNotifications();
+      return true;
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to clear notifications');
+    }
   }
 );
 
+const byNewest = (a: Notification, b: Notification) => b.timestamp.localeCompare(a.timestamp);
+
+/**
+ * Insert or replace notifications by ID, keeping the list newest first
+ */
+const upsertNotifications = (state: NotificationsState, incoming: Notification[]) => {
+  if (incoming.length === 0) return;
+  const incomingIds = new Set(incoming.map(n => n.id));
+  state.notifications = [
+    ...state.notifications.filter(n => !incomingIds.has(n.id)),
+    ...incoming,
+  ].sort(byNewest);
+};
+
+/**
+ * Put back the notifications saved before a failed optimistic update
+ */
+const rollback = (state: NotificationsState, requestId: string) => {
+  const snapshot = state.pendingRollbacks[requestId];
+  if (snapshot) {
+    upsertNotifications(state, snapshot);
+    delete state.pendingRollbacks[requestId];
+  }
+};
+
 const notificationsSlice = createSlice({
   name: 'notifications',
   initialState,
@@ -130,48 +319,161 @@ const notificationsSlice = createSlice({
   },
   extraReducers: (builder) => {
     builder
-      // Create notification
-      .addCase(createNotification.pending, (state) => {
+      // Preferences
+      .addCase(loadNotificationPreferences.fulfilled, (state, action) => {
+        state.preferences = action.payload;
+        state.preferencesLoaded = true;
+      })
+      .addCase(loadNotificationPreferences.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(saveNotificationPreferences.fulfilled, (state, action) => {
+        state.preferences = action.payload;
+        state.preferencesLoaded = true;
+      })
+
+      // Load first page
+      .addCase(loadNotifications.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
-      .addCase(createNotification.fulfilled, (state, action) => {
+      .addCase(loadNotifications.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.notifications.unshift(action.payload);
+        state.hasLoaded = true;
+        state.nextCursor = action.payload.nextCursor;
+        state.syncCursor = action.payload.syncCursor;
+        upsertNotifications(state, action.payload.notifications);
         notificationsSlice.caseReducers.updateStats(state);
       })
-      .addCase(createNotification.rejected, (state, action) => {
+      .addCase(loadNotifications.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.error.message || 'Failed to create notification';
+        state.error = action.payload as string;
+      })
+
+      // Load older pages
+      .addCase(loadMoreNotifications.pending, (state) => {
+        state.isLoadingMore = true;
+      })
+      .addCase(loadMoreNotifications.fulfilled, (state, action) => {
+        state.isLoadingMore = false;
+        state.nextCursor = action.payload.nextCursor;
+        upsertNotifications(state, action.payload.notifications);
+        notificationsSlice.caseReducers.updateStats(state);
+      })
+      .addCase(loadMoreNotifications.rejected, (state, action) => {
+        state.isLoadingMore = false;
+        state.error = action.payload as string;
+      })
+
+      // Incremental sync
+      .addCase(syncNotifications.fulfilled, (state, action) => {
+        const deletedIds = new Set(action.payload.deletedIds);
+        state.notifications = state.notifications.filter(n => !deletedIds.has(n.id));
+        upsertNotifications(state, action.payload.notifications);
+        state.syncCursor = action.payload.syncCursor;
+        notificationsSlice.caseReducers.updateStats(state);
+      })
+
+      // Create notification
+      .addCase(createNotification.pending, (state, action) => {
+        state.pendingCreates += 1;
+        state.error = null;
+        state.notifications.unshift({
+          ...action.meta.arg,
+          id: action.meta.requestId,
+          timestamp: new Date().toISOString(),
+          isRead: false,
+        });
+        state.localIds.push(action.meta.requestId);
+        notificationsSlice.caseReducers.updateStats(state);
+      })
+      .addCase(createNotification.fulfilled, (state, action) => {
+        state.pendingCreates -= 1;
+        // Swap the temporary entry for the saved one (a sync may already have added it)
+        state.notifications = state.notifications.filter(n => n.id !== action.meta.requestId);
+        state.localIds = state.localIds.filter(id => id !== action.meta.requestId);
+        if (action.payload.deleted) {
+          state.notifications = state.notifications.filter(n => n.id !== action.payload.notification.id);
+        } else {
+          upsertNotifications(state, [action.payload.notification]);
+        }
+        notificationsSlice.caseReducers.updateStats(state);
+      })
+      .addCase(createNotification.rejected, (state, action) => {
+        // The temporary entry is kept so the user still sees it this session
+        state.pendingCreates -= 1;
+        state.error = action.payload as string;
       })
       
       // Mark as read
-      .addCase(markAsRead.fulfilled, (state, action) => {
-        const notification = state.notifications.find(n => n.id === action.payload);
+      .addCase(markAsRead.pending, (state, action) => {
+        const notification = state.notifications.find(n => n.id === action.meta.arg);
         if (notification) {
+          state.pendingRollbacks[action.meta.requestId] = [{ ...notification }];
           notification.isRead = true;
         }
         notificationsSlice.caseReducers.updateStats(state);
       })
+      .addCase(markAsRead.fulfilled, (state, action) => {
+        delete state.pendingRollbacks[action.meta.requestId];
+      })
+      .addCase(markAsRead.rejected, (state, action) => {
+        rollback(state, action.meta.requestId);
+        state.error = action.payload as string;
+        notificationsSlice.caseReducers.updateStats(state);
+      })
       
       // Mark all as read
-      .addCase(markAllAsRead.fulfilled, (state) => {
+      .addCase(markAllAsRead.pending, (state, action) => {
+        state.pendingRollbacks[action.meta.requestId] = state.notifications
+          .filter(n => !n.isRead)
+          .map(n => ({ ...n }));
         state.notifications.forEach(notification => {
           notification.isRead = true;
         });
         notificationsSlice.caseReducers.updateStats(state);
       })
+      .addCase(markAllAsRead.fulfilled, (state, action) => {
+        delete state.pendingRollbacks[action.meta.requestId];
+      })
+      .addCase(markAllAsRead.rejected, (state, action) => {
+        rollback(state, action.meta.requestId);
+        state.error = action.payload as string;
+        notificationsSlice.caseReducers.updateStats(state);
+      })
       
       // Delete notification
+      .addCase(deleteNotification.pending, (state, action) => {
+        const notification = state.notifications.find(n => n.id === action.meta.arg);
+        if (notification) {
+          state.pendingRollbacks[action.meta.requestId] = [{ ...notification }];
+        }
+        state.notifications = state.notifications.filter(n => n.id !== action.meta.arg);
+        notificationsSlice.caseReducers.updateStats(state);
+      })
       .addCase(deleteNotification.fulfilled, (state, action) => {
-        state.notifications = state.notifications.filter(n => n.id !== action.payload);
+        delete state.pendingRollbacks[action.meta.requestId];
+      })
+      .addCase(deleteNotification.rejected, (state, action) => {
+        rollback(state, action.meta.requestId);
+        state.error = action.payload as string;
         notificationsSlice.caseReducers.updateStats(state);
       })
       
       // Clear all notifications
-      .addCase(clearAllNotifications.fulfilled, (state) => {
+      .addCase(clearAllNotifications.pending, (state, action) => {
+        state.pendingRollbacks[action.meta.requestId] = state.notifications.map(n => ({ ...n }));
         state.notifications = [];
         notificationsSlice.caseReducers.updateStats(state);
+      })
+      .addCase(clearAllNotifications.fulfilled, (state, action) => {
+        delete state.pendingRollbacks[action.meta.requestId];
+        state.nextCursor = null;
+      })
+      .addCase(clearAllNotifications.rejected, (state, action) => {
+        rollback(state, action.meta.requestId);
+        state.error = action.payload as string;
+        notificationsSlice.caseReducers.updateStats(state);
       });
   },
 });
@@ -200,6 +502,15 @@ export const selectNotificationFilters = (state: RootState) =>
 export const selectIsPanelOpen = (state: RootState) => 
   state.notifications.panelOpen;
 
+export const selectNotificationPreferences = (state: RootState) =>
+  state.notifications.preferences;
+
+export const selectHasMoreNotifications = (state: RootState) =>
+  state.notifications.nextCursor !== null;
+
+export const selectIsLoadingMoreNotifications = (state: RootState) =>
+  state.notifications.isLoadingMore;
+
 // Memoized selectors using createSelector to prevent unnecessary re-renders
 export const selectUnreadNotifications = createSelector(
   [selectAllNotifications],
@@ -1,4 +1,16 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { Sector } from '@/types/portfolio';
+import type { AssetClass, Holding } from './portfolioSlice';
+import {
+  generateRebalanceTrades,
+  DEFAULT_REBALANCE_OPTIONS,
+  RebalancePosition,
+  RebalanceTradeOptions,
+} from '@/utils/rebalancing';
+import { selectLotsForSale, CapitalGainsRates, LotSale, LotSelectionMethod } from '@/utils/taxLots';
+import type { TaxLot } from '@/types/tax';
+import type { MonteCarloSummary } from '@/utils/monteCarlo';
+import { canonicalSleeveName } from '@/utils/allocationModels';
 
 /**
  * Optimization scenario interface
@@ -16,19 +28,68 @@ export interface OptimizationScenario {
     value: number;
     color: string;
   }>;
-  monteCarlo?: {
-    iterations: number;
-    median: number;
-    percentile10: number;
-    percentile25: number;
-    percentile75: number;
-    percentile90: number;
-    successProbability: number;
-    riskOfLoss: number;
-    expectedReturn: number;
-    volatility: number;
-    inflationAdjustedTarget: number;
-  };
+  monteCarlo?: MonteCarloSummary;
+}
+
+/**
+ * Projected portfolio value for one year of the Monte Carlo fan.
+ * conservative / balanced / growth are the 10th / 50th / 90th percentiles,
+ * current is the cumulative amount invested.
+ */
+export interface ProjectionPoint {
+  year: number;
+  conservative: number;
+  balanced: number;
+  growth: number;
+  current: number;
+  percentile25?: number;
+  percentile75?: number;
+}
+
+/**
+ * Monte Carlo simulation settings
+ */
+export interface SimulationSettings {
+  /** Added each year (inflation-indexed); negative values are withdrawals */
+  annualContribution: number;
+  /** Goal in today's dollars; null uses the current portfolio value */
+  targetValue: number | null;
+  iterations: number;
+}
+
+/**
+ * Minimum / maximum weight for a single symbol, in percent (0-100)
+ */
+export interface WeightBound {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Investability constraints applied by the optimizer.
+ * All weights and limits are expressed in percent (0-100).
+ */
+export interface OptimizationConstraints {
+  /**
+   * Per-symbol weight bounds keyed by uppercase symbol
+   */
+  symbolBounds: Record<string, WeightBound>;
+  /**
+   * Maximum combined weight per asset class, keyed by asset class name
+   */
+  assetClassCaps: Record<AssetClass['name'], number>;
+  /**
+   * Maximum combined weight per sector, keyed by sector name
+   */
+  sectorCaps: Record<Sector['name'], number>;
+  /**
+   * Maximum number of symbols with a non-zero weight (null = no limit)
+   */
+  maxHoldings: number | null;
+  /**
+   * Maximum one-way turnover against current weights (null = no limit)
+   */
+  maxTurnover: number | null;
 }
 
 /**
@@ -56,6 +117,10 @@ export interface OptimizationParameters {
    * - MaxReturn: maximise expected return for the given constraints
    */
   objective: OptimizationObjective;
+  /**
+   * Weight bounds, group caps, cardinality and turnover limits
+   */
+  constraints: OptimizationConstraints;
 }
 
 /**
@@ -80,13 +145,7 @@ export interface EfficientFrontierPoint {
  */
 export interface OptimizationResults {
   scenarios: OptimizationScenario[];
-  projectedData: Array<{
-    year: number;
-    conservative: number;
-    balanced: number;
-    growth: number;
-    current: number;
-  }>;
+  projectedData: ProjectionPoint[];
   taxSavings: number;
   rebalancingCost: number;
   efficientFrontier: EfficientFrontierPoint[];
@@ -96,21 +155,42 @@ export interface OptimizationResults {
 /**
  * Trade interface
  */
-interface Trade {
+export interface Trade {
   symbol: string;
   action: 'buy' | 'sell' | 'hold';
+  /** Change in portfolio weight, in percentage points */
   percentage: number;
   estimatedValue: number;
+  shares: number;
+  price: number;
+  commission: number;
+  /** Lots sold, for sell trades */
+  lotSales?: LotSale[];
+  realizedGain?: number;
+  estimatedTax?: number;
 }
 
 /**
  * Implementation plan interface
  */
-interface ImplementationPlan {
+export interface ImplementationPlan {
   trades: Trade[];
+  portfolioValue: number;
+  totalCommissions: number;
+  endingCash: number;
+  /** Target symbols without a price that could not be traded */
+  unpricedSymbols: string[];
   taxAnalysis: {
     taxEfficiency: number;
     expectedTaxImpact: string;
+    lotSelectionMethod: LotSelectionMethod;
+    shortTermGain: number;
+    longTermGain: number;
+    realizedGain: number;
+    /** Estimated tax on realized gains; negative when losses produce a saving */
+    estimatedTaxCost: number;
+    /** Shares sold that no tax lot covers; their gains are missing from the estimate */
+    unmatchedShares: number;
     taxLossHarvestingOpportunities: string[];
     recommendedAccountTypes: string[];
   };
@@ -131,6 +211,20 @@ export interface SelectedStrategy {
  */
 export interface OptimizationState {
   parameters: OptimizationParameters;
+  /**
+   * Symbols the user wants considered in addition to the portfolio's holdings
+   */
+  candidateSymbols: string[];
+  /**
+   * Share rounding, minimum trade size, cash buffer and commission assumptions
+   */
+  tradeOptions: RebalanceTradeOptions;
+  /**
+   * How lots are chosen for sell trades, and the lots picked per symbol for specific-ID
+   */
+  lotSelectionMethod: LotSelectionMethod;
+  specificLotIds: Record<string, string[]>;
+  simulationSettings: SimulationSettings;
   results: OptimizationResults | null;
   selectedScenario: string | null;
   selectedStrategy: SelectedStrategy | null;
@@ -145,6 +239,22 @@ const initialState: OptimizationState = {
     timeHorizon: 10,
     lookbackDays: 730,
     objective: 'MinRisk',
+    constraints: {
+      symbolBounds: {},
+      assetClassCaps: {},
+      sectorCaps: {},
+      maxHoldings: null,
+      maxTurnover: null,
+    },
+  },
+  candidateSymbols: [],
+  tradeOptions: DEFAULT_REBALANCE_OPTIONS,
+  lotSelectionMethod: 'HIFO',
+  specificLotIds: {},
+  simulationSettings: {
+    annualContribution: 0,
+    targetValue: null,
+    iterations: 5000,
   },
   results: null,
   selectedScenario: null,
@@ -167,6 +277,42 @@ export const optimizationSlice = createSlice({
         ...action.payload
       };
     },
+    updateConstraints: (state, action: PayloadAction<Partial<OptimizationConstraints>>) => {
+      state.parameters.constraints = {
+        ...state.parameters.constraints,
+        ...action.payload
+      };
+    },
+    setSymbolBound: (state, action: PayloadAction<{ symbol: string; bound: WeightBound }>) => {
+      const symbol = action.payload.symbol.toUpperCase();
+      const { min, max } = action.payload.bound;
+      if (min === undefined && max === undefined) {
+        delete state.parameters.constraints.symbolBounds[symbol];
+      } else {
+        state.parameters.constraints.symbolBounds[symbol] = { min, max };
+      }
+    },
+    setGroupCap: (state, action: PayloadAction<{ group: 'assetClass' | 'sector'; name: string; cap: number | null }>) => {
+      const { group, name, cap } = action.payload;
+      const caps = group === 'assetClass'
+        ? state.parameters.constraints.assetClassCaps
+        : state.parameters.constraints.sectorCaps;
+      if (cap === null) {
+        delete caps[name];
+      } else {
+        caps[name] = cap;
+      }
+    },
+    addCandidateSymbols: (state, action: PayloadAction<string[]>) => {
+      action.payload
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(symbol => symbol && !state.candidateSymbols.includes(symbol))
+        .forEach(symbol => state.candidateSymbols.push(symbol));
+    },
+    removeCandidateSymbol: (state, action: PayloadAction<string>) => {
+      state.candidateSymbols = state.candidateSymbols.filter(symbol => symbol !== action.payload);
+      delete state.parameters.constraints.symbolBounds[action.payload];
+    },
     setSimulationStatus: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
       if (action.payload) {
@@ -179,48 +325,101 @@ export const optimizationSlice = createSlice({
       state.lastOptimized = Date.now();
       state.error = null;
     },
+    updateSimulationSettings: (state, action: PayloadAction<Partial<SimulationSettings>>) => {
+      state.simulationSettings = {
+        ...state.simulationSettings,
+        ...action.payload
+      };
+    },
+    setMonteCarloResults: (state, action: PayloadAction<{
+      scenarioName: string;
+      summary: MonteCarloSummary;
+      projectedData: ProjectionPoint[];
+    }>) => {
+      if (!state.results) return;
+      const scenario = state.results.scenarios.find(s => s.name === action.payload.scenarioName);
+      if (scenario) {
+        scenario.monteCarlo = action.payload.summary;
+        state.results.projectedData = action.payload.projectedData;
+      }
+    },
     selectScenario: (state, action: PayloadAction<string>) => {
       state.selectedScenario = action.payload;
     },
-    selectStrategy: (state, action: PayloadAction<{ scenarioName: string; portfolioValue?: number }>) => {
-      const { scenarioName, portfolioValue = 100000 } = action.payload;
+    updateTradeOptions: (state, action: PayloadAction<Partial<RebalanceTradeOptions>>) => {
+      state.tradeOptions = {
+        ...state.tradeOptions,
+        ...action.payload
+      };
+    },
+    setLotSelectionMethod: (state, action: PayloadAction<LotSelectionMethod>) => {
+      state.lotSelectionMethod = action.payload;
+    },
+    setSpecificLots: (state, action: PayloadAction<{ symbol: string; lotIds: string[] }>) => {
+      state.specificLotIds[action.payload.symbol] = action.payload.lotIds;
+    },
+    selectStrategy: (state, action: PayloadAction<{
+      scenarioName: string;
+      positions: RebalancePosition[];
+      cash: number;
+      /** Prices for target symbols not currently held */
+      prices?: Record<string, number>;
+      /** Open tax lots for the portfolio's holdings */
+      lots?: TaxLot[];
+      taxRates: CapitalGainsRates;
+      /** Sales in IRA / 401(k) style accounts are not taxed */
+      taxAdvantaged?: boolean;
+    }>) => {
+      const { scenarioName, positions, cash, prices, lots = [], taxRates, taxAdvantaged = false } = action.payload;
       const scenario = state.results?.scenarios.find(s => s.name === scenarioName);
       
       if (scenario) {
-        // Current portfolio holdings (mock data - in real app would come from state)
-        const currentHoldings = {
-          'VTI': { allocation: 60, value: (portfolioValue * 60) / 100 },
-          'VTIAX': { allocation: 25, value: (portfolioValue * 25) / 100 }, 
-          'BND': { allocation: 15, value: (portfolioValue * 15) / 100 },
-          'VNQ': { allocation: 0, value: 0 }
-        };
-        
-        // Generate rebalancing trades based on current vs target allocation
-        const trades: Trade[] = [];
-        const targetAllocations = [
-          { symbol: 'VTI', target: scenario.allocation[0]?.value || 0 },
-          { symbol: 'VTIAX', target: scenario.allocation[1]?.value || 0 },
-          { symbol: 'BND', target: scenario.allocation[2]?.value || 0 },
-          { symbol: 'VNQ', target: scenario.allocation[3]?.value || 0 }
-        ];
-        
-        targetAllocations.forEach(({ symbol, target }) => {
-          const current = currentHoldings[symbol as keyof typeof currentHoldings]?.allocation || 0;
-          const difference = target - current;
-          const currentValue = currentHoldings[symbol as keyof typeof currentHoldings]?.value || 0;
-          const targetValue = (portfolioValue * target) / 100;
-          const tradeDollarAmount = targetValue - currentValue;
-          
-          // Only show trades where there's a meaningful difference
-          if (Math.abs(difference) > 0.5) {
-            trades.push({
-              symbol,
-              action: difference > 0 ? 'buy' : 'sell',
-              percentage: Math.abs(difference), // Show percentage change needed
-              estimatedValue: Math.abs(tradeDollarAmount) // Show dollar amount to trade
-            });
+        // Scenario allocation is keyed by symbol with weights in percent
+        const targetWeights: Record<string, number> = {};
+        scenario.allocation.forEach(({ name, value }) => {
+          targetWeights[name] = value / 100;
+        });
+
+        const rebalance = generateRebalanceTrades(positions, cash, targetWeights, prices, state.tradeOptions);
+        const portfolioValue = positions.reduce((sum, p) => sum + p.shares * p.price, 0) + cash;
+        const trades: Trade[] = rebalance.trades.map(trade => ({
+          symbol: trade.symbol,
+          action: trade.action,
+          percentage: Math.abs(trade.targetWeight - trade.currentWeight),
+          estimatedValue: trade.value,
+          shares: trade.shares,
+          price: trade.price,
+          commission: trade.commission,
+        }));
+
+        // Pick the lots behind each sell and estimate the tax it realizes
+        const rates = taxAdvantaged ? { shortTerm: 0, longTerm: 0 } : taxRates;
+        const gains = { shortTerm: 0, longTerm: 0, tax: 0 };
+        let unmatchedShares = 0;
+        trades.filter(t => t.action === 'sell').forEach(trade => {
+          const symbolLots = lots.filter(lot => lot.symbol.toUpperCase() === trade.symbol);
+          if (symbolLots.length === 0) {
+            unmatchedShares += trade.shares;
+            return;
           }
+          const sale = selectLotsForSale(
+            symbolLots,
+            trade.shares,
+            trade.price,
+            state.lotSelectionMethod,
+            rates,
+            state.specificLotIds[trade.symbol] ?? []
+          );
+          trade.lotSales = sale.lots;
+          trade.realizedGain = sale.realizedGain;
+          trade.estimatedTax = sale.estimatedTax;
+          gains.shortTerm += sale.shortTermGain;
+          gains.longTerm += sale.longTermGain;
+          gains.tax += sale.estimatedTax;
+          unmatchedShares += sale.unmatchedShares;
         });
+        const realizedGain = gains.shortTerm + gains.longTerm;
+        const hasSells = trades.some(t => t.action === 'sell');
 
         state.selectedStrategy = {
           scenarioName,
@@ -228,14 +427,25 @@ export const optimizationSlice = createSlice({
           selectedAt: Date.now(),
           implementationPlan: {
             trades,
+            portfolioValue,
+            totalCommissions: rebalance.totalCommissions,
+            endingCash: rebalance.endingCash,
+            unpricedSymbols: rebalance.unpricedSymbols,
             taxAnalysis: {
               taxEfficiency: scenario.taxEfficiency,
-              expectedTaxImpact: trades.some(t => t.action === 'sell') ? 
-                scenario.taxEfficiency > 80 ? 'Low tax impact - mostly long-term gains' : 
-                scenario.taxEfficiency > 60 ? 'Moderate tax impact from rebalancing' : 
-                'Higher tax impact - consider tax-loss harvesting' :
-                'No immediate tax impact - buying assets only',
-              taxLossHarvestingOpportunities: trades.some(t => t.action === 'sell') ? [
+              expectedTaxImpact: !hasSells ? 'No immediate tax impact - buying assets only' :
+                taxAdvantaged ? 'No tax impact - sales are inside a tax-advantaged account' :
+                gains.tax > 0 ? `Estimated $${gains.tax.toFixed(2)} tax on $${realizedGain.toFixed(2)} of realized gains` :
+                gains.tax < 0 ? `Estimated $${Math.abs(gains.tax).toFixed(2)} tax savings from $${Math.abs(realizedGain).toFixed(2)} of realized losses` :
+                'No net realized gains from the selected lots',
+              lotSelectionMethod: state.lotSelectionMethod,
+              shortTermGain: gains.shortTerm,
+              longTermGain: gains.longTerm,
+              realizedGain,
+              estimatedTaxCost: gains.tax,
+              // Gains inside a tax-advantaged account aren't taxed, so missing lots don't matter there
+              unmatchedShares: taxAdvantaged ? 0 : unmatchedShares,
+              taxLossHarvestingOpportunities: hasSells ? [
                 'Consider harvesting losses on underperforming positions before selling winners',
                 'Review holding periods to qualify for long-term capital gains rates',
                 'Offset gains with any available tax losses from other positions'
@@ -248,7 +458,7 @@ export const optimizationSlice = createSlice({
                 (scenario.allocation.find(a => a.name?.includes('Bonds'))?.value ?? 0) > 20 ? 
                   'Place bond investments in 401(k)/IRA to defer taxes on interest income' : '',
                 'Rebalance within tax-advantaged accounts first to avoid taxable events',
-                trades.some(t => t.action === 'sell') ? 
+                hasSells ? 
                   'Consider executing trades in IRA/401(k) to avoid capital gains taxes' : '',
                 // Safely check if international allocation is > 15%
                 (scenario.allocation.find(a => a.name?.includes('International'))?.value ?? 0) > 15 ? 
@@ -284,8 +494,18 @@ export const optimizationSlice = createSlice({
 
 export const {
   updateParameters,
+  updateConstraints,
+  setSymbolBound,
+  setGroupCap,
+  addCandidateSymbols,
+  removeCandidateSymbol,
+  updateTradeOptions,
+  setLotSelectionMethod,
+  setSpecificLots,
   setSimulationStatus,
   setResults,
+  updateSimulationSettings,
+  setMonteCarloResults,
   selectScenario,
   selectStrategy,
   clearSelectedStrategy,
@@ -294,4 +514,92 @@ export const {
   resetParameters
 } = optimizationSlice.actions;
 
+/**
+ * Check that constraints are feasible for the given universe before sending them
+ * to the optimizer. Returns a list of human-readable problems (empty when valid).
+ */
+export const getConstraintErrors = (
+  constraints: OptimizationConstraints,
+  universe: string[]
+): string[] => {
+  const errors: string[] = [];
+  let minTotal = 0;
+  let maxTotal = 0;
+
+  universe.forEach(symbol => {
+    const { min = 0, max = 100 } = constraints.symbolBounds[symbol] ?? {};
+    if (min > max) {
+      errors.push(`${symbol}: minimum weight exceeds maximum weight`);
+    }
+    minTotal += min;
+    maxTotal += max;
+  });
+
+  if (minTotal > 100) {
+    errors.push(`Minimum weights add up to ${minTotal}%, more than 100%`);
+  }
+  if (universe.length > 0 && maxTotal < 100) {
+    errors.push(`Maximum weights add up to ${maxTotal}%, the portfolio cannot be fully invested`);
+  }
+
+  const { maxHoldings } = constraints;
+  if (maxHoldings !== null) {
+    const required = universe.filter(symbol => (constraints.symbolBounds[symbol]?.min ?? 0) > 0).length;
+    if (maxHoldings < 1) {
+      errors.push('Maximum number of holdings must be at least 1');
+    } else if (required > maxHoldings) {
+      errors.push(`${required} symbols have a minimum weight but at most ${maxHoldings} may be held`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Asset class and sector of each universe symbol, named like the group caps
+ * Holdings label their groups loosely (the store defaults to "stocks"), so groups are matched
+ * to caps on their canonical sleeve name. Only held symbols are classified.
+ */
+export const mapSymbolsToCapGroups = (
+  constraints: OptimizationConstraints,
+  universe: string[],
+  holdings: Holding[]
+): { assetClassMap: Record<string, string>; sectorMap: Record<string, string> } => {
+  const toCapName = (caps: Record<string, number>, category: 'asset_class' | 'sector') => {
+    const capNames = new Map(Object.keys(caps).map(name => [canonicalSleeveName(name, category), name]));
+    return (group: string) => capNames.get(canonicalSleeveName(group, category)) ?? group;
+  };
+  const toAssetClassCap = toCapName(constraints.assetClassCaps, 'asset_class');
+  const toSectorCap = toCapName(constraints.sectorCaps, 'sector');
+
+  const assetClassMap: Record<string, string> = {};
+  const sectorMap: Record<string, string> = {};
+  holdings.forEach(holding => {
+    const symbol = holding.symbol.toUpperCase();
+    if (!universe.includes(symbol)) return;
+    if (holding.assetClass) assetClassMap[symbol] = toAssetClassCap(holding.assetClass);
+    if (holding.sector) sectorMap[symbol] = toSectorCap(holding.sector);
+  });
+  return { assetClassMap, sectorMap };
+};
+
+/**
+ * Group caps no symbol in the universe falls under, which the optimizer would silently ignore
+ * Returns a list of human-readable warnings (empty when every cap binds a symbol).
+ */
+export const getConstraintWarnings = (
+  constraints: OptimizationConstraints,
+  universe: string[],
+  holdings: Holding[]
+): string[] => {
+  const { assetClassMap, sectorMap } = mapSymbolsToCapGroups(constraints, universe, holdings);
+  const assetClasses = new Set(Object.values(assetClassMap));
+  const sectors = new Set(Object.values(sectorMap));
+
+  return [
+    ...Object.keys(constraints.assetClassCaps).filter(name => !assetClasses.has(name)),
+    ...Object.keys(constraints.sectorCaps).filter(name => !sectors.has(name)),
+  ].map(name => `No holdings are classified as ${name}, so its cap has no effect`);
+};
+
 export default optimizationSlice.reducer;
@@ -1,8 +1,29 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
 import { plaidApi } from '@/services/plaid-api';
 import { PORTFOLIO_ENDPOINTS } from '@/config/api';
-import { fetchWithAuth } from '@/services/api-utils';
-import { Sector } from '@/types/portfolio';
+import { fetchWithAuth, withPortfolioId } from '@/services/api-utils';
+import { GlidePath, Portfolio, PortfolioInput, Sector, ToleranceBandType } from '@/types/portfolio';
+import { normalizeDriftData } from '@/utils/drift';
+import type { RootState } from './index';
+
+/**
+ * localStorage key used to remember the selected portfolio across reloads
+ */
+const ACTIVE_PORTFOLIO_STORAGE_KEY = 'active_portfolio_id';
+
+const readStoredActivePortfolioId = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(ACTIVE_PORTFOLIO_STORAGE_KEY);
+};
+
+const storeActivePortfolioId = (portfolioId: string | null) => {
+  if (typeof window === 'undefined') return;
+  if (portfolioId) {
+    window.localStorage.setItem(ACTIVE_PORTFOLIO_STORAGE_KEY, portfolioId);
+  } else {
+    window.localStorage.removeItem(ACTIVE_PORTFOLIO_STORAGE_KEY);
+  }
+};
 
 /**
  * Type for a single holding in the portfolio
@@ -12,6 +33,9 @@ export interface Holding {
   shares: string;
   purchasePrice: number;
   assetClass: string;
+  currentPrice?: number;
+  marketValue?: number;
+  sector?: string;
 }
 
 /**
@@ -45,20 +69,30 @@ export interface AssetClass {
   description?: string;
   target_allocation?: number;
   current_allocation?: number;
+  band_type?: ToleranceBandType;
+  band_value?: number;
 }
 
 /**
  * Target allocation input type
+ * The tolerance band is saved alongside the target when one is set
  */
 export interface TargetAllocationInput {
   asset_id: string;
   target_percentage: number;
+  band_type?: ToleranceBandType;
+  band_value?: number;
 }
 
 /**
  * Portfolio state managed by Redux
  */
 export interface PortfolioState {
+  // All portfolios owned by the user and the one currently selected in the switcher
+  portfolios: Portfolio[];
+  activePortfolioId: string | null;
+  portfoliosLoading: boolean;
+  portfoliosError: string | null;
   holdings: Holding[];
   totalBalance: number;
   loading: boolean;
@@ -85,9 +119,17 @@ export interface PortfolioState {
   sectorsError: string | null;
   targetAllocationsLoading: boolean;
   targetAllocationsError: string | null;
+  // Glide-path targets for the active portfolio; null when it has none
+  glidePath: GlidePath | null;
+  glidePathLoading: boolean;
+  glidePathError: string | null;
 }
 
 const initialState: PortfolioState = {
+  portfolios: [],
+  activePortfolioId: null,
+  portfoliosLoading: false,
+  portfoliosError: null,
   holdings: [],
   totalBalance: 0,
   loading: false,
@@ -106,8 +148,87 @@ const initialState: PortfolioState = {
   sectorsError: null,
   targetAllocationsLoading: false,
   targetAllocationsError: null,
+  glidePath: null,
+  glidePathLoading: false,
+  glidePathError: null,
 };
 
+/**
+ * Async thunk to fetch all of the user's portfolios
+ * Restores the previously selected portfolio if it still exists, otherwise
+ * selects the default (or first) portfolio
+ */
+export const fetchPortfolios = createAsyncThunk(
+  'portfolio/fetchPortfolios',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      const portfolios = await portfolioApi.getPortfolios();
+
+      const currentId = (getState() as RootState).portfolio.activePortfolioId ?? readStoredActivePortfolioId();
+      const active = portfolios.find(p => p.id === currentId)
+        ?? portfolios.find(p => p.isDefault)
+        ?? portfolios[0];
+
+      return { portfolios, activePortfolioId: active?.id ?? null };
+    } catch (error) {
+      console.error('Portfolios fetch error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch portfolios');
+    }
+  }
+);
+
+/**
+ * Async thunk to create a new named portfolio
+ * @param input Portfolio name, description and type
+ */
+export const addPortfolio = createAsyncThunk(
+  'portfolio/addPortfolio',
+  async (input: PortfolioInput, { rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      return await portfolioApi.addPortfolio(input);
+    } catch (error) {
+      console.error('Portfolio create error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to create portfolio');
+    }
+  }
+);
+
+/**
+ * Async thunk to rename or otherwise update a portfolio
+ */
+export const updatePortfolio = createAsyncThunk(
+  'portfolio/updatePortfolio',
+  async ({ portfolioId, input }: { portfolioId: string; input: Partial<PortfolioInput> }, { rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      return await portfolioApi.updatePortfolio(portfolioId, input);
+    } catch (error) {
+      console.error('Portfolio update error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update portfolio');
+    }
+  }
+);
+
+/**
+ * Async thunk to delete a portfolio
+ * @param portfolioId ID of the portfolio to delete
+ */
+export const removePortfolio = createAsyncThunk(
+  'portfolio/removePortfolio',
+  async (portfolioId: string, { rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      await portfolioApi.deletePortfolio(portfolioId);
+      return portfolioId;
+    } catch (error) {
+      console.error('Portfolio delete error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete portfolio');
+    }
+  }
+);
+
 /**
  * Async thunk to fetch holdings and total balance for a linked account
  * @param connectionId The connectionId for the linked account
@@ -148,17 +269,37 @@ export const fetchHoldingsAndBalance = createAsyncThunk(
   }
 );
 
+/**
+ * Async thunk to fetch the holdings of the active portfolio
+ * Market value uses the current price when the backend provides one, otherwise the purchase price
+ */
+export const fetchPortfolioHoldings = createAsyncThunk(
+  'portfolio/fetchPortfolioHoldings',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      const portfolioId = (getState() as RootState).portfolio.activePortfolioId;
+      const holdings = await portfolioApi.getHoldings(portfolioId);
+      const totalBalance = holdings.reduce((sum, h) => sum + getHoldingMarketValue(h), 0);
+      return { holdings, totalBalance };
+    } catch (error) {
+      console.error('Portfolio holdings fetch error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch portfolio holdings');
+    }
+  }
+);
+
 /**
  * Async thunk to fetch available asset classes for the portfolio
  * Retrieves asset classes with their current allocations if available
  */
 export const fetchAssetClasses = createAsyncThunk(
   'portfolio/fetchAssetClasses',
-  async (_, { rejectWithValue }) => {
+  async (_, { getState, rejectWithValue }) => {
     try {
       // Use the portfolioApi to handle authentication consistently
       const { portfolioApi } = await import('../services/api');
-      return await portfolioApi.getAssetClasses();
+      return await portfolioApi.getAssetClasses((getState() as RootState).portfolio.activePortfolioId);
     } catch (error: any) {
       console.error('Asset classes fetch error:', error);
       const errorMessage = error?.message || 'Failed to fetch asset classes';
@@ -173,11 +314,11 @@ export const fetchAssetClasses = createAsyncThunk(
  */
 export const fetchSectors = createAsyncThunk(
   'portfolio/fetchSectors',
-  async (_, { rejectWithValue }) => {
+  async (_, { getState, rejectWithValue }) => {
     try {
       // Use the portfolioApi to handle authentication consistently
       const { portfolioApi } = await import('../services/api');
-      return await portfolioApi.getSectors();
+      return await portfolioApi.getSectors((getState() as RootState).portfolio.activePortfolioId);
     } catch (error: any) {
       console.error('Sectors fetch error:', error);
       const errorMessage = error?.message || 'Failed to fetch sectors';
@@ -192,11 +333,12 @@ export const fetchSectors = createAsyncThunk(
  */
 export const saveTargetAllocations = createAsyncThunk(
   'portfolio/saveTargetAllocations',
-  async (allocations: TargetAllocationInput[], { rejectWithValue }) => {
+  async (allocations: TargetAllocationInput[], { getState, rejectWithValue }) => {
     try {
       // Use the portfolioApi to handle authentication and CSRF consistently
       const { portfolioApi } = await import('../services/api');
-      return await portfolioApi.saveTargetAllocations(allocations);
+      const portfolioId = (getState() as RootState).portfolio.activePortfolioId;
+      return await portfolioApi.saveTargetAllocations(allocations, portfolioId);
     } catch (error: any) {
       console.error('Target allocation save error:', error);
       return rejectWithValue(error.message || 'Failed to save target allocations');
@@ -210,11 +352,12 @@ export const saveTargetAllocations = createAsyncThunk(
  */
 export const saveSectorTargetAllocations = createAsyncThunk(
   'portfolio/saveSectorTargetAllocations',
-  async (allocations: TargetAllocationInput[], { rejectWithValue }) => {
+  async (allocations: TargetAllocationInput[], { getState, rejectWithValue }) => {
     try {
       // Use the portfolioApi to handle authentication and CSRF consistently
       const { portfolioApi } = await import('../services/api');
-      return await portfolioApi.saveSectorTargetAllocations(allocations);
+      const portfolioId = (getState() as RootState).portfolio.activePortfolioId;
+      return await portfolioApi.saveSectorTargetAllocations(allocations, portfolioId);
     } catch (error: any) {
       console.error('Sector target allocation save error:', error);
       return rejectWithValue(error.message || 'Failed to save sector target allocations');
@@ -222,16 +365,51 @@ export const saveSectorTargetAllocations = createAsyncThunk(
   }
 );
 
+/**
+ * Async thunk to fetch the glide path for the portfolio
+ */
+export const fetchGlidePath = createAsyncThunk(
+  'portfolio/fetchGlidePath',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      return await portfolioApi.getGlidePath((getState() as RootState).portfolio.activePortfolioId);
+    } catch (error) {
+      console.error('Glide path fetch error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch glide path');
+    }
+  }
+);
+
+/**
+ * Async thunk to save the glide path for the portfolio
+ * @param glidePath Path definition that replaces the saved one
+ */
+export const saveGlidePath = createAsyncThunk(
+  'portfolio/saveGlidePath',
+  async (glidePath: GlidePath, { getState, rejectWithValue }) => {
+    try {
+      const { portfolioApi } = await import('../services/api');
+      const portfolioId = (getState() as RootState).portfolio.activePortfolioId;
+      return await portfolioApi.saveGlidePath(glidePath, portfolioId);
+    } catch (error) {
+      console.error('Glide path save error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to save glide path');
+    }
+  }
+);
+
 /**
  * Async thunk to fetch portfolio drift data
- * Uses the active user's portfolio (no ID parameter needed)
+ * Uses the portfolio selected in the switcher, or the user's default portfolio
  */
 export const fetchPortfolioDrift = createAsyncThunk(
   'portfolio/fetchDrift',
-  async (_, { rejectWithValue }) => {
+  async (_, { getState, rejectWithValue }) => {
     try {
+      const portfolioId = (getState() as RootState).portfolio.activePortfolioId;
       // Use fetchWithAuth to handle authentication consistently
-      const response = await fetchWithAuth(PORTFOLIO_ENDPOINTS.DRIFT) as any;
+      const response = await fetchWithAuth(withPortfolioId(PORTFOLIO_ENDPOINTS.DRIFT, portfolioId)) as any;
       
       // Check if this is a setup required response
       if (response.setup_required) {
@@ -263,9 +441,69 @@ export const fetchPortfolioDrift = createAsyncThunk(
 export const portfolioSlice = createSlice({
   name: 'portfolio',
   initialState,
-  reducers: {},
+  reducers: {
+    /**
+     * Switch the active portfolio and drop data loaded for the previous one
+     */
+    setActivePortfolio: (state, action: PayloadAction<string>) => {
+      if (state.activePortfolioId === action.payload) return;
+      state.activePortfolioId = action.payload;
+      storeActivePortfolioId(action.payload);
+      resetPortfolioScopedState(state);
+    },
+  },
   extraReducers: (builder) => {
     builder
+      // Portfolio list cases
+      .addCase(fetchPortfolios.pending, (state) => {
+        state.portfoliosLoading = true;
+        state.portfoliosError = null;
+      })
+      .addCase(fetchPortfolios.fulfilled, (state, action) => {
+        state.portfolios = action.payload.portfolios;
+        if (state.activePortfolioId !== action.payload.activePortfolioId) {
+          state.activePortfolioId = action.payload.activePortfolioId;
+          resetPortfolioScopedState(state);
+        }
+        storeActivePortfolioId(state.activePortfolioId);
+        state.portfoliosLoading = false;
+      })
+      .addCase(fetchPortfolios.rejected, (state, action) => {
+        state.portfoliosLoading = false;
+        state.portfoliosError = action.payload as string;
+      })
+      .addCase(addPortfolio.fulfilled, (state, action) => {
+        state.portfolios.push(action.payload);
+        // Switch to the new portfolio so the user can start populating it
+        state.activePortfolioId = action.payload.id;
+        storeActivePortfolioId(action.payload.id);
+        resetPortfolioScopedState(state);
+      })
+      .addCase(addPortfolio.rejected, (state, action) => {
+        state.portfoliosError = action.payload as string;
+      })
+      .addCase(updatePortfolio.fulfilled, (state, action) => {
+        const index = state.portfolios.findIndex(p => p.id === action.payload.id);
+        if (index !== -1) {
+          state.portfolios[index] = action.payload;
+        }
+      })
+      .addCase(updatePortfolio.rejected, (state, action) => {
+        state.portfoliosError = action.payload as string;
+      })
+      .addCase(removePortfolio.fulfilled, (state, action) => {
+        state.portfolios = state.portfolios.filter(p => p.id !== action.payload);
+        if (state.activePortfolioId === action.payload) {
+          const next = state.portfolios.find(p => p.isDefault) ?? state.portfolios[0];
+          state.activePortfolioId = next?.id ?? null;
+          storeActivePortfolioId(state.activePortfolioId);
+          resetPortfolioScopedState(state);
+        }
+      })
+      .addCase(removePortfolio.rejected, (state, action) => {
+        state.portfoliosError = action.payload as string;
+      })
+
       // Fetch holdings cases
       .addCase(fetchHoldingsAndBalance.pending, (state) => {
         state.loading = true;
@@ -286,6 +524,25 @@ export const portfolioSlice = createSlice({
         state.error = action.payload as string;
       })
       
+      // Fetch active portfolio holdings cases
+      .addCase(fetchPortfolioHoldings.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchPortfolioHoldings.fulfilled, (state, action) => {
+        state.holdings = action.payload.holdings.map(holding => ({
+          ...holding,
+          shares: holding.shares || '0',
+          assetClass: holding.assetClass || 'stocks'
+        }));
+        state.totalBalance = action.payload.totalBalance;
+        state.loading = false;
+      })
+      .addCase(fetchPortfolioHoldings.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      
       // Fetch drift data cases
       .addCase(fetchPortfolioDrift.pending, (state) => {
         state.driftLoading = true;
@@ -319,52 +576,8 @@ export const portfolioSlice = createSlice({
         // Ensure proper data structure for each category
         ['asset_class', 'sector', 'overall'].forEach(category => {
           if (processedData[category]) {
-            // Make sure each item has both current and target allocations
-            processedData[category].items = processedData[category].items.map((item: any) => {
-              // Extract raw allocation values (could be percentage points or 0-1 fractions)
-              const rawCurrent =
-                // Prefer camelCase but fall back to snake_case fields from backend
-                (item.currentAllocation ?? item.current_allocation ?? 0) as number;
-              const rawTarget =
-                (item.targetAllocation ?? item.target_allocation ?? 0) as number;
-
-              // Normalize allocations: backend may send fractions (0-1). Convert to percentages if so.
-              const normalize = (val: number): number => (val <= 1 ? val * 100 : val);
-              const currentPct = normalize(rawCurrent);
-              const targetPct = normalize(rawTarget);
-
-              // Calculate absolute drift in percentage points
-              const absoluteDrift = (item.absoluteDrift ?? item.absolute_drift) !== undefined
-                ? normalize(item.absoluteDrift ?? item.absolute_drift as number)
-                : currentPct - targetPct;
-
-              // Calculate relative drift as percent of target
-              const relativeDrift = (item.relativeDrift ?? item.relative_drift) !== undefined
-                ? (item.relativeDrift ?? item.relative_drift)
-                : (
-                    targetPct !== 0
-                      ? ((currentPct - targetPct) / targetPct) * 100
-                      : currentPct !== 0
-                        ? 100
-                        : 0
-                  );
-
-              return {
-                ...item,
-                currentAllocation: currentPct,
-                targetAllocation: targetPct,
-                absoluteDrift,
-                relativeDrift,
-              };
-            });
-            
-            // Calculate totalAbsoluteDrift as sum of absolute values of all absoluteDrift values
-            const totalAbsoluteDrift = processedData[category].items.reduce((sum: number, item: any) => {
-              return sum + Math.abs(item.absoluteDrift || 0);
-            }, 0);
-            
-            // Set the calculated totalAbsoluteDrift
-            processedData[category].totalAbsoluteDrift = totalAbsoluteDrift;
+            // Percentages for current/target allocations and drift, plus the total absolute drift
+            processedData[category] = normalizeDriftData(processedData[category]);
           }
         });
         
@@ -479,8 +692,139 @@ export const portfolioSlice = createSlice({
       .addCase(saveSectorTargetAllocations.rejected, (state, action) => {
         state.targetAllocationsLoading = false;
         state.targetAllocationsError = action.payload as string;
+      })
+
+      // Glide path cases
+      .addCase(fetchGlidePath.pending, (state) => {
+        state.glidePathLoading = true;
+        state.glidePathError = null;
+      })
+      .addCase(fetchGlidePath.fulfilled, (state, action) => {
+        state.glidePath = action.payload;
+        state.glidePathLoading = false;
+      })
+      .addCase(fetchGlidePath.rejected, (state, action) => {
+        state.glidePathLoading = false;
+        state.glidePathError = action.payload as string;
+      })
+      .addCase(saveGlidePath.fulfilled, (state, action) => {
+        state.glidePath = action.payload;
+        state.glidePathError = null;
+      })
+      .addCase(saveGlidePath.rejected, (state, action) => {
+        state.glidePathError = action.payload as string;
       });
   },
 });
 
+export const { setActivePortfolio } = portfolioSlice.actions;
+
 export default portfolioSlice.reducer;
+
+/**
+ * Clear data that belongs to a specific portfolio so stale values are never
+ * shown after switching portfolios
+ */
+function resetPortfolioScopedState(state: PortfolioState) {
+  state.holdings = [];
+  state.totalBalance = 0;
+  state.driftData = {};
+  state.driftError = null;
+  state.driftSetupRequired = false;
+  state.driftSetupMessage = null;
+  state.currentAllocations = {};
+  state.assetClasses = [];
+  state.sectors = [];
+  state.glidePath = null;
+  state.glidePathError = null;
+}
+
+/**
+ * Market value of a holding: cash is its quantity, securities use the current
+ * price when known and fall back to the purchase price
+ */
+export function getHoldingMarketValue(holding: Pick<Holding, 'symbol' | 'shares' | 'purchasePrice' | 'currentPrice' | 'marketValue'>): number {
+  const shares = parseFloat(holding.shares || '0');
+  if (holding.symbol === 'CASH') {
+    return shares;
+  }
+  if (holding.marketValue !== undefined && holding.marketValue !== null) {
+    return Number(holding.marketValue);
+  }
+  return shares * (holding.currentPrice ?? holding.purchasePrice ?? 0);
+}
+
+// Selectors
+export const selectPortfolios = (state: RootState) => state.portfolio.portfolios;
+export const selectActivePortfolioId = (state: RootState) => state.portfolio.activePortfolioId;
+
+export const selectHoldings = (state: RootState) => state.portfolio.holdings;
+
+/**
+ * Current weight of each non-cash holding as a decimal (sums to 1 across securities)
+ */
+export const selectHoldingWeights = createSelector(
+  [selectHoldings],
+  (holdings) => {
+    const values: Record<string, number> = {};
+    holdings.forEach(holding => {
+      if (holding.symbol === 'CASH') return;
+      const symbol = holding.symbol.toUpperCase();
+      values[symbol] = (values[symbol] ?? 0) + getHoldingMarketValue(holding);
+    });
+    const total = Object.values(values).reduce((sum, value) => sum + value, 0);
+    const weights: Record<string, number> = {};
+    Object.entries(values).forEach(([symbol, value]) => {
+      weights[symbol] = total > 0 ? value / total : 0;
+    });
+    return weights;
+  }
+);
+
+/**
+ * Target allocation expressed as symbol weights (decimals summing to 1).
+ * Each asset class target is split across the holdings in that class pro rata
+ * by market value. Returns null when no asset class targets are saved.
+ */
+export const selectTargetHoldingWeights = createSelector(
+  [selectHoldings, (state: RootState) => state.portfolio.assetClasses],
+  (holdings, assetClasses) => {
+    const targets: Record<string, number> = {};
+    assetClasses.forEach(assetClass => {
+      if (assetClass.target_allocation) {
+        targets[assetClass.name.toLowerCase()] = assetClass.target_allocation;
+      }
+    });
+    if (Object.keys(targets).length === 0) return null;
+
+    const classValues: Record<string, number> = {};
+    holdings.forEach(holding => {
+      if (holding.symbol === 'CASH') return;
+      const assetClass = (holding.assetClass || '').toLowerCase();
+      classValues[assetClass] = (classValues[assetClass] ?? 0) + getHoldingMarketValue(holding);
+    });
+
+    const weights: Record<string, number> = {};
+    holdings.forEach(holding => {
+      if (holding.symbol === 'CASH') return;
+      const assetClass = (holding.assetClass || '').toLowerCase();
+      const target = targets[assetClass];
+      const classValue = classValues[assetClass];
+      if (!target || !classValue) return;
+      const symbol = holding.symbol.toUpperCase();
+      weights[symbol] = (weights[symbol] ?? 0) + target * (getHoldingMarketValue(holding) / classValue);
+    });
+
+    const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) return null;
+    Object.keys(weights).forEach(symbol => {
+      weights[symbol] = weights[symbol] / total;
+    });
+    return weights;
+  }
+);
+
+export const selectActivePortfolio = createSelector(
+  [selectPortfolios, selectActivePortfolioId],
+  (portfolios, activePortfolioId) => portfolios.find(p => p.id === activePortfolioId) ?? null
+);
@@ -1,4 +1,4 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 
 /**
  * Market region settings interface
@@ -29,6 +29,8 @@ export interface TaxSettings {
 export interface PreferencesState {
   marketRegion: MarketRegionSettings;
   tax: TaxSettings;
+  // True once preferences have been loaded from the backend
+  loaded: boolean;
   loading: boolean;
   error: string | null;
 }
@@ -49,10 +51,29 @@ const initialState: PreferencesState = {
     longTermCapitalGainsTax: 15,
     shortTermCapitalGainsTax: 22,
   },
+  loaded: false,
   loading: false,
   error: null,
 };
 
+/**
+ * Async thunk to load user preferences from the backend
+ * Pages that depend on preferences (optimizer, tax estimates) dispatch this
+ * when the preferences page hasn't been visited yet
+ */
+export const loadPreferences = createAsyncThunk(
+  'preferences/load',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { preferencesApi } = await import('../services/api');
+      return await preferencesApi.getPreferences();
+    } catch (error) {
+      console.error('Preferences load error:', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load preferences');
+    }
+  }
+);
+
 /**
  * Preferences slice for Redux store
  */
@@ -80,6 +101,7 @@ const preferencesSlice = createSlice({
     updateAllPreferences: (state, action: PayloadAction<{marketRegion: MarketRegionSettings, tax: TaxSettings}>) => {
       state.marketRegion = action.payload.marketRegion;
       state.tax = action.payload.tax;
+      state.loaded = true;
     },
     
     /**
@@ -96,6 +118,23 @@ const preferencesSlice = createSlice({
       state.error = action.payload;
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadPreferences.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(loadPreferences.fulfilled, (state, action) => {
+        state.marketRegion = action.payload.marketRegion;
+        state.tax = action.payload.tax;
+        state.loaded = true;
+        state.loading = false;
+      })
+      .addCase(loadPreferences.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+  },
 });
 
 export const { 
@@ -3,11 +3,15 @@
  * Contains type definitions for alert-related data
  */
 
+import { NotificationPriority } from './notifications';
+
 // Alert Status Enum (matches backend)
 export enum AlertStatus {
   ACTIVE = "active",
   PAUSED = "paused",
   DELETED = "deleted",
+  SNOOZED = "snoozed", // Active, but triggers are muted until snoozed_until
+  ESCALATED = "escalated", // Active with a trigger left unresolved past the escalation window
 }
 
 // Alert Frequency Enum (matches backend)
@@ -31,6 +35,7 @@ export enum ConditionType {
   PERFORMANCE = "performance",
   VOLUME = "volume",
   NEWS = "news",
+  COMPOSITE = "composite",
 }
 
 // Alert Action Types (matches backend)
@@ -63,6 +68,35 @@ export interface AlertRuleResponse {
   last_checked?: string;
   portfolio?: string;
   account?: string;
+  actions?: AlertActionResponse[]; // Older backends only send action_type/action_config
+  snoozed_until?: string | null;
+  cooldown_minutes?: number | null;
+  escalation_policy?: AlertEscalationPolicyResponse | null;
+  escalated_at?: string | null;
+}
+
+// Raise the priority and notify on one more channel when a trigger stays unresolved
+export interface AlertEscalationPolicyResponse {
+  after_hours: number;
+  priority: string;
+  add_channel?: string | null;
+}
+
+// A rule runs its actions in order when it triggers
+export interface AlertActionResponse {
+  id: string;
+  action_type: string;
+  action_config: Record<string, ConfigValue>;
+  order: number;
+}
+
+// Result of a "send test event" request for one action
+export interface AlertActionTestResponse {
+  success: boolean;
+  status_code?: number | null;
+  response_body?: string | null;
+  error?: string | null;
+  duration_ms?: number | null;
 }
 
 export interface AlertHistoryResponse {
@@ -75,6 +109,15 @@ export interface AlertHistoryResponse {
   action_results: Record<string, ConfigValue>;
 }
 
+// Alert event pushed over the alert event stream
+export type AlertEventType = "alert_triggered" | "alert_resolved" | "alert_escalated";
+
+export interface AlertEventResponse {
+  type: AlertEventType;
+  alert_rule: AlertRuleResponse;
+  history?: AlertHistoryResponse;
+}
+
 // Frontend Types (camelCase for React components)
 export interface AlertRule {
   id: string;
@@ -93,6 +136,49 @@ export interface AlertRule {
   lastChecked?: string;
   portfolioId?: string;
   accountId?: string;
+  /** Condition type sent by the backend when this client does not know it; conditionType is CUSTOM then */
+  unknownConditionType?: string;
+  /** Ordered actions; actionType/actionConfig mirror the first one */
+  actions: AlertAction[];
+  /** Triggers are muted until this time; status is SNOOZED meanwhile */
+  snoozedUntil?: string;
+  /** Minimum time between two triggers of this rule */
+  cooldownMinutes?: number;
+  escalation?: AlertEscalationPolicy;
+  /** When the latest unresolved trigger was escalated; status is ESCALATED meanwhile */
+  escalatedAt?: string;
+}
+
+export interface AlertEscalationPolicy {
+  /** Hours a trigger may stay unresolved before it escalates */
+  afterHours: number;
+  priority: NotificationPriority;
+  /** Extra channel notified on escalation, on top of the rule's own actions */
+  addChannel?: ActionType;
+}
+
+export interface AlertAction {
+  id: string;
+  actionType: ActionType;
+  config: Record<string, ConfigValue>;
+}
+
+// Outcome of one action when a rule triggered, parsed from action_results
+export interface AlertActionResult {
+  actionId?: string;
+  actionType: ActionType | string;
+  success: boolean;
+  message?: string;
+  statusCode?: number;
+  executedAt?: string;
+}
+
+export interface AlertActionTestResult {
+  success: boolean;
+  statusCode?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
 }
 
 export interface AlertHistory {
@@ -103,10 +189,12 @@ export interface AlertHistory {
   wasTriggered: boolean;
   contextData: ConfigObject;
   actionResults: ConfigObject;
+  /** Per-action outcomes parsed from actionResults */
+  actionOutcomes: AlertActionResult[];
 }
 
 // Base configuration types
-export type ConfigValue = string | number | boolean | null | string[] | number[] | ConfigObject;
+export type ConfigValue = string | number | boolean | null | string[] | number[] | ConfigObject | ConfigObject[];
 export interface ConfigObject {
   [key: string]: ConfigValue;
 }
@@ -128,6 +216,158 @@ export interface AssetClassDriftConditionConfig extends DriftConditionConfig {
   excludedAssetClasses?: string[]; // Asset classes to exclude from drift calculation
 }
 
+// Condition configs as stored in conditionConfig by the alert rule form, one per condition type
+// (the portfolio is stored on the rule itself, not in the config)
+export type DriftRuleConditionConfig = {
+  thresholdPercent: number;
+  driftType: 'absolute' | 'relative';
+  sectorId?: string;
+  assetClassId?: string;
+  /** Check each item against the tolerance band saved with its target; thresholdPercent covers items without one */
+  useToleranceBands?: boolean;
+};
+
+export type PriceMovementConditionConfig = {
+  symbol: string;
+  threshold_pct: number; // Stored under the backend's key, read by the notification service
+  direction: 'up' | 'down' | 'either';
+  lookbackDays: number;
+};
+
+export type CashIdleConditionConfig = {
+  threshold_amount: number; // Stored under the backend's key, read by the notification service
+  idleDays: number;
+};
+
+export type VolatilityConditionConfig = {
+  symbol?: string; // Portfolio volatility when omitted
+  thresholdPercent: number; // Annualized volatility
+  windowDays: number;
+};
+
+export type DividendConditionConfig = {
+  symbol?: string; // Any holding when omitted
+  event: 'announced' | 'ex_date' | 'paid';
+  daysBefore: number;
+};
+
+export type PerformanceConditionConfig = {
+  metric: 'return' | 'drawdown' | 'benchmark_excess';
+  direction: 'above' | 'below';
+  thresholdPercent: number;
+  period: '1D' | '1W' | '1M' | '3M' | 'YTD' | '1Y';
+};
+
+export type VolumeConditionConfig = {
+  symbol: string;
+  multipleOfAverage: number;
+  averageDays: number;
+};
+
+export type NewsConditionConfig = {
+  symbols: string[]; // Holdings when empty
+  keywords: string[];
+};
+
+export type CustomConditionConfig = {
+  expression: string;
+  description?: string;
+};
+
+// Composite conditions combine other conditions in an AND/OR tree stored as condition_config
+export type ConditionLogicOperator = 'and' | 'or';
+
+// Node ids are stable across edits and let trigger context report which conditions matched
+export type ConditionLeaf = {
+  id: string;
+  kind: 'condition';
+  conditionType: ConditionType; // Any type except COMPOSITE; nesting uses groups
+  config: Record<string, ConfigValue>;
+};
+
+export type ConditionGroup = {
+  id: string;
+  kind: 'group';
+  operator: ConditionLogicOperator;
+  conditions: ConditionNode[];
+};
+
+export type ConditionNode = ConditionLeaf | ConditionGroup;
+
+export type CompositeConditionConfig = ConditionGroup;
+
+export type ConditionConfigMap = {
+  [ConditionType.DRIFT]: DriftRuleConditionConfig;
+  [ConditionType.SECTOR_DRIFT]: DriftRuleConditionConfig;
+  [ConditionType.ASSET_CLASS_DRIFT]: DriftRuleConditionConfig;
+  [ConditionType.PRICE_MOVEMENT]: PriceMovementConditionConfig;
+  [ConditionType.CASH_IDLE]: CashIdleConditionConfig;
+  [ConditionType.VOLATILITY]: VolatilityConditionConfig;
+  [ConditionType.DIVIDEND]: DividendConditionConfig;
+  [ConditionType.PERFORMANCE]: PerformanceConditionConfig;
+  [ConditionType.VOLUME]: VolumeConditionConfig;
+  [ConditionType.NEWS]: NewsConditionConfig;
+  [ConditionType.CUSTOM]: CustomConditionConfig;
+  [ConditionType.COMPOSITE]: CompositeConditionConfig;
+};
+
+// Action configs stored in each action's config, one per action type
+export type NotificationActionConfig = {
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+};
+
+export type EmailActionConfig = {
+  recipients: string[]; // Account email when empty
+  subject?: string;
+};
+
+export type InAppActionConfig = {
+  message?: string;
+};
+
+export type SuggestRebalanceActionConfig = {
+  minTradeAmount: number;
+};
+
+export type CreateTaskActionConfig = {
+  title: string;
+  dueInDays: number;
+};
+
+export type LogToJournalActionConfig = {
+  tags: string[];
+  note?: string;
+};
+
+export type WebhookHeader = {
+  name: string;
+  value: string;
+};
+
+export type WebhookActionConfig = {
+  url: string;
+  method: 'POST' | 'PUT';
+  headers: WebhookHeader[];
+  payloadTemplate: string;
+  /** Write-only: omit to keep the stored secret, null to remove it */
+  signingSecret?: string | null;
+  /** Read-only flag from the backend; the secret itself is never returned */
+  hasSigningSecret?: boolean;
+};
+
+export type ExecuteTradeActionConfig = Record<string, ConfigValue>;
+
+export type ActionConfigMap = {
+  [ActionType.NOTIFICATION]: NotificationActionConfig;
+  [ActionType.EMAIL]: EmailActionConfig;
+  [ActionType.IN_APP]: InAppActionConfig;
+  [ActionType.SUGGEST_REBALANCE]: SuggestRebalanceActionConfig;
+  [ActionType.CREATE_TASK]: CreateTaskActionConfig;
+  [ActionType.LOG_TO_JOURNAL]: LogToJournalActionConfig;
+  [ActionType.WEBHOOK]: WebhookActionConfig;
+  [ActionType.EXECUTE_TRADE]: ExecuteTradeActionConfig;
+};
+
 // Alert input types (for creating/updating alerts)
 export interface AlertRuleInput {
   name: string;
@@ -138,8 +378,12 @@ export interface AlertRuleInput {
   conditionConfig: Record<string, ConfigValue>;
   actionType: ActionType;
   actionConfig: Record<string, ConfigValue>;
+  actions?: AlertAction[];
   portfolioId?: string;
   accountId?: string;
+  /** null clears the policy */
+  cooldownMinutes?: number | null;
+  escalation?: AlertEscalationPolicy | null;
 }
 
 // Legacy alert interfaces (preserved for backward compatibility)
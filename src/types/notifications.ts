@@ -36,6 +36,55 @@ export interface Notification {
   actionLabel?: string;
 }
 
+// API Response Types (snake_case as returned from backend)
+export interface NotificationResponse {
+  id: string;
+  type: string;
+  priority: string;
+  title: string;
+  message: string;
+  created_at: string;
+  is_read: boolean;
+  read_at?: string | null;
+  alert_rule?: string | null;
+  portfolio?: string | null;
+  data?: Record<string, unknown>;
+  action_url?: string | null;
+  action_label?: string | null;
+}
+
+/**
+ * One page of notifications, newest first
+ * next_cursor is null on the last page; sync_cursor marks the server state at the time of the request
+ */
+export interface NotificationListResponse {
+  results: NotificationResponse[];
+  next_cursor: string | null;
+  sync_cursor: string;
+}
+
+/**
+ * Changes since a sync cursor: created or updated notifications (including read state
+ * changed on other devices) and the IDs of deleted ones
+ */
+export interface NotificationSyncResponse {
+  results: NotificationResponse[];
+  deleted_ids: string[];
+  sync_cursor: string;
+}
+
+export interface NotificationPage {
+  notifications: Notification[];
+  nextCursor: string | null;
+  syncCursor: string;
+}
+
+export interface NotificationChanges {
+  notifications: Notification[];
+  deletedIds: string[];
+  syncCursor: string;
+}
+
 export interface NotificationStats {
   total: number;
   unread: number;
@@ -60,4 +109,37 @@ export interface NotificationPreferences {
   systemNotifications: boolean;
   quietHoursStart?: string;
   quietHoursEnd?: string;
+  // IANA timezone the quiet hours are expressed in (e.g. "America/New_York")
+  timezone?: string;
+}
+
+export interface NotificationPreferencesResponse {
+  email_notifications: boolean;
+  push_notifications: boolean;
+  in_app_notifications: boolean;
+  alert_notifications: boolean;
+  portfolio_notifications: boolean;
+  system_notifications: boolean;
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  timezone?: string | null;
+}
+
+// Browser registered for Web Push
+export interface PushDeviceResponse {
+  id: string;
+  endpoint: string;
+  device_name: string;
+  user_agent?: string;
+  created_at: string;
+  last_used_at?: string | null;
+}
+
+export interface PushDevice {
+  id: string;
+  endpoint: string;
+  deviceName: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt?: string;
 }
@@ -3,8 +3,25 @@
  * Contains type definitions for portfolio data
  */
 
+/**
+ * Kind of portfolio, used to group and label portfolios in the switcher
+ */
+export type PortfolioType = 'taxable' | 'ira' | 'roth_ira' | '401k' | 'household' | 'other';
+
 // API Response Types (snake_case as returned from backend)
+export interface PortfolioResponse {
+  id: string | number;
+  name: string;
+  description?: string;
+  portfolio_type?: PortfolioType;
+  is_default?: boolean;
+  total_value?: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface PortfolioSummaryResponse {
+  portfolio_id?: string | number;
   total_value: number;
   total_cost: number;
   total_gain: number;
@@ -34,7 +51,28 @@ export interface PortfolioSummaryResponse {
 }
 
 // Frontend Types (camelCase for React components)
+export interface Portfolio {
+  id: string;
+  name: string;
+  description?: string;
+  portfolioType?: PortfolioType;
+  isDefault?: boolean;
+  totalValue?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Input for creating or updating a portfolio
+ */
+export interface PortfolioInput {
+  name: string;
+  description?: string;
+  portfolioType?: PortfolioType;
+}
+
 export interface PortfolioSummary {
+  portfolioId?: string;
   totalValue: number;
   totalCost: number;
   totalGain: number;
@@ -68,6 +106,21 @@ export interface PerformanceData {
   value: number;
 }
 
+/**
+ * External cash flow into or out of the portfolio (from linked account transactions)
+ * Positive amounts are contributions, negative amounts are withdrawals.
+ * Dividends and trades inside the portfolio are not external flows.
+ */
+export type CashFlowType = 'deposit' | 'withdrawal' | 'transfer_in' | 'transfer_out' | 'fee' | 'other';
+
+export interface CashFlowEvent {
+  date: string;
+  amount: number;
+  type: CashFlowType;
+  accountId?: string;
+  description?: string;
+}
+
 export interface AssetAllocation {
   category: string;
   percentage: number;
@@ -75,6 +128,98 @@ export interface AssetAllocation {
   color?: string;
 }
 
+/**
+ * Rebalancing band around a sleeve's target weight
+ * - absolute: +/- value percentage points
+ * - relative: +/- value percent of the target weight
+ * - five_twenty_five: the tighter of +/- 5 points and +/- 25% of the target weight
+ */
+export type ToleranceBandType = 'absolute' | 'relative' | 'five_twenty_five';
+
+export interface ToleranceBand {
+  type: ToleranceBandType;
+  /** Points for absolute bands, percent of target for relative bands; unused by 5/25 */
+  value: number;
+}
+
+/**
+ * One sleeve of an allocation model, keyed by asset class or sector name
+ */
+export interface AllocationModelTarget {
+  name: string;
+  targetPercentage: number;
+  band?: ToleranceBand;
+}
+
+/**
+ * Named set of target allocations that can be applied to any portfolio
+ * Built-in templates have ids starting with "template:"; user-saved models come from the backend.
+ */
+export interface AllocationModel {
+  id: string;
+  name: string;
+  description?: string;
+  category: 'asset_class' | 'sector';
+  targets: AllocationModelTarget[];
+  createdAt?: string;
+}
+
+export interface AllocationModelResponse {
+  id: string | number;
+  name: string;
+  description?: string | null;
+  category: 'asset_class' | 'sector';
+  targets: {
+    name: string;
+    target_percentage: number;
+    band_type?: ToleranceBandType | null;
+    band_value?: number | null;
+  }[];
+  created_at?: string;
+}
+
+/**
+ * Glide paths are keyed either by calendar date or by the investor's age
+ */
+export type GlidePathKeyType = 'date' | 'age';
+
+/**
+ * Targets at one point of a glide path; targets between points are interpolated
+ */
+export interface GlidePathPoint {
+  /** YYYY-MM-DD, for date-keyed paths */
+  date?: string;
+  /** Investor age in years, for age-keyed paths */
+  age?: number;
+  /** Target percentage by asset class or sector name */
+  targets: Record<string, number>;
+}
+
+/**
+ * Target allocations that shift over time for one portfolio
+ * While enabled, the targets for today replace the saved static targets in drift calculations.
+ */
+export interface GlidePath {
+  enabled: boolean;
+  category: 'asset_class' | 'sector';
+  keyType: GlidePathKeyType;
+  /** Investor birth date (YYYY-MM-DD), required for age-keyed paths */
+  birthDate?: string;
+  points: GlidePathPoint[];
+}
+
+export interface GlidePathResponse {
+  enabled: boolean;
+  category: 'asset_class' | 'sector';
+  key_type: GlidePathKeyType;
+  birth_date?: string | null;
+  points: {
+    date?: string | null;
+    age?: number | null;
+    targets: Record<string, number>;
+  }[];
+}
+
 /**
  * Sector information for target allocations
  */
@@ -84,6 +229,8 @@ export interface Sector {
   description?: string;
   target_allocation?: number;
   current_allocation?: number;
+  band_type?: ToleranceBandType;
+  band_value?: number;
 }
 
 export interface AllocationResponse {
@@ -113,6 +260,9 @@ export interface HoldingInput {
 export interface Holding extends HoldingInput {
   shares: string;
   assetClass: string;
+  currentPrice?: number;
+  marketValue?: number;
+  sector?: string;
 }
 
 // Drift data types
@@ -132,6 +282,16 @@ export interface DriftData {
   items: DriftItem[];
 }
 
+/**
+ * Drift snapshot for one day, as stored by the backend
+ */
+export interface DriftHistoryPoint {
+  date: string;
+  overall?: DriftData;
+  asset_class?: DriftData;
+  sector?: DriftData | null;
+}
+
 // Backend Drift Response
 export interface DriftResponse {
   overall?: DriftData;
@@ -27,6 +27,16 @@ export interface TaxLossOpportunity {
   accountName: string;
 }
 
+// An open tax lot - the lots behind TaxLossOpportunity.lotCount
+export interface TaxLot {
+  lotId: string;
+  symbol: string;
+  quantity: number;
+  costBasisPerShare: number;
+  purchaseDate: string;
+  accountType?: string;
+}
+
 // Structure for replacement security suggestions
 export interface SimilarSecurity {
   symbol: string;
@@ -0,0 +1,219 @@
+/**
+ * Client-side drift alert evaluation
+ * Dry-runs a draft alert rule against current drift data and backtests it over
+ * daily drift snapshots, mirroring how the backend checks drift conditions.
+ */
+import { AlertFrequency, AlertRuleInput, ConditionType } from '@/types/alerts';
+import { DriftData, DriftHistoryPoint, DriftItem, DriftResponse } from '@/types/portfolio';
+import { buildToleranceBandMap, getSleeveToleranceBand, getToleranceBandWidth } from './toleranceBands';
+
+type NamedOption = { id: string; name: string };
+
+export interface DriftRuleBreach {
+  name: string;
+  currentAllocation: number;
+  targetAllocation: number;
+  /** Drift measured the way the rule is configured (absolute points or relative %) */
+  drift: number;
+  /** Allowed absolute drift in points when the item was checked against its tolerance band */
+  bandWidth?: number;
+}
+
+export interface DriftRuleEvaluation {
+  /** Drift category the rule reads from, null when that category has no data */
+  category: 'overall' | 'asset_class' | 'sector' | null;
+  thresholdPercent: number;
+  driftType: 'absolute' | 'relative';
+  /** Items with a saved tolerance band are checked against it instead of thresholdPercent */
+  useToleranceBands: boolean;
+  /** Items in scope for the rule, with their drift */
+  items: DriftRuleBreach[];
+  breaches: DriftRuleBreach[];
+}
+
+export interface DriftBacktestPoint {
+  date: string;
+  /** Largest in-scope drift (absolute value) on that day */
+  maxDrift: number;
+  /** Whether a check ran on that day under the rule's frequency */
+  checked: boolean;
+  fired: boolean;
+}
+
+export interface DriftBacktestResult {
+  series: DriftBacktestPoint[];
+  checks: number;
+  fires: number;
+  /** Runs of consecutive firing checks, counted once each */
+  episodes: number;
+  fireDates: string[];
+}
+
+// Sentinel values the drift alert form uses for "no specific sector/asset class"
+const ALL_SECTORS = 'all_sectors';
+const ALL_ASSET_CLASSES = 'all_asset_classes';
+
+type DriftSource = Pick<DriftResponse, 'overall' | 'asset_class' | 'sector'> | DriftHistoryPoint;
+
+/**
+ * Pick the drift category a condition type reads from
+ * Overall drift falls back to asset class drift, which is how the backend reports it
+ */
+function selectCategory(
+  conditionType: ConditionType,
+  drift: DriftSource
+): { category: DriftRuleEvaluation['category']; data: DriftData | null } {
+  switch (conditionType) {
+    case ConditionType.SECTOR_DRIFT:
+      return drift.sector ? { category: 'sector', data: drift.sector } : { category: null, data: null };
+    case ConditionType.ASSET_CLASS_DRIFT:
+      return drift.asset_class ? { category: 'asset_class', data: drift.asset_class } : { category: null, data: null };
+    case ConditionType.DRIFT:
+    default:
+      if (drift.overall) return { category: 'overall', data: drift.overall };
+      if (drift.asset_class) return { category: 'asset_class', data: drift.asset_class };
+      return { category: null, data: null };
+  }
+}
+
+/**
+ * Name of the single sector or asset class a rule is limited to, if any
+ */
+function scopedName(
+  rule: AlertRuleInput,
+  options: { sectors?: NamedOption[]; assetClasses?: NamedOption[] }
+): string | null {
+  const config = rule.conditionConfig;
+  if (rule.conditionType === ConditionType.SECTOR_DRIFT) {
+    const sectorId = config.sectorId as string | undefined;
+    if (!sectorId || sectorId === ALL_SECTORS) return null;
+    return options.sectors?.find(s => String(s.id) === sectorId)?.name ?? sectorId;
+  }
+  if (rule.conditionType === ConditionType.ASSET_CLASS_DRIFT) {
+    const assetClassId = config.assetClassId as string | undefined;
+    if (!assetClassId || assetClassId === ALL_ASSET_CLASSES) return null;
+    return options.assetClasses?.find(a => String(a.id) === assetClassId)?.name ?? assetClassId;
+  }
+  return null;
+}
+
+const toBreach = (item: DriftItem, driftType: 'absolute' | 'relative', bandWidth?: number): DriftRuleBreach => ({
+  name: item.name,
+  currentAllocation: item.currentAllocation,
+  targetAllocation: item.targetAllocation,
+  drift: driftType === 'relative' ? item.relativeDrift : item.absoluteDrift,
+  ...(bandWidth !== undefined && { bandWidth }),
+});
+
+/**
+ * Evaluate a drift alert rule against one drift snapshot
+ * With useToleranceBands, an item that has a band saved with its target breaches when its
+ * absolute drift leaves the band; other items fall back to thresholdPercent.
+ * @param rule - Draft or saved rule; conditionConfig holds thresholdPercent, driftType and optional sectorId/assetClassId
+ * @param drift - Normalized drift data (percentage points)
+ * @param options - Sectors and asset classes used to resolve scoped ids to item names and look up saved bands
+ * @returns In-scope items and the ones whose drift magnitude exceeds the threshold or band
+ */
+export function evaluateDriftRule(
+  rule: AlertRuleInput,
+  drift: DriftSource,
+  options: { sectors?: NamedOption[]; assetClasses?: NamedOption[] } = {}
+): DriftRuleEvaluation {
+  const thresholdPercent = Number(rule.conditionConfig.thresholdPercent) || 0;
+  const driftType = rule.conditionConfig.driftType === 'relative' ? 'relative' : 'absolute';
+  const { category, data } = selectCategory(rule.conditionType, drift);
+
+  const useToleranceBands = Boolean(rule.conditionConfig.useToleranceBands);
+  const bands = useToleranceBands
+    ? buildToleranceBandMap((category === 'sector' ? options.sectors : options.assetClasses) ?? [])
+    : {};
+
+  const name = scopedName(rule, options);
+  const items = (data?.items ?? [])
+    .filter(item => !name || item.name.toLowerCase() === name.toLowerCase())
+    .map(item => {
+      const band = getSleeveToleranceBand(bands, item.name);
+      return toBreach(item, driftType, band ? getToleranceBandWidth(band, item.targetAllocation) : undefined);
+    });
+
+  return {
+    category,
+    thresholdPercent,
+    driftType,
+    useToleranceBands,
+    items,
+    breaches: items
+      .filter(item => item.bandWidth !== undefined
+        ? Math.abs(item.currentAllocation - item.targetAllocation) > item.bandWidth
+        : Math.abs(item.drift) > thresholdPercent)
+      .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift)),
+  };
+}
+
+/**
+ * Key identifying the check window a date falls in for a given frequency
+ * Immediate and daily rules are checked against every daily snapshot
+ */
+const checkKey = (date: string, frequency: AlertFrequency): string => {
+  // Snapshot dates are calendar days, so bucket them in UTC rather than the browser's time zone
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  switch (frequency) {
+    case AlertFrequency.WEEKLY: {
+      // Weeks start on Monday
+      const monday = new Date(d);
+      monday.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+      return monday.toISOString().slice(0, 10);
+    }
+    case AlertFrequency.MONTHLY:
+      return `${d.getUTCFullYear()}-${d.getUTCMonth()}`;
+    case AlertFrequency.IMMEDIATE:
+    case AlertFrequency.DAILY:
+    default:
+      return date.slice(0, 10);
+  }
+};
+
+/**
+ * Replay a drift alert rule over daily drift snapshots
+ * The first snapshot of each check window is evaluated, so weekly and monthly
+ * rules only see the drift present on their check day.
+ * @param rule - Draft or saved rule
+ * @param history - Daily drift snapshots, oldest first
+ * @param options - Sectors and asset classes used to resolve scoped ids to item names
+ */
+export function backtestDriftRule(
+  rule: AlertRuleInput,
+  history: DriftHistoryPoint[],
+  options: { sectors?: NamedOption[]; assetClasses?: NamedOption[] } = {}
+): DriftBacktestResult {
+  const frequency = rule.frequency ?? AlertFrequency.IMMEDIATE;
+  const series: DriftBacktestPoint[] = [];
+  const fireDates: string[] = [];
+  let lastKey: string | null = null;
+  let checks = 0;
+  let episodes = 0;
+  let previousFired = false;
+
+  for (const point of history) {
+    const evaluation = evaluateDriftRule(rule, point, options);
+    const maxDrift = evaluation.items.reduce((max, item) => Math.max(max, Math.abs(item.drift)), 0);
+
+    const key = checkKey(point.date, frequency);
+    const checked = key !== lastKey;
+    lastKey = key;
+
+    const fired = checked && evaluation.breaches.length > 0;
+    if (checked) {
+      checks++;
+      if (fired) {
+        fireDates.push(point.date);
+        if (!previousFired) episodes++;
+      }
+      previousFired = fired;
+    }
+
+    series.push({ date: point.date, maxDrift, checked, fired });
+  }
+
+  return { series, checks, fires: fireDates.length, episodes, fireDates };
+}
@@ -0,0 +1,146 @@
+/**
+ * Alert history analytics
+ * Filters trigger history and derives trigger frequency and resolution times for
+ * the alert history page.
+ */
+import { AlertHistory, ConfigObject, ConfigValue } from '@/types/alerts';
+import { DriftItem } from '@/types/portfolio';
+import { normalizeDriftItem } from './drift';
+
+export type AlertHistoryStatusFilter = 'all' | 'open' | 'resolved';
+
+export interface AlertHistoryFilters {
+  /** Only items for these rules; empty for every rule */
+  alertRuleIds: string[];
+  status: AlertHistoryStatusFilter;
+  /** Only items triggered at or after this time */
+  since?: Date;
+}
+
+export interface ResolutionStats {
+  total: number;
+  open: number;
+  resolved: number;
+  /** Mean time to resolve in milliseconds, null when nothing was resolved */
+  meanTimeToResolve: number | null;
+  medianTimeToResolve: number | null;
+}
+
+export interface DriftContextItem extends DriftItem {
+  /** contextData key the item was read from, e.g. "breaches" */
+  source: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time from trigger to resolution in milliseconds, null while unresolved
+ */
+export function getTimeToResolve(item: AlertHistory): number | null {
+  if (!item.resolvedAt) return null;
+  const duration = new Date(item.resolvedAt).getTime() - new Date(item.triggeredAt).getTime();
+  return Number.isFinite(duration) && duration >= 0 ? duration : null;
+}
+
+/**
+ * History items matching the filters, newest first
+ */
+export function filterAlertHistory(history: AlertHistory[], filters: AlertHistoryFilters): AlertHistory[] {
+  const since = filters.since?.getTime();
+  return history
+    .filter(item => item.wasTriggered)
+    .filter(item => filters.alertRuleIds.length === 0 || filters.alertRuleIds.includes(item.alertRuleId))
+    .filter(item => filters.status === 'all' || (filters.status === 'resolved') === Boolean(item.resolvedAt))
+    .filter(item => since === undefined || new Date(item.triggeredAt).getTime() >= since)
+    .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt));
+}
+
+/**
+ * Count, open/resolved split and mean/median time to resolve
+ */
+export function calculateResolutionStats(history: AlertHistory[]): ResolutionStats {
+  const durations = history
+    .map(getTimeToResolve)
+    .filter((duration): duration is number => duration !== null)
+    .sort((a, b) => a - b);
+  const resolved = history.filter(item => item.resolvedAt).length;
+
+  let median: number | null = null;
+  if (durations.length > 0) {
+    const middle = Math.floor(durations.length / 2);
+    median = durations.length % 2 === 0 ? (durations[middle - 1] + durations[middle]) / 2 : durations[middle];
+  }
+
+  return {
+    total: history.length,
+    open: history.length - resolved,
+    resolved,
+    meanTimeToResolve: durations.length > 0
+      ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length
+      : null,
+    medianTimeToResolve: median,
+  };
+}
+
+/**
+ * Mean time to resolve per rule, for rules with at least one resolved trigger
+ */
+export function calculateMeanTimeToResolveByRule(history: AlertHistory[]): Map<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>();
+  history.forEach(item => {
+    const duration = getTimeToResolve(item);
+    if (duration === null) return;
+    const total = totals.get(item.alertRuleId) ?? { sum: 0, count: 0 };
+    totals.set(item.alertRuleId, { sum: total.sum + duration, count: total.count + 1 });
+  });
+  return new Map(Array.from(totals, ([ruleId, { sum, count }]) => [ruleId, sum / count]));
+}
+
+/**
+ * Trigger counts by weekday (0 = Sunday) and hour of day, in local time
+ * @returns A 7 x 24 grid of counts
+ */
+export function buildTriggerHeatmap(history: AlertHistory[]): number[][] {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  history.forEach(item => {
+    const date = new Date(item.triggeredAt);
+    if (Number.isNaN(date.getTime())) return;
+    grid[date.getDay()][date.getHours()] += 1;
+  });
+  return grid;
+}
+
+/**
+ * Compact duration, e.g. "45m", "3.5h" or "2.1d"
+ */
+export function formatDurationShort(ms: number): string {
+  if (ms < HOUR_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (ms < 24 * HOUR_MS) return `${(ms / HOUR_MS).toFixed(1)}h`;
+  return `${(ms / (24 * HOUR_MS)).toFixed(1)}d`;
+}
+
+const isConfigObject = (value: ConfigValue): value is ConfigObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasAllocation = (value: ConfigObject): boolean =>
+  ['currentAllocation', 'current_allocation', 'targetAllocation', 'target_allocation']
+    .some(key => typeof value[key] === 'number');
+
+/**
+ * Drifted holdings, sectors or asset classes recorded in a trigger's contextData
+ * Any list of objects with allocation fields is read as drift items, largest drift first;
+ * items are named by name, symbol, sector or asset class.
+ */
+export function parseDriftContext(contextData: ConfigObject): DriftContextItem[] {
+  const items: DriftContextItem[] = [];
+  Object.entries(contextData ?? {}).forEach(([source, value]) => {
+    if (!Array.isArray(value)) return;
+    (value as ConfigValue[]).forEach(entry => {
+      if (!isConfigObject(entry) || !hasAllocation(entry)) return;
+      const name = [entry.name, entry.symbol, entry.sector, entry.asset_class, entry.assetClass]
+        .find(candidate => typeof candidate === 'string');
+      items.push({ ...normalizeDriftItem({ ...entry, name: (name as string) || 'Unnamed' }), source });
+    });
+  });
+  return items.sort((a, b) => Math.abs(b.absoluteDrift) - Math.abs(a.absoluteDrift));
+}
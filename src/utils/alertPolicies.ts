@@ -0,0 +1,102 @@
+/**
+ * Alert delivery policy helpers
+ * Snoozes mute a rule until a set time, cooldowns space out repeat triggers and
+ * escalation raises the priority of triggers left unresolved. The backend enforces
+ * all three; these helpers derive status and timings for display and notifications.
+ */
+import { AlertRule, AlertStatus } from '@/types/alerts';
+import { NotificationPriority } from '@/types/notifications';
+
+type PolicyFields = Pick<AlertRule, 'lastTriggered' | 'snoozedUntil' | 'cooldownMinutes' | 'escalation' | 'escalatedAt'>;
+
+const NOTIFICATION_PRIORITY_ORDER = [
+  NotificationPriority.LOW,
+  NotificationPriority.NORMAL,
+  NotificationPriority.HIGH,
+  NotificationPriority.URGENT,
+];
+
+// Quick snooze durations offered on alert cards and the detail page
+export const SNOOZE_PRESETS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 4, label: '4 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '1 week' },
+];
+
+const addMinutes = (iso: string, minutes: number): Date =>
+  new Date(new Date(iso).getTime() + minutes * 60 * 1000);
+
+/**
+ * The higher of two notification priorities
+ */
+export function maxNotificationPriority(a: NotificationPriority, b: NotificationPriority): NotificationPriority {
+  return NOTIFICATION_PRIORITY_ORDER.indexOf(a) >= NOTIFICATION_PRIORITY_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * ISO time a snooze of the given length ends
+ * @param hours - Snooze length in hours
+ * @param from - Moment the snooze starts (defaults to now)
+ */
+export function getSnoozeUntil(hours: number, from: Date = new Date()): string {
+  return new Date(from.getTime() + hours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Whether a rule is snoozed at a moment
+ */
+export function isAlertSnoozed(rule: Pick<AlertRule, 'snoozedUntil'>, now: Date = new Date()): boolean {
+  return Boolean(rule.snoozedUntil) && new Date(rule.snoozedUntil as string) > now;
+}
+
+/**
+ * When the cooldown after the latest trigger ends
+ * @returns The end time, or null without a cooldown or a trigger
+ */
+export function getCooldownEnd(rule: PolicyFields): Date | null {
+  if (!rule.cooldownMinutes || !rule.lastTriggered) return null;
+  return addMinutes(rule.lastTriggered, rule.cooldownMinutes);
+}
+
+/**
+ * Whether a rule is cooling down after a trigger and won't re-trigger yet
+ */
+export function isAlertInCooldown(rule: PolicyFields, now: Date = new Date()): boolean {
+  const end = getCooldownEnd(rule);
+  return end !== null && end > now;
+}
+
+/**
+ * When the latest trigger escalates if it is still unresolved
+ * @returns The escalation time, or null without a policy, without a trigger or once escalated
+ */
+export function getEscalationDue(rule: PolicyFields): Date | null {
+  if (!rule.escalation || !rule.lastTriggered || rule.escalatedAt) return null;
+  return addMinutes(rule.lastTriggered, rule.escalation.afterHours * 60);
+}
+
+/**
+ * Status shown for a rule, given the status the backend stored
+ * Paused and deleted rules keep their status; an active rule is snoozed while
+ * snoozedUntil is in the future, then escalated while escalatedAt is set.
+ */
+export function deriveAlertStatus(
+  storedStatus: AlertStatus,
+  rule: Pick<AlertRule, 'snoozedUntil' | 'escalatedAt'>,
+  now: Date = new Date()
+): AlertStatus {
+  if (storedStatus === AlertStatus.PAUSED || storedStatus === AlertStatus.DELETED) return storedStatus;
+  if (isAlertSnoozed(rule, now)) return AlertStatus.SNOOZED;
+  if (rule.escalatedAt) return AlertStatus.ESCALATED;
+  return AlertStatus.ACTIVE;
+}
+
+/**
+ * Notification priority for a rule's trigger, raised to the escalation priority once escalated
+ */
+export function getEscalatedPriority(rule: PolicyFields, priority: NotificationPriority): NotificationPriority {
+  return rule.escalation && rule.escalatedAt
+    ? maxNotificationPriority(priority, rule.escalation.priority)
+    : priority;
+}
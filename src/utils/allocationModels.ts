@@ -0,0 +1,301 @@
+/**
+ * Allocation model helpers
+ * Built-in model portfolios, matching a model's sleeves to a portfolio's asset classes or
+ * sectors, and CSV/JSON import and export of target allocations.
+ */
+import { AllocationModel, AllocationModelTarget, ToleranceBand, ToleranceBandType } from '@/types/portfolio';
+import { normalizeSectorName } from './sectorMapping';
+import { TOLERANCE_BAND_LABELS } from './toleranceBands';
+
+/**
+ * Model names people use for each asset class, so "US Stocks" and "Gold" land on the
+ * portfolio's equity and commodity sleeves
+ */
+const ASSET_CLASS_ALIASES: Record<string, string[]> = {
+  equity: ['equity', 'equities', 'stock', 'stocks', 'us stocks', 'us equity', 'international stocks', 'international equity'],
+  bond: ['bond', 'bonds', 'fixed income', 'long-term bonds', 'intermediate-term bonds', 'treasuries'],
+  commodity: ['commodity', 'commodities', 'gold'],
+  cash: ['cash', 'money market', 'cash equivalents'],
+  real_estate: ['real estate', 'real_estate', 'reit', 'reits'],
+  alternative: ['alternative', 'alternatives'],
+  crypto: ['crypto', 'cryptocurrency'],
+};
+
+/**
+ * Name a sleeve is matched on: asset class aliases resolve to the canonical class and
+ * sector names go through the sector mapping, so "Stocks" and "equity" compare equal
+ */
+export const canonicalSleeveName = (name: string, category: AllocationModel['category']): string => {
+  const normalized = name.toLowerCase().replace(/_/g, ' ').trim();
+  if (category === 'asset_class') {
+    const match = Object.entries(ASSET_CLASS_ALIASES)
+      .find(([, aliases]) => aliases.some(alias => alias.replace(/_/g, ' ') === normalized));
+    if (match) return match[0];
+  }
+  return normalizeSectorName(normalized);
+};
+
+export const MODEL_TEMPLATE_PREFIX = 'template:';
+
+/**
+ * Built-in asset class model portfolios
+ */
+export const ALLOCATION_MODEL_TEMPLATES: AllocationModel[] = [
+  {
+    id: `${MODEL_TEMPLATE_PREFIX}60-40`,
+    name: '60/40',
+    description: 'Classic balanced portfolio: 60% stocks, 40% bonds',
+    category: 'asset_class',
+    targets: [
+      { name: 'Stocks', targetPercentage: 60 },
+      { name: 'Bonds', targetPercentage: 40 },
+    ],
+  },
+  {
+    id: `${MODEL_TEMPLATE_PREFIX}three-fund`,
+    name: 'Three-Fund',
+    description: 'US total market, international stocks and total bond market',
+    category: 'asset_class',
+    targets: [
+      { name: 'US Stocks', targetPercentage: 48 },
+      { name: 'International Stocks', targetPercentage: 32 },
+      { name: 'Bonds', targetPercentage: 20 },
+    ],
+  },
+  {
+    id: `${MODEL_TEMPLATE_PREFIX}all-weather`,
+    name: 'All-Weather',
+    description: 'Risk-balanced across growth and inflation regimes',
+    category: 'asset_class',
+    targets: [
+      { name: 'Stocks', targetPercentage: 30 },
+      { name: 'Long-Term Bonds', targetPercentage: 40 },
+      { name: 'Intermediate-Term Bonds', targetPercentage: 15 },
+      { name: 'Gold', targetPercentage: 7.5 },
+      { name: 'Commodities', targetPercentage: 7.5 },
+    ],
+  },
+];
+
+export const AGE_BASED_MODEL_ID = `${MODEL_TEMPLATE_PREFIX}age-based`;
+
+/**
+ * Age-based glide path: stocks at 110 minus age, kept between 20% and 90%, the rest in bonds
+ * @param age - Investor age in years
+ */
+export function buildAgeBasedModel(age: number): AllocationModel {
+  const stocks = Math.min(90, Math.max(20, 110 - Math.round(age)));
+  return {
+    id: AGE_BASED_MODEL_ID,
+    name: `Age-Based Glide Path (age ${Math.round(age)})`,
+    description: 'Stocks at 110 minus age, between 20% and 90%, the rest in bonds',
+    category: 'asset_class',
+    targets: [
+      { name: 'Stocks', targetPercentage: stocks },
+      { name: 'Bonds', targetPercentage: 100 - stocks },
+    ],
+  };
+}
+
+/**
+ * Map a model's targets onto a portfolio's asset classes or sectors
+ * Model sleeves that land on the same portfolio sleeve are added together; every portfolio
+ * sleeve the model doesn't mention gets a 0% target.
+ * @param model - Model to apply
+ * @param sleeves - The portfolio's asset classes or sectors
+ * @returns Targets and bands keyed by sleeve id, plus the model sleeves with no match
+ */
+export function matchModelTargets(
+  model: AllocationModel,
+  sleeves: { id: string; name: string }[]
+): { allocations: Record<string, number>; bands: Record<string, ToleranceBand>; unmatched: string[] } {
+  const allocations: Record<string, number> = {};
+  const bands: Record<string, ToleranceBand> = {};
+  const unmatched: string[] = [];
+  sleeves.forEach(sleeve => {
+    allocations[sleeve.id] = 0;
+  });
+
+  model.targets.forEach(target => {
+    const key = canonicalSleeveName(target.name, model.category);
+    const sleeve = sleeves.find(s => canonicalSleeveName(s.name, model.category) === key);
+    if (!sleeve) {
+      unmatched.push(target.name);
+      return;
+    }
+    allocations[sleeve.id] = Number((allocations[sleeve.id] + target.targetPercentage).toFixed(2));
+    if (target.band && !bands[sleeve.id]) bands[sleeve.id] = target.band;
+  });
+
+  return { allocations, bands, unmatched };
+}
+
+const CSV_HEADER = ['category', 'name', 'target_percentage', 'band_type', 'band_value'];
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+/**
+ * Check a target row and build the model target, throwing a readable error when it's invalid
+ */
+const toModelTarget = (
+  row: { name?: unknown; target_percentage?: unknown; band_type?: unknown; band_value?: unknown },
+  label: string
+): AllocationModelTarget => {
+  const name = typeof row.name === 'string' ? row.name.trim() : '';
+  if (!name) throw new Error(`${label}: name is required`);
+
+  const targetPercentage = Number(row.target_percentage);
+  if (row.target_percentage === '' || !Number.isFinite(targetPercentage) || targetPercentage < 0 || targetPercentage > 100) {
+    throw new Error(`${label}: target_percentage must be a number from 0 to 100`);
+  }
+
+  if (row.band_type === undefined || row.band_type === null || row.band_type === '') {
+    return { name, targetPercentage };
+  }
+  if (typeof row.band_type !== 'string' || !(row.band_type in TOLERANCE_BAND_LABELS)) {
+    throw new Error(`${label}: band_type must be one of ${Object.keys(TOLERANCE_BAND_LABELS).join(', ')}`);
+  }
+  const bandValue = Number(row.band_value ?? 0);
+  if (!Number.isFinite(bandValue) || bandValue < 0) {
+    throw new Error(`${label}: band_value must be a positive number`);
+  }
+  return { name, targetPercentage, band: { type: row.band_type as ToleranceBandType, value: bandValue } };
+};
+
+const checkDuplicates = (targets: AllocationModelTarget[]) => {
+  const seen = new Set<string>();
+  targets.forEach(target => {
+    const key = target.name.toLowerCase();
+    if (seen.has(key)) throw new Error(`${target.name} is listed more than once`);
+    seen.add(key);
+  });
+};
+
+const parseCategory = (value: unknown, label: string): AllocationModel['category'] => {
+  if (value === undefined || value === '' || value === 'asset_class') return 'asset_class';
+  if (value === 'sector') return 'sector';
+  throw new Error(`${label}: category must be asset_class or sector`);
+};
+
+/**
+ * Targets as CSV: one row per sleeve with category, name, target_percentage, band_type, band_value
+ */
+export function allocationModelToCsv(model: AllocationModel): string {
+  const rows = model.targets.map(target => [
+    model.category,
+    escapeCsv(target.name),
+    String(target.targetPercentage),
+    target.band?.type ?? '',
+    target.band ? String(target.band.value) : '',
+  ].join(','));
+  return [CSV_HEADER.join(','), ...rows].join('\n');
+}
+
+/**
+ * Targets as JSON in the same shape the API uses for saved models
+ */
+export function allocationModelToJson(model: AllocationModel): string {
+  return JSON.stringify({
+    name: model.name,
+    description: model.description ?? null,
+    category: model.category,
+    targets: model.targets.map(target => ({
+      name: target.name,
+      target_percentage: target.targetPercentage,
+      band_type: target.band?.type ?? null,
+      band_value: target.band?.value ?? null,
+    })),
+  }, null, 2);
+}
+
+/**
+ * Parse targets exported by allocationModelToCsv (the category column is optional)
+ * @param text - CSV file contents
+ * @param name - Name for the imported model, usually the file name
+ */
+export function parseAllocationModelCsv(text: string, name: string): AllocationModel {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) throw new Error('The CSV file has no target rows');
+
+  const header = parseCsvLine(lines[0]).map(column => column.toLowerCase());
+  if (!header.includes('name') || !header.includes('target_percentage')) {
+    throw new Error('The CSV header must include name and target_percentage columns');
+  }
+
+  let category: AllocationModel['category'] | null = null;
+  const targets = lines.slice(1).map((line, index) => {
+    const fields = parseCsvLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => {
+      row[column] = fields[i] ?? '';
+    });
+    const label = `Row ${index + 2}`;
+    const rowCategory = parseCategory(row.category, label);
+    if (category && rowCategory !== category) throw new Error(`${label}: all rows must share one category`);
+    category = rowCategory;
+    return toModelTarget(row, label);
+  });
+  checkDuplicates(targets);
+
+  return { id: '', name, category: category ?? 'asset_class', targets };
+}
+
+/**
+ * Parse targets exported by allocationModelToJson
+ * @param text - JSON file contents
+ * @param name - Name to use when the file doesn't include one
+ */
+export function parseAllocationModelJson(text: string, name: string): AllocationModel {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const model = data as { name?: unknown; description?: unknown; category?: unknown; targets?: unknown };
+  if (!model || typeof model !== 'object' || !Array.isArray(model.targets) || model.targets.length === 0) {
+    throw new Error('The JSON file must contain a non-empty targets array');
+  }
+
+  const targets = model.targets.map((target, index) => toModelTarget(target ?? {}, `Target ${index + 1}`));
+  checkDuplicates(targets);
+
+  return {
+    id: '',
+    name: typeof model.name === 'string' && model.name.trim() ? model.name.trim() : name,
+    description: typeof model.description === 'string' ? model.description : undefined,
+    category: parseCategory(model.category, 'Model'),
+    targets,
+  };
+}
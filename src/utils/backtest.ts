@@ -0,0 +1,182 @@
+/**
+ * Allocation backtesting
+ * Replays a set of target weights over historical prices with optional rebalancing.
+ */
+import {
+  calculateCAGR,
+  calculateStandardDeviation,
+  calculateSharpeRatio,
+  calculateMaxDrawdown,
+} from './calculations';
+
+export type RebalanceFrequency = 'monthly' | 'quarterly' | 'annually';
+
+export type RebalanceRule =
+  | { type: 'none' }
+  | { type: 'periodic'; frequency: RebalanceFrequency }
+  /** Rebalance when any weight drifts more than thresholdPercent points from target */
+  | { type: 'threshold'; thresholdPercent: number };
+
+export interface BacktestResult {
+  dates: string[];
+  values: number[];
+  rebalanceDates: string[];
+  /** Symbols dropped because they have no price history in the window */
+  missingSymbols: string[];
+}
+
+export interface BacktestMetrics {
+  /** All figures are decimals (0.08 = 8%) except sharpeRatio */
+  totalReturn: number;
+  cagr: number;
+  volatility: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Forward-fill missing prices so a gap does not register as a total loss
+ */
+function fillPrices(series: Array<number | null>): number[] | null {
+  const firstIndex = series.findIndex(price => price !== null && price > 0);
+  if (firstIndex === -1) return null;
+  let last = series[firstIndex] as number;
+  return series.map(price => {
+    if (price !== null && price > 0) last = price;
+    return last;
+  });
+}
+
+const periodKey = (date: string, frequency: RebalanceFrequency): string => {
+  // Observation dates are calendar days, so bucket them in UTC rather than the browser's time zone
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  switch (frequency) {
+    case 'monthly':
+      return `${d.getUTCFullYear()}-${d.getUTCMonth()}`;
+    case 'quarterly':
+      return `${d.getUTCFullYear()}-Q${Math.floor(d.getUTCMonth() / 3)}`;
+    case 'annually':
+    default:
+      return `${d.getUTCFullYear()}`;
+  }
+};
+
+/**
+ * Replay target weights over a price history.
+ *
+ * @param dates - Observation dates, ascending
+ * @param prices - Price series per symbol aligned with dates (null for missing)
+ * @param targetWeights - Target weight per symbol as a decimal
+ * @param rule - When to rebalance back to target
+ * @param initialValue - Starting portfolio value
+ */
+export function runBacktest(
+  dates: string[],
+  prices: Record<string, Array<number | null>>,
+  targetWeights: Record<string, number>,
+  rule: RebalanceRule,
+  initialValue = 10000
+): BacktestResult {
+  const filled: Record<string, number[]> = {};
+  const missingSymbols: string[] = [];
+  Object.keys(targetWeights).forEach(symbol => {
+    const series = fillPrices(prices[symbol] ?? []);
+    if (series && series.length === dates.length) {
+      filled[symbol] = series;
+    } else if (targetWeights[symbol] > 0) {
+      missingSymbols.push(symbol);
+    }
+  });
+
+  // Renormalize across symbols that have history
+  const symbols = Object.keys(filled);
+  const totalWeight = symbols.reduce((sum, symbol) => sum + targetWeights[symbol], 0);
+  const weights: Record<string, number> = {};
+  symbols.forEach(symbol => {
+    weights[symbol] = totalWeight > 0 ? targetWeights[symbol] / totalWeight : 0;
+  });
+
+  if (dates.length === 0 || symbols.length === 0) {
+    return { dates, values: dates.map(() => initialValue), rebalanceDates: [], missingSymbols };
+  }
+
+  const units: Record<string, number> = {};
+  const rebalanceTo = (value: number, index: number) => {
+    symbols.forEach(symbol => {
+      units[symbol] = (value * weights[symbol]) / filled[symbol][index];
+    });
+  };
+
+  rebalanceTo(initialValue, 0);
+  const values: number[] = [initialValue];
+  const rebalanceDates: string[] = [];
+  let currentPeriod = rule.type === 'periodic' ? periodKey(dates[0], rule.frequency) : '';
+
+  for (let i = 1; i < dates.length; i++) {
+    const value = symbols.reduce((sum, symbol) => sum + units[symbol] * filled[symbol][i], 0);
+    values.push(value);
+
+    let shouldRebalance = false;
+    if (rule.type === 'periodic') {
+      const period = periodKey(dates[i], rule.frequency);
+      shouldRebalance = period !== currentPeriod;
+      currentPeriod = period;
+    } else if (rule.type === 'threshold' && value > 0) {
+      shouldRebalance = symbols.some(symbol => {
+        const weight = (units[symbol] * filled[symbol][i]) / value;
+        return Math.abs(weight - weights[symbol]) * 100 > rule.thresholdPercent;
+      });
+    }
+
+    if (shouldRebalance) {
+      rebalanceTo(value, i);
+      rebalanceDates.push(dates[i]);
+    }
+  }
+
+  return { dates, values, rebalanceDates, missingSymbols };
+}
+
+/**
+ * Scale a raw price series (e.g. a benchmark) to start at initialValue
+ */
+export function normalizeSeries(series: Array<number | null>, initialValue = 10000): number[] {
+  const filled = fillPrices(series);
+  if (!filled) return [];
+  return filled.map(price => (price / filled[0]) * initialValue);
+}
+
+/**
+ * Performance metrics for a value series using the shared calculation helpers.
+ * Volatility is annualized from the observation frequency implied by the dates.
+ *
+ * @param dates - Observation dates, ascending
+ * @param values - Portfolio values aligned with dates
+ * @param riskFreeRate - Annual risk-free rate as a decimal
+ */
+export function calculateBacktestMetrics(
+  dates: string[],
+  values: number[],
+  riskFreeRate = 0
+): BacktestMetrics {
+  if (values.length < 2) {
+    return { totalReturn: 0, cagr: 0, volatility: 0, sharpeRatio: 0, maxDrawdown: 0 };
+  }
+
+  const years = (new Date(dates[dates.length - 1]).getTime() - new Date(dates[0]).getTime()) / (365.25 * DAY_MS);
+  const periodsPerYear = years > 0 ? (values.length - 1) / years : 252;
+  const returns = values.slice(1).map((value, i) => (values[i] > 0 ? value / values[i] - 1 : 0));
+
+  const cagr = calculateCAGR(values[0], values[values.length - 1], years);
+  const volatility = calculateStandardDeviation(returns) * Math.sqrt(periodsPerYear);
+
+  return {
+    totalReturn: values[0] > 0 ? values[values.length - 1] / values[0] - 1 : 0,
+    cagr,
+    volatility,
+    sharpeRatio: calculateSharpeRatio(cagr, riskFreeRate, volatility),
+    maxDrawdown: calculateMaxDrawdown(values),
+  };
+}
@@ -63,3 +63,81 @@ export function calculateMaxDrawdown(values: number[]): number {
   
   return maxDrawdown;
 }
+
+/**
+ * Calculates simple period-over-period returns from a series of values
+ * @param values - Array of values over time
+ * @returns Array of returns as decimals (one shorter than values)
+ */
+export function calculateReturns(values: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(values[i - 1] !== 0 ? values[i] / values[i - 1] - 1 : 0);
+  }
+  return returns;
+}
+
+/**
+ * Calculates beta of a portfolio against a benchmark
+ * @param portfolioReturns - Periodic portfolio returns (decimal)
+ * @param benchmarkReturns - Periodic benchmark returns for the same periods (decimal)
+ * @returns Beta (covariance / benchmark variance)
+ */
+export function calculateBeta(portfolioReturns: number[], benchmarkReturns: number[]): number {
+  const n = Math.min(portfolioReturns.length, benchmarkReturns.length);
+  if (n <= 1) return 0;
+
+  const portfolioAvg = portfolioReturns.slice(0, n).reduce((sum, val) => sum + val, 0) / n;
+  const benchmarkAvg = benchmarkReturns.slice(0, n).reduce((sum, val) => sum + val, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (portfolioReturns[i] - portfolioAvg) * (benchmarkReturns[i] - benchmarkAvg);
+    variance += Math.pow(benchmarkReturns[i] - benchmarkAvg, 2);
+  }
+
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+/**
+ * Calculates the annualized tracking error against a benchmark
+ * @param portfolioReturns - Periodic portfolio returns (decimal)
+ * @param benchmarkReturns - Periodic benchmark returns for the same periods (decimal)
+ * @param periodsPerYear - Number of return periods per year (e.g., 252 for daily)
+ * @returns The tracking error as a decimal
+ */
+export function calculateTrackingError(
+  portfolioReturns: number[],
+  benchmarkReturns: number[],
+  periodsPerYear: number
+): number {
+  const n = Math.min(portfolioReturns.length, benchmarkReturns.length);
+  const activeReturns = portfolioReturns.slice(0, n).map((value, i) => value - benchmarkReturns[i]);
+  return calculateStandardDeviation(activeReturns) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Calculates the information ratio
+ * @param annualizedActiveReturn - Annualized portfolio return minus benchmark return (decimal)
+ * @param trackingError - Annualized tracking error (decimal)
+ * @returns The information ratio
+ */
+export function calculateInformationRatio(annualizedActiveReturn: number, trackingError: number): number {
+  if (trackingError === 0) return 0;
+  return annualizedActiveReturn / trackingError;
+}
+
+/**
+ * Parses a rate preference (risk-free rate, inflation) into a decimal rate
+ * @param value - The preference value, either a rate ("0.045", "4.5", "4.5%", "0.5%") or a series name
+ * @returns The rate as a decimal (e.g., 0.045 for 4.5%), or null if the value is a series name
+ */
+export function parseRatePreference(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  const isPercent = text.endsWith('%');
+  const numeric = typeof value === 'number' ? value : Number(text.replace('%', '').trim());
+  if (text === '' || isNaN(numeric)) return null;
+  // "0.5%" is always a percentage; bare values of 1 or more are treated as percentages (1 -> 0.01, 4.5 -> 0.045)
+  return isPercent || numeric >= 1 ? numeric / 100 : numeric;
+}
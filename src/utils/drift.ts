@@ -0,0 +1,59 @@
+/**
+ * Drift data helpers
+ */
+import { DriftData, DriftItem } from '@/types/portfolio';
+
+type RawDriftItem = Partial<DriftItem> & {
+  name: string;
+  current_allocation?: number;
+  target_allocation?: number;
+  absolute_drift?: number;
+  relative_drift?: number;
+};
+
+// Backend may send fractions (0-1); convert those to percentages
+const normalize = (val: number): number => (val <= 1 ? val * 100 : val);
+
+/**
+ * Normalize a drift item from the backend to percentage points
+ * Accepts camelCase or snake_case fields and fills in missing drift values
+ */
+export function normalizeDriftItem(item: RawDriftItem): DriftItem {
+  const currentPct = normalize(item.currentAllocation ?? item.current_allocation ?? 0);
+  const targetPct = normalize(item.targetAllocation ?? item.target_allocation ?? 0);
+
+  // Absolute drift in percentage points
+  const rawAbsolute = item.absoluteDrift ?? item.absolute_drift;
+  const absoluteDrift = rawAbsolute !== undefined ? normalize(rawAbsolute) : currentPct - targetPct;
+
+  // Relative drift as percent of target
+  const rawRelative = item.relativeDrift ?? item.relative_drift;
+  const relativeDrift = rawRelative !== undefined
+    ? rawRelative
+    : targetPct !== 0
+      ? ((currentPct - targetPct) / targetPct) * 100
+      : currentPct !== 0
+        ? 100
+        : 0;
+
+  return {
+    ...item,
+    currentAllocation: currentPct,
+    targetAllocation: targetPct,
+    absoluteDrift,
+    relativeDrift,
+  };
+}
+
+/**
+ * Normalize every item of a drift category and recalculate totalAbsoluteDrift
+ * as the sum of absolute item drifts
+ */
+export function normalizeDriftData<T extends Pick<DriftData, 'items'>>(data: T): T & { totalAbsoluteDrift: number } {
+  const items = (data.items as RawDriftItem[]).map(normalizeDriftItem);
+  return {
+    ...data,
+    items,
+    totalAbsoluteDrift: items.reduce((sum, item) => sum + Math.abs(item.absoluteDrift || 0), 0),
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Drift trend helpers
+ * Turns daily drift snapshots into per-sleeve time series and projects, from a
+ * linear fit of recent drift, when each sleeve will leave its tolerance band.
+ */
+import { DriftHistoryPoint, ToleranceBand } from '@/types/portfolio';
+import { getSleeveToleranceBand, getToleranceBandWidth } from './toleranceBands';
+
+export type DriftTrendCategory = 'asset_class' | 'sector';
+
+export interface DriftSeriesRow {
+  date: string;
+  /** Absolute drift in percentage points, keyed by sleeve name */
+  [sleeve: string]: number | string;
+}
+
+export interface DriftBreachProjection {
+  name: string;
+  /** Latest absolute drift in percentage points */
+  currentDrift: number;
+  /** Fitted trend in percentage points per 30 days */
+  trendPerMonth: number;
+  /**
+   * breached: outside the band at the latest snapshot
+   * approaching: the trend reaches the band edge within the horizon
+   * stable: flat, or the edge is further out than the horizon
+   * insufficient_data: too few snapshots to fit a trend
+   */
+  status: 'breached' | 'approaching' | 'stable' | 'insufficient_data';
+  /** Half-width of the sleeve's tolerance band in percentage points */
+  bandWidth: number;
+  /** Band edge the trend is heading for (+/- band width) */
+  bandEdge: number | null;
+  /** Projected date (YYYY-MM-DD) the band edge is reached */
+  breachDate: string | null;
+  daysToBreach: number | null;
+}
+
+export interface DriftProjectionOptions {
+  /** Fit the trend over this many most recent days (default 90) */
+  fitDays?: number;
+  /** Don't project breaches further out than this (default 365 days) */
+  horizonDays?: number;
+  /** Minimum snapshots in the fit window (default 5) */
+  minPoints?: number;
+}
+
+export interface DriftHistoryCoverage {
+  /** Days in the window with a snapshot */
+  daysWithData: number;
+  /** Days in the window */
+  totalDays: number;
+}
+
+/** Days of history the breach trend is fitted over by default */
+export const DRIFT_TREND_FIT_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+const addDays = (date: string, days: number) =>
+  new Date(toTime(date) + Math.round(days) * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Sleeve names in a category across all snapshots, largest latest drift first
+ */
+export function getDriftSleeveNames(history: DriftHistoryPoint[], category: DriftTrendCategory): string[] {
+  const latest = new Map<string, number>();
+  history.forEach(point => {
+    point[category]?.items.forEach(item => latest.set(item.name, item.absoluteDrift));
+  });
+  return Array.from(latest)
+    .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+    .map(([name]) => name);
+}
+
+/**
+ * One row per snapshot with each sleeve's absolute drift, for charting
+ * Sleeves missing from a snapshot are left out of that row so lines show a gap.
+ */
+export function buildDriftSeries(history: DriftHistoryPoint[], category: DriftTrendCategory): DriftSeriesRow[] {
+  return history
+    .filter(point => point[category]?.items.length)
+    .map(point => {
+      const row: DriftSeriesRow = { date: point.date };
+      point[category]?.items.forEach(item => {
+        row[item.name] = Number(item.absoluteDrift.toFixed(2));
+      });
+      return row;
+    });
+}
+
+/**
+ * How many days of a window have a snapshot
+ * Snapshots are written by the backend once a day, so missing days are days the job didn't
+ * run; shown next to trends and backtests so results fitted on sparse history are visible.
+ * @param days - Window length in days, ending on and including `end`
+ * @param end - Last day of the window (YYYY-MM-DD, default today in UTC)
+ */
+export function getDriftHistoryCoverage(
+  history: DriftHistoryPoint[],
+  days: number,
+  end: string = new Date().toISOString().slice(0, 10)
+): DriftHistoryCoverage {
+  const start = addDays(end, 1 - days);
+  const dates = new Set(history.filter(point => point.date >= start && point.date <= end).map(point => point.date));
+  return { daysWithData: dates.size, totalDays: days };
+}
+
+/**
+ * Project when one sleeve's drift reaches +/- thresholdPercent at its current trend
+ * @param points - Dated drift values in percentage points, oldest first
+ * @param thresholdPercent - Half-width of the tolerance band in percentage points
+ */
+export function projectDriftBreach(
+  points: { date: string; drift: number }[],
+  thresholdPercent: number,
+  options: DriftProjectionOptions = {}
+): Omit<DriftBreachProjection, 'name' | 'bandWidth'> {
+  const { fitDays = DRIFT_TREND_FIT_DAYS, horizonDays = 365, minPoints = 5 } = options;
+  const last = points[points.length - 1];
+  const empty = { trendPerMonth: 0, bandEdge: null, breachDate: null, daysToBreach: null };
+
+  if (!last) {
+    return { currentDrift: 0, status: 'insufficient_data', ...empty };
+  }
+  if (Math.abs(last.drift) >= thresholdPercent) {
+    return {
+      currentDrift: last.drift,
+      status: 'breached',
+      ...empty,
+      bandEdge: Math.sign(last.drift) * thresholdPercent,
+      breachDate: last.date,
+      daysToBreach: 0,
+    };
+  }
+
+  // Least-squares fit of drift against days since the start of the window
+  const windowStart = toTime(last.date) - fitDays * DAY_MS;
+  const recent = points.filter(point => toTime(point.date) >= windowStart);
+  if (recent.length < minPoints) {
+    return { currentDrift: last.drift, status: 'insufficient_data', ...empty };
+  }
+  const xs = recent.map(point => (toTime(point.date) - windowStart) / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = recent.reduce((sum, point) => sum + point.drift, 0) / recent.length;
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (variance === 0) {
+    return { currentDrift: last.drift, status: 'insufficient_data', ...empty };
+  }
+  const slope = xs.reduce((sum, x, i) => sum + (x - meanX) * (recent[i].drift - meanY), 0) / variance;
+  const trendPerMonth = slope * 30;
+
+  // Project forward from the latest value toward the edge the trend points at
+  if (Math.abs(slope) < 1e-6) {
+    return { currentDrift: last.drift, status: 'stable', ...empty, trendPerMonth };
+  }
+  const bandEdge = slope > 0 ? thresholdPercent : -thresholdPercent;
+  const daysToBreach = Math.ceil((bandEdge - last.drift) / slope);
+  if (daysToBreach > horizonDays) {
+    return { currentDrift: last.drift, status: 'stable', ...empty, trendPerMonth, bandEdge };
+  }
+
+  return {
+    currentDrift: last.drift,
+    trendPerMonth,
+    status: 'approaching',
+    bandEdge,
+    breachDate: addDays(last.date, daysToBreach),
+    daysToBreach,
+  };
+}
+
+/**
+ * Breach projections for every sleeve in a category, soonest breach first
+ * Each sleeve is projected against its saved tolerance band, sized for its latest target;
+ * sleeves without one use thresholdPercent.
+ * @param bands - Saved bands keyed by normalized sleeve name (see buildToleranceBandMap)
+ */
+export function projectDriftBreaches(
+  history: DriftHistoryPoint[],
+  category: DriftTrendCategory,
+  thresholdPercent: number,
+  bands: Record<string, ToleranceBand> = {},
+  options: DriftProjectionOptions = {}
+): DriftBreachProjection[] {
+  const statusOrder: DriftBreachProjection['status'][] = ['breached', 'approaching', 'stable', 'insufficient_data'];
+
+  return getDriftSleeveNames(history, category)
+    .map(name => {
+      const items = history.flatMap(point => {
+        const item = point[category]?.items.find(i => i.name === name);
+        return item ? [{ date: point.date, item }] : [];
+      });
+      const latest = items[items.length - 1]?.item;
+      const band = getSleeveToleranceBand(bands, name);
+      const bandWidth = band && latest ? getToleranceBandWidth(band, latest.targetAllocation) : thresholdPercent;
+      const points = items.map(({ date, item }) => ({ date, drift: item.absoluteDrift }));
+      return { name, bandWidth, ...projectDriftBreach(points, bandWidth, options) };
+    })
+    .sort((a, b) =>
+      statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) ||
+      (a.daysToBreach ?? Infinity) - (b.daysToBreach ?? Infinity) ||
+      Math.abs(b.currentDrift) - Math.abs(a.currentDrift)
+    );
+}
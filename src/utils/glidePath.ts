@@ -0,0 +1,223 @@
+/**
+ * Glide path helpers
+ * A glide path lists target allocations at dates or investor ages. The target for any day is
+ * interpolated linearly between the surrounding points and held flat before the first point
+ * and after the last one.
+ */
+import { DriftData, DriftItem, GlidePath } from '@/types/portfolio';
+import { normalizeSectorName } from './sectorMapping';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Today as YYYY-MM-DD (UTC), the key the effective targets are computed for
+ */
+export const getGlidePathDate = (now: Date = new Date()) => now.toISOString().slice(0, 10);
+
+/**
+ * Investor age in fractional years on a date
+ * @param birthDate - YYYY-MM-DD
+ * @param date - YYYY-MM-DD
+ */
+export function getInvestorAge(birthDate: string, date: string): number {
+  return (toTime(date) - toTime(birthDate)) / YEAR_MS;
+}
+
+/**
+ * Points as positions on the path's axis (epoch ms for dates, years for ages), in order
+ */
+const getSortedPoints = (glidePath: GlidePath) =>
+  glidePath.points
+    .map(point => ({
+      position: glidePath.keyType === 'date' ? toTime(point.date ?? '') : Number(point.age),
+      targets: point.targets,
+    }))
+    .filter(point => Number.isFinite(point.position))
+    .sort((a, b) => a.position - b.position);
+
+/**
+ * Position of a calendar day on the path's axis, or null for an age-keyed path without a birth date
+ */
+const getDatePosition = (glidePath: GlidePath, date: string): number | null => {
+  if (glidePath.keyType === 'date') return toTime(date);
+  return glidePath.birthDate ? getInvestorAge(glidePath.birthDate, date) : null;
+};
+
+/**
+ * Calendar day a position on the path's axis falls on
+ */
+const getPositionDate = (glidePath: GlidePath, position: number): string =>
+  toDateString(glidePath.keyType === 'date' ? position : toTime(glidePath.birthDate ?? '') + position * YEAR_MS);
+
+/**
+ * Target allocations on a date, interpolated between the surrounding points
+ * Sleeves missing from one of the two points are treated as 0% there.
+ * @param glidePath - Path to read, whether or not it is enabled
+ * @param date - YYYY-MM-DD
+ * @returns Target percentage by sleeve name, or null when the path has no usable points
+ */
+export function interpolateGlidePath(glidePath: GlidePath, date: string): Record<string, number> | null {
+  const points = getSortedPoints(glidePath);
+  const position = getDatePosition(glidePath, date);
+  if (!points.length || position === null || !Number.isFinite(position)) return null;
+
+  const last = points[points.length - 1];
+  if (position <= points[0].position) return { ...points[0].targets };
+  if (position >= last.position) return { ...last.targets };
+
+  const nextIndex = points.findIndex(point => point.position > position);
+  const before = points[nextIndex - 1];
+  const after = points[nextIndex];
+  const weight = (position - before.position) / (after.position - before.position);
+
+  const targets: Record<string, number> = {};
+  new Set([...Object.keys(before.targets), ...Object.keys(after.targets)]).forEach(name => {
+    const from = before.targets[name] ?? 0;
+    const to = after.targets[name] ?? 0;
+    targets[name] = Number((from + (to - from) * weight).toFixed(2));
+  });
+  return targets;
+}
+
+/**
+ * Targets that replace the static targets today, or null when there is no enabled glide path
+ */
+export function getEffectiveGlidePathTargets(glidePath: GlidePath | null | undefined, date: string): Record<string, number> | null {
+  if (!glidePath?.enabled) return null;
+  return interpolateGlidePath(glidePath, date);
+}
+
+export interface GlidePathSchedulePoint {
+  date: string;
+  /** Investor age on the date, for age-keyed paths */
+  age?: number;
+  targets: Record<string, number>;
+}
+
+/**
+ * Targets sampled across the whole path, for charting the planned path
+ * Every defined point is included so the corners of the path are exact.
+ * @param glidePath - Path to sample
+ * @param samples - Evenly spaced samples between the first and last point (default 48)
+ */
+export function getGlidePathSchedule(glidePath: GlidePath, samples = 48): GlidePathSchedulePoint[] {
+  const points = getSortedPoints(glidePath);
+  if (!points.length || (glidePath.keyType === 'age' && !glidePath.birthDate)) return [];
+
+  const first = points[0].position;
+  const span = points[points.length - 1].position - first;
+  const dates = new Set(points.map(point => getPositionDate(glidePath, point.position)));
+  if (span > 0) {
+    for (let i = 0; i <= samples; i++) {
+      dates.add(getPositionDate(glidePath, first + (span * i) / samples));
+    }
+  }
+
+  return Array.from(dates)
+    .sort()
+    .map(date => ({
+      date,
+      ...(glidePath.keyType === 'age' && glidePath.birthDate && {
+        age: Number(getInvestorAge(glidePath.birthDate, date).toFixed(1)),
+      }),
+      targets: interpolateGlidePath(glidePath, date) ?? {},
+    }));
+}
+
+/**
+ * Check a glide path before saving
+ * @returns A readable error, or null when the path is valid
+ */
+export function validateGlidePath(glidePath: GlidePath): string | null {
+  if (glidePath.keyType === 'age' && !glidePath.birthDate) {
+    return 'Enter the investor\'s birth date for an age-based glide path';
+  }
+  if (glidePath.points.length < 2) {
+    return 'A glide path needs at least two points';
+  }
+
+  const seen = new Set<string>();
+  for (const point of glidePath.points) {
+    const key = glidePath.keyType === 'date' ? point.date ?? '' : String(point.age ?? '');
+    const label = glidePath.keyType === 'date' ? key || 'A point' : `Age ${key || '?'}`;
+    if (glidePath.keyType === 'date' && !Number.isFinite(toTime(key))) {
+      return 'Every point needs a valid date';
+    }
+    if (glidePath.keyType === 'age' && (point.age === undefined || point.age < 0 || point.age > 120)) {
+      return 'Every point needs an age from 0 to 120';
+    }
+    if (seen.has(key)) return `${label} is listed more than once`;
+    seen.add(key);
+
+    const total = Object.values(point.targets).reduce((sum, value) => sum + value, 0);
+    if (Math.abs(total - 100) > 0.01) {
+      return `${label}: targets add up to ${total.toFixed(1)}%, not 100%`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Drift item recalculated against a new target, both in percentage points
+ */
+const retargetDriftItem = (item: DriftItem, targetAllocation: number): DriftItem => {
+  const absoluteDrift = item.currentAllocation - targetAllocation;
+  return {
+    ...item,
+    targetAllocation,
+    absoluteDrift,
+    relativeDrift: targetAllocation !== 0
+      ? (absoluteDrift / targetAllocation) * 100
+      : item.currentAllocation !== 0
+        ? 100
+        : 0,
+  };
+};
+
+/**
+ * Replace the targets of a drift category with glide-path targets and recalculate drift
+ * Held sleeves the path doesn't mention get a 0% target; sleeves the path targets but the
+ * portfolio doesn't hold are added at 0% current allocation.
+ */
+export function applyGlidePathTargets<T extends Pick<DriftData, 'items'>>(
+  data: T,
+  targets: Record<string, number>
+): T & { totalAbsoluteDrift: number } {
+  const targetsByKey = new Map(Object.entries(targets).map(([name, value]) => [normalizeSectorName(name), { name, value }]));
+  const items = data.items.map(item => {
+    const target = targetsByKey.get(normalizeSectorName(item.name));
+    targetsByKey.delete(normalizeSectorName(item.name));
+    return retargetDriftItem(item, target?.value ?? 0);
+  });
+  targetsByKey.forEach(({ name, value }) => {
+    if (value > 0) {
+      items.push(retargetDriftItem({ name, currentAllocation: 0, targetAllocation: 0, absoluteDrift: 0, relativeDrift: 0 }, value));
+    }
+  });
+
+  return {
+    ...data,
+    items,
+    totalAbsoluteDrift: items.reduce((sum, item) => sum + Math.abs(item.absoluteDrift), 0),
+  };
+}
+
+/**
+ * Drift data with the glide path's targets for a date in place of the static targets
+ * Only the path's category is changed; without an enabled path the data is returned as is.
+ */
+export function applyGlidePathToDrift<T extends { asset_class?: DriftData; sector?: DriftData | null }>(
+  driftData: T,
+  glidePath: GlidePath | null | undefined,
+  date: string
+): T {
+  const targets = getEffectiveGlidePathTargets(glidePath, date);
+  const data = glidePath ? driftData[glidePath.category] : undefined;
+  if (!glidePath || !targets || !data) return driftData;
+  return { ...driftData, [glidePath.category]: applyGlidePathTargets(data, targets) };
+}
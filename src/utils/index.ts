@@ -7,3 +7,16 @@ export function cn(...inputs: ClassValue[]) {
 
 export * from './formatters'
 export * from './calculations'
+export * from './rebalancing'
+export * from './taxLots'
+export * from './backtest'
+export * from './returns'
+export * from './quietHours'
+export * from './drift'
+export * from './alertEvaluation'
+export * from './alertPolicies'
+export * from './alertHistory'
+export * from './driftTrend'
+export * from './toleranceBands'
+export * from './allocationModels'
+export * from './glidePath'
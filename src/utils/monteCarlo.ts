@@ -0,0 +1,176 @@
+/**
+ * Monte Carlo portfolio projection
+ * Simulates annual portfolio values from an expected return and volatility.
+ * Runs inside a Web Worker (see src/workers/monteCarlo.worker.ts) so large
+ * simulations do not block the UI, but has no browser dependencies.
+ */
+
+export interface MonteCarloInput {
+  /** Starting portfolio value */
+  initialValue: number;
+  /** Expected annual return as a decimal */
+  expectedReturn: number;
+  /** Annual volatility as a decimal */
+  volatility: number;
+  /** Projection horizon in years */
+  years: number;
+  /** Added at the end of each year; negative values are withdrawals */
+  annualContribution: number;
+  /** Annual inflation as a decimal; contributions and the target grow with it */
+  inflationRate: number;
+  iterations: number;
+  /** Goal in today's dollars; defaults to the initial value */
+  targetValue?: number;
+  /** Seed for reproducible runs */
+  seed?: number;
+}
+
+/**
+ * Summary statistics of the simulated ending values.
+ * Values are nominal dollars; probabilities and rates are percentages.
+ */
+export interface MonteCarloSummary {
+  iterations: number;
+  median: number;
+  percentile10: number;
+  percentile25: number;
+  percentile75: number;
+  percentile90: number;
+  successProbability: number;
+  riskOfLoss: number;
+  expectedReturn: number;
+  volatility: number;
+  inflationAdjustedTarget: number;
+}
+
+/**
+ * Percentile bands of portfolio value at the end of each year
+ */
+export interface MonteCarloFanPoint {
+  year: number;
+  percentile10: number;
+  percentile25: number;
+  median: number;
+  percentile75: number;
+  percentile90: number;
+  /** Cumulative amount invested (initial value plus contributions) */
+  invested: number;
+}
+
+export interface MonteCarloOutput {
+  summary: MonteCarloSummary;
+  fan: MonteCarloFanPoint[];
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so a given input always produces the same fan
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw via the Box-Muller transform
+ */
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Value at the given percentile (0-1) of a sorted array
+ */
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Run the simulation.
+ *
+ * Annual returns are lognormal with the given arithmetic mean and volatility.
+ * A path that hits zero stays depleted. Success means ending at or above the
+ * inflation-adjusted target without being depleted along the way.
+ */
+export function runMonteCarlo(input: MonteCarloInput): MonteCarloOutput {
+  const years = Math.max(1, Math.round(input.years));
+  const iterations = Math.max(1, Math.round(input.iterations));
+  const random = createRandom(input.seed ?? 42);
+
+  // Lognormal parameters matching the arithmetic mean and standard deviation
+  const growth = 1 + input.expectedReturn;
+  const sigmaLog = Math.sqrt(Math.log(1 + (input.volatility * input.volatility) / (growth * growth)));
+  const muLog = Math.log(growth) - (sigmaLog * sigmaLog) / 2;
+
+  // values[year][iteration]
+  const values = Array.from({ length: years }, () => new Float64Array(iterations));
+  const depleted = new Uint8Array(iterations);
+
+  for (let i = 0; i < iterations; i++) {
+    let value = input.initialValue;
+    for (let year = 0; year < years; year++) {
+      if (value > 0) {
+        const contribution = input.annualContribution * Math.pow(1 + input.inflationRate, year);
+        value = value * Math.exp(muLog + sigmaLog * normal(random)) + contribution;
+        if (value <= 0) {
+          value = 0;
+          depleted[i] = 1;
+        }
+      }
+      values[year][i] = value;
+    }
+  }
+
+  const fan: MonteCarloFanPoint[] = [];
+  let invested = input.initialValue;
+  values.forEach((yearValues, year) => {
+    invested += input.annualContribution * Math.pow(1 + input.inflationRate, year);
+    const sorted = yearValues.slice().sort();
+    fan.push({
+      year: year + 1,
+      percentile10: percentile(sorted, 0.1),
+      percentile25: percentile(sorted, 0.25),
+      median: percentile(sorted, 0.5),
+      percentile75: percentile(sorted, 0.75),
+      percentile90: percentile(sorted, 0.9),
+      invested: Math.max(0, invested),
+    });
+  });
+
+  const finalValues = values[years - 1];
+  const target = (input.targetValue ?? input.initialValue) * Math.pow(1 + input.inflationRate, years);
+  const totalInvested = fan[fan.length - 1].invested;
+  let successes = 0;
+  let losses = 0;
+  for (let i = 0; i < iterations; i++) {
+    if (!depleted[i] && finalValues[i] >= target) successes++;
+    if (finalValues[i] < totalInvested) losses++;
+  }
+
+  const finalPoint = fan[fan.length - 1];
+  return {
+    summary: {
+      iterations,
+      median: finalPoint.median,
+      percentile10: finalPoint.percentile10,
+      percentile25: finalPoint.percentile25,
+      percentile75: finalPoint.percentile75,
+      percentile90: finalPoint.percentile90,
+      successProbability: (successes / iterations) * 100,
+      riskOfLoss: (losses / iterations) * 100,
+      expectedReturn: input.expectedReturn * 100,
+      volatility: input.volatility * 100,
+      inflationAdjustedTarget: target,
+    },
+    fan,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Quiet hours helpers
+ * Quiet hours are "HH:MM" times in the user's local timezone; a start later than
+ * the end wraps past midnight (e.g. 22:00 - 07:00).
+ */
+
+const parseTime = (value?: string): number | null => {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a moment falls inside the quiet hours window
+ * @param start - Start time ("HH:MM"); quiet hours are off when missing or invalid
+ * @param end - End time ("HH:MM"); quiet hours are off when missing or invalid
+ * @param date - Moment to check (defaults to now)
+ */
+export function isWithinQuietHours(start?: string, end?: string, date: Date = new Date()): boolean {
+  const startMinutes = parseTime(start);
+  const endMinutes = parseTime(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return startMinutes < endMinutes
+    ? minutes >= startMinutes && minutes < endMinutes
+    : minutes >= startMinutes || minutes < endMinutes;
+}
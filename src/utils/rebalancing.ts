@@ -0,0 +1,422 @@
+/**
+ * Rebalancing trade generation
+ * Turns current positions and target weights into an executable list of share trades.
+ */
+
+/**
+ * A current position used as input to the trade generator
+ */
+export interface RebalancePosition {
+  symbol: string;
+  shares: number;
+  /** Latest price per share */
+  price: number;
+}
+
+/**
+ * Trade sizing and cost assumptions
+ */
+export interface RebalanceTradeOptions {
+  /** Allow fractional shares; otherwise quantities are rounded to whole shares */
+  fractionalShares: boolean;
+  /** Decimal places kept for fractional share quantities */
+  fractionalPrecision: number;
+  /** Trades smaller than this dollar value are skipped */
+  minTradeValue: number;
+  /** Percentage of the portfolio kept in cash after rebalancing (0-100) */
+  cashBufferPercent: number;
+  /** Flat commission charged per trade */
+  commissionPerTrade: number;
+  /** Commission charged per share traded */
+  commissionPerShare: number;
+}
+
+export const DEFAULT_REBALANCE_OPTIONS: RebalanceTradeOptions = {
+  fractionalShares: false,
+  fractionalPrecision: 4,
+  minTradeValue: 50,
+  cashBufferPercent: 1,
+  commissionPerTrade: 0,
+  commissionPerShare: 0,
+};
+
+/**
+ * A single generated trade
+ */
+export interface RebalanceTrade {
+  symbol: string;
+  action: 'buy' | 'sell';
+  shares: number;
+  price: number;
+  /** Dollar value of the trade before commission */
+  value: number;
+  commission: number;
+  /** Weights in percent of total portfolio value */
+  currentWeight: number;
+  targetWeight: number;
+}
+
+export interface RebalanceResult {
+  trades: RebalanceTrade[];
+  totalBuyValue: number;
+  totalSellValue: number;
+  totalCommissions: number;
+  /** Cash remaining after all trades settle */
+  endingCash: number;
+  /** Targeted or held symbols that could not be traded because no price is available */
+  unpricedSymbols: string[];
+}
+
+/**
+ * Round a share quantity toward zero so a trade never overshoots its target
+ */
+const roundShares = (shares: number, options: RebalanceTradeOptions): number => {
+  if (!options.fractionalShares) {
+    return Math.trunc(shares);
+  }
+  const factor = Math.pow(10, options.fractionalPrecision);
+  return Math.trunc(shares * factor) / factor;
+};
+
+const estimateCommission = (shares: number, options: RebalanceTradeOptions): number =>
+  options.commissionPerTrade + options.commissionPerShare * Math.abs(shares);
+
+/**
+ * Generate the trades needed to move current positions to target weights.
+ *
+ * Sells are sized first and fund the buys. Buys are scaled down when rounding and
+ * commissions would otherwise push cash below the requested buffer.
+ *
+ * @param positions - Current security positions (excluding cash)
+ * @param cash - Cash currently held in the portfolio
+ * @param targetWeights - Target weight per symbol as a decimal; symbols not listed are sold
+ * @param prices - Prices for target symbols that are not currently held
+ * @param options - Trade sizing and cost assumptions
+ */
+export function generateRebalanceTrades(
+  positions: RebalancePosition[],
+  cash: number,
+  targetWeights: Record<string, number>,
+  prices: Record<string, number> = {},
+  options: RebalanceTradeOptions = DEFAULT_REBALANCE_OPTIONS
+): RebalanceResult {
+  const currentShares: Record<string, number> = {};
+  const priceBySymbol: Record<string, number> = {};
+
+  Object.entries(prices).forEach(([symbol, price]) => {
+    if (price > 0) priceBySymbol[symbol.toUpperCase()] = price;
+  });
+  positions.forEach(({ symbol, shares, price }) => {
+    const key = symbol.toUpperCase();
+    currentShares[key] = (currentShares[key] ?? 0) + shares;
+    if (price > 0) priceBySymbol[key] = price;
+  });
+
+  const holdingsValue = Object.entries(currentShares)
+    .reduce((sum, [symbol, shares]) => sum + shares * (priceBySymbol[symbol] ?? 0), 0);
+  const totalValue = holdingsValue + cash;
+  const cashBuffer = totalValue * (options.cashBufferPercent / 100);
+  const investableValue = totalValue - cashBuffer;
+
+  const normalizedTargets: Record<string, number> = {};
+  Object.entries(targetWeights).forEach(([symbol, weight]) => {
+    normalizedTargets[symbol.toUpperCase()] = weight;
+  });
+
+  const symbols = Array.from(new Set([...Object.keys(currentShares), ...Object.keys(normalizedTargets)])).sort();
+  const unpricedSymbols: string[] = [];
+  const sells: RebalanceTrade[] = [];
+  const buys: RebalanceTrade[] = [];
+
+  symbols.forEach(symbol => {
+    const price = priceBySymbol[symbol];
+    if (!price) {
+      if ((normalizedTargets[symbol] ?? 0) > 0 || (currentShares[symbol] ?? 0) > 0) unpricedSymbols.push(symbol);
+      return;
+    }
+
+    const heldShares = currentShares[symbol] ?? 0;
+    const targetWeight = normalizedTargets[symbol] ?? 0;
+    const targetShares = (targetWeight * investableValue) / price;
+    let shares = roundShares(targetShares - heldShares, options);
+
+    // Never sell more than is held; sell the whole position when the target is zero
+    if (shares < 0) {
+      shares = targetWeight === 0 ? -heldShares : Math.max(shares, -heldShares);
+    }
+    if (shares === 0 || Math.abs(shares) * price < options.minTradeValue) {
+      return;
+    }
+
+    const trade: RebalanceTrade = {
+      symbol,
+      action: shares > 0 ? 'buy' : 'sell',
+      shares: Math.abs(shares),
+      price,
+      value: Math.abs(shares) * price,
+      commission: estimateCommission(shares, options),
+      currentWeight: totalValue > 0 ? (heldShares * price / totalValue) * 100 : 0,
+      targetWeight: targetWeight * 100,
+    };
+    (shares > 0 ? buys : sells).push(trade);
+  });
+
+  const sellProceeds = sells.reduce((sum, t) => sum + t.value - t.commission, 0);
+  const availableForBuys = cash + sellProceeds - cashBuffer;
+  const getBuyCost = (trades: RebalanceTrade[]) => trades.reduce((sum, t) => sum + t.value + t.commission, 0);
+
+  // Scale buys down proportionally if they cannot be funded while keeping the cash buffer.
+  // Only the value and per-share commission scale; every buy still pays the flat commission,
+  // so that comes off the available cash first. If the scaled buys still don't fit, the
+  // smallest buy is dropped and the rest are scaled again.
+  let fundedBuys = buys;
+  if (getBuyCost(buys) > availableForBuys) {
+    let candidates = buys;
+    fundedBuys = [];
+    while (candidates.length > 0) {
+      const flatCommissions = candidates.length * options.commissionPerTrade;
+      const scalableCost = getBuyCost(candidates) - flatCommissions;
+      const scale = scalableCost > 0 ? Math.min(1, Math.max(0, availableForBuys - flatCommissions) / scalableCost) : 0;
+      const scaled = candidates
+        .map(trade => {
+          const shares = roundShares(trade.shares * scale, options);
+          return {
+            ...trade,
+            shares,
+            value: shares * trade.price,
+            commission: estimateCommission(shares, options),
+          };
+        })
+        .filter(trade => trade.shares > 0 && trade.value >= options.minTradeValue);
+
+      if (getBuyCost(scaled) <= availableForBuys) {
+        fundedBuys = scaled;
+        break;
+      }
+      const smallest = candidates.reduce((min, trade) => (trade.value < min.value ? trade : min));
+      candidates = candidates.filter(trade => trade !== smallest);
+    }
+  }
+
+  const trades = [...sells, ...fundedBuys];
+  const totalBuyValue = fundedBuys.reduce((sum, t) => sum + t.value, 0);
+  const totalSellValue = sells.reduce((sum, t) => sum + t.value, 0);
+  const totalCommissions = trades.reduce((sum, t) => sum + t.commission, 0);
+
+  return {
+    trades,
+    totalBuyValue,
+    totalSellValue,
+    totalCommissions,
+    endingCash: cash + totalSellValue - totalBuyValue - totalCommissions,
+    unpricedSymbols,
+  };
+}
+
+/**
+ * How a sleeve-level rebalance moves the portfolio back toward its targets
+ * - full: every sleeve goes back to its target weight
+ * - band_edge: only sleeves outside the tolerance band trade, and only back to the band edge
+ * - cash_flow: nothing is sold; new cash is invested in the most underweight sleeves
+ */
+export type SleeveRebalanceMode = 'full' | 'band_edge' | 'cash_flow';
+
+/**
+ * One sleeve (asset class or sector) with weights in percent of the invested portfolio
+ */
+export interface SleeveAllocation {
+  name: string;
+  currentAllocation: number;
+  targetAllocation: number;
+  /** Half-width of this sleeve's tolerance band in percentage points, overriding thresholdPercent */
+  bandWidth?: number;
+}
+
+export interface SleeveRebalanceOptions {
+  mode: SleeveRebalanceMode;
+  /** Half-width of the tolerance band in percentage points for sleeves without their own (band_edge only) */
+  thresholdPercent: number;
+  /** New cash to invest alongside the rebalance */
+  newCash: number;
+}
+
+export interface SleeveRebalanceTrade {
+  name: string;
+  action: 'buy' | 'sell' | 'hold';
+  /** Dollar value of the trade */
+  amount: number;
+  currentValue: number;
+  postTradeValue: number;
+  currentAllocation: number;
+  targetAllocation: number;
+  postTradeAllocation: number;
+  /** Post-trade allocation minus target, in percentage points */
+  postTradeDrift: number;
+}
+
+export interface SleeveRebalancePlan {
+  sleeves: SleeveRebalanceTrade[];
+  totalBuyValue: number;
+  totalSellValue: number;
+  /** New cash and sale proceeds left uninvested */
+  uninvestedCash: number;
+  /** Largest absolute drift before and after the trades, in percentage points */
+  maxDriftBefore: number;
+  maxDriftAfter: number;
+}
+
+/**
+ * Sleeves whose value would change by less than this many dollars are left alone
+ */
+const MIN_SLEEVE_TRADE = 1;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Spread a cash surplus over the sleeves below target, or a shortfall over the sleeves
+ * above target, in proportion to how far each is from its target value
+ */
+const distributeResidual = (values: number[], desired: number[], residual: number): number[] => {
+  const gaps = values.map((value, i) => residual > 0 ? Math.max(0, desired[i] - value) : Math.max(0, value - desired[i]));
+  const totalGap = sum(gaps);
+  if (totalGap <= 0) return values;
+  const moved = Math.min(Math.abs(residual), totalGap);
+  return values.map((value, i) => value + Math.sign(residual) * moved * (gaps[i] / totalGap));
+};
+
+/**
+ * Plan the dollar trades per sleeve that bring drift back within targets
+ *
+ * @param sleeves - Current and saved target weights per sleeve
+ * @param portfolioValue - Current value of the invested portfolio (excluding cash)
+ * @param options - Rebalance mode, tolerance band and new cash
+ */
+export function planSleeveRebalance(
+  sleeves: SleeveAllocation[],
+  portfolioValue: number,
+  options: SleeveRebalanceOptions
+): SleeveRebalancePlan {
+  const newCash = Math.max(0, options.newCash);
+  const totalAfter = portfolioValue + newCash;
+  const current = sleeves.map(sleeve => portfolioValue * (sleeve.currentAllocation / 100));
+  const desired = sleeves.map(sleeve => totalAfter * (sleeve.targetAllocation / 100));
+
+  let next: number[];
+  switch (options.mode) {
+    case 'band_edge': {
+      // Clamp each sleeve into its band, then net the buys and sells against each other
+      const clamped = current.map((value, i) => {
+        const band = totalAfter * ((sleeves[i].bandWidth ?? options.thresholdPercent) / 100);
+        return Math.min(Math.max(value, desired[i] - band), desired[i] + band);
+      });
+      next = distributeResidual(clamped, desired, totalAfter - sum(clamped));
+      break;
+    }
+    case 'cash_flow': {
+      // Fill the gaps to target first; anything left over follows the target weights
+      const gaps = current.map((value, i) => Math.max(0, desired[i] - value));
+      const totalGap = sum(gaps);
+      const totalTarget = sum(sleeves.map(sleeve => sleeve.targetAllocation));
+      const leftover = Math.max(0, newCash - totalGap);
+      next = current.map((value, i) => {
+        const gapShare = totalGap > 0 ? Math.min(newCash, totalGap) * (gaps[i] / totalGap) : 0;
+        const targetShare = totalTarget > 0 ? leftover * (sleeves[i].targetAllocation / totalTarget) : 0;
+        return value + gapShare + targetShare;
+      });
+      break;
+    }
+    default:
+      next = desired;
+  }
+
+  // Ignore sub-dollar changes left over from the arithmetic
+  next = next.map((value, i) => (Math.abs(value - current[i]) < MIN_SLEEVE_TRADE ? current[i] : value));
+
+  const investedAfter = sum(next);
+  const trades: SleeveRebalanceTrade[] = sleeves.map((sleeve, i) => {
+    const change = next[i] - current[i];
+    const postTradeAllocation = investedAfter > 0 ? (next[i] / investedAfter) * 100 : 0;
+    return {
+      name: sleeve.name,
+      action: change > 0 ? 'buy' : change < 0 ? 'sell' : 'hold',
+      amount: Math.abs(change),
+      currentValue: current[i],
+      postTradeValue: next[i],
+      currentAllocation: sleeve.currentAllocation,
+      targetAllocation: sleeve.targetAllocation,
+      postTradeAllocation,
+      postTradeDrift: postTradeAllocation - sleeve.targetAllocation,
+    };
+  });
+
+  const totalBuyValue = sum(trades.filter(t => t.action === 'buy').map(t => t.amount));
+  const totalSellValue = sum(trades.filter(t => t.action === 'sell').map(t => t.amount));
+
+  return {
+    sleeves: trades,
+    totalBuyValue,
+    totalSellValue,
+    uninvestedCash: Math.max(0, totalAfter - investedAfter),
+    maxDriftBefore: Math.max(0, ...sleeves.map(s => Math.abs(s.currentAllocation - s.targetAllocation))),
+    maxDriftAfter: Math.max(0, ...trades.map(t => Math.abs(t.postTradeDrift))),
+  };
+}
+
+/**
+ * A holding tagged with the sleeve it belongs to
+ */
+export interface SleeveHolding {
+  symbol: string;
+  sleeve: string;
+  /** Current market value */
+  value: number;
+}
+
+const normalizeSleeveName = (name: string) => name.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+/**
+ * Symbol target weights that carry out a sleeve plan, for generateRebalanceTrades
+ *
+ * Each holding is scaled by its sleeve's planned change, so a sleeve that is only bought
+ * never sells a holding. Sleeves with no current value are split across their holdings
+ * pro rata by market value. Holdings outside every planned sleeve keep their current value.
+ *
+ * @param plan - Sleeve plan from planSleeveRebalance
+ * @param holdings - Non-cash holdings tagged with their sleeve
+ * @param totalValue - Holdings plus cash (including new cash) the weights are relative to
+ * @returns Weights as decimals, plus the sleeves that need a buy but have no holdings to buy
+ */
+export function getSleevePlanTargetWeights(
+  plan: SleeveRebalancePlan,
+  holdings: SleeveHolding[],
+  totalValue: number
+): { targetWeights: Record<string, number>; unheldSleeves: string[] } {
+  const targetWeights: Record<string, number> = {};
+  const bySleeve = new Map(plan.sleeves.map(sleeve => [normalizeSleeveName(sleeve.name), sleeve]));
+  const sleeveValues: Record<string, number> = {};
+  holdings.forEach(holding => {
+    const key = normalizeSleeveName(holding.sleeve);
+    sleeveValues[key] = (sleeveValues[key] ?? 0) + holding.value;
+  });
+
+  if (totalValue <= 0) return { targetWeights, unheldSleeves: [] };
+
+  holdings.forEach(holding => {
+    const key = normalizeSleeveName(holding.sleeve);
+    const sleeve = bySleeve.get(key);
+    const symbol = holding.symbol.toUpperCase();
+    let value = holding.value;
+    if (sleeve && sleeve.currentValue > 0) {
+      value = holding.value * (sleeve.postTradeValue / sleeve.currentValue);
+    } else if (sleeve && sleeveValues[key] > 0) {
+      value = sleeve.postTradeValue * (holding.value / sleeveValues[key]);
+    }
+    targetWeights[symbol] = (targetWeights[symbol] ?? 0) + value / totalValue;
+  });
+
+  const unheldSleeves = plan.sleeves
+    .filter(sleeve => sleeve.action === 'buy' && !(sleeveValues[normalizeSleeveName(sleeve.name)] > 0))
+    .map(sleeve => sleeve.name);
+
+  return { targetWeights, unheldSleeves };
+}
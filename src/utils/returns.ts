@@ -0,0 +1,152 @@
+/**
+ * Portfolio return calculations that account for external cash flows
+ *
+ * - Time-weighted return (TWR) chain-links the sub-period returns between
+ *   valuations, removing the effect of deposits and withdrawals. It measures
+ *   how the investments performed.
+ * - Money-weighted return (MWR) is the internal rate of return of the
+ *   investor's flows. It measures how the investor's dollars performed.
+ */
+import { CashFlowEvent, PerformanceData } from '@/types/portfolio';
+
+export interface PeriodReturns {
+  /** Time-weighted return for the period as a decimal */
+  twr: number;
+  /** Money-weighted return for the period (not annualized) as a decimal, null if the IRR does not converge */
+  mwr: number | null;
+  /** Annualized internal rate of return as a decimal, null if it does not converge */
+  irr: number | null;
+  /** Sum of external flows in the period (positive = net contributions) */
+  netCashFlow: number;
+  /** Change in value excluding external flows */
+  investmentGain: number;
+}
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => new Date(date).getTime();
+
+/**
+ * Calculates the return of each sub-period between consecutive valuations, net of cash flows.
+ * Flows dated after one valuation and on or before the next are assumed to
+ * land at the end of that sub-period, i.e. they are included in the later valuation.
+ * @param valuations - Portfolio values over time
+ * @param cashFlows - External flows (positive = contribution)
+ * @returns One return per sub-period as a decimal, in date order
+ */
+export function calculateFlowAdjustedReturns(valuations: PerformanceData[], cashFlows: CashFlowEvent[]): number[] {
+  const points = [...valuations].sort((a, b) => toTime(a.date) - toTime(b.date));
+  if (points.length < 2) return [];
+
+  const flows = [...cashFlows].sort((a, b) => toTime(a.date) - toTime(b.date));
+  let flowIndex = 0;
+  // Skip flows at or before the first valuation - they are already in the starting value
+  while (flowIndex < flows.length && toTime(flows[flowIndex].date) <= toTime(points[0].date)) {
+    flowIndex++;
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const end = toTime(points[i].date);
+    let subPeriodFlow = 0;
+    while (flowIndex < flows.length && toTime(flows[flowIndex].date) <= end) {
+      subPeriodFlow += flows[flowIndex].amount;
+      flowIndex++;
+    }
+
+    const startValue = points[i - 1].value;
+    returns.push(startValue > 0 ? (points[i].value - subPeriodFlow) / startValue - 1 : 0);
+  }
+
+  return returns;
+}
+
+/**
+ * Calculates the time-weighted return by chain-linking the flow-adjusted sub-period returns
+ * @param valuations - Portfolio values over time
+ * @param cashFlows - External flows (positive = contribution)
+ * @returns The TWR as a decimal
+ */
+export function calculateTWR(valuations: PerformanceData[], cashFlows: CashFlowEvent[]): number {
+  return calculateFlowAdjustedReturns(valuations, cashFlows).reduce((growth, r) => growth * (1 + r), 1) - 1;
+}
+
+/**
+ * Calculates the annualized internal rate of return (XIRR) of a set of dated amounts.
+ * Uses Newton's method with a bisection fallback.
+ * @param amounts - Dated amounts from the investor's perspective (negative = money in)
+ * @returns The annualized rate as a decimal, or null if no rate solves the equation
+ */
+export function calculateXIRR(amounts: Array<{ date: string; amount: number }>): number | null {
+  if (amounts.length < 2) return null;
+  const t0 = Math.min(...amounts.map(a => toTime(a.date)));
+  const terms = amounts.map(a => ({ years: (toTime(a.date) - t0) / YEAR_MS, amount: a.amount }));
+
+  const npv = (rate: number) => terms.reduce((sum, t) => sum + t.amount / Math.pow(1 + rate, t.years), 0);
+  const derivative = (rate: number) =>
+    terms.reduce((sum, t) => sum - (t.years * t.amount) / Math.pow(1 + rate, t.years + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (slope === 0) break;
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -0.9999) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection over a wide bracket if Newton fails to converge
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid;
+    if (npv(low) * value < 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Calculates TWR and MWR for a period.
+ * @param valuations - Portfolio values over the period
+ * @param cashFlows - External flows (positive = contribution)
+ * @returns Period returns; all zero when there is not enough data
+ */
+export function calculatePeriodReturns(valuations: PerformanceData[], cashFlows: CashFlowEvent[]): PeriodReturns {
+  const points = [...valuations].sort((a, b) => toTime(a.date) - toTime(b.date));
+  if (points.length < 2) {
+    return { twr: 0, mwr: 0, irr: null, netCashFlow: 0, investmentGain: 0 };
+  }
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const periodFlows = cashFlows.filter(
+    flow => toTime(flow.date) > toTime(start.date) && toTime(flow.date) <= toTime(end.date)
+  );
+  const netCashFlow = periodFlows.reduce((sum, flow) => sum + flow.amount, 0);
+
+  // Investor's view: the starting value and contributions go in, the ending value comes out
+  const irr = calculateXIRR([
+    { date: start.date, amount: -start.value },
+    ...periodFlows.map(flow => ({ date: flow.date, amount: -flow.amount })),
+    { date: end.date, amount: end.value },
+  ]);
+  const years = (toTime(end.date) - toTime(start.date)) / YEAR_MS;
+
+  return {
+    twr: calculateTWR(points, periodFlows),
+    mwr: irr !== null ? Math.pow(1 + irr, years) - 1 : null,
+    irr,
+    netCashFlow,
+    investmentGain: end.value - start.value - netCashFlow,
+  };
+}
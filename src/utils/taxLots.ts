@@ -0,0 +1,155 @@
+/**
+ * Tax lot selection
+ * Chooses which lots to sell for a trade and estimates the realized gain and tax cost.
+ */
+import { TaxLot } from '@/types/tax';
+
+export type LotSelectionMethod = 'HIFO' | 'FIFO' | 'SPECIFIC_ID' | 'MIN_TAX';
+
+export const LOT_SELECTION_LABELS: Record<LotSelectionMethod, string> = {
+  HIFO: 'Highest cost first (HIFO)',
+  FIFO: 'First in, first out (FIFO)',
+  SPECIFIC_ID: 'Specific lots',
+  MIN_TAX: 'Minimum tax',
+};
+
+/**
+ * Capital gains rates as decimals (e.g. 0.15 for 15%)
+ */
+export interface CapitalGainsRates {
+  shortTerm: number;
+  longTerm: number;
+}
+
+/**
+ * Shares sold from a single lot
+ */
+export interface LotSale {
+  lotId: string;
+  shares: number;
+  costBasisPerShare: number;
+  purchaseDate: string;
+  isLongTerm: boolean;
+  realizedGain: number;
+  estimatedTax: number;
+}
+
+export interface LotSaleResult {
+  lots: LotSale[];
+  shortTermGain: number;
+  longTermGain: number;
+  realizedGain: number;
+  estimatedTax: number;
+  /** Shares that could not be matched to a lot (lot data incomplete) */
+  unmatchedShares: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A lot is long-term once it has been held for more than one year
+ */
+export function isLongTermLot(purchaseDate: string, asOf: Date = new Date()): boolean {
+  return (asOf.getTime() - new Date(purchaseDate).getTime()) / DAY_MS > 365;
+}
+
+/**
+ * Order lots by the selection method. Specific-ID lots come first in the order
+ * given, followed by the remaining lots in FIFO order to cover any shortfall.
+ */
+function orderLots(
+  lots: TaxLot[],
+  method: LotSelectionMethod,
+  price: number,
+  rates: CapitalGainsRates,
+  asOf: Date,
+  specificLotIds: string[]
+): TaxLot[] {
+  const byPurchaseDate = (a: TaxLot, b: TaxLot) =>
+    new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime();
+
+  switch (method) {
+    case 'HIFO':
+      return [...lots].sort((a, b) => b.costBasisPerShare - a.costBasisPerShare);
+    case 'MIN_TAX': {
+      // Lowest tax per share first, so losses (negative tax) are realized before gains
+      const taxPerShare = (lot: TaxLot) =>
+        (price - lot.costBasisPerShare) *
+        (isLongTermLot(lot.purchaseDate, asOf) ? rates.longTerm : rates.shortTerm);
+      return [...lots].sort((a, b) => taxPerShare(a) - taxPerShare(b));
+    }
+    case 'SPECIFIC_ID': {
+      const chosen = specificLotIds
+        .map(id => lots.find(lot => lot.lotId === id))
+        .filter((lot): lot is TaxLot => Boolean(lot));
+      const rest = lots.filter(lot => !specificLotIds.includes(lot.lotId)).sort(byPurchaseDate);
+      return [...chosen, ...rest];
+    }
+    case 'FIFO':
+    default:
+      return [...lots].sort(byPurchaseDate);
+  }
+}
+
+/**
+ * Select lots to cover a sale and estimate the realized gain and tax.
+ *
+ * @param lots - Open lots for the symbol being sold
+ * @param sharesToSell - Number of shares in the sell trade
+ * @param price - Expected sale price per share
+ * @param method - Lot selection method
+ * @param rates - Short- and long-term capital gains rates
+ * @param specificLotIds - Lot IDs to sell first when method is SPECIFIC_ID
+ * @param asOf - Sale date used to classify holding periods
+ */
+export function selectLotsForSale(
+  lots: TaxLot[],
+  sharesToSell: number,
+  price: number,
+  method: LotSelectionMethod,
+  rates: CapitalGainsRates,
+  specificLotIds: string[] = [],
+  asOf: Date = new Date()
+): LotSaleResult {
+  const result: LotSaleResult = {
+    lots: [],
+    shortTermGain: 0,
+    longTermGain: 0,
+    realizedGain: 0,
+    estimatedTax: 0,
+    unmatchedShares: 0,
+  };
+
+  let remaining = sharesToSell;
+  for (const lot of orderLots(lots, method, price, rates, asOf, specificLotIds)) {
+    if (remaining <= 0) break;
+    if (lot.quantity <= 0) continue;
+
+    const shares = Math.min(lot.quantity, remaining);
+    const isLongTerm = isLongTermLot(lot.purchaseDate, asOf);
+    const realizedGain = (price - lot.costBasisPerShare) * shares;
+    // Losses produce a negative tax, i.e. an estimated saving
+    const estimatedTax = realizedGain * (isLongTerm ? rates.longTerm : rates.shortTerm);
+
+    result.lots.push({
+      lotId: lot.lotId,
+      shares,
+      costBasisPerShare: lot.costBasisPerShare,
+      purchaseDate: lot.purchaseDate,
+      isLongTerm,
+      realizedGain,
+      estimatedTax,
+    });
+    if (isLongTerm) {
+      result.longTermGain += realizedGain;
+    } else {
+      result.shortTermGain += realizedGain;
+    }
+    result.realizedGain += realizedGain;
+    result.estimatedTax += estimatedTax;
+    remaining -= shares;
+  }
+
+  result.unmatchedShares = Math.max(0, remaining);
+  return result;
+}
@@ -0,0 +1,91 @@
+/**
+ * Per-sleeve tolerance band helpers
+ * Bands are saved with the target allocations and say how far a sleeve may drift
+ * from its target before it needs rebalancing.
+ */
+import { ToleranceBand, ToleranceBandType } from '@/types/portfolio';
+import { normalizeSectorName } from './sectorMapping';
+
+export const DEFAULT_TOLERANCE_BAND: ToleranceBand = { type: 'absolute', value: 5 };
+
+export const TOLERANCE_BAND_LABELS: Record<ToleranceBandType, string> = {
+  absolute: 'Absolute (± pts)',
+  relative: 'Relative (% of target)',
+  five_twenty_five: '5/25 rule',
+};
+
+// The 5/25 rule: 5 percentage points or 25% of the target, whichever is tighter
+const FIVE_TWENTY_FIVE_ABSOLUTE = 5;
+const FIVE_TWENTY_FIVE_RELATIVE = 25;
+
+/**
+ * Half-width of a band in percentage points for a given target weight
+ */
+export function getToleranceBandWidth(band: ToleranceBand, targetAllocation: number): number {
+  switch (band.type) {
+    case 'relative':
+      return Math.abs(targetAllocation) * (band.value / 100);
+    case 'five_twenty_five':
+      return Math.min(FIVE_TWENTY_FIVE_ABSOLUTE, Math.abs(targetAllocation) * (FIVE_TWENTY_FIVE_RELATIVE / 100));
+    case 'absolute':
+    default:
+      return band.value;
+  }
+}
+
+/**
+ * Whether an absolute drift (percentage points) falls outside the band
+ */
+export function isOutsideToleranceBand(absoluteDrift: number, targetAllocation: number, band: ToleranceBand): boolean {
+  return Math.abs(absoluteDrift) > getToleranceBandWidth(band, targetAllocation);
+}
+
+/**
+ * Short description of a band, e.g. "±5 pts", "±20% of target" or "5/25 rule"
+ */
+export function formatToleranceBand(band: ToleranceBand): string {
+  switch (band.type) {
+    case 'relative':
+      return `±${band.value}% of target`;
+    case 'five_twenty_five':
+      return '5/25 rule';
+    case 'absolute':
+    default:
+      return `±${band.value} pts`;
+  }
+}
+
+/**
+ * Band saved with a sector or asset class target, if any
+ * Reads both the snake_case fields and the camelCase ones the API conversion produces.
+ */
+export function getSavedToleranceBand(allocation: object): ToleranceBand | null {
+  const fields = allocation as {
+    band_type?: ToleranceBandType;
+    band_value?: number;
+    bandType?: ToleranceBandType;
+    bandValue?: number;
+  };
+  const type = fields.bandType ?? fields.band_type;
+  if (!type || !(type in TOLERANCE_BAND_LABELS)) return null;
+  return { type, value: Number(fields.bandValue ?? fields.band_value ?? 0) };
+}
+
+/**
+ * Saved bands keyed by normalized sleeve name, for looking up drift items
+ */
+export function buildToleranceBandMap(allocations: { name: string }[]): Record<string, ToleranceBand> {
+  const bands: Record<string, ToleranceBand> = {};
+  allocations.forEach(allocation => {
+    const band = getSavedToleranceBand(allocation);
+    if (band) bands[normalizeSectorName(allocation.name)] = band;
+  });
+  return bands;
+}
+
+/**
+ * Band for a drift item by name, if one is saved
+ */
+export function getSleeveToleranceBand(bands: Record<string, ToleranceBand>, name: string): ToleranceBand | null {
+  return bands[normalizeSectorName(name)] ?? null;
+}
@@ -0,0 +1,30 @@
+/**
+ * Monte Carlo Web Worker
+ * Runs portfolio simulations off the main thread. Each message carries a request
+ * id so the caller can discard results from superseded runs.
+ */
+import { runMonteCarlo, MonteCarloInput, MonteCarloOutput } from '@/utils/monteCarlo';
+
+export type MonteCarloWorkerRequest = {
+  id: number;
+  input: MonteCarloInput;
+};
+
+export type MonteCarloWorkerResponse =
+  | { id: number; type: 'result'; output: MonteCarloOutput }
+  | { id: number; type: 'error'; error: string };
+
+// The project compiles against the DOM lib, so type the worker scope explicitly
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<MonteCarloWorkerRequest>) => void) | null;
+  postMessage: (message: MonteCarloWorkerResponse) => void;
+};
+
+ctx.onmessage = (event) => {
+  const { id, input } = event.data;
+  try {
+    ctx.postMessage({ id, type: 'result', output: runMonteCarlo(input) });
+  } catch (error) {
+    ctx.postMessage({ id, type: 'error', error: error instanceof Error ? error.message : 'Simulation failed' });
+  }
+};